@@ -0,0 +1,159 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { useTenantStore } from '@/lib/store';
+import { Users, Lock, User, AlertTriangle } from 'lucide-react';
+
+function AcceptInvitation() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const { user, setSession } = useTenantStore();
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: ['invitation', token],
+    queryFn: () => api.getInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+
+  const invitation = data?.invitation;
+  // Already signed in as the invited address: one click to join
+  const signedInAsInvitee = !!user && !!invitation && user.email === invitation.email;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!invitation) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      let result;
+      if (signedInAsInvitee) {
+        result = await api.acceptInvitation(token);
+      } else if (invitation.hasAccount) {
+        await api.login(invitation.email, password);
+        result = await api.acceptInvitation(token);
+      } else {
+        result = await api.signup({
+          email: invitation.email,
+          password,
+          name: name || undefined,
+          invitationToken: token,
+        });
+      }
+
+      if (result.user) {
+        setSession(result.user);
+      }
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token || loadError) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-8 w-full max-w-md text-center">
+        <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <AlertTriangle className="w-6 h-6 text-red-600" />
+        </div>
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Invitation unavailable</h1>
+        <p className="text-sm text-gray-500 mb-4">
+          {loadError instanceof Error ? loadError.message : 'The invitation link is missing its token'}
+        </p>
+        <Link href="/auth" className="text-brand-600 hover:text-brand-700 font-medium">
+          Go to sign in →
+        </Link>
+      </div>
+    );
+  }
+
+  if (isLoading || !invitation) {
+    return <p className="text-gray-500">Loading invitation...</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-8 w-full max-w-md">
+      <div className="w-12 h-12 bg-brand-100 rounded-full flex items-center justify-center mb-4">
+        <Users className="w-6 h-6 text-brand-600" />
+      </div>
+      <h1 className="text-xl font-semibold text-gray-900 mb-2">Join {invitation.tenantName}</h1>
+      <p className="text-sm text-gray-500 mb-6">
+        <span className="font-medium text-gray-700">{invitation.email}</span> was invited as{' '}
+        <span className="font-medium text-gray-700">{invitation.role}</span>.
+        {!signedInAsInvitee && (invitation.hasAccount
+          ? ' Sign in to accept.'
+          : ' Choose a password to create your account.')}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {!signedInAsInvitee && !invitation.hasAccount && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Your Name</label>
+            <div className="relative">
+              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        )}
+
+        {!signedInAsInvitee && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={invitation.hasAccount ? undefined : 8}
+                className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full px-4 py-3 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Joining...' : 'Accept Invitation'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default function AcceptInvitationPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <Suspense fallback={<p className="text-gray-500">Loading...</p>}>
+        <AcceptInvitation />
+      </Suspense>
+    </div>
+  );
+}
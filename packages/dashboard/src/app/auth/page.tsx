@@ -3,14 +3,17 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTenantStore } from '@/lib/store';
+import { api } from '@/lib/api';
 import { Zap, Mail, Lock, ArrowRight, User } from 'lucide-react';
 import Link from 'next/link';
 
 export default function AuthPage() {
   const router = useRouter();
-  const { setTenantId } = useTenantStore();
-  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const { setSession } = useTenantStore();
+  const [mode, setMode] = useState<'login' | 'signup' | 'forgot'>('login');
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -20,16 +23,49 @@ export default function AuthPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
+    setError(null);
+    setMessage(null);
 
-    // For demo purposes, we'll generate a tenant ID from the email
-    // In production, this would call an actual auth API
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    try {
+      if (mode === 'forgot') {
+        const result = await api.forgotPassword(formData.email);
+        setMessage(result.message);
+        return;
+      }
 
-    const tenantId = formData.email.split('@')[0].toLowerCase().replace(/[^a-z0-9]/g, '-');
-    setTenantId(tenantId);
+      if (mode === 'signup') {
+        const result = await api.signup({
+          email: formData.email,
+          password: formData.password,
+          companyName: formData.companyName || undefined,
+        });
 
-    router.push('/dashboard');
-    setLoading(false);
+        if (!result.user) {
+          // New accounts sign in once their email is verified
+          setMessage(result.message || 'Check your email to finish creating your account');
+          setMode('login');
+          return;
+        }
+
+        setSession(result.user);
+        router.push('/dashboard');
+        return;
+      }
+
+      const result = await api.login(formData.email, formData.password);
+      setSession(result.user);
+      router.push('/dashboard');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const switchMode = (next: 'login' | 'signup' | 'forgot') => {
+    setMode(next);
+    setError(null);
+    setMessage(null);
   };
 
   return (
@@ -47,14 +83,27 @@ export default function AuthPage() {
 
           {/* Header */}
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
-            {mode === 'login' ? 'Welcome back' : 'Create your account'}
+            {mode === 'login' ? 'Welcome back' : mode === 'signup' ? 'Create your account' : 'Reset your password'}
           </h1>
           <p className="text-gray-500 mb-8">
             {mode === 'login'
               ? 'Sign in to access your MCP dashboard'
-              : 'Start connecting your AI agents to business tools'}
+              : mode === 'signup'
+                ? 'Start connecting your AI agents to business tools'
+                : "Enter your email and we'll send you a reset link"}
           </p>
 
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+          {message && (
+            <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+              {message}
+            </div>
+          )}
+
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             {mode === 'signup' && (
@@ -96,34 +145,40 @@ export default function AuthPage() {
               </div>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-                <input
-                  type="password"
-                  value={formData.password}
-                  onChange={(e) =>
-                    setFormData({ ...formData, password: e.target.value })
-                  }
-                  placeholder="••••••••"
-                  required
-                  className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
-                />
+            {mode !== 'forgot' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                  <input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) =>
+                      setFormData({ ...formData, password: e.target.value })
+                    }
+                    placeholder="••••••••"
+                    required
+                    minLength={mode === 'signup' ? 8 : undefined}
+                    className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  />
+                </div>
+                {mode === 'signup' && (
+                  <p className="text-xs text-gray-400 mt-2">At least 8 characters</p>
+                )}
               </div>
-            </div>
+            )}
 
             {mode === 'login' && (
-              <div className="flex items-center justify-between text-sm">
-                <label className="flex items-center gap-2">
-                  <input type="checkbox" className="w-4 h-4 text-brand-600 rounded" />
-                  <span className="text-gray-600">Remember me</span>
-                </label>
-                <a href="#" className="text-brand-600 hover:text-brand-700">
+              <div className="flex items-center justify-end text-sm">
+                <button
+                  type="button"
+                  onClick={() => switchMode('forgot')}
+                  className="text-brand-600 hover:text-brand-700"
+                >
                   Forgot password?
-                </a>
+                </button>
               </div>
             )}
 
@@ -136,7 +191,7 @@ export default function AuthPage() {
                 'Loading...'
               ) : (
                 <>
-                  {mode === 'login' ? 'Sign In' : 'Create Account'}
+                  {mode === 'login' ? 'Sign In' : mode === 'signup' ? 'Create Account' : 'Send Reset Link'}
                   <ArrowRight className="w-5 h-5" />
                 </>
               )}
@@ -149,7 +204,7 @@ export default function AuthPage() {
               <>
                 Don't have an account?{' '}
                 <button
-                  onClick={() => setMode('signup')}
+                  onClick={() => switchMode('signup')}
                   className="text-brand-600 hover:text-brand-700 font-medium"
                 >
                   Sign up
@@ -157,9 +212,9 @@ export default function AuthPage() {
               </>
             ) : (
               <>
-                Already have an account?{' '}
+                {mode === 'forgot' ? 'Remembered it?' : 'Already have an account?'}{' '}
                 <button
-                  onClick={() => setMode('login')}
+                  onClick={() => switchMode('login')}
                   className="text-brand-600 hover:text-brand-700 font-medium"
                 >
                   Sign in
@@ -167,15 +222,6 @@ export default function AuthPage() {
               </>
             )}
           </p>
-
-          {/* Demo Mode */}
-          <div className="mt-8 p-4 bg-gray-100 rounded-lg">
-            <p className="text-sm text-gray-600 text-center">
-              <strong>Demo Mode:</strong> Enter any email to get started.
-              <br />
-              Your tenant ID will be generated from your email.
-            </p>
-          </div>
         </div>
       </div>
 
@@ -0,0 +1,105 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { Lock, Check } from 'lucide-react';
+
+function ResetPassword() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await api.resetPassword(token || '', password);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset password');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (done) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-8 w-full max-w-md text-center">
+        <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Check className="w-6 h-6 text-green-600" />
+        </div>
+        <h1 className="text-xl font-semibold text-gray-900 mb-2">Password updated</h1>
+        <Link href="/auth" className="text-brand-600 hover:text-brand-700 font-medium">
+          Sign in →
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-8 w-full max-w-md">
+      <h1 className="text-xl font-semibold text-gray-900 mb-6">Choose a new password</h1>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {[
+          { label: 'New Password', value: password, onChange: setPassword },
+          { label: 'Confirm Password', value: confirmPassword, onChange: setConfirmPassword },
+        ].map((field) => (
+          <div key={field.label}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {field.label}
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+              <input
+                type="password"
+                value={field.value}
+                onChange={(e) => field.onChange(e.target.value)}
+                required
+                minLength={8}
+                className="w-full pl-10 pr-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+        ))}
+
+        <button
+          type="submit"
+          disabled={loading || !token}
+          className="w-full px-4 py-3 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Saving...' : 'Update Password'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <Suspense fallback={<p className="text-gray-500">Loading...</p>}>
+        <ResetPassword />
+      </Suspense>
+    </div>
+  );
+}
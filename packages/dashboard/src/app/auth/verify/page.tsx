@@ -0,0 +1,75 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { api } from '@/lib/api';
+import { Check, AlertTriangle } from 'lucide-react';
+
+function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use; don't redeem twice in development's double effects
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setError('Verification link is missing its token');
+      return;
+    }
+
+    api.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setStatus('failed');
+        setError(err instanceof Error ? err.message : 'Verification failed');
+      });
+  }, [token]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-8 w-full max-w-md text-center">
+      {status === 'verifying' && <p className="text-gray-500">Verifying your email...</p>}
+
+      {status === 'verified' && (
+        <>
+          <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Check className="w-6 h-6 text-green-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Email verified</h1>
+          <Link href="/dashboard" className="text-brand-600 hover:text-brand-700 font-medium">
+            Go to dashboard →
+          </Link>
+        </>
+      )}
+
+      {status === 'failed' && (
+        <>
+          <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <AlertTriangle className="w-6 h-6 text-red-600" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Couldn&apos;t verify your email</h1>
+          <p className="text-sm text-gray-500 mb-4">{error}</p>
+          <Link href="/dashboard" className="text-brand-600 hover:text-brand-700 font-medium">
+            Request a new link from the dashboard →
+          </Link>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-8">
+      <Suspense fallback={<p className="text-gray-500">Loading...</p>}>
+        <VerifyEmail />
+      </Suspense>
+    </div>
+  );
+}
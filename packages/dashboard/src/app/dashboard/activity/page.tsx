@@ -0,0 +1,221 @@
+'use client';
+
+import { useState } from 'react';
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query';
+import { api, ActivityFilters } from '@/lib/api';
+import { useTenantStore } from '@/lib/store';
+import {
+  History,
+  Download,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+
+const STATUS_STYLES: Record<string, string> = {
+  success: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  call: 'API',
+  mcp: 'MCP',
+  route: 'Route',
+  job: 'Job',
+};
+
+export default function ActivityPage() {
+  const { tenantId } = useTenantStore();
+  const [actionFilter, setActionFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [sourceFilter, setSourceFilter] = useState('');
+  const [requestIdFilter, setRequestIdFilter] = useState('');
+  const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+
+  const filters: ActivityFilters = {
+    action: actionFilter.trim() || undefined,
+    status: statusFilter || undefined,
+    source: sourceFilter || undefined,
+    requestId: requestIdFilter.trim() || undefined,
+  };
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['activity', tenantId, filters],
+    queryFn: ({ pageParam }) => api.listActivity(tenantId!, filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!tenantId,
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: () => api.exportActivity(tenantId!, filters),
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `activity-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+
+  const entries = data?.pages.flatMap((page) => page.activity) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Activity</h1>
+          <p className="text-gray-500 mt-1">
+            Every tool call made with your API keys, MCP and the dashboard
+          </p>
+        </div>
+        <button
+          onClick={() => exportMutation.mutate()}
+          disabled={exportMutation.isPending}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-gray-200 bg-white text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          {exportMutation.isPending ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      {exportMutation.error && (
+        <p className="text-sm text-red-600">{exportMutation.error.message}</p>
+      )}
+
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex flex-wrap items-center gap-2">
+          <input
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value)}
+            placeholder="Tool name"
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm font-mono"
+          />
+          <input
+            value={requestIdFilter}
+            onChange={(e) => setRequestIdFilter(e.target.value)}
+            placeholder="Request ID"
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm font-mono"
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="success">Success</option>
+            <option value="error">Error</option>
+          </select>
+          <select
+            value={sourceFilter}
+            onChange={(e) => setSourceFilter(e.target.value)}
+            className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+          >
+            <option value="">All sources</option>
+            {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : error ? (
+          <div className="p-8 text-center text-red-600">{(error as Error).message}</div>
+        ) : entries.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {entries.map((entry) => {
+              const expanded = expandedEntry === entry.id;
+              return (
+                <div key={entry.id}>
+                  <button
+                    onClick={() => setExpandedEntry(expanded ? null : entry.id)}
+                    className="w-full p-4 flex items-center justify-between gap-4 text-left hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      {expanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                      <span className="font-mono text-sm text-gray-900">{entry.action}</span>
+                      {entry.integrationId && (
+                        <span className="text-xs text-gray-400">{entry.integrationId}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-xs text-gray-500">
+                      {entry.source && <span>{SOURCE_LABELS[entry.source] || entry.source}</span>}
+                      {entry.duration !== null && <span>{entry.duration}ms</span>}
+                      <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                    </div>
+                  </button>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      {entry.error && (
+                        <p className="text-sm text-red-600">{entry.error}</p>
+                      )}
+                      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-gray-500">
+                        {entry.requestId && (
+                          <span>Request <span className="font-mono">{entry.requestId}</span></span>
+                        )}
+                        {entry.apiKeyId && (
+                          <span>API key <span className="font-mono">{entry.apiKeyId}</span></span>
+                        )}
+                        {entry.userId && (
+                          <span>User <span className="font-mono">{entry.userId}</span></span>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Parameters</p>
+                        <pre className="bg-gray-900 text-green-400 rounded-lg p-3 text-xs overflow-auto max-h-64">
+                          {JSON.stringify(entry.input, null, 2)}
+                        </pre>
+                      </div>
+                      {entry.output && (
+                        <div>
+                          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Result</p>
+                          <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs overflow-auto max-h-40">
+                            {JSON.stringify(entry.output, null, 2)}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="p-12 text-center">
+            <History className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No activity yet</p>
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="p-4 border-t border-gray-200 text-center">
+            <button
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="px-4 py-2 text-sm font-medium text-brand-600 hover:text-brand-700 disabled:opacity-50"
+            >
+              {isFetchingNextPage ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAdminStore } from '@/lib/store';
 import { api } from '@/lib/api';
 import {
   Search,
@@ -71,6 +72,7 @@ interface Integration {
   maskedCredentials: Record<string, string> | null;
   markupPercent: number;
   basePricePerUnit?: number;
+  rateLimitPerMinute?: number | null;
   isActive: boolean;
   updatedAt?: string;
 }
@@ -380,7 +382,13 @@ function IntegrationRow({
   const [credentials, setCredentials] = useState<Record<string, string>>({});
   const [showCredentials, setShowCredentials] = useState<Record<string, boolean>>({});
   const [markupPercent, setMarkupPercent] = useState(integration.markupPercent || 0);
+  const [rateLimitPerMinute, setRateLimitPerMinute] = useState<string>(
+    integration.rateLimitPerMinute ? String(integration.rateLimitPerMinute) : ''
+  );
   const [hasChanges, setHasChanges] = useState(false);
+  const role = useAdminStore((state) => state.admin?.role);
+  const canEdit = role === 'OWNER';
+  const canViewAudit = role === 'OWNER' || role === 'SUPPORT';
 
   const handleSave = () => {
     const data: any = { mode };
@@ -393,6 +401,9 @@ function IntegrationRow({
       data.markupPercent = markupPercent;
     }
 
+    // Empty clears the per-tenant cap
+    data.rateLimitPerMinute = rateLimitPerMinute ? Number(rateLimitPerMinute) : null;
+
     onUpdate(data);
     setHasChanges(false);
     setCredentials({});
@@ -573,6 +584,34 @@ function IntegrationRow({
             </div>
           )}
 
+          {/* Rate Limit */}
+          {mode !== 'DISABLED' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                <Zap className="w-4 h-4 inline mr-1" />
+                Rate Limit per Tenant
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="1"
+                  placeholder="None"
+                  value={rateLimitPerMinute}
+                  disabled={!canEdit}
+                  onChange={(e) => {
+                    setRateLimitPerMinute(e.target.value);
+                    setHasChanges(true);
+                  }}
+                  className="w-24 px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 disabled:bg-gray-50"
+                />
+                <span className="text-gray-500">units / minute</span>
+                <span className="text-sm text-gray-500 ml-4">
+                  (Leave empty to use only the plan limit)
+                </span>
+              </div>
+            </div>
+          )}
+
           {/* Docs Link */}
           {integration.docsUrl && (
             <a
@@ -586,6 +625,8 @@ function IntegrationRow({
             </a>
           )}
 
+          {canViewAudit && <AuditTrail integrationId={integration.id} />}
+
           {/* Actions */}
           <div className="flex items-center justify-between pt-4 border-t border-gray-200">
             <div className="text-sm text-gray-500">
@@ -594,7 +635,10 @@ function IntegrationRow({
               )}
             </div>
             <div className="flex gap-2">
-              {hasChanges && (
+              {!canEdit && (
+                <span className="text-sm text-gray-500">Read-only: only owners can change integrations</span>
+              )}
+              {canEdit && hasChanges && (
                 <button
                   onClick={handleSave}
                   disabled={isUpdating}
@@ -612,6 +656,36 @@ function IntegrationRow({
   );
 }
 
+function AuditTrail({ integrationId }: { integrationId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['adminIntegrationAudit', integrationId],
+    queryFn: () => api.getAdminIntegrationAudit(integrationId),
+  });
+
+  const entries = data?.entries || [];
+
+  return (
+    <div className="p-4 bg-white rounded-lg border border-gray-200">
+      <div className="text-sm font-medium text-gray-700 mb-2">Change History</div>
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-gray-500">No changes recorded</div>
+      ) : (
+        <ul className="space-y-1">
+          {entries.slice(0, 10).map((entry) => (
+            <li key={entry.id} className="text-xs text-gray-600">
+              <span className="text-gray-400">{new Date(entry.createdAt).toLocaleString()}</span>{' '}
+              <span className="font-medium">{entry.adminEmail}</span> changed{' '}
+              <span className="font-mono">{entry.field}</span>: {entry.oldValue ?? '—'} → {entry.newValue ?? '—'}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function IntegrationCard({
   integration,
   onToggle,
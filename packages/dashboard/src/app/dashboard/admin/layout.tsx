@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useAdminStore } from '@/lib/store';
+import { Shield, LogOut, Loader2 } from 'lucide-react';
+
+const ROLE_LABELS = {
+  OWNER: 'Owner',
+  BILLING_VIEWER: 'Billing Viewer',
+  SUPPORT: 'Support',
+} as const;
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const queryClient = useQueryClient();
+  const { adminKey, admin, setAdmin, clearAdmin } = useAdminStore();
+  const [keyInput, setKeyInput] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the API client in sync with the persisted admin key
+  api.setAdminKey(adminKey);
+
+  useEffect(() => {
+    if (!adminKey) return;
+
+    // Re-validate the stored key; drop it if it was revoked
+    api.getAdminMe(adminKey).then(
+      (res) => setAdmin(adminKey, res.admin),
+      () => clearAdmin()
+    );
+  }, [adminKey, setAdmin, clearAdmin]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    setError(null);
+
+    try {
+      const key = keyInput.trim();
+      const res = await api.getAdminMe(key);
+      setAdmin(key, res.admin);
+      setKeyInput('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    clearAdmin();
+    api.setAdminKey(null);
+    queryClient.removeQueries({ predicate: (q) => String(q.queryKey[0]).startsWith('admin') });
+  };
+
+  if (!adminKey || !admin) {
+    return (
+      <div className="max-w-md mx-auto mt-16 bg-white rounded-xl border border-gray-200 p-6">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-10 h-10 bg-brand-100 rounded-lg flex items-center justify-center">
+            <Shield className="w-5 h-5 text-brand-600" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-gray-900">Platform Admin</h2>
+            <p className="text-sm text-gray-500">Sign in with your admin key</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSignIn} className="space-y-4">
+          <input
+            type="password"
+            value={keyInput}
+            onChange={(e) => setKeyInput(e.target.value)}
+            placeholder="bm_admin_..."
+            className="w-full px-4 py-2 border border-gray-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-brand-500"
+          />
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+          <button
+            type="submit"
+            disabled={!keyInput.trim() || signingIn}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            {signingIn && <Loader2 className="w-4 h-4 animate-spin" />}
+            Sign In
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end gap-3 text-sm text-gray-500">
+        <Shield className="w-4 h-4" />
+        <span>
+          {admin.email} · {ROLE_LABELS[admin.role]}
+        </span>
+        <button
+          onClick={handleSignOut}
+          className="flex items-center gap-1 text-gray-500 hover:text-gray-900"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+      {children}
+    </div>
+  );
+}
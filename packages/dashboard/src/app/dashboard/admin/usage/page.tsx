@@ -141,7 +141,14 @@ export default function AdminUsagePage() {
                         {row.callCount.toLocaleString()}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-gray-900">
-                        {row.totalUnits.toLocaleString()}
+                        {Object.entries(row.units)
+                          .filter(([unitType]) => unitType !== 'call')
+                          .map(([unitType, units]) => (
+                            <div key={unitType} className="text-sm">
+                              {Math.round(units).toLocaleString()}{' '}
+                              <span className="text-gray-500">{unitType.replace(/_/g, ' ')}</span>
+                            </div>
+                          ))}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-gray-900">
                         ${row.totalCost.toFixed(2)}
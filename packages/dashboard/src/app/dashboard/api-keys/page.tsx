@@ -25,6 +25,8 @@ export default function ApiKeysPage() {
   const [newKey, setNewKey] = useState<string | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
   const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
+  const [accessMode, setAccessMode] = useState<'full' | 'custom'>('full');
+  const [selectedScopes, setSelectedScopes] = useState<Set<string>>(new Set());
 
   const { data: apiKeys, isLoading } = useQuery({
     queryKey: ['apiKeys', tenantId],
@@ -32,8 +34,21 @@ export default function ApiKeysPage() {
     enabled: !!tenantId,
   });
 
+  const { data: scopeData } = useQuery({
+    queryKey: ['scopes', tenantId],
+    queryFn: () => api.getScopes(tenantId!),
+    enabled: !!tenantId && showCreateModal,
+  });
+
+  // Integrations grouped by category for the scope picker
+  const integrationsByCategory = (scopeData?.integrations || []).reduce((acc, integration) => {
+    if (!acc[integration.category]) acc[integration.category] = [];
+    acc[integration.category].push(integration);
+    return acc;
+  }, {} as Record<string, Array<{ id: string; name: string }>>);
+
   const createMutation = useMutation({
-    mutationFn: (name: string) => api.createApiKey(tenantId!, name),
+    mutationFn: (data: { name: string; scopes: string[] }) => api.createApiKey(tenantId!, data),
     onSuccess: (data) => {
       setNewKey(data.key);
       queryClient.invalidateQueries({ queryKey: ['apiKeys', tenantId] });
@@ -49,7 +64,18 @@ export default function ApiKeysPage() {
 
   const handleCreateKey = () => {
     if (!newKeyName.trim()) return;
-    createMutation.mutate(newKeyName);
+    const scopes = accessMode === 'full' ? ['*'] : Array.from(selectedScopes);
+    createMutation.mutate({ name: newKeyName, scopes });
+  };
+
+  const toggleScope = (scope: string) => {
+    const next = new Set(selectedScopes);
+    if (next.has(scope)) {
+      next.delete(scope);
+    } else {
+      next.add(scope);
+    }
+    setSelectedScopes(next);
   };
 
   const handleCopyKey = (key: string) => {
@@ -88,6 +114,8 @@ export default function ApiKeysPage() {
             setShowCreateModal(true);
             setNewKeyName('');
             setNewKey(null);
+            setAccessMode('full');
+            setSelectedScopes(new Set());
           }}
           className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
         >
@@ -119,7 +147,7 @@ export default function ApiKeysPage() {
           <div className="p-8 text-center text-gray-500">Loading...</div>
         ) : apiKeys?.keys?.length > 0 ? (
           <div className="divide-y divide-gray-100">
-            {apiKeys.keys.map((key: { id: string; name: string; key: string; createdAt: string; lastUsed?: string }) => (
+            {apiKeys.keys.map((key: { id: string; name: string; key: string; scopes?: string[]; createdAt: string; lastUsed?: string }) => (
               <div
                 key={key.id}
                 className={`p-4 flex items-center justify-between hover:bg-gray-50 transition-colors ${
@@ -151,6 +179,11 @@ export default function ApiKeysPage() {
                       Created {new Date(key.createdAt).toLocaleDateString()}
                       {key.lastUsed && ` • Last used ${new Date(key.lastUsed).toLocaleDateString()}`}
                     </p>
+                    {key.scopes && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        Scopes: {key.scopes.includes('*') ? 'Full access' : key.scopes.join(', ')}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -212,7 +245,7 @@ export default function ApiKeysPage() {
       {/* Create Key Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl p-6 w-full max-w-md m-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-2xl m-4 max-h-[90vh] overflow-auto">
             {newKey ? (
               <>
                 <div className="text-center mb-6">
@@ -286,6 +319,58 @@ export default function ApiKeysPage() {
                   </p>
                 </div>
 
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Access
+                  </label>
+                  <div className="flex gap-2 mb-3">
+                    {(['full', 'custom'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setAccessMode(mode)}
+                        className={`flex-1 px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                          accessMode === mode
+                            ? 'border-brand-500 bg-brand-50 text-brand-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {mode === 'full' ? 'Full access' : 'Choose per integration'}
+                      </button>
+                    ))}
+                  </div>
+
+                  {accessMode === 'custom' && (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-auto">
+                      {Object.entries(integrationsByCategory).map(([category, integrations]) => (
+                        <div key={category} className="p-3">
+                          <p className="text-xs font-semibold text-gray-500 uppercase mb-2">{category}</p>
+                          {integrations.map((integration) => (
+                            <div key={integration.id} className="flex items-center justify-between py-1">
+                              <span className="text-sm text-gray-700">{integration.name}</span>
+                              <div className="flex gap-4">
+                                {(['read', 'write'] as const).map((access) => {
+                                  const scope = `${integration.id}:${access}`;
+                                  return (
+                                    <label key={access} className="flex items-center gap-1 text-xs text-gray-600">
+                                      <input
+                                        type="checkbox"
+                                        checked={selectedScopes.has(scope)}
+                                        onChange={() => toggleScope(scope)}
+                                        className="rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                                      />
+                                      {access === 'read' ? 'Read' : 'Write'}
+                                    </label>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <div className="flex gap-3">
                   <button
                     onClick={() => setShowCreateModal(false)}
@@ -295,7 +380,11 @@ export default function ApiKeysPage() {
                   </button>
                   <button
                     onClick={handleCreateKey}
-                    disabled={!newKeyName.trim() || createMutation.isPending}
+                    disabled={
+                      !newKeyName.trim() ||
+                      createMutation.isPending ||
+                      (accessMode === 'custom' && selectedScopes.size === 0)
+                    }
                     className="flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {createMutation.isPending ? 'Creating...' : 'Create Key'}
@@ -382,9 +382,9 @@ function AvailableCard({
   integration: Integration;
   onConnect: () => void;
 }) {
-  const serverUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3050';
+  const [connectError, setConnectError] = useState<string | null>(null);
 
-  const handleConnect = () => {
+  const handleConnect = async () => {
     if (integration.mode === 'INCLUDED') {
       // Included integrations work automatically - no connection needed
       return;
@@ -393,7 +393,14 @@ function AvailableCard({
     if (integration.authType === 'oauth2') {
       // OAuth - redirect to auth flow
       const tenantId = useTenantStore.getState().tenantId;
-      window.location.href = `${serverUrl}/integrations/${integration.id}/connect/${tenantId}`;
+      if (!tenantId) return;
+      setConnectError(null);
+      try {
+        const { authUrl } = await api.startIntegrationConnect(integration.id, tenantId, window.location.pathname);
+        window.location.href = authUrl;
+      } catch (err) {
+        setConnectError(err instanceof Error ? err.message : 'Failed to start connection');
+      }
     } else {
       // API key - show modal
       onConnect();
@@ -453,6 +460,7 @@ function AvailableCard({
           Connect
         </button>
       )}
+      {connectError && <p className="mt-2 text-xs text-red-600">{connectError}</p>}
     </div>
   );
 }
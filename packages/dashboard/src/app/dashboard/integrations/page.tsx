@@ -158,6 +158,8 @@ function IntegrationCard({
   isConnected: boolean;
   tenantId: string | null;
 }) {
+  const [connectError, setConnectError] = useState<string | null>(null);
+
   const getStatusBadge = () => {
     if (isConnected) {
       return (
@@ -178,13 +180,18 @@ function IntegrationCard({
     return null;
   };
 
-  const handleConnect = () => {
+  const handleConnect = async () => {
     if (!tenantId) return;
     if (integration.status !== 'available') return;
 
     // Redirect to OAuth flow
-    const serverUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3050';
-    window.location.href = `${serverUrl}/integrations/${integration.id}/connect/${tenantId}`;
+    setConnectError(null);
+    try {
+      const { authUrl } = await api.startIntegrationConnect(integration.id, tenantId, window.location.pathname);
+      window.location.href = authUrl;
+    } catch (err) {
+      setConnectError(err instanceof Error ? err.message : 'Failed to start connection');
+    }
   };
 
   return (
@@ -267,6 +274,7 @@ function IntegrationCard({
           </a>
         )}
       </div>
+      {connectError && <p className="mt-2 text-xs text-red-600">{connectError}</p>}
     </div>
   );
 }
@@ -1,11 +1,13 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Header } from '@/components/layout/header';
 import { useTenantStore } from '@/lib/store';
-import { generateTenantId } from '@/lib/utils';
+import { api } from '@/lib/api';
+import { AlertTriangle } from 'lucide-react';
 
 export default function DashboardLayout({
   children,
@@ -13,21 +15,64 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   const router = useRouter();
-  const { tenantId, setTenant } = useTenantStore();
+  const { user, setSession, clearTenant } = useTenantStore();
+  const [verificationMessage, setVerificationMessage] = useState<string | null>(null);
+
+  // The session cookie is the source of truth; the stored tenant is only a cache
+  const { data, error } = useQuery({
+    queryKey: ['me'],
+    queryFn: () => api.getMe(),
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (data?.user) {
+      setSession(data.user);
+    }
+  }, [data, setSession]);
 
   useEffect(() => {
-    // Auto-create tenant if not exists (for demo purposes)
-    if (!tenantId) {
-      const newTenantId = generateTenantId();
-      setTenant(newTenantId, 'My Organization');
+    if (error) {
+      clearTenant();
+      router.replace('/auth');
+    }
+  }, [error, clearTenant, router]);
+
+  if (!data?.user) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-gray-50 text-gray-500">
+        Loading...
+      </div>
+    );
+  }
+
+  const handleResendVerification = async () => {
+    try {
+      const result = await api.resendVerification();
+      setVerificationMessage(result.message);
+    } catch (err) {
+      setVerificationMessage(err instanceof Error ? err.message : 'Failed to send email');
     }
-  }, [tenantId, setTenant]);
+  };
 
   return (
     <div className="flex h-screen bg-gray-50">
       <Sidebar />
       <div className="flex-1 flex flex-col overflow-hidden">
         <Header />
+        {user && !user.emailVerified && (
+          <div className="bg-yellow-50 border-b border-yellow-200 px-6 py-2 flex items-center gap-2 text-sm text-yellow-800">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Please verify {user.email}.</span>
+            {verificationMessage ? (
+              <span className="text-yellow-700">{verificationMessage}</span>
+            ) : (
+              <button onClick={handleResendVerification} className="font-medium underline">
+                Resend verification email
+              </button>
+            )}
+          </div>
+        )}
         <main className="flex-1 overflow-auto p-6">{children}</main>
       </div>
     </div>
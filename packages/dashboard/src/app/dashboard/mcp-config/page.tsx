@@ -37,8 +37,7 @@ export default function McpConfigPage() {
   const serverUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3050';
   const apiKey = selectedApiKey || apiKeys?.keys?.[0]?.key || 'YOUR_API_KEY';
 
-  const mcpUrl = `${serverUrl}`;
-  const mcpUrlWithAuth = `${serverUrl}?api_key=${apiKey}`;
+  const mcpUrl = `${serverUrl}/mcp`;
 
   const handleCopy = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
@@ -46,15 +45,24 @@ export default function McpConfigPage() {
     setTimeout(() => setCopied(null), 2000);
   };
 
+  // Claude Desktop only speaks stdio, so mcp-remote bridges it to our HTTP endpoint
   const claudeDesktopConfig = {
     mcpServers: {
       botmakers: {
         command: 'npx',
-        args: ['-y', '@anthropic-ai/claude-code-mcp'],
-        env: {
-          MCP_SERVER_URL: serverUrl,
-          API_KEY: apiKey,
-          TENANT_ID: tenantId || 'YOUR_TENANT_ID',
+        args: ['-y', 'mcp-remote', mcpUrl, '--header', `Authorization: Bearer ${apiKey}`],
+      },
+    },
+  };
+
+  // Clients with native Streamable HTTP support connect directly
+  const remoteMcpConfig = {
+    mcpServers: {
+      botmakers: {
+        type: 'http',
+        url: mcpUrl,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
         },
       },
     },
@@ -146,7 +154,7 @@ console.log(data);`;
         </h2>
         <div className="space-y-4">
           <div>
-            <label className="block text-sm text-gray-600 mb-2">Server URL</label>
+            <label className="block text-sm text-gray-600 mb-2">MCP Endpoint (Streamable HTTP)</label>
             <div className="flex gap-2">
               <code className="flex-1 px-4 py-3 bg-gray-900 text-green-400 rounded-lg font-mono text-sm">
                 {mcpUrl}
@@ -230,6 +238,33 @@ console.log(data);`;
         </div>
       </div>
 
+      {/* Direct HTTP Config */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">
+          <Link2 className="w-5 h-5 inline-block mr-2 text-brand-600" />
+          Direct Connection (Streamable HTTP)
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">
+          For MCP clients that support remote servers natively. The tenant is taken from your API key.
+          Legacy SSE clients can use <code className="text-brand-600">{`${mcpUrl}/sse`}</code> instead.
+        </p>
+        <div className="relative">
+          <pre className="p-4 bg-gray-900 text-green-400 rounded-lg font-mono text-sm overflow-x-auto">
+            {JSON.stringify(remoteMcpConfig, null, 2)}
+          </pre>
+          <button
+            onClick={() => handleCopy(JSON.stringify(remoteMcpConfig, null, 2), 'remote')}
+            className="absolute top-3 right-3 p-2 bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+          >
+            {copied === 'remote' ? (
+              <Check className="w-4 h-4 text-green-400" />
+            ) : (
+              <Copy className="w-4 h-4 text-gray-400" />
+            )}
+          </button>
+        </div>
+      </div>
+
       {/* Code Examples */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">
@@ -328,6 +363,16 @@ console.log(data);`;
                 <td className="py-3 px-4 font-mono text-gray-600">/call</td>
                 <td className="py-3 px-4 text-gray-500">Execute a tool</td>
               </tr>
+              <tr>
+                <td className="py-3 px-4"><code className="text-blue-600">POST</code></td>
+                <td className="py-3 px-4 font-mono text-gray-600">/mcp</td>
+                <td className="py-3 px-4 text-gray-500">MCP JSON-RPC endpoint (initialize, tools/list, tools/call)</td>
+              </tr>
+              <tr>
+                <td className="py-3 px-4"><code className="text-green-600">GET</code></td>
+                <td className="py-3 px-4 font-mono text-gray-600">/mcp/sse</td>
+                <td className="py-3 px-4 text-gray-500">Legacy MCP SSE transport</td>
+              </tr>
               <tr>
                 <td className="py-3 px-4"><code className="text-green-600">GET</code></td>
                 <td className="py-3 px-4 font-mono text-gray-600">/auth/status/:tenantId</td>
@@ -1,10 +1,12 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueries, useQueryClient } from '@tanstack/react-query';
+import { api, type SyncKind, type BackgroundJob } from '@/lib/api';
 import { useTenantStore } from '@/lib/store';
 import { integrations, getAvailableIntegrations } from '@/lib/integrations';
 import { formatNumber } from '@/lib/utils';
+import { can } from '@/lib/permissions';
 import {
   Puzzle,
   Link2,
@@ -13,11 +15,12 @@ import {
   ArrowRight,
   CheckCircle,
   AlertCircle,
+  RefreshCw,
 } from 'lucide-react';
 import Link from 'next/link';
 
 export default function DashboardPage() {
-  const { tenantId } = useTenantStore();
+  const { tenantId, user } = useTenantStore();
 
   const { data: authStatus } = useQuery({
     queryKey: ['authStatus', tenantId],
@@ -28,7 +31,7 @@ export default function DashboardPage() {
   const { data: billing } = useQuery({
     queryKey: ['billing', tenantId],
     queryFn: () => api.getBilling(tenantId!),
-    enabled: !!tenantId,
+    enabled: !!tenantId && can(user?.role, 'billing:view'),
   });
 
   const { data: apiKeys } = useQuery({
@@ -95,6 +98,7 @@ export default function DashboardPage() {
                 <p className="font-medium text-green-900">Email Connected</p>
                 <p className="text-sm text-green-700">{authStatus.email}</p>
                 <p className="text-xs text-green-600 mt-1">Provider: {authStatus.provider}</p>
+                {tenantId && can(user?.role, 'tenant:write') && <SyncPanel tenantId={tenantId} />}
               </div>
             </div>
           ) : (
@@ -163,6 +167,95 @@ export default function DashboardPage() {
   );
 }
 
+const SYNC_KINDS: Array<{ kind: SyncKind; label: string }> = [
+  { kind: 'folders', label: 'Folders' },
+  { kind: 'emails', label: 'Emails' },
+  { kind: 'contacts', label: 'Contacts' },
+  { kind: 'calendar', label: 'Calendar' },
+];
+
+// Syncs run as background jobs; poll each one until it finishes
+function SyncPanel({ tenantId }: { tenantId: string }) {
+  const [jobIds, setJobIds] = useState<Partial<Record<SyncKind, string>>>({});
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: syncStatus } = useQuery({
+    queryKey: ['syncStatus', tenantId],
+    queryFn: () => api.getSyncStatus(tenantId),
+  });
+
+  const jobs = useQueries({
+    queries: SYNC_KINDS.map(({ kind }) => ({
+      queryKey: ['job', tenantId, jobIds[kind]],
+      queryFn: () => api.getJob(tenantId, jobIds[kind]!),
+      enabled: !!jobIds[kind],
+      refetchInterval: (query: { state: { data?: { job: BackgroundJob } } }) => {
+        const status = query.state.data?.job.status;
+        return status === 'pending' || status === 'running' ? 2000 : false;
+      },
+    })),
+  });
+
+  const busy = jobs.some(q => q.data && ['pending', 'running'].includes(q.data.job.status));
+
+  // Pick up the new last-sync time once the jobs finish
+  useEffect(() => {
+    if (!busy) queryClient.invalidateQueries({ queryKey: ['syncStatus', tenantId] });
+  }, [busy, queryClient, tenantId]);
+
+  const startSync = async () => {
+    setStarting(true);
+    setError(null);
+    try {
+      const started = await Promise.all(
+        SYNC_KINDS.map(({ kind }) => api.startSync(tenantId, kind).then(r => [kind, r.job.id] as const))
+      );
+      setJobIds(Object.fromEntries(started));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start sync');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={startSync}
+        disabled={starting || busy}
+        className="inline-flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700 disabled:opacity-50"
+      >
+        <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+        {busy ? 'Syncing...' : 'Sync folders, contacts & calendar'}
+      </button>
+      {syncStatus?.lastSyncAt && (
+        <p className="text-xs text-gray-500 mt-1">
+          Last synced {new Date(syncStatus.lastSyncAt).toLocaleString()}
+          {syncStatus.nextSyncAt && ` · next automatic sync ${new Date(syncStatus.nextSyncAt).toLocaleTimeString()}`}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+      {Object.keys(jobIds).length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {SYNC_KINDS.map(({ kind, label }, i) => {
+            const job = jobs[i].data?.job;
+            if (!job) return null;
+            return (
+              <li key={kind} className="text-xs text-green-700">
+                {label}: {job.status}
+                {job.status === 'pending' && job.attempts > 0 && ` (retry ${job.attempts}/${job.maxAttempts})`}
+                {job.error && job.status !== 'succeeded' && <span className="text-red-600"> — {job.error}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 function StatCard({
   icon: Icon,
   label,
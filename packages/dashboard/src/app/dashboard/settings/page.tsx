@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { useTenantStore } from '@/lib/store';
+import { api } from '@/lib/api';
 import {
   User,
   Building,
@@ -14,8 +15,22 @@ import {
 } from 'lucide-react';
 
 export default function SettingsPage() {
-  const { tenantId, setTenantId } = useTenantStore();
+  const { tenantId } = useTenantStore();
   const [saved, setSaved] = useState(false);
+  const [showPasswordForm, setShowPasswordForm] = useState(false);
+  const [passwords, setPasswords] = useState({ current: '', next: '' });
+  const [passwordMessage, setPasswordMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const handleChangePassword = async () => {
+    try {
+      const result = await api.changePassword(passwords.current, passwords.next);
+      setPasswordMessage({ ok: true, text: result.message });
+      setPasswords({ current: '', next: '' });
+      setShowPasswordForm(false);
+    } catch (err) {
+      setPasswordMessage({ ok: false, text: err instanceof Error ? err.message : 'Failed to change password' });
+    }
+  };
   const [settings, setSettings] = useState({
     companyName: '',
     email: '',
@@ -62,9 +77,8 @@ export default function SettingsPage() {
             <input
               type="text"
               value={tenantId || ''}
-              onChange={(e) => setTenantId(e.target.value)}
-              placeholder="Enter your tenant ID"
-              className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              readOnly
+              className="w-full px-4 py-2 border border-gray-200 rounded-lg bg-gray-50 font-mono text-gray-600"
             />
             <p className="text-xs text-gray-400 mt-2">
               This ID is used to identify your account across all integrations
@@ -216,6 +230,59 @@ export default function SettingsPage() {
             </a>
           </div>
 
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Shield className="w-5 h-5 text-gray-600" />
+                <div>
+                  <p className="font-medium text-gray-900">Password</p>
+                  <p className="text-sm text-gray-500">Changing it signs out your other sessions</p>
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  setShowPasswordForm(!showPasswordForm);
+                  setPasswordMessage(null);
+                }}
+                className="px-4 py-2 text-sm text-brand-600 hover:text-brand-700 font-medium"
+              >
+                {showPasswordForm ? 'Cancel' : 'Change →'}
+              </button>
+            </div>
+
+            {showPasswordForm && (
+              <div className="mt-4 grid grid-cols-2 gap-3">
+                <input
+                  type="password"
+                  value={passwords.current}
+                  onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                  placeholder="Current password"
+                  className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                />
+                <input
+                  type="password"
+                  value={passwords.next}
+                  onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+                  placeholder="New password (8+ characters)"
+                  className="px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleChangePassword}
+                  disabled={!passwords.current || passwords.next.length < 8}
+                  className="col-span-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Update Password
+                </button>
+              </div>
+            )}
+
+            {passwordMessage && (
+              <p className={`mt-3 text-sm ${passwordMessage.ok ? 'text-green-600' : 'text-red-600'}`}>
+                {passwordMessage.text}
+              </p>
+            )}
+          </div>
+
           <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
             <div className="flex items-center gap-3">
               <Shield className="w-5 h-5 text-gray-600" />
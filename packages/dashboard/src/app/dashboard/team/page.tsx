@@ -0,0 +1,345 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, TenantRole } from '@/lib/api';
+import { useTenantStore } from '@/lib/store';
+import { can, ROLE_DESCRIPTIONS } from '@/lib/permissions';
+import { Users, UserPlus, Mail, Trash2, Send, LogOut, AlertTriangle } from 'lucide-react';
+
+const ROLES: TenantRole[] = ['owner', 'admin', 'developer', 'viewer'];
+
+const ROLE_STYLES: Record<TenantRole, string> = {
+  owner: 'bg-purple-100 text-purple-700',
+  admin: 'bg-blue-100 text-blue-700',
+  developer: 'bg-green-100 text-green-700',
+  viewer: 'bg-gray-100 text-gray-600',
+};
+
+export default function TeamPage() {
+  const router = useRouter();
+  const { tenantId, user, clearTenant } = useTenantStore();
+  const queryClient = useQueryClient();
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<TenantRole>('developer');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canManage = can(user?.role, 'members:manage');
+  // Admins can't grant or change ownership
+  const assignableRoles = user?.role === 'owner' ? ROLES : ROLES.filter((r) => r !== 'owner');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['members', tenantId],
+    queryFn: () => api.listMembers(tenantId!),
+    enabled: !!tenantId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['members', tenantId] });
+  };
+
+  const onError = (err: Error) => {
+    setNotice(null);
+    setError(err.message);
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: (body: { email: string; role: TenantRole }) => api.inviteMember(tenantId!, body),
+    onSuccess: (result) => {
+      setShowInviteModal(false);
+      setError(null);
+      setNotice(result.emailSent ? `Invitation sent to ${inviteEmail}` : result.hint || 'Invitation created, but the email could not be sent');
+      invalidate();
+    },
+    onError,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: (invitationId: string) => api.resendInvitation(tenantId!, invitationId),
+    onSuccess: (result) => {
+      setError(null);
+      setNotice(result.emailSent ? 'Invitation resent' : result.hint || 'The email could not be sent');
+      invalidate();
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (invitationId: string) => api.revokeInvitation(tenantId!, invitationId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ membershipId, role }: { membershipId: string; role: TenantRole }) =>
+      api.updateMemberRole(tenantId!, membershipId, role),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (membershipId: string) => api.removeMember(tenantId!, membershipId),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (membershipId: string) => api.removeMember(tenantId!, membershipId),
+    onSuccess: () => {
+      // The session belonged to the team we just left
+      clearTenant();
+      router.push('/auth');
+    },
+    onError,
+  });
+
+  const openInviteModal = () => {
+    setShowInviteModal(true);
+    setInviteEmail('');
+    setInviteRole('developer');
+    inviteMutation.reset();
+  };
+
+  const members = data?.members || [];
+  const invitations = data?.invitations || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Team</h1>
+          <p className="text-gray-500 mt-1">
+            People who can sign in to {user?.tenant.name || 'this organization'}
+          </p>
+        </div>
+        {canManage && (
+          <button
+            onClick={openInviteModal}
+            className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
+          >
+            <UserPlus className="w-4 h-4" />
+            Invite Member
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      {notice && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
+          {notice}
+        </div>
+      )}
+
+      {/* Members */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Members</h2>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {members.map((member) => {
+              const canEdit = canManage && !member.isYou && (user?.role === 'owner' || member.role !== 'owner');
+
+              return (
+                <div key={member.id} className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
+                  <div className="flex items-center gap-4 min-w-0">
+                    <div className="w-10 h-10 rounded-full bg-brand-100 flex items-center justify-center text-brand-700 font-medium flex-shrink-0">
+                      {(member.name || member.email).charAt(0).toUpperCase()}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">
+                        {member.name || member.email}
+                        {member.isYou && <span className="text-gray-400 font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-sm text-gray-500 truncate">{member.email}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {canEdit ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => roleMutation.mutate({ membershipId: member.id, role: e.target.value as TenantRole })}
+                        className="px-2 py-1 border border-gray-200 rounded text-sm"
+                      >
+                        {assignableRoles.map((role) => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className={`px-2 py-1 text-xs font-medium rounded ${ROLE_STYLES[member.role]}`}>
+                        {member.role}
+                      </span>
+                    )}
+                    {member.isYou ? (
+                      <button
+                        onClick={() => {
+                          if (confirm('Leave this team? You will lose access to it.')) {
+                            leaveMutation.mutate(member.id);
+                          }
+                        }}
+                        title="Leave team"
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <LogOut className="w-4 h-4" />
+                      </button>
+                    ) : canEdit && (
+                      <button
+                        onClick={() => {
+                          if (confirm(`Remove ${member.email} from the team?`)) {
+                            removeMutation.mutate(member.id);
+                          }
+                        }}
+                        title="Remove member"
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="font-semibold text-gray-900">Pending Invitations</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="p-4 flex items-center justify-between">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Mail className="w-5 h-5 text-gray-600" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{invitation.email}</p>
+                    <p className="text-xs text-gray-500">
+                      {invitation.invitedBy && `Invited by ${invitation.invitedBy} · `}
+                      Expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <span className={`px-2 py-1 text-xs font-medium rounded ${ROLE_STYLES[invitation.role]}`}>
+                    {invitation.role}
+                  </span>
+                  {canManage && (
+                    <>
+                      <button
+                        onClick={() => resendMutation.mutate(invitation.id)}
+                        disabled={resendMutation.isPending}
+                        title="Resend invitation"
+                        className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => revokeMutation.mutate(invitation.id)}
+                        title="Revoke invitation"
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Roles */}
+      <div className="bg-white rounded-xl border border-gray-200 p-4">
+        <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          Roles
+        </h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+          {ROLES.map((role) => (
+            <div key={role} className="flex items-start gap-2">
+              <dt className={`px-2 py-0.5 text-xs font-medium rounded ${ROLE_STYLES[role]}`}>{role}</dt>
+              <dd className="text-gray-500">{ROLE_DESCRIPTIONS[role]}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      {/* Invite Modal */}
+      {showInviteModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 w-full max-w-md m-4">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Invite Member</h2>
+
+            {inviteMutation.error && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {inviteMutation.error.message}
+              </div>
+            )}
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="teammate@company.com"
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as TenantRole)}
+                  className="w-full px-4 py-2 border border-gray-200 rounded-lg"
+                >
+                  {assignableRoles.map((role) => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setShowInviteModal(false)}
+                className="flex-1 px-4 py-2 border border-gray-200 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => inviteMutation.mutate({ email: inviteEmail.trim(), role: inviteRole })}
+                disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                className="flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors disabled:opacity-50"
+              >
+                {inviteMutation.isPending ? 'Sending...' : 'Send Invitation'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,8 +12,18 @@ import {
   AlertTriangle,
   ArrowUpRight,
   CreditCard,
+  FileText,
+  ExternalLink,
 } from 'lucide-react';
 
+const INVOICE_STATUS_STYLES: Record<string, string> = {
+  draft: 'bg-gray-100 text-gray-600',
+  open: 'bg-blue-100 text-blue-700',
+  paid: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  void: 'bg-gray-100 text-gray-400',
+};
+
 export default function UsagePage() {
   const { tenantId } = useTenantStore();
 
@@ -29,6 +39,12 @@ export default function UsagePage() {
     enabled: !!tenantId,
   });
 
+  const { data: invoicesData } = useQuery({
+    queryKey: ['invoices', tenantId],
+    queryFn: () => api.getInvoices(tenantId!),
+    enabled: !!tenantId,
+  });
+
   const isLoading = usageLoading || billingLoading;
 
   const usagePercent = billing ? (billing.usage / billing.limit) * 100 : 0;
@@ -128,7 +144,13 @@ export default function UsagePage() {
         {isOverLimit && (
           <div className="mt-3 flex items-center gap-2 text-red-600">
             <AlertTriangle className="w-4 h-4" />
-            <span className="text-sm">You've exceeded your usage limit. Upgrade to continue.</span>
+            <span className="text-sm">
+              {billing?.overageBehavior === 'bill'
+                ? `You've exceeded your usage limit. ${formatNumber(billing.overage)} extra calls will be billed ($${billing.overageCost.toFixed(2)} so far).`
+                : billing?.gracePercent
+                ? `You've exceeded your usage limit. Calls will be blocked after a ${billing.gracePercent}% grace allowance. Upgrade to continue.`
+                : "You've exceeded your usage limit. Upgrade to continue."}
+            </span>
           </div>
         )}
       </div>
@@ -189,6 +211,60 @@ export default function UsagePage() {
         </div>
       )}
 
+      {/* Invoices */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Invoices</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            Issued after each month closes: plan fee, overage and included integration usage
+          </p>
+        </div>
+        {invoicesData?.invoices && invoicesData.invoices.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {invoicesData.invoices.map((invoice) => (
+              <div key={invoice.id} className="p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <span className="font-medium text-gray-900">{invoice.period}</span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded ${INVOICE_STATUS_STYLES[invoice.status]}`}>
+                      {invoice.status}
+                    </span>
+                    <span className="text-xs text-gray-400 capitalize">{invoice.plan} plan</span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="font-semibold text-gray-900">${invoice.total.toFixed(2)}</span>
+                    {invoice.hostedUrl && (
+                      <a
+                        href={invoice.hostedUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-brand-600 hover:text-brand-700"
+                      >
+                        {invoice.status === 'paid' ? 'View' : 'Pay'}
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {invoice.lines.map((line, i) => (
+                    <li key={i} className="flex items-center justify-between text-sm text-gray-500">
+                      <span>{line.description}</span>
+                      <span>${line.amount.toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-12 text-center">
+            <FileText className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No invoices yet</p>
+          </div>
+        )}
+      </div>
+
       {/* Pricing Plans */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
         <h2 className="font-semibold text-gray-900 mb-6">Upgrade Your Plan</h2>
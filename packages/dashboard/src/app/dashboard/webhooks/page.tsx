@@ -0,0 +1,502 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api } from '@/lib/api';
+import { useTenantStore } from '@/lib/store';
+import {
+  Webhook,
+  Plus,
+  Copy,
+  Check,
+  Trash2,
+  Send,
+  RotateCcw,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+
+const STATUS_STYLES: Record<string, string> = {
+  succeeded: 'bg-green-100 text-green-700',
+  pending: 'bg-yellow-100 text-yellow-700',
+  dead: 'bg-red-100 text-red-700',
+};
+
+export default function WebhooksPage() {
+  const { tenantId } = useTenantStore();
+  const queryClient = useQueryClient();
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [newUrl, setNewUrl] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [allEvents, setAllEvents] = useState(true);
+  const [selectedEvents, setSelectedEvents] = useState<Set<string>>(new Set());
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [endpointFilter, setEndpointFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null);
+
+  const { data: endpointData, isLoading } = useQuery({
+    queryKey: ['webhookEndpoints', tenantId],
+    queryFn: () => api.listWebhookEndpoints(tenantId!),
+    enabled: !!tenantId,
+  });
+
+  const { data: eventTypeData } = useQuery({
+    queryKey: ['webhookEventTypes', tenantId],
+    queryFn: () => api.getWebhookEventTypes(tenantId!),
+    enabled: !!tenantId,
+  });
+
+  const { data: deliveryData, isLoading: deliveriesLoading } = useQuery({
+    queryKey: ['webhookDeliveries', tenantId, endpointFilter, statusFilter],
+    queryFn: () => api.listWebhookDeliveries(tenantId!, {
+      endpointId: endpointFilter || undefined,
+      status: statusFilter || undefined,
+    }),
+    enabled: !!tenantId,
+    refetchInterval: 15000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['webhookEndpoints', tenantId] });
+    queryClient.invalidateQueries({ queryKey: ['webhookDeliveries', tenantId] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (data: { url: string; description?: string; eventTypes: string[] }) =>
+      api.createWebhookEndpoint(tenantId!, data),
+    onSuccess: (data) => {
+      setNewSecret(data.secret);
+      invalidate();
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ endpointId, isActive }: { endpointId: string; isActive: boolean }) =>
+      api.updateWebhookEndpoint(tenantId!, endpointId, { isActive }),
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (endpointId: string) => api.deleteWebhookEndpoint(tenantId!, endpointId),
+    onSuccess: invalidate,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (endpointId: string) => api.testWebhookEndpoint(tenantId!, endpointId),
+    onSuccess: invalidate,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (deliveryId: string) => api.retryWebhookDelivery(tenantId!, deliveryId),
+    onSuccess: invalidate,
+  });
+
+  const openCreateModal = () => {
+    setShowCreateModal(true);
+    setNewUrl('');
+    setNewDescription('');
+    setAllEvents(true);
+    setSelectedEvents(new Set());
+    setNewSecret(null);
+    createMutation.reset();
+  };
+
+  const handleCreate = () => {
+    if (!newUrl.trim()) return;
+    createMutation.mutate({
+      url: newUrl.trim(),
+      description: newDescription.trim() || undefined,
+      eventTypes: allEvents ? [] : Array.from(selectedEvents),
+    });
+  };
+
+  const toggleEvent = (type: string) => {
+    const next = new Set(selectedEvents);
+    if (next.has(type)) {
+      next.delete(type);
+    } else {
+      next.add(type);
+    }
+    setSelectedEvents(next);
+  };
+
+  const handleCopySecret = (secret: string) => {
+    navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const endpoints = endpointData?.endpoints || [];
+  const deliveries = deliveryData?.deliveries || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-500 mt-1">
+            Get notified when emails, contacts, calendars and connections change
+          </p>
+        </div>
+        <button
+          onClick={openCreateModal}
+          className="flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Endpoint
+        </button>
+      </div>
+
+      {/* Endpoints */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="font-semibold text-gray-900">Endpoints</h2>
+          <p className="text-sm text-gray-500">
+            Deliveries are signed with your endpoint secret in the{' '}
+            <code className="text-xs">{eventTypeData?.signatureHeader || 'X-BotMakers-Signature'}</code> header
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : endpoints.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
+                    <Webhook className="w-5 h-5 text-gray-600" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 font-mono text-sm truncate">{endpoint.url}</p>
+                    {endpoint.description && (
+                      <p className="text-sm text-gray-500">{endpoint.description}</p>
+                    )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      Events: {endpoint.eventTypes.length === 0 ? 'All events' : endpoint.eventTypes.join(', ')}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => toggleMutation.mutate({ endpointId: endpoint.id, isActive: !endpoint.isActive })}
+                    className={`px-2 py-1 text-xs font-medium rounded ${
+                      endpoint.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'
+                    }`}
+                  >
+                    {endpoint.isActive ? 'Active' : 'Disabled'}
+                  </button>
+                  <button
+                    onClick={() => testMutation.mutate(endpoint.id)}
+                    disabled={!endpoint.isActive || testMutation.isPending}
+                    title="Send test event"
+                    className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('Delete this endpoint and its delivery log?')) {
+                        deleteMutation.mutate(endpoint.id);
+                      }
+                    }}
+                    className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="p-12 text-center">
+            <Webhook className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">No Endpoints</h3>
+            <p className="text-gray-500 mb-6">
+              Add an endpoint to receive events as they happen
+            </p>
+            <button
+              onClick={openCreateModal}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg text-sm font-medium hover:bg-brand-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Your First Endpoint
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Delivery Log */}
+      <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold text-gray-900">Delivery Log</h2>
+            <p className="text-sm text-gray-500">
+              Failed deliveries are retried with backoff, then marked dead
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={endpointFilter}
+              onChange={(e) => setEndpointFilter(e.target.value)}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+            >
+              <option value="">All endpoints</option>
+              {endpoints.map((endpoint) => (
+                <option key={endpoint.id} value={endpoint.id}>{endpoint.url}</option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="px-3 py-1.5 border border-gray-200 rounded-lg text-sm"
+            >
+              <option value="">All statuses</option>
+              <option value="succeeded">Succeeded</option>
+              <option value="pending">Pending</option>
+              <option value="dead">Dead</option>
+            </select>
+          </div>
+        </div>
+
+        {deliveriesLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : deliveries.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {deliveries.map((delivery) => {
+              const expanded = expandedDelivery === delivery.id;
+              return (
+                <div key={delivery.id}>
+                  <div className="p-4 flex items-center justify-between hover:bg-gray-50 transition-colors">
+                    <button
+                      onClick={() => setExpandedDelivery(expanded ? null : delivery.id)}
+                      className="flex items-center gap-3 text-left min-w-0"
+                    >
+                      {expanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      <span className="font-mono text-sm text-gray-900">{delivery.eventType}</span>
+                      <span className="text-xs text-gray-400 truncate">{delivery.endpointUrl}</span>
+                    </button>
+                    <div className="flex items-center gap-4 flex-shrink-0 text-xs text-gray-500">
+                      {delivery.responseStatus && <span>HTTP {delivery.responseStatus}</span>}
+                      <span>{delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}</span>
+                      <span>{new Date(delivery.createdAt).toLocaleString()}</span>
+                      {delivery.status !== 'pending' && (
+                        <button
+                          onClick={() => retryMutation.mutate(delivery.id)}
+                          disabled={retryMutation.isPending}
+                          title="Redeliver"
+                          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 space-y-3">
+                      {delivery.error && (
+                        <p className="text-sm text-red-600">{delivery.error}</p>
+                      )}
+                      {delivery.status === 'pending' && delivery.nextAttemptAt && (
+                        <p className="text-xs text-gray-500">
+                          Next attempt {new Date(delivery.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
+                      <div>
+                        <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Payload</p>
+                        <pre className="bg-gray-900 text-green-400 rounded-lg p-3 text-xs overflow-auto max-h-64">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </div>
+                      {delivery.responseBody && (
+                        <div>
+                          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">Response</p>
+                          <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs overflow-auto max-h-40">
+                            {delivery.responseBody}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="p-8 text-center text-gray-500">No deliveries yet</div>
+        )}
+      </div>
+
+      {/* Create Endpoint Modal */}
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl p-6 w-full max-w-2xl m-4 max-h-[90vh] overflow-auto">
+            {newSecret ? (
+              <>
+                <div className="text-center mb-6">
+                  <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <Check className="w-6 h-6 text-green-600" />
+                  </div>
+                  <h2 className="text-xl font-semibold text-gray-900">Endpoint Created</h2>
+                  <p className="text-sm text-gray-500 mt-2">
+                    Copy your signing secret now. You won't be able to see it again!
+                  </p>
+                </div>
+
+                <div className="bg-gray-900 rounded-lg p-4 mb-6">
+                  <code className="text-green-400 font-mono text-sm break-all">
+                    {newSecret}
+                  </code>
+                </div>
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleCopySecret(newSecret)}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors"
+                  >
+                    {copied ? (
+                      <>
+                        <Check className="w-4 h-4" />
+                        Copied!
+                      </>
+                    ) : (
+                      <>
+                        <Copy className="w-4 h-4" />
+                        Copy Secret
+                      </>
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setShowCreateModal(false);
+                      setNewSecret(null);
+                    }}
+                    className="px-4 py-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Done
+                  </button>
+                </div>
+
+                <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-yellow-600 mt-0.5" />
+                  <p className="text-xs text-yellow-700">
+                    Verify each delivery by recomputing the HMAC-SHA256 of &quot;t.body&quot; with this secret.
+                  </p>
+                </div>
+              </>
+            ) : (
+              <>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Add Webhook Endpoint</h2>
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Endpoint URL
+                  </label>
+                  <input
+                    type="url"
+                    value={newUrl}
+                    onChange={(e) => setNewUrl(e.target.value)}
+                    placeholder="https://example.com/webhooks/botmakers"
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                    placeholder="e.g., CRM sync, Production"
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="mb-6">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Events
+                  </label>
+                  <div className="flex gap-2 mb-3">
+                    {[true, false].map((all) => (
+                      <button
+                        key={String(all)}
+                        onClick={() => setAllEvents(all)}
+                        className={`flex-1 px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                          allEvents === all
+                            ? 'border-brand-500 bg-brand-50 text-brand-700'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        }`}
+                      >
+                        {all ? 'All events' : 'Choose events'}
+                      </button>
+                    ))}
+                  </div>
+
+                  {!allEvents && (
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-auto">
+                      {(eventTypeData?.eventTypes || []).map((eventType) => (
+                        <label key={eventType.type} className="flex items-start gap-3 p-3 cursor-pointer hover:bg-gray-50">
+                          <input
+                            type="checkbox"
+                            checked={selectedEvents.has(eventType.type)}
+                            onChange={() => toggleEvent(eventType.type)}
+                            className="mt-0.5 rounded border-gray-300 text-brand-600 focus:ring-brand-500"
+                          />
+                          <div>
+                            <p className="font-mono text-sm text-gray-900">{eventType.type}</p>
+                            <p className="text-xs text-gray-500">{eventType.description}</p>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {createMutation.isError && (
+                  <p className="text-sm text-red-600 mb-4">
+                    {createMutation.error instanceof Error ? createMutation.error.message : 'Failed to create endpoint'}
+                  </p>
+                )}
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setShowCreateModal(false)}
+                    className="flex-1 px-4 py-2 border border-gray-200 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleCreate}
+                    disabled={
+                      !newUrl.trim() ||
+                      createMutation.isPending ||
+                      (!allEvents && selectedEvents.size === 0)
+                    }
+                    className="flex-1 px-4 py-2 bg-brand-600 text-white rounded-lg font-medium hover:bg-brand-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {createMutation.isPending ? 'Creating...' : 'Add Endpoint'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,19 +3,14 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useTenantStore } from '@/lib/store';
-import { generateTenantId } from '@/lib/utils';
 import { Puzzle, ArrowRight, Zap, Shield, Globe } from 'lucide-react';
 
 export default function HomePage() {
   const router = useRouter();
-  const { tenantId, setTenant } = useTenantStore();
+  const { tenantId } = useTenantStore();
 
   const handleGetStarted = () => {
-    if (!tenantId) {
-      const newTenantId = generateTenantId();
-      setTenant(newTenantId, 'My Organization');
-    }
-    router.push('/dashboard');
+    router.push(tenantId ? '/dashboard' : '/auth');
   };
 
   return (
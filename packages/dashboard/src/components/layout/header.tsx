@@ -1,10 +1,29 @@
 'use client';
 
-import { Bell, Search } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Bell, Search, LogOut } from 'lucide-react';
 import { useTenantStore } from '@/lib/store';
+import { api } from '@/lib/api';
 
 export function Header() {
-  const { tenantId } = useTenantStore();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { tenantId, user, setSession, clearTenant } = useTenantStore();
+
+  const handleSwitchTenant = async (nextTenantId: string) => {
+    const result = await api.switchTenant(nextTenantId);
+    setSession(result.user);
+    // Everything cached belongs to the previous team
+    queryClient.invalidateQueries();
+    router.push('/dashboard');
+  };
+
+  const handleSignOut = async () => {
+    await api.logout().catch(() => {});
+    clearTenant();
+    router.push('/auth');
+  };
 
   return (
     <header className="h-16 bg-white border-b border-gray-200 flex items-center justify-between px-6">
@@ -22,6 +41,20 @@ export function Header() {
 
       {/* Right side */}
       <div className="flex items-center gap-4">
+        {user && user.tenants.length > 1 && (
+          <select
+            value={user.tenant.id}
+            onChange={(e) => handleSwitchTenant(e.target.value).catch(() => {})}
+            title="Switch team"
+            className="px-3 py-2 border border-gray-200 rounded-lg text-sm text-gray-700"
+          >
+            {user.tenants.map((tenant) => (
+              <option key={tenant.id} value={tenant.id}>
+                {tenant.name} ({tenant.role})
+              </option>
+            ))}
+          </select>
+        )}
         {tenantId && (
           <div className="text-sm text-gray-500">
             Tenant: <span className="font-mono text-gray-700">{tenantId.slice(0, 12)}...</span>
@@ -31,6 +64,18 @@ export function Header() {
           <Bell className="w-5 h-5" />
           <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
         </button>
+        {user && (
+          <div className="flex items-center gap-2 pl-4 border-l border-gray-200">
+            <span className="text-sm text-gray-700">{user.email}</span>
+            <button
+              onClick={handleSignOut}
+              title="Sign out"
+              className="p-2 text-gray-400 hover:text-gray-600"
+            >
+              <LogOut className="w-5 h-5" />
+            </button>
+          </div>
+        )}
       </div>
     </header>
   );
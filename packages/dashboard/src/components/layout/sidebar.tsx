@@ -14,15 +14,24 @@ import {
   Shield,
   Zap,
   FileCode,
+  Webhook,
+  Users,
+  History,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useTenantStore } from '@/lib/store';
+import { can, Permission } from '@/lib/permissions';
 
-const navigation = [
+// Items with a permission are hidden from roles that lack it
+const navigation: Array<{ name: string; href: string; icon: typeof Puzzle; permission?: Permission }> = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
-  { name: 'My Connections', href: '/dashboard/connections', icon: Link2 },
+  { name: 'My Connections', href: '/dashboard/connections', icon: Link2, permission: 'connections:manage' },
   { name: 'Tools', href: '/dashboard/tools', icon: Wrench },
-  { name: 'API Keys', href: '/dashboard/api-keys', icon: Key },
-  { name: 'Usage', href: '/dashboard/usage', icon: BarChart3 },
+  { name: 'API Keys', href: '/dashboard/api-keys', icon: Key, permission: 'api_keys:manage' },
+  { name: 'Activity', href: '/dashboard/activity', icon: History },
+  { name: 'Usage', href: '/dashboard/usage', icon: BarChart3, permission: 'billing:view' },
+  { name: 'Webhooks', href: '/dashboard/webhooks', icon: Webhook, permission: 'webhooks:manage' },
+  { name: 'Team', href: '/dashboard/team', icon: Users },
   { name: 'MCP Config', href: '/dashboard/mcp-config', icon: Book },
   { name: 'SDK & Docs', href: '/dashboard/docs', icon: FileCode },
   { name: 'Settings', href: '/dashboard/settings', icon: Settings },
@@ -35,6 +44,7 @@ const adminNavigation = [
 
 export function Sidebar() {
   const pathname = usePathname();
+  const { user, tenantName } = useTenantStore();
 
   return (
     <div className="flex h-full w-64 flex-col bg-gray-900">
@@ -48,7 +58,7 @@ export function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 px-3 py-4 space-y-1 overflow-y-auto">
-        {navigation.map((item) => {
+        {navigation.filter((item) => !item.permission || can(user?.role, item.permission)).map((item) => {
           const isActive = pathname === item.href || pathname.startsWith(item.href + '/');
           return (
             <Link
@@ -100,11 +110,13 @@ export function Sidebar() {
       <div className="p-4 border-t border-gray-800">
         <div className="flex items-center gap-3 px-3 py-2">
           <div className="w-8 h-8 rounded-full bg-brand-600 flex items-center justify-center text-white text-sm font-medium">
-            U
+            {(user?.name || user?.email || 'U').charAt(0).toUpperCase()}
           </div>
           <div className="flex-1 min-w-0">
-            <p className="text-sm font-medium text-white truncate">User</p>
-            <p className="text-xs text-gray-400 truncate">Free Plan</p>
+            <p className="text-sm font-medium text-white truncate">{user?.name || user?.email || 'User'}</p>
+            <p className="text-xs text-gray-400 truncate">
+              {tenantName || 'My Organization'} · {user ? `${user.tenant.plan.charAt(0).toUpperCase()}${user.tenant.plan.slice(1)} Plan · ${user.role}` : 'Free Plan'}
+            </p>
           </div>
         </div>
       </div>
@@ -7,7 +7,7 @@ interface RequestOptions extends RequestInit {
 class ApiClient {
   private baseUrl: string;
   private apiKey: string | null = null;
-  private tenantId: string | null = null;
+  private adminKey: string | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
@@ -17,8 +17,8 @@ class ApiClient {
     this.apiKey = key;
   }
 
-  setTenantId(id: string) {
-    this.tenantId = id;
+  setAdminKey(key: string | null) {
+    this.adminKey = key;
   }
 
   private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
@@ -39,9 +39,16 @@ class ApiClient {
       headers['X-API-Key'] = this.apiKey;
     }
 
+    // Platform admin routes authenticate with a bm_admin_ key
+    if (this.adminKey && endpoint.startsWith('/admin') && !headers['Authorization']) {
+      headers['Authorization'] = `Bearer ${this.adminKey}`;
+    }
+
     const response = await fetch(url, {
       ...fetchOptions,
       headers,
+      // Send the dashboard session cookie set by the API
+      credentials: 'include',
     });
 
     if (!response.ok) {
@@ -52,6 +59,103 @@ class ApiClient {
     return response.json();
   }
 
+  // Account (dashboard session)
+  async signup(data: {
+    email: string;
+    password: string;
+    name?: string;
+    companyName?: string;
+    invitationToken?: string;
+  }) {
+    // Without an invitation there's no user yet: the email must be verified first
+    return this.request<{
+      success: boolean;
+      user?: AccountUser;
+      verificationRequired?: boolean;
+      message?: string;
+    }>('/account/signup', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async login(email: string, password: string) {
+    return this.request<{ success: boolean; user: AccountUser }>('/account/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password }),
+    });
+  }
+
+  async logout() {
+    return this.request<{ success: boolean }>('/account/logout', { method: 'POST' });
+  }
+
+  async getMe() {
+    return this.request<{ success: boolean; user: AccountUser }>('/account/me');
+  }
+
+  async verifyEmail(token: string) {
+    return this.request<{ success: boolean; message: string }>('/account/verify-email', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
+  async resendVerification(email?: string) {
+    return this.request<{ success: boolean; message: string }>('/account/resend-verification', {
+      method: 'POST',
+      body: JSON.stringify(email ? { email } : {}),
+    });
+  }
+
+  async forgotPassword(email: string) {
+    return this.request<{ success: boolean; message: string }>('/account/forgot-password', {
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  async resetPassword(token: string, password: string) {
+    return this.request<{ success: boolean; message: string }>('/account/reset-password', {
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    return this.request<{ success: boolean; message: string }>('/account/change-password', {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
+  async switchTenant(tenantId: string) {
+    return this.request<{ success: boolean; user: AccountUser }>('/account/switch-tenant', {
+      method: 'POST',
+      body: JSON.stringify({ tenantId }),
+    });
+  }
+
+  async getInvitation(token: string) {
+    return this.request<{
+      success: boolean;
+      invitation: {
+        email: string;
+        role: TenantRole;
+        tenantName: string;
+        expiresAt: string;
+        hasAccount: boolean;
+      };
+    }>(`/account/invitations/${encodeURIComponent(token)}`);
+  }
+
+  async acceptInvitation(token: string) {
+    return this.request<{ success: boolean; user: AccountUser }>('/account/invitations/accept', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  }
+
   // Health
   async health() {
     return this.request<{ status: string; tools: string[] }>('/health');
@@ -65,7 +169,7 @@ class ApiClient {
   async callTool(tool: string, params: Record<string, unknown>) {
     return this.request('/call', {
       method: 'POST',
-      body: JSON.stringify({ tool, params: { ...params, tenant_id: this.tenantId } }),
+      body: JSON.stringify({ tool, params }),
     });
   }
 
@@ -87,8 +191,11 @@ class ApiClient {
     );
   }
 
-  getConnectUrl(integrationId: string, tenantId: string) {
-    return `${this.baseUrl}/integrations/${integrationId}/connect/${tenantId}`;
+  // The API signs a single-use state for the flow; open authUrl in the browser
+  async startIntegrationConnect(integrationId: string, tenantId: string, returnUrl?: string) {
+    return this.request<{ authUrl: string }>(`/integrations/${integrationId}/connect/${tenantId}`, {
+      params: { format: 'json', ...(returnUrl ? { returnUrl } : {}) },
+    });
   }
 
   // Auth (Nylas)
@@ -98,8 +205,10 @@ class ApiClient {
     );
   }
 
-  getAuthConnectUrl(tenantId: string) {
-    return `${this.baseUrl}/auth/connect/${tenantId}`;
+  async startEmailConnect(tenantId: string, returnUrl?: string) {
+    return this.request<{ authUrl: string }>(`/auth/connect/${tenantId}`, {
+      params: { format: 'json', ...(returnUrl ? { returnUrl } : {}) },
+    });
   }
 
   async listAccounts(tenantId: string) {
@@ -137,9 +246,12 @@ class ApiClient {
   }
 
   async getScopes(tenantId: string) {
-    return this.request<{ success: boolean; scopes: string[]; descriptions: Record<string, string> }>(
-      `/api-keys/${tenantId}/scopes`
-    );
+    return this.request<{
+      success: boolean;
+      scopes: string[];
+      descriptions: Record<string, string>;
+      integrations: Array<{ id: string; name: string; category: string; scopes: string[] }>;
+    }>(`/api-keys/${tenantId}/scopes`);
   }
 
   // Usage
@@ -168,9 +280,25 @@ class ApiClient {
       limit: number;
       percentUsed: number;
       isOverLimit: boolean;
+      overage: number;
+      overageBehavior: 'block' | 'bill';
+      gracePercent: number;
+      overageCost: number;
     }>(`/api-keys/${tenantId}/billing`);
   }
 
+  async getInvoices(tenantId: string) {
+    return this.request<{ success: boolean; invoices: Invoice[] }>(`/api-keys/${tenantId}/invoices`);
+  }
+
+  // Admin - Identity
+  async getAdminMe(adminKey?: string) {
+    return this.request<{
+      success: boolean;
+      admin: { id: string; email: string; name: string | null; role: 'OWNER' | 'BILLING_VIEWER' | 'SUPPORT' };
+    }>('/admin/me', adminKey ? { headers: { Authorization: `Bearer ${adminKey}` } } : {});
+  }
+
   // Admin - Integration Configuration
   async getAdminIntegrations() {
     return this.request<{
@@ -195,6 +323,8 @@ class ApiClient {
         maskedCredentials: Record<string, string> | null;
         markupPercent: number;
         basePricePerUnit?: number;
+        unitPrices: Record<string, number>;
+        rateLimitPerMinute: number | null;
         isActive: boolean;
         updatedAt?: string;
       }>;
@@ -217,6 +347,8 @@ class ApiClient {
       credentials?: Record<string, string>;
       markupPercent?: number;
       basePricePerUnit?: number;
+      unitPrices?: Record<string, number> | null;
+      rateLimitPerMinute?: number | null;
       setupInstructions?: string;
       isActive?: boolean;
     }
@@ -244,6 +376,21 @@ class ApiClient {
     );
   }
 
+  async getAdminIntegrationAudit(integrationId: string) {
+    return this.request<{
+      success: boolean;
+      entries: Array<{
+        id: string;
+        adminEmail: string;
+        action: string;
+        field: string;
+        oldValue: string | null;
+        newValue: string | null;
+        createdAt: string;
+      }>;
+    }>(`/admin/integrations/${integrationId}/audit`);
+  }
+
   async getAdminUsageSummary(period?: string) {
     const params = period ? { period } : undefined;
     return this.request<{
@@ -252,7 +399,7 @@ class ApiClient {
       summary: Array<{
         integrationId: string;
         displayName: string;
-        totalUnits: number;
+        units: Record<string, number>;
         totalCost: number;
         callCount: number;
         markupPercent: number;
@@ -353,7 +500,7 @@ class ApiClient {
       usage: Array<{
         integrationId: string;
         displayName: string;
-        units: number;
+        units: Record<string, number>;
         callCount: number;
         estimatedCost: number;
       }>;
@@ -363,6 +510,338 @@ class ApiClient {
       };
     }>(`/connections/${tenantId}/usage`, { params });
   }
+
+  // Outbound Webhooks
+  async getWebhookEventTypes(tenantId: string) {
+    return this.request<{
+      success: boolean;
+      eventTypes: Array<{ type: string; description: string }>;
+      signatureHeader: string;
+    }>(`/webhook-endpoints/${tenantId}/event-types`);
+  }
+
+  async listWebhookEndpoints(tenantId: string) {
+    return this.request<{ success: boolean; endpoints: WebhookEndpoint[] }>(
+      `/webhook-endpoints/${tenantId}`
+    );
+  }
+
+  async createWebhookEndpoint(
+    tenantId: string,
+    data: { url: string; description?: string; eventTypes?: string[] }
+  ) {
+    return this.request<{ success: boolean; message: string; secret: string; endpoint: WebhookEndpoint }>(
+      `/webhook-endpoints/${tenantId}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async updateWebhookEndpoint(
+    tenantId: string,
+    endpointId: string,
+    data: { url?: string; description?: string; eventTypes?: string[]; isActive?: boolean }
+  ) {
+    return this.request<{ success: boolean; endpoint: WebhookEndpoint }>(
+      `/webhook-endpoints/${tenantId}/${endpointId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async deleteWebhookEndpoint(tenantId: string, endpointId: string) {
+    return this.request<{ success: boolean; message: string }>(
+      `/webhook-endpoints/${tenantId}/${endpointId}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async testWebhookEndpoint(tenantId: string, endpointId: string) {
+    return this.request<{ success: boolean; message: string; deliveryId: string }>(
+      `/webhook-endpoints/${tenantId}/${endpointId}/test`,
+      { method: 'POST' }
+    );
+  }
+
+  async listWebhookDeliveries(tenantId: string, filters?: { endpointId?: string; status?: string }) {
+    const params: Record<string, string> = {};
+    if (filters?.endpointId) params.endpointId = filters.endpointId;
+    if (filters?.status) params.status = filters.status;
+    return this.request<{
+      success: boolean;
+      deliveries: Array<{
+        id: string;
+        endpointId: string;
+        endpointUrl: string;
+        eventId: string;
+        eventType: string;
+        payload: Record<string, unknown>;
+        status: 'pending' | 'succeeded' | 'dead';
+        attempts: number;
+        nextAttemptAt: string | null;
+        lastAttemptAt: string | null;
+        responseStatus: number | null;
+        responseBody: string | null;
+        error: string | null;
+        createdAt: string;
+        deliveredAt: string | null;
+      }>;
+    }>(`/webhook-endpoints/${tenantId}/deliveries`, { params });
+  }
+
+  async retryWebhookDelivery(tenantId: string, deliveryId: string) {
+    return this.request<{ success: boolean; message: string }>(
+      `/webhook-endpoints/${tenantId}/deliveries/${deliveryId}/retry`,
+      { method: 'POST' }
+    );
+  }
+
+  // Team Members
+  async listMembers(tenantId: string) {
+    return this.request<{
+      success: boolean;
+      roles: TenantRole[];
+      members: Array<{
+        id: string;
+        userId: string;
+        email: string;
+        name: string | null;
+        role: TenantRole;
+        lastLoginAt: string | null;
+        joinedAt: string;
+        isYou: boolean;
+      }>;
+      invitations: Array<{
+        id: string;
+        email: string;
+        role: TenantRole;
+        invitedBy: string | null;
+        expiresAt: string;
+        createdAt: string;
+      }>;
+    }>(`/members/${tenantId}`);
+  }
+
+  async inviteMember(tenantId: string, data: { email: string; role: TenantRole }) {
+    return this.request<{ success: boolean; emailSent: boolean; hint?: string }>(
+      `/members/${tenantId}/invitations`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async resendInvitation(tenantId: string, invitationId: string) {
+    return this.request<{ success: boolean; emailSent: boolean; hint?: string }>(
+      `/members/${tenantId}/invitations/${invitationId}/resend`,
+      { method: 'POST' }
+    );
+  }
+
+  async revokeInvitation(tenantId: string, invitationId: string) {
+    return this.request<{ success: boolean; message: string }>(
+      `/members/${tenantId}/invitations/${invitationId}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async updateMemberRole(tenantId: string, membershipId: string, role: TenantRole) {
+    return this.request<{ success: boolean; member: { id: string; role: TenantRole } }>(
+      `/members/${tenantId}/${membershipId}`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({ role }),
+      }
+    );
+  }
+
+  async removeMember(tenantId: string, membershipId: string) {
+    return this.request<{ success: boolean; message: string }>(
+      `/members/${tenantId}/${membershipId}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  // Background Jobs
+  async startSync(tenantId: string, kind: SyncKind, initial = false) {
+    const base = { folders: 'folders', emails: 'emails-sync', contacts: 'contacts-sync', calendar: 'calendar-sync' }[kind];
+    return this.request<{ success: boolean; job: BackgroundJob }>(
+      `/${base}/${tenantId}/${initial ? 'initial-sync' : 'sync'}`,
+      { method: 'POST' }
+    );
+  }
+
+  async getSyncStatus(tenantId: string) {
+    return this.request<SyncStatus & { success: boolean }>(`/sync/${tenantId}`, { params: { limit: '10' } });
+  }
+
+  async getJob(tenantId: string, jobId: string) {
+    return this.request<{ success: boolean; job: BackgroundJob }>(`/jobs/${tenantId}/${jobId}`);
+  }
+
+  async listJobs(tenantId: string, filters?: { status?: string; type?: string }) {
+    const params: Record<string, string> = {};
+    if (filters?.status) params.status = filters.status;
+    if (filters?.type) params.type = filters.type;
+    return this.request<{ success: boolean; jobs: BackgroundJob[] }>(`/jobs/${tenantId}`, { params });
+  }
+
+  // Activity Log
+  async listActivity(tenantId: string, filters?: ActivityFilters, cursor?: string) {
+    const params = activityParams(filters);
+    if (cursor) params.cursor = cursor;
+    return this.request<{ success: boolean; activity: ActivityEntry[]; nextCursor: string | null }>(
+      `/activity/${tenantId}`,
+      { params }
+    );
+  }
+
+  // CSV text, not JSON, so this skips request()
+  async exportActivity(tenantId: string, filters?: ActivityFilters) {
+    const params = new URLSearchParams(activityParams(filters));
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers['X-API-Key'] = this.apiKey;
+    }
+
+    const response = await fetch(`${this.baseUrl}/activity/${tenantId}/export?${params.toString()}`, {
+      headers,
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Export failed' }));
+      throw new Error(error.error || 'Export failed');
+    }
+
+    return response.blob();
+  }
+}
+
+function activityParams(filters?: ActivityFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(filters || {})) {
+    if (value) params[key] = value;
+  }
+  return params;
+}
+
+export interface ActivityFilters {
+  action?: string;
+  integration?: string;
+  status?: string;
+  source?: string;
+  requestId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityEntry {
+  id: string;
+  action: string;
+  integrationId: string | null;
+  source: 'call' | 'mcp' | 'route' | 'job' | null;
+  status: 'success' | 'error';
+  input: Record<string, unknown> | null;
+  output: Record<string, unknown> | null;
+  error: string | null;
+  duration: number | null;
+  requestId: string | null;
+  apiKeyId: string | null;
+  userId: string | null;
+  createdAt: string;
+}
+
+export interface InvoiceLine {
+  type: 'plan' | 'overage' | 'usage';
+  description: string;
+  integrationId: string | null;
+  unitType: string | null;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  tenantId: string;
+  period: string;
+  plan: string;
+  status: 'draft' | 'open' | 'paid' | 'failed' | 'void';
+  currency: string;
+  total: number;
+  stripeInvoiceId: string | null;
+  hostedUrl: string | null;
+  syncedAt: string | null;
+  paidAt: string | null;
+  createdAt: string;
+  lines: InvoiceLine[];
+}
+
+export type TenantRole = 'owner' | 'admin' | 'developer' | 'viewer';
+
+export interface AccountUser {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerified: boolean;
+  role: TenantRole;
+  tenant: { id: string; slug: string; name: string; plan: string };
+  tenants: Array<{ id: string; slug: string; name: string; role: TenantRole }>;
+}
+
+export type SyncKind = 'folders' | 'emails' | 'contacts' | 'calendar';
+
+export interface BackgroundJob {
+  id: string;
+  type: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  maxAttempts: number;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  runAt: string;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+export interface SyncStatus {
+  schedule: { intervalMinutes: number; contactsIntervalMinutes: number; fullResyncHours: number };
+  isSyncing: boolean;
+  lastSyncAt: string | null;
+  nextSyncAt: string | null;
+  lastFullSyncAt: { emails: string | null; contacts: string | null; calendar: string | null };
+  runs: Array<{
+    id: string;
+    resource: string;
+    mode: 'incremental' | 'compare' | 'full';
+    trigger: string;
+    fallbackReason: string | null;
+    status: 'success' | 'error';
+    added: number;
+    updated: number;
+    removed: number;
+    total: number;
+    error: string | null;
+    durationMs: number;
+    startedAt: string;
+  }>;
+}
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export const api = new ApiClient(API_URL);
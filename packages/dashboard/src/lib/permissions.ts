@@ -0,0 +1,25 @@
+import type { TenantRole } from './api';
+
+// Mirrors ROLE_PERMISSIONS on the server (lib/memberships.ts); the server enforces,
+// this only hides what the role can't use
+const ROLE_PERMISSIONS = {
+  'tenant:write': ['owner', 'admin', 'developer'],
+  'api_keys:manage': ['owner', 'admin', 'developer'],
+  'webhooks:manage': ['owner', 'admin', 'developer'],
+  'connections:manage': ['owner', 'admin'],
+  'billing:view': ['owner', 'admin'],
+  'members:manage': ['owner', 'admin'],
+} satisfies Record<string, TenantRole[]>;
+
+export type Permission = keyof typeof ROLE_PERMISSIONS;
+
+export function can(role: TenantRole | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[permission] as TenantRole[]).includes(role);
+}
+
+export const ROLE_DESCRIPTIONS: Record<TenantRole, string> = {
+  owner: 'Full access, including billing and ownership',
+  admin: 'Manage members, connections and billing',
+  developer: 'Manage API keys and webhooks, run tools',
+  viewer: 'Read-only access',
+};
@@ -1,10 +1,13 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AccountUser } from './api';
 
+// Mirrors GET /account/me; the server decides the tenant from the session cookie
 interface TenantState {
   tenantId: string | null;
   tenantName: string | null;
-  setTenant: (id: string, name: string) => void;
+  user: AccountUser | null;
+  setSession: (user: AccountUser) => void;
   clearTenant: () => void;
 }
 
@@ -13,8 +16,9 @@ export const useTenantStore = create<TenantState>()(
     (set) => ({
       tenantId: null,
       tenantName: null,
-      setTenant: (id, name) => set({ tenantId: id, tenantName: name }),
-      clearTenant: () => set({ tenantId: null, tenantName: null }),
+      user: null,
+      setSession: (user) => set({ tenantId: user.tenant.id, tenantName: user.tenant.name, user }),
+      clearTenant: () => set({ tenantId: null, tenantName: null, user: null }),
     }),
     {
       name: 'botmakers-tenant',
@@ -38,3 +42,26 @@ export const useApiKeyStore = create<ApiKeyState>()(
     }
   )
 );
+
+export type AdminRole = 'OWNER' | 'BILLING_VIEWER' | 'SUPPORT';
+
+interface AdminState {
+  adminKey: string | null;
+  admin: { id: string; email: string; name: string | null; role: AdminRole } | null;
+  setAdmin: (key: string, admin: AdminState['admin']) => void;
+  clearAdmin: () => void;
+}
+
+export const useAdminStore = create<AdminState>()(
+  persist(
+    (set) => ({
+      adminKey: null,
+      admin: null,
+      setAdmin: (key, admin) => set({ adminKey: key, admin }),
+      clearAdmin: () => set({ adminKey: null, admin: null }),
+    }),
+    {
+      name: 'botmakers-admin',
+    }
+  )
+);
@@ -13,6 +13,7 @@ import {
   NotFoundError,
   ValidationError,
   RateLimitError,
+  QuotaExceededError,
   // Integration types
   Integration,
   CategoryInfo,
@@ -52,6 +53,8 @@ import {
   Tool,
   UsageSummary,
   HealthStatus,
+  Job,
+  JobStatus,
 } from './types.js';
 
 // ===========================================
@@ -182,8 +185,10 @@ export class BotMakersClient {
         throw new NotFoundError(message);
       case 400:
         throw new ValidationError(message, data as Record<string, unknown>);
+      case 402:
+        throw new QuotaExceededError(message, data as unknown as Record<string, unknown>);
       case 429:
-        throw new RateLimitError();
+        throw new RateLimitError((data as { retryAfter?: number }).retryAfter);
       default:
         throw new BotMakersError(message, code, status);
     }
@@ -307,12 +312,14 @@ export class BotMakersClient {
 
   /**
    * Get OAuth authorization URL for an integration
+   * The URL carries a signed state that works once and expires after 10 minutes;
+   * returnUrl must be a dashboard page (APP_URL)
    */
-  async getOAuthUrl(integrationId?: string): Promise<{ authUrl: string }> {
+  async getOAuthUrl(integrationId?: string, returnUrl?: string): Promise<{ authUrl: string }> {
     const path = integrationId
-      ? `/integrations/${integrationId}/auth/${this.config.tenantId}`
+      ? `/integrations/${integrationId}/connect/${this.config.tenantId}`
       : `/auth/connect/${this.config.tenantId}`;
-    return this.request(path);
+    return this.request(path, { params: { format: 'json', returnUrl } });
   }
 
   /**
@@ -341,6 +348,8 @@ export class BotMakersClient {
   async listEmails(params: ListEmailsParams = {}): Promise<PaginatedResponse<Email>> {
     return this.request(`/emails/${this.config.tenantId}`, {
       params: {
+        account: params.accountId,
+        unified: params.unified,
         folder: params.folderId,
         limit: params.limit,
         pageToken: params.pageToken,
@@ -366,6 +375,7 @@ export class BotMakersClient {
         tool: 'send_email',
         params: {
           tenant_id: this.config.tenantId,
+          account_id: params.accountId,
           to: params.to,
           subject: params.subject,
           body: params.body,
@@ -529,6 +539,7 @@ export class BotMakersClient {
   async listEvents(params: ListEventsParams = {}): Promise<{ events: CalendarEvent[] }> {
     return this.request(`/events/${this.config.tenantId}`, {
       params: {
+        account: params.accountId,
         calendarId: params.calendarId,
         startTime: params.startTime,
         endTime: params.endTime,
@@ -623,6 +634,7 @@ export class BotMakersClient {
   async listContacts(params: ListContactsParams = {}): Promise<PaginatedResponse<Contact>> {
     return this.request(`/contacts/${this.config.tenantId}`, {
       params: {
+        account: params.accountId,
         limit: params.limit,
         pageToken: params.pageToken,
         source: params.source,
@@ -787,4 +799,61 @@ export class BotMakersClient {
       },
     });
   }
+
+  /**
+   * Queue a tool call as a background job (for long-running tools)
+   * Poll it with getJob() or waitForJob()
+   */
+  async callToolAsync<T = unknown>(tool: string, params: Record<string, unknown> = {}): Promise<Job<T>> {
+    const response = await this.request<{ job: Job<T> }>('/call', {
+      method: 'POST',
+      body: {
+        tool,
+        async: true,
+        params: {
+          tenant_id: this.config.tenantId,
+          ...params,
+        },
+      },
+    });
+    return response.job;
+  }
+
+  // ===========================================
+  // BACKGROUND JOBS
+  // ===========================================
+
+  /**
+   * Get a background job (sync or async tool call)
+   */
+  async getJob<T = unknown>(jobId: string): Promise<Job<T>> {
+    const response = await this.request<{ job: Job<T> }>(`/jobs/${this.config.tenantId}/${jobId}`);
+    return response.job;
+  }
+
+  /**
+   * List recent background jobs
+   */
+  async listJobs(params: { status?: JobStatus; type?: string; limit?: number } = {}): Promise<{ jobs: Job[] }> {
+    return this.request(`/jobs/${this.config.tenantId}`, { params });
+  }
+
+  /**
+   * Poll a job until it succeeds, fails or is cancelled
+   */
+  async waitForJob<T = unknown>(jobId: string, options: { intervalMs?: number; timeoutMs?: number } = {}): Promise<Job<T>> {
+    const { intervalMs = 2000, timeoutMs = 5 * 60 * 1000 } = options;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const job = await this.getJob<T>(jobId);
+      if (job.status !== 'pending' && job.status !== 'running') {
+        return job;
+      }
+      if (Date.now() + intervalMs > deadline) {
+        throw new BotMakersError(`Timed out waiting for job ${jobId}`, 'TIMEOUT', 408, { jobId, status: job.status });
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  }
 }
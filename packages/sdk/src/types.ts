@@ -174,6 +174,8 @@ export interface EmailFolder {
 }
 
 export interface ListEmailsParams {
+  accountId?: string; // Account ID or email address; defaults to the primary account
+  unified?: boolean;  // Merge every connected account, newest first
   folderId?: string;
   limit?: number;
   pageToken?: string;
@@ -181,6 +183,7 @@ export interface ListEmailsParams {
 }
 
 export interface SendEmailParams {
+  accountId?: string; // Send from this account instead of the primary
   to: string | string[] | EmailParticipant[];
   subject: string;
   body: string;
@@ -246,6 +249,7 @@ export interface CalendarEvent {
 }
 
 export interface ListEventsParams {
+  accountId?: string;
   calendarId?: string;
   startTime?: string;
   endTime?: string;
@@ -300,6 +304,7 @@ export interface Contact {
 }
 
 export interface ListContactsParams {
+  accountId?: string;
   limit?: number;
   pageToken?: string;
   source?: string;
@@ -383,7 +388,21 @@ export interface SmartComposeResult {
 export interface Tool {
   name: string;
   category: string;
+  integration: string;
   description: string;
+  scope: string; // API key scope needed to call the tool, e.g. "email:write"
+  inputSchema: ToolInputSchema;
+}
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
+export interface ToolFieldError {
+  field: string;
+  message: string;
 }
 
 export interface CallToolParams {
@@ -412,6 +431,26 @@ export interface UsageSummary {
   };
 }
 
+// ===========================================
+// BACKGROUND JOB TYPES
+// ===========================================
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  result: T | null;
+  error: string | null;
+  runAt: string;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
 // ===========================================
 // HEALTH CHECK TYPES
 // ===========================================
@@ -493,6 +532,13 @@ export class RateLimitError extends BotMakersError {
   }
 }
 
+export class QuotaExceededError extends BotMakersError {
+  constructor(message: string = 'Monthly quota exceeded', details?: Record<string, unknown>) {
+    super(message, 'QUOTA_EXCEEDED', 402, details);
+    this.name = 'QuotaExceededError';
+  }
+}
+
 export class ConnectionError extends BotMakersError {
   constructor(integrationId: string, message: string) {
     super(message, 'CONNECTION_ERROR', 400, { integrationId });
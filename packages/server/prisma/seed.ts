@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { createAdminKey } from '../src/lib/adminAuth.js';
 
 const prisma = new PrismaClient();
 
@@ -26,6 +27,23 @@ async function main() {
     create: { tenantId: tenant.id },
   });
 
+  // Bootstrap the first platform owner
+  const ownerEmail = process.env.PLATFORM_OWNER_EMAIL;
+  if (ownerEmail) {
+    const owner = await prisma.platformAdmin.upsert({
+      where: { email: ownerEmail },
+      update: {},
+      create: { email: ownerEmail, role: 'OWNER' },
+    });
+
+    const keyCount = await prisma.platformAdminKey.count({ where: { adminId: owner.id, isActive: true } });
+    if (keyCount === 0) {
+      const { key } = await createAdminKey({ adminId: owner.id, name: 'Bootstrap' });
+      console.log(`\nCreated platform owner ${ownerEmail}`);
+      console.log(`Admin key (shown once): ${key}`);
+    }
+  }
+
   console.log('\n✅ Seeding complete!\n');
   console.log('Next steps:');
   console.log('1. Start the server: npm run dev');
@@ -4,45 +4,89 @@ import 'dotenv/config';
 
 // Import routes
 import authRoutes from './routes/auth.js';
+import accountRoutes from './routes/account.js';
 import integrationRoutes from './routes/integrations.js';
 import apiKeyRoutes from './routes/apiKeys.js';
 import folderRoutes from './routes/folders.js';
 import contactRoutes from './routes/contacts.js';
 import calendarRoutes from './routes/calendar.js';
+import emailRoutes from './routes/emails.js';
 import adminIntegrationsRoutes from './routes/admin/integrations.js';
+import adminRoutes from './routes/admin/admins.js';
+import adminEncryptionRoutes from './routes/admin/encryption.js';
+import adminBillingRoutes from './routes/admin/billing.js';
 import connectionsRoutes from './routes/connections.js';
+import mcpRoutes from './routes/mcp.js';
+import webhookRoutes from './routes/webhooks.js';
+import webhookEndpointRoutes from './routes/webhookEndpoints.js';
+import memberRoutes from './routes/members.js';
+import jobRoutes from './routes/jobs.js';
+import syncRoutes from './routes/sync.js';
+import activityRoutes from './routes/activity.js';
 
 // Import integrations
 import { integrationRegistry } from './integrations/index.js';
 
 // Import middleware
 import { optionalApiKey } from './middleware/auth.js';
+import { requireTrustedOrigin } from './middleware/csrf.js';
+import {
+  requireTenantAccess,
+  findUnmappedTenantRoutes,
+  resolveTenantCaller,
+  callerOwnsTenant,
+} from './middleware/tenantAccess.js';
 import { rateLimit } from './middleware/rateLimit.js';
-
-// Import usage tracking
-import { trackUsageAsync, trackPlatformUsageAsync } from './lib/usage.js';
+import { requestId } from './middleware/requestId.js';
+import { requireQuota } from './middleware/quota.js';
 
 // Import tools
-import * as emailTools from './tools/emails.js';
-import * as calendarTools from './tools/calendar.js';
-import * as contactTools from './tools/contacts.js';
-import * as aiTools from './tools/ai.js';
-import * as googleCalendarTools from './tools/google-calendar.js';
-import * as calComTools from './tools/cal-com.js';
-import * as dialpadTools from './tools/dialpad.js';
+import { tools, callTool, getToolDefinition, getToolDefinitions } from './tools/index.js';
+import { getInputSchema, validateToolParams } from './lib/toolSchema.js';
+import { getToolAccess, getToolScope, hasToolScope } from './lib/apiKey.js';
+import { hasPermission } from './lib/memberships.js';
+import { checkQuotaOrAllow, setQuotaHeaders, quotaExceededBody } from './lib/quota.js';
+import { startWebhookDeliveryWorker } from './lib/tenantWebhooks.js';
+import { startSessionCleanup } from './lib/session.js';
+import { startTokenRefreshSweeper } from './lib/tokenManager.js';
+import { enqueueJob, serializeJob, startJobWorker } from './lib/jobs.js';
+import { initEncryption } from './lib/encryption.js';
+import { ActivityContext, startActivityRetention } from './lib/activity.js';
 
 const app = express();
 const PORT = process.env.PORT || 3050;
 
-app.use(cors());
+// Credentials are allowed so the dashboard can send its session cookie
+app.use(cors({
+  origin: process.env.APP_URL ? process.env.APP_URL.split(',') : true,
+  credentials: true,
+}));
+
+// ===========================================
+// WEBHOOK ROUTES (Provider push notifications)
+// Before express.json(): signatures need the raw body
+// ===========================================
+app.use('/webhooks', webhookRoutes);
+
 app.use(express.json());
 
+// Every response carries X-Request-Id (the caller's, or a new one)
+app.use(requestId());
+
 // Apply optional API key auth to all requests
 app.use(optionalApiKey);
 
+// Session-cookie writes must come from the dashboard
+app.use(requireTrustedOrigin());
+
 // Apply rate limiting to all requests
 app.use(rateLimit());
 
+// ===========================================
+// ACCOUNT ROUTES (Dashboard users & sessions)
+// ===========================================
+app.use('/account', accountRoutes);
+
 // ===========================================
 // AUTH ROUTES (OAuth flow)
 // ===========================================
@@ -63,6 +107,11 @@ app.use('/api-keys', apiKeyRoutes);
 // ===========================================
 app.use('/folders', folderRoutes);
 
+// ===========================================
+// EMAIL SYNC ROUTES
+// ===========================================
+app.use('/emails-sync', emailRoutes);
+
 // ===========================================
 // CONTACT SYNC ROUTES
 // ===========================================
@@ -77,6 +126,9 @@ app.use('/calendar-sync', calendarRoutes);
 // ADMIN ROUTES (Platform Configuration)
 // ===========================================
 app.use('/admin/integrations', adminIntegrationsRoutes);
+app.use('/admin/encryption', adminEncryptionRoutes);
+app.use('/admin/billing', adminBillingRoutes);
+app.use('/admin', adminRoutes);
 
 // ===========================================
 // CUSTOMER CONNECTIONS ROUTES (BYOK)
@@ -84,81 +136,34 @@ app.use('/admin/integrations', adminIntegrationsRoutes);
 app.use('/connections', connectionsRoutes);
 
 // ===========================================
-// TOOL REGISTRY
-// ===========================================
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const tools: Record<string, (params: any) => Promise<unknown>> = {
-  // Email
-  list_emails: emailTools.listEmails,
-  get_email: emailTools.getEmail,
-  send_email: emailTools.sendEmail,
-  move_email: emailTools.moveEmail,
-  mark_read: emailTools.markRead,
-  star_email: emailTools.starEmail,
-  trash_email: emailTools.trashEmail,
-  search_emails: emailTools.searchEmails,
-  list_folders: emailTools.listFolders,
-
-  // Folder Management
-  get_folder: emailTools.getFolder,
-  create_folder: emailTools.createFolder,
-  update_folder: emailTools.updateFolder,
-  delete_folder: emailTools.deleteFolder,
-  get_folder_by_name: emailTools.getFolderByName,
-  move_email_to_folder: emailTools.moveEmailToFolder,
-  add_email_to_folders: emailTools.addEmailToFolders,
-  remove_email_from_folder: emailTools.removeEmailFromFolder,
-
-  // Calendar
-  list_calendars: calendarTools.listCalendars,
-  list_events: calendarTools.listEvents,
-  get_event: calendarTools.getEvent,
-  create_event: calendarTools.createEvent,
-  delete_event: calendarTools.deleteEvent,
-  check_availability: calendarTools.checkAvailability,
-
-  // Contacts
-  list_contacts: contactTools.listContacts,
-  get_contact: contactTools.getContact,
-  create_contact: contactTools.createContact,
-  search_contacts: contactTools.searchContacts,
-
-  // AI
-  draft_reply: aiTools.draftReply,
-  summarize_thread: aiTools.summarizeThread,
-  extract_action_items: aiTools.extractActionItems,
-  smart_compose: aiTools.smartCompose,
-
-  // Google Calendar
-  gcal_list_calendars: googleCalendarTools.gcalListCalendars,
-  gcal_list_events: googleCalendarTools.gcalListEvents,
-  gcal_create_event: googleCalendarTools.gcalCreateEvent,
-  gcal_update_event: googleCalendarTools.gcalUpdateEvent,
-  gcal_delete_event: googleCalendarTools.gcalDeleteEvent,
-  gcal_get_freebusy: googleCalendarTools.gcalGetFreeBusy,
-
-  // Cal.com
-  calcom_list_event_types: calComTools.calcomListEventTypes,
-  calcom_list_bookings: calComTools.calcomListBookings,
-  calcom_get_booking: calComTools.calcomGetBooking,
-  calcom_cancel_booking: calComTools.calcomCancelBooking,
-  calcom_get_availability: calComTools.calcomGetAvailability,
-  calcom_create_booking: calComTools.calcomCreateBooking,
-  calcom_reschedule_booking: calComTools.calcomRescheduleBooking,
-  calcom_list_schedules: calComTools.calcomListSchedules,
-
-  // Dialpad
-  dialpad_list_calls: dialpadTools.dialpadListCalls,
-  dialpad_get_call: dialpadTools.dialpadGetCall,
-  dialpad_list_contacts: dialpadTools.dialpadListContacts,
-  dialpad_create_contact: dialpadTools.dialpadCreateContact,
-  dialpad_search_contacts: dialpadTools.dialpadSearchContacts,
-  dialpad_list_users: dialpadTools.dialpadListUsers,
-  dialpad_get_user: dialpadTools.dialpadGetUser,
-  dialpad_list_recordings: dialpadTools.dialpadListRecordings,
-  dialpad_get_call_stats: dialpadTools.dialpadGetCallStats,
-  dialpad_send_sms: dialpadTools.dialpadSendSms,
-};
+// OUTBOUND WEBHOOK ROUTES (Tenant endpoints)
+// ===========================================
+app.use('/webhook-endpoints', webhookEndpointRoutes);
+
+// ===========================================
+// TEAM MEMBER ROUTES (Roles & invitations)
+// ===========================================
+app.use('/members', memberRoutes);
+
+// ===========================================
+// BACKGROUND JOB ROUTES (Sync and async tool status)
+// ===========================================
+app.use('/jobs', jobRoutes);
+
+// ===========================================
+// SYNC STATUS ROUTES (Schedule and run stats)
+// ===========================================
+app.use('/sync', syncRoutes);
+
+// ===========================================
+// ACTIVITY ROUTES (Tool call audit log)
+// ===========================================
+app.use('/activity', activityRoutes);
+
+// ===========================================
+// MCP PROTOCOL (Streamable HTTP + SSE)
+// ===========================================
+app.use('/mcp', mcpRoutes);
 
 // ===========================================
 // API ENDPOINTS
@@ -171,119 +176,103 @@ app.get('/health', (req, res) => {
 
 // List tools
 app.get('/tools', (req, res) => {
-  const toolList = [
-    // Email
-    { name: 'list_emails', category: 'email', description: 'List emails from inbox or folder' },
-    { name: 'get_email', category: 'email', description: 'Get single email with full body' },
-    { name: 'send_email', category: 'email', description: 'Send new email or reply' },
-    { name: 'move_email', category: 'email', description: 'Move email to folder' },
-    { name: 'mark_read', category: 'email', description: 'Mark email as read/unread' },
-    { name: 'star_email', category: 'email', description: 'Star/unstar email' },
-    { name: 'trash_email', category: 'email', description: 'Move email to trash' },
-    { name: 'search_emails', category: 'email', description: 'Search emails' },
-    { name: 'list_folders', category: 'email', description: 'List email folders' },
-
-    // Folder Management
-    { name: 'get_folder', category: 'folders', description: 'Get folder details by ID' },
-    { name: 'create_folder', category: 'folders', description: 'Create a new custom folder' },
-    { name: 'update_folder', category: 'folders', description: 'Rename a folder' },
-    { name: 'delete_folder', category: 'folders', description: 'Delete a folder' },
-    { name: 'get_folder_by_name', category: 'folders', description: 'Get folder ID by name' },
-    { name: 'move_email_to_folder', category: 'folders', description: 'Move email to folder by name (creates if missing)' },
-    { name: 'add_email_to_folders', category: 'folders', description: 'Add email to multiple folders/labels' },
-    { name: 'remove_email_from_folder', category: 'folders', description: 'Remove email from a folder' },
-
-    // Calendar
-    { name: 'list_calendars', category: 'calendar', description: 'List calendars' },
-    { name: 'list_events', category: 'calendar', description: 'List calendar events' },
-    { name: 'get_event', category: 'calendar', description: 'Get single event' },
-    { name: 'create_event', category: 'calendar', description: 'Create calendar event' },
-    { name: 'delete_event', category: 'calendar', description: 'Delete event' },
-    { name: 'check_availability', category: 'calendar', description: 'Check free/busy times' },
-
-    // Contacts
-    { name: 'list_contacts', category: 'contacts', description: 'List contacts' },
-    { name: 'get_contact', category: 'contacts', description: 'Get single contact' },
-    { name: 'create_contact', category: 'contacts', description: 'Create contact' },
-    { name: 'search_contacts', category: 'contacts', description: 'Search contacts' },
-
-    // AI
-    { name: 'draft_reply', category: 'ai', description: 'AI drafts reply to email' },
-    { name: 'summarize_thread', category: 'ai', description: 'AI summarizes email thread' },
-    { name: 'extract_action_items', category: 'ai', description: 'AI extracts action items' },
-    { name: 'smart_compose', category: 'ai', description: 'AI composes email from prompt' },
-
-    // Google Calendar
-    { name: 'gcal_list_calendars', category: 'google_calendar', description: 'List Google calendars' },
-    { name: 'gcal_list_events', category: 'google_calendar', description: 'List Google Calendar events' },
-    { name: 'gcal_create_event', category: 'google_calendar', description: 'Create Google Calendar event' },
-    { name: 'gcal_update_event', category: 'google_calendar', description: 'Update Google Calendar event' },
-    { name: 'gcal_delete_event', category: 'google_calendar', description: 'Delete Google Calendar event' },
-    { name: 'gcal_get_freebusy', category: 'google_calendar', description: 'Check free/busy times' },
-
-    // Cal.com
-    { name: 'calcom_list_event_types', category: 'cal_com', description: 'List Cal.com event types' },
-    { name: 'calcom_list_bookings', category: 'cal_com', description: 'List Cal.com bookings' },
-    { name: 'calcom_get_booking', category: 'cal_com', description: 'Get Cal.com booking details' },
-    { name: 'calcom_cancel_booking', category: 'cal_com', description: 'Cancel a Cal.com booking' },
-    { name: 'calcom_get_availability', category: 'cal_com', description: 'Get availability slots' },
-    { name: 'calcom_create_booking', category: 'cal_com', description: 'Create a Cal.com booking' },
-    { name: 'calcom_reschedule_booking', category: 'cal_com', description: 'Reschedule a booking' },
-    { name: 'calcom_list_schedules', category: 'cal_com', description: 'List availability schedules' },
-
-    // Dialpad
-    { name: 'dialpad_list_calls', category: 'dialpad', description: 'List Dialpad calls' },
-    { name: 'dialpad_get_call', category: 'dialpad', description: 'Get call details' },
-    { name: 'dialpad_list_contacts', category: 'dialpad', description: 'List Dialpad contacts' },
-    { name: 'dialpad_create_contact', category: 'dialpad', description: 'Create Dialpad contact' },
-    { name: 'dialpad_search_contacts', category: 'dialpad', description: 'Search Dialpad contacts' },
-    { name: 'dialpad_list_users', category: 'dialpad', description: 'List Dialpad users' },
-    { name: 'dialpad_get_user', category: 'dialpad', description: 'Get Dialpad user details' },
-    { name: 'dialpad_list_recordings', category: 'dialpad', description: 'List call recordings' },
-    { name: 'dialpad_get_call_stats', category: 'dialpad', description: 'Get call statistics' },
-    { name: 'dialpad_send_sms', category: 'dialpad', description: 'Send SMS via Dialpad' },
-  ];
+  const toolList = getToolDefinitions().map(def => ({
+    name: def.name,
+    category: def.category,
+    integration: def.integration,
+    description: def.description,
+    scope: getToolScope(def),
+    inputSchema: getInputSchema(def),
+  }));
 
   res.json({ tools: toolList });
 });
 
 // Call a tool
+// "async": true queues the call as a background job and returns it for polling
 app.post('/call', async (req, res) => {
   const { tool, params } = req.body;
+  const definition = tool ? getToolDefinition(tool) : undefined;
 
-  if (!tool || !tools[tool]) {
+  if (!definition) {
     return res.status(400).json({
       success: false,
       error: `Unknown tool: ${tool}`,
     });
   }
 
+  const caller = await resolveTenantCaller(req);
+  if (!caller) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      hint: 'Use: Authorization: Bearer bm_live_xxxxx',
+    });
+  }
+
+  // Tools always run as the caller's tenant
+  const args = { ...params };
+  if (args.tenant_id && !callerOwnsTenant(caller, String(args.tenant_id))) {
+    return res.status(403).json({
+      success: false,
+      error: 'tenant_id does not belong to the caller',
+    });
+  }
+  args.tenant_id = caller.tenantId;
+
+  // API keys need the tool's scope; dashboard viewers may only run read tools
+  if (caller.apiKey && !hasToolScope(caller.apiKey, definition)) {
+    const scope = getToolScope(definition);
+    return res.status(403).json({
+      success: false,
+      error: `Missing required scope: ${scope}`,
+      hint: `This API key needs the "${scope}" or "${definition.integration}:${getToolAccess(definition)}" scope`,
+    });
+  }
+
+  if (caller.role && getToolAccess(definition) === 'write' && !hasPermission(caller.role, 'tenant:write')) {
+    return res.status(403).json({
+      success: false,
+      error: `Your role (${caller.role}) can only run read-only tools`,
+    });
+  }
+
+  const validation = validateToolParams(definition, args);
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid parameters',
+      errors: validation.errors,
+    });
+  }
+
   try {
-    const result = await tools[tool](params || {});
-
-    // Track usage if tenant is known
-    const tenantId = req.tenantId || params?.tenant_id;
-    if (tenantId) {
-      // Determine integration from tool name
-      let integrationId = 'nylas';
-      if (tool.startsWith('msgraph_')) integrationId = 'msgraph';
-      else if (tool.startsWith('gcal_')) integrationId = 'google_calendar';
-      else if (tool.startsWith('calcom_')) integrationId = 'cal_com';
-      else if (tool.startsWith('dialpad_')) integrationId = 'dialpad';
-
-      // Track general usage
-      trackUsageAsync({ tenantId, integrationId, tool });
-
-      // Track platform usage for INCLUDED integrations (with cost calculation)
-      trackPlatformUsageAsync({
-        tenantId,
-        integrationId,
-        operation: tool,
-        units: 1,
-        metadata: { tool, timestamp: new Date().toISOString() },
+    // Like requireQuota(), a failed quota lookup doesn't block the call
+    const quota = await checkQuotaOrAllow(caller.tenantId);
+    if (quota) {
+      setQuotaHeaders(res, quota);
+      if (!quota.allowed) {
+        return res.status(402).json(quotaExceededBody(quota));
+      }
+    }
+
+    const activity: ActivityContext = {
+      source: 'call',
+      requestId: req.requestId,
+      apiKeyId: caller.apiKey?.id,
+      userId: caller.userId,
+    };
+
+    if (req.body.async === true) {
+      const job = await enqueueJob('tool_call', {
+        tenantId: caller.tenantId,
+        payload: { tool, params: validation.data, activity },
+        scope: getToolScope(definition),
       });
+      return res.status(202).json({ success: true, job: serializeJob(job) });
     }
 
+    const result = await callTool(tool, validation.data, caller.tenantId, activity);
     res.json(result);
   } catch (error) {
     res.status(500).json({
@@ -297,69 +286,97 @@ app.post('/call', async (req, res) => {
 // CONVENIENCE ENDPOINTS
 // ===========================================
 
+// Every :tenantId route must belong to the caller's tenant
+app.param('tenantId', requireTenantAccess);
+
+// Activity log context for the convenience endpoints
+function routeActivity(req: express.Request): ActivityContext {
+  return { source: 'route', requestId: req.requestId, apiKeyId: req.apiKey?.id, userId: req.session?.userId };
+}
+
+// Validate the query like /call validates params, then run the tool
+// Always as the tenant requireTenantAccess resolved, never the raw :tenantId
+async function sendToolResult(
+  req: express.Request,
+  res: express.Response,
+  tool: string,
+  params: Record<string, unknown>
+) {
+  const validation = validateToolParams(getToolDefinition(tool)!, { ...params, tenant_id: req.tenantId });
+  if (!validation.success) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid parameters',
+      errors: validation.errors,
+    });
+  }
+
+  try {
+    const result = await callTool(tool, validation.data, req.tenantId, routeActivity(req));
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+// Convenience endpoints count against the monthly quota like /call
+// ?account= picks a mailbox by account ID or email address (default: primary)
 // Emails
-app.get('/emails/:tenantId', async (req, res) => {
-  const { tenantId } = req.params;
-  const { folder, limit, pageToken, unreadOnly } = req.query;
+app.get('/emails/:tenantId', requireQuota(), async (req, res) => {
+  const { account, folder, limit, pageToken, unreadOnly, unified } = req.query;
 
-  const result = await emailTools.listEmails({
-    tenant_id: tenantId,
+  await sendToolResult(req, res, 'list_emails', {
+    account_id: account as string,
     folder_id: folder as string,
     limit: limit ? parseInt(limit as string) : undefined,
     page_token: pageToken as string,
     unread_only: unreadOnly === 'true',
+    unified: unified === 'true',
   });
-
-  res.json(result);
 });
 
-app.get('/emails/:tenantId/:emailId', async (req, res) => {
-  const { tenantId, emailId } = req.params;
-  const result = await emailTools.getEmail({ tenant_id: tenantId, email_id: emailId });
-  res.json(result);
+app.get('/emails/:tenantId/:emailId', requireQuota(), async (req, res) => {
+  const { emailId } = req.params;
+  await sendToolResult(req, res, 'get_email', {
+    account_id: req.query.account as string,
+    email_id: emailId,
+  });
 });
 
 // Folders
-app.get('/folders/:tenantId', async (req, res) => {
-  const { tenantId } = req.params;
-  const result = await emailTools.listFolders({ tenant_id: tenantId });
-  res.json(result);
+app.get('/folders/:tenantId', requireQuota(), async (req, res) => {
+  await sendToolResult(req, res, 'list_folders', { account_id: req.query.account as string });
 });
 
 // Calendar
-app.get('/calendars/:tenantId', async (req, res) => {
-  const { tenantId } = req.params;
-  const result = await calendarTools.listCalendars({ tenant_id: tenantId });
-  res.json(result);
+app.get('/calendars/:tenantId', requireQuota(), async (req, res) => {
+  await sendToolResult(req, res, 'list_calendars', { account_id: req.query.account as string });
 });
 
-app.get('/events/:tenantId', async (req, res) => {
-  const { tenantId } = req.params;
-  const { calendarId, startTime, endTime, limit } = req.query;
+app.get('/events/:tenantId', requireQuota(), async (req, res) => {
+  const { account, calendarId, startTime, endTime, limit } = req.query;
 
-  const result = await calendarTools.listEvents({
-    tenant_id: tenantId,
+  await sendToolResult(req, res, 'list_events', {
+    account_id: account as string,
     calendar_id: calendarId as string,
     start_time: startTime as string,
     end_time: endTime as string,
     limit: limit ? parseInt(limit as string) : undefined,
   });
-
-  res.json(result);
 });
 
 // Contacts
-app.get('/contacts/:tenantId', async (req, res) => {
-  const { tenantId } = req.params;
-  const { limit, pageToken } = req.query;
+app.get('/contacts/:tenantId', requireQuota(), async (req, res) => {
+  const { account, limit, pageToken } = req.query;
 
-  const result = await contactTools.listContacts({
-    tenant_id: tenantId,
+  await sendToolResult(req, res, 'list_contacts', {
+    account_id: account as string,
     limit: limit ? parseInt(limit as string) : undefined,
     page_token: pageToken as string,
   });
-
-  res.json(result);
 });
 
 // ===========================================
@@ -369,9 +386,48 @@ app.get('/contacts/:tenantId', async (req, res) => {
 const HOST = '0.0.0.0';
 
 async function startServer() {
+  // Load encryption keys first; a bad keyring should stop startup
+  await initEncryption();
+
   // Initialize all integrations
   await integrationRegistry.initializeAll();
 
+  // Unmapped :tenantId routes would reject every request; refuse to start with any
+  const unmapped = findUnmappedTenantRoutes({
+    '': app._router,
+    '/auth': authRoutes,
+    '/integrations': integrationRoutes,
+    '/api-keys': apiKeyRoutes,
+    '/folders': folderRoutes,
+    '/emails-sync': emailRoutes,
+    '/contacts-sync': contactRoutes,
+    '/calendar-sync': calendarRoutes,
+    '/connections': connectionsRoutes,
+    '/webhook-endpoints': webhookEndpointRoutes,
+    '/members': memberRoutes,
+    '/jobs': jobRoutes,
+    '/sync': syncRoutes,
+    '/activity': activityRoutes,
+  });
+  if (unmapped.length > 0) {
+    throw new Error(`Tenant routes without a scope mapping (add them to TENANT_ROUTE_SCOPES):\n  ${unmapped.join('\n  ')}`);
+  }
+
+  // Retry pending tenant webhook deliveries
+  startWebhookDeliveryWorker();
+
+  // Drop expired dashboard sessions
+  startSessionCleanup();
+
+  // Keep OAuth tokens fresh for idle connections
+  startTokenRefreshSweeper();
+
+  // Drop activity log entries past each plan's retention
+  startActivityRetention();
+
+  // Run queued syncs, webhook processing and async tool calls; queue scheduled syncs
+  startJobWorker();
+
   app.listen(Number(PORT), HOST, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════════════╗
@@ -380,15 +436,25 @@ async function startServer() {
 ║  Server:       http://${HOST}:${PORT}                          ║
 ║  Health:       /health                                    ║
 ║  Tools:        /tools                                     ║
+║  MCP:          /mcp  (legacy SSE: /mcp/sse)               ║
+║  Webhooks:     /webhooks/:integrationId                   ║
+║                                                           ║
+║  Dashboard Account:                                       ║
+║  - Sign up:    /account/signup                            ║
+║  - Sign in:    /account/login                             ║
 ║                                                           ║
 ║  Admin (Platform Configuration):                          ║
 ║  - Integrations:   /admin/integrations                    ║
 ║  - Usage:          /admin/integrations/usage/summary      ║
+║  - Admins:         /admin/admins  (bm_admin_ keys)        ║
+║  - Encryption:     /admin/encryption                      ║
+║  - Billing:        /admin/billing                         ║
 ║                                                           ║
 ║  Customer Connections (BYOK):                             ║
 ║  - List:       /connections/:tenantId                     ║
 ║  - Connect:    /connections/:tenantId/:integrationId      ║
 ║  - Usage:      /connections/:tenantId/usage               ║
+║  - Webhooks:   /webhook-endpoints/:tenantId               ║
 ║                                                           ║
 ║  Nylas OAuth (Email/Calendar/Contacts):                   ║
 ║  - Connect:    /auth/connect/:tenantId                    ║
@@ -397,9 +463,13 @@ async function startServer() {
 ║  API Keys & Usage:                                        ║
 ║  - Keys:       /api-keys/:tenant                          ║
 ║  - Usage:      /api-keys/:tenant/usage                    ║
+║  - Activity:   /activity/:tenantId                        ║
 ╚═══════════════════════════════════════════════════════════╝
     `);
   });
 }
 
-startServer().catch(console.error);
+startServer().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
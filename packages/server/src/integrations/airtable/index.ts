@@ -7,6 +7,7 @@ import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
 } from '../types.js';
@@ -20,6 +21,7 @@ class AirtableIntegration implements Integration {
     authType: 'oauth2',
     scopes: ['data.records:read', 'data.records:write', 'schema.bases:read'],
     requiredEnvVars: ['AIRTABLE_CLIENT_ID', 'AIRTABLE_CLIENT_SECRET'],
+    pkce: true,
   };
 
   private clientId = process.env.AIRTABLE_CLIENT_ID;
@@ -32,13 +34,14 @@ class AirtableIntegration implements Integration {
 
   async initialize(): Promise<void> {}
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
     const scopes = this.config.scopes?.join(' ') || '';
     const stateParam = state || tenantId;
-    return `https://airtable.com/oauth2/v1/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&scope=${encodeURIComponent(scopes)}&state=${stateParam}`;
+    const pkceParams = pkce ? `&code_challenge=${pkce.codeChallenge}&code_challenge_method=${pkce.codeChallengeMethod}` : '';
+    return `https://airtable.com/oauth2/v1/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&scope=${encodeURIComponent(scopes)}&state=${stateParam}${pkceParams}`;
   }
 
-  async handleCallback(code: string, _state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, _state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const auth = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
     const response = await fetch('https://airtable.com/oauth2/v1/token', {
       method: 'POST',
@@ -50,6 +53,7 @@ class AirtableIntegration implements Integration {
         grant_type: 'authorization_code',
         code,
         redirect_uri: this.redirectUri,
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
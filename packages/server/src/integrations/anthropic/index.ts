@@ -10,6 +10,7 @@ import {
   ToolDefinition,
   ToolResult,
 } from '../types.js';
+import { tokenUnits } from '../metering.js';
 
 class AnthropicIntegration implements Integration {
   config: IntegrationConfig = {
@@ -34,6 +35,7 @@ class AnthropicIntegration implements Integration {
         description: 'Generate a Claude message response',
         category: 'ai',
         integration: 'anthropic',
+        rateLimitWeight: 5,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'messages', type: 'array', description: 'Messages [{role, content}]', required: true },
@@ -48,6 +50,7 @@ class AnthropicIntegration implements Integration {
         description: 'Generate a streaming Claude message response',
         category: 'ai',
         integration: 'anthropic',
+        rateLimitWeight: 5,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'messages', type: 'array', description: 'Messages [{role, content}]', required: true },
@@ -103,7 +106,11 @@ class AnthropicIntegration implements Integration {
             throw new Error(`API error: ${response.status} - ${JSON.stringify(errorData)}`);
           }
           const data = await response.json();
-          return { success: true, data };
+          return {
+            success: true,
+            data,
+            metadata: { integration: 'anthropic', tool: toolName, units: tokenUnits(data.usage) },
+          };
         }
 
         case 'anthropic_message_stream': {
@@ -130,6 +137,7 @@ class AnthropicIntegration implements Integration {
               ...data,
               note: 'Streaming requires special client handling. This is a non-streaming response.',
             },
+            metadata: { integration: 'anthropic', tool: toolName, units: tokenUnits(data.usage) },
           };
         }
 
@@ -10,6 +10,7 @@ import {
   ToolDefinition,
   ToolResult,
 } from '../types.js';
+import { smsSegments } from '../metering.js';
 
 class AutocallsIntegration implements Integration {
   config: IntegrationConfig = {
@@ -578,7 +579,11 @@ class AutocallsIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data };
+          return {
+            success: true,
+            data,
+            metadata: { integration: 'autocalls', tool: toolName, units: { sms_segments: smsSegments(String(params.message)) } },
+          };
         }
 
         default:
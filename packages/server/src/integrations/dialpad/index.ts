@@ -10,6 +10,7 @@ import {
   ToolDefinition,
   ToolResult,
 } from '../types.js';
+import { smsSegments } from '../metering.js';
 
 class DialpadIntegration implements Integration {
   config: IntegrationConfig = {
@@ -380,7 +381,11 @@ class DialpadIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data };
+          return {
+            success: true,
+            data,
+            metadata: { integration: 'dialpad', tool: toolName, units: { sms_segments: smsSegments(String(params.message)) } },
+          };
         }
 
         default:
@@ -7,6 +7,7 @@ import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
 } from '../types.js';
@@ -20,6 +21,7 @@ class GitLabIntegration implements Integration {
     authType: 'oauth2',
     scopes: ['api', 'read_user', 'read_repository'],
     requiredEnvVars: ['GITLAB_CLIENT_ID', 'GITLAB_CLIENT_SECRET'],
+    pkce: true,
   };
 
   private clientId = process.env.GITLAB_CLIENT_ID;
@@ -33,13 +35,14 @@ class GitLabIntegration implements Integration {
 
   async initialize(): Promise<void> {}
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
     const stateParam = state || tenantId;
     const scopes = this.config.scopes?.join(' ') || '';
-    return `${this.gitlabUrl}/oauth/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&scope=${encodeURIComponent(scopes)}&state=${stateParam}`;
+    const pkceParams = pkce ? `&code_challenge=${pkce.codeChallenge}&code_challenge_method=${pkce.codeChallengeMethod}` : '';
+    return `${this.gitlabUrl}/oauth/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&scope=${encodeURIComponent(scopes)}&state=${stateParam}${pkceParams}`;
   }
 
-  async handleCallback(code: string, _state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, _state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const response = await fetch(`${this.gitlabUrl}/oauth/token`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -49,6 +52,7 @@ class GitLabIntegration implements Integration {
         code,
         grant_type: 'authorization_code',
         redirect_uri: this.redirectUri,
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
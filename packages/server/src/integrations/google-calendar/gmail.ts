@@ -0,0 +1,603 @@
+// ===========================================
+// GMAIL PROVIDER
+// Gmail, Google Calendar and Google Contacts behind the same interface
+// as Nylas, on the Google Calendar integration's OAuth connection
+// ===========================================
+
+import {
+  Calendar,
+  CalendarEvent,
+  Contact,
+  CreateContactInput,
+  CreateEventInput,
+  EmailAttachment,
+  EmailFolder,
+  EmailMessage,
+  EmailParticipant,
+  EventListOptions,
+  EventParticipant,
+  MailProvider,
+  MessageChanges,
+  MessageListOptions,
+  Page,
+  SendMessageInput,
+} from '../types.js';
+import { SyncCursorError } from '../../lib/syncCursor.js';
+
+export const GMAIL_SCOPE = 'https://www.googleapis.com/auth/gmail.modify';
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+const PEOPLE_API_BASE = 'https://people.googleapis.com/v1';
+
+const PERSON_FIELDS = 'names,emailAddresses,phoneNumbers,organizations,biographies,birthdays';
+const FETCH_CONCURRENCY = 10; // Message gets in flight at once (Gmail lists only return IDs)
+
+// Labels that are flags rather than places a message is filed
+const FLAG_LABELS = new Set(['UNREAD', 'STARRED', 'IMPORTANT', 'CHAT']);
+
+const SYSTEM_FOLDER_TYPES: Record<string, string> = {
+  INBOX: 'inbox',
+  SENT: 'sent',
+  DRAFT: 'drafts',
+  TRASH: 'trash',
+  SPAM: 'spam',
+};
+
+const RESPONSE_STATUS: Record<string, EventParticipant['status']> = {
+  accepted: 'accepted',
+  declined: 'declined',
+  tentative: 'tentative',
+  needsAction: 'pending',
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type GoogleObject = any;
+
+export class GoogleRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GoogleRequestError';
+  }
+}
+
+// ===========================================
+// MIME
+// ===========================================
+
+function headerValue(headers: GoogleObject[] | undefined, name: string): string | undefined {
+  return headers?.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+function parseAddressList(value?: string): EmailParticipant[] {
+  if (!value) return [];
+  const participants: EmailParticipant[] = [];
+  const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|([^,<"]*?))\s*<([^>]+)>|\s*([^,\s<>]+@[^,\s<>]+)/g;
+
+  for (const match of value.matchAll(pattern)) {
+    const email = (match[3] || match[4]).trim();
+    const name = (match[1] ?? match[2])?.replace(/\\(.)/g, '$1').trim();
+    participants.push({ email, ...(name ? { name } : {}) });
+  }
+  return participants;
+}
+
+function decodeBase64Url(data: string): string {
+  return Buffer.from(data, 'base64url').toString('utf8');
+}
+
+// Header values can't carry line breaks (they would start new headers)
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`;
+}
+
+function formatAddress(p: EmailParticipant): string {
+  const email = p.email.replace(/[\r\n<>,]/g, '');
+  if (!p.name) return email;
+  const name = encodeHeader(p.name.replace(/"/g, ''));
+  return name.startsWith('=?') ? `${name} <${email}>` : `"${name}" <${email}>`;
+}
+
+function buildMime(input: SendMessageInput, thread?: { inReplyTo: string; references: string }): string {
+  const headers = [
+    `To: ${input.to.map(formatAddress).join(', ')}`,
+    ...(input.cc?.length ? [`Cc: ${input.cc.map(formatAddress).join(', ')}`] : []),
+    `Subject: ${encodeHeader(input.subject)}`,
+    ...(thread ? [`In-Reply-To: ${thread.inReplyTo}`, `References: ${thread.references}`] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/html; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+  ];
+  const body = Buffer.from(input.body).toString('base64').replace(/.{76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+// ===========================================
+// MAPPING
+// ===========================================
+
+function findBody(part: GoogleObject, mimeType: string): string | undefined {
+  if (part?.mimeType === mimeType && !part.filename && part.body?.data) {
+    return decodeBase64Url(part.body.data);
+  }
+  for (const child of part?.parts || []) {
+    const body = findBody(child, mimeType);
+    if (body !== undefined) return body;
+  }
+  return undefined;
+}
+
+function findAttachments(part: GoogleObject, found: EmailAttachment[] = []): EmailAttachment[] {
+  if (part?.filename && part.body?.attachmentId) {
+    found.push({ id: part.body.attachmentId, filename: part.filename, contentType: part.mimeType, size: part.body.size || 0 });
+  }
+  for (const child of part?.parts || []) findAttachments(child, found);
+  return found;
+}
+
+function toMessage(m: GoogleObject): EmailMessage {
+  const headers = m.payload?.headers;
+  const labels: string[] = m.labelIds || [];
+  const attachments = findAttachments(m.payload);
+
+  return {
+    id: m.id,
+    threadId: m.threadId || undefined,
+    from: parseAddressList(headerValue(headers, 'From'))[0],
+    to: parseAddressList(headerValue(headers, 'To')),
+    cc: parseAddressList(headerValue(headers, 'Cc')),
+    bcc: parseAddressList(headerValue(headers, 'Bcc')),
+    subject: headerValue(headers, 'Subject') || '',
+    body: findBody(m.payload, 'text/html') ?? findBody(m.payload, 'text/plain') ?? '',
+    snippet: m.snippet || undefined,
+    date: new Date(Number(m.internalDate || 0)),
+    unread: labels.includes('UNREAD'),
+    starred: labels.includes('STARRED'),
+    folders: labels.filter(label => !FLAG_LABELS.has(label)),
+    hasAttachments: attachments.length > 0,
+    attachments,
+  };
+}
+
+function toFolder(label: GoogleObject, parentId?: string): EmailFolder {
+  return {
+    id: label.id,
+    name: label.name,
+    ...(parentId ? { parentId } : {}),
+    type: SYSTEM_FOLDER_TYPES[label.id] || 'custom',
+    totalCount: label.messagesTotal,
+    unreadCount: label.messagesUnread,
+  };
+}
+
+function fromGoogleTime(time: GoogleObject): Date {
+  return new Date(time?.dateTime || time?.date);
+}
+
+function toEvent(e: GoogleObject, calendarId: string): CalendarEvent {
+  const meetUrl = e.hangoutLink || e.conferenceData?.entryPoints?.find((p: GoogleObject) => p.entryPointType === 'video')?.uri;
+
+  return {
+    id: e.id,
+    calendarId,
+    title: e.summary || '',
+    description: e.description || undefined,
+    location: e.location || undefined,
+    startTime: fromGoogleTime(e.start),
+    endTime: fromGoogleTime(e.end),
+    allDay: !!e.start?.date,
+    participants: (e.attendees || []).map((a: GoogleObject) => ({
+      email: a.email,
+      ...(a.displayName ? { name: a.displayName } : {}),
+      status: RESPONSE_STATUS[a.responseStatus] || 'pending',
+    })),
+    recurrence: e.recurrence?.join('\n') || undefined,
+    status: e.status || undefined,
+    ...(meetUrl ? { conferencing: { provider: e.conferenceData?.conferenceSolution?.name || 'Google Meet', url: meetUrl } } : {}),
+  };
+}
+
+function toContact(p: GoogleObject): Contact {
+  const name = p.names?.[0];
+  const organization = p.organizations?.[0];
+  const birthday = p.birthdays?.[0]?.date;
+
+  return {
+    id: String(p.resourceName).replace(/^people\//, ''),
+    givenName: name?.givenName || undefined,
+    surname: name?.familyName || undefined,
+    displayName: name?.displayName || undefined,
+    emails: (p.emailAddresses || []).map((e: GoogleObject) => ({ email: e.value, ...(e.type ? { type: e.type } : {}) })),
+    phoneNumbers: (p.phoneNumbers || []).map((n: GoogleObject) => ({ number: n.value, ...(n.type ? { type: n.type } : {}) })),
+    companyName: organization?.name || undefined,
+    jobTitle: organization?.title || undefined,
+    notes: p.biographies?.[0]?.value || undefined,
+    birthday: birthday
+      ? `${birthday.year ? String(birthday.year).padStart(4, '0') : '-'}-${String(birthday.month).padStart(2, '0')}-${String(birthday.day).padStart(2, '0')}`
+      : undefined,
+  };
+}
+
+function searchValue(value: string): string {
+  return `"${value.replace(/"/g, '')}"`;
+}
+
+// ===========================================
+// PROVIDER
+// ===========================================
+
+export class GmailMailProvider implements MailProvider {
+  readonly backend = 'gmail' as const;
+
+  constructor(
+    readonly mailboxId: string,
+    private getAccessToken: () => Promise<string>
+  ) {}
+
+  // ===========================================
+  // MESSAGES
+  // ===========================================
+
+  async listMessages(options: MessageListOptions = {}): Promise<Page<EmailMessage>> {
+    const limit = options.limit || 50;
+
+    if (options.threadId) {
+      const thread = await this.request(`${GMAIL_API_BASE}/threads/${encodeURIComponent(options.threadId)}?format=full`);
+      const messages: EmailMessage[] = (thread.messages || []).map(toMessage);
+      messages.sort((a, b) => b.date.getTime() - a.date.getTime());
+      return { data: messages.slice(0, limit) };
+    }
+
+    const query = [
+      options.searchQueryNative,
+      options.from && `from:${searchValue(options.from)}`,
+      options.to && `to:${searchValue(options.to)}`,
+      options.subject && `subject:${searchValue(options.subject)}`,
+      options.hasAttachment && 'has:attachment',
+      options.unread !== undefined && (options.unread ? 'is:unread' : '-is:unread'),
+      options.starred !== undefined && (options.starred ? 'is:starred' : '-is:starred'),
+      options.receivedAfter && `after:${options.receivedAfter}`,
+      options.receivedBefore && `before:${options.receivedBefore}`,
+    ].filter(Boolean).join(' ');
+
+    const params = new URLSearchParams({ maxResults: String(Math.min(limit, 500)) });
+    if (query) params.set('q', query);
+    if (options.folderId) params.set('labelIds', options.folderId);
+    if (options.pageToken) params.set('pageToken', options.pageToken);
+
+    const response = await this.request(`${GMAIL_API_BASE}/messages?${params}`);
+    return {
+      data: await this.getMessages((response.messages || []).map((m: GoogleObject) => m.id)),
+      nextCursor: response.nextPageToken || undefined,
+    };
+  }
+
+  async getMessage(id: string): Promise<EmailMessage> {
+    return toMessage(await this.request(`${GMAIL_API_BASE}/messages/${encodeURIComponent(id)}?format=full`));
+  }
+
+  async sendMessage(input: SendMessageInput): Promise<{ id: string; threadId?: string }> {
+    let thread: { inReplyTo: string; references: string } | undefined;
+    let threadId: string | undefined;
+
+    // Gmail threads a reply by threadId; other clients need the reference headers
+    if (input.replyToMessageId) {
+      const original = await this.request(
+        `${GMAIL_API_BASE}/messages/${encodeURIComponent(input.replyToMessageId)}?format=metadata&metadataHeaders=Message-ID&metadataHeaders=References`
+      );
+      const messageId = headerValue(original.payload?.headers, 'Message-ID');
+      if (messageId) {
+        const references = headerValue(original.payload?.headers, 'References');
+        thread = { inReplyTo: messageId, references: references ? `${references} ${messageId}` : messageId };
+      }
+      threadId = original.threadId;
+    }
+
+    const sent = await this.request(`${GMAIL_API_BASE}/messages/send`, 'POST', {
+      raw: Buffer.from(buildMime(input, thread)).toString('base64url'),
+      ...(threadId ? { threadId } : {}),
+    });
+    return { id: sent.id, threadId: sent.threadId };
+  }
+
+  async updateMessage(id: string, changes: { unread?: boolean; starred?: boolean; folders?: string[] }): Promise<void> {
+    const add = new Set<string>();
+    const remove = new Set<string>();
+
+    if (changes.unread !== undefined) (changes.unread ? add : remove).add('UNREAD');
+    if (changes.starred !== undefined) (changes.starred ? add : remove).add('STARRED');
+
+    // Folders are labels: the new set replaces every label that isn't a flag
+    if (changes.folders) {
+      const current = await this.getMessage(id);
+      for (const label of changes.folders) add.add(label);
+      for (const label of current.folders) {
+        if (!changes.folders.includes(label)) remove.add(label);
+      }
+    }
+
+    await this.request(`${GMAIL_API_BASE}/messages/${encodeURIComponent(id)}/modify`, 'POST', {
+      addLabelIds: [...add],
+      removeLabelIds: [...remove],
+    });
+  }
+
+  async trashMessage(id: string): Promise<void> {
+    await this.request(`${GMAIL_API_BASE}/messages/${encodeURIComponent(id)}/trash`, 'POST');
+  }
+
+  /**
+   * The cursor is a Gmail history ID. Without one, the window is listed
+   * and the mailbox's current history ID becomes the cursor
+   */
+  async listMessageChanges(options: { cursor?: string; receivedAfter: number; limit: number }): Promise<MessageChanges> {
+    if (!options.cursor) {
+      const { historyId } = await this.request(`${GMAIL_API_BASE}/profile`);
+      const messages: EmailMessage[] = [];
+      let pageToken: string | undefined;
+      let truncated = false;
+
+      do {
+        const page = await this.listMessages({ limit: 500, pageToken, receivedAfter: options.receivedAfter });
+        messages.push(...page.data);
+        pageToken = page.nextCursor;
+
+        if (messages.length >= options.limit) {
+          truncated = !!pageToken;
+          break;
+        }
+      } while (pageToken);
+
+      return { messages, removed: [], cursor: String(historyId), truncated };
+    }
+
+    if (!/^\d+$/.test(options.cursor)) {
+      throw new SyncCursorError('Cursor is not readable');
+    }
+
+    const changed = new Set<string>();
+    const removed = new Set<string>();
+    let historyId = options.cursor;
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({ startHistoryId: options.cursor, maxResults: '500' });
+      for (const type of ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved']) {
+        params.append('historyTypes', type);
+      }
+      if (pageToken) params.set('pageToken', pageToken);
+
+      let page: GoogleObject;
+      try {
+        page = await this.request(`${GMAIL_API_BASE}/history?${params}`);
+      } catch (error) {
+        // Gmail keeps about a week of history
+        if (error instanceof GoogleRequestError && error.status === 404) {
+          throw new SyncCursorError('History ID expired');
+        }
+        throw error;
+      }
+
+      for (const record of page.history || []) {
+        for (const key of ['messagesAdded', 'labelsAdded', 'labelsRemoved']) {
+          for (const { message } of record[key] || []) {
+            changed.add(message.id);
+            removed.delete(message.id);
+          }
+        }
+        for (const { message } of record.messagesDeleted || []) {
+          removed.add(message.id);
+          changed.delete(message.id);
+        }
+      }
+
+      historyId = page.historyId || historyId;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    // Messages deleted after their change was recorded are gone too;
+    // changes to mail older than the window stay out of the cache
+    const messages = await this.getMessages([...changed]);
+    const found = new Set(messages.map(m => m.id));
+    for (const id of changed) {
+      if (!found.has(id)) removed.add(id);
+    }
+
+    return {
+      messages: messages.filter(m => m.date.getTime() >= options.receivedAfter * 1000),
+      removed: [...removed],
+      cursor: String(historyId),
+      truncated: false,
+    };
+  }
+
+  // ===========================================
+  // FOLDERS
+  // Labels, with nesting taken from "Parent/Child" names
+  // ===========================================
+
+  async listFolders(): Promise<EmailFolder[]> {
+    const response = await this.request(`${GMAIL_API_BASE}/labels`);
+    const labels: GoogleObject[] = (response.labels || []).filter((l: GoogleObject) => !FLAG_LABELS.has(l.id));
+    const byName = new Map(labels.map(l => [l.name, l.id]));
+
+    return labels.map(label => {
+      const slash = label.name.lastIndexOf('/');
+      return toFolder(label, slash > 0 ? byName.get(label.name.slice(0, slash)) : undefined);
+    });
+  }
+
+  async getFolder(id: string): Promise<EmailFolder> {
+    return toFolder(await this.request(`${GMAIL_API_BASE}/labels/${encodeURIComponent(id)}`));
+  }
+
+  async createFolder(name: string, parentId?: string): Promise<EmailFolder> {
+    const parent = parentId ? await this.request(`${GMAIL_API_BASE}/labels/${encodeURIComponent(parentId)}`) : undefined;
+    const label = await this.request(`${GMAIL_API_BASE}/labels`, 'POST', {
+      name: parent ? `${parent.name}/${name}` : name,
+      labelListVisibility: 'labelShow',
+      messageListVisibility: 'show',
+    });
+    return toFolder(label, parentId);
+  }
+
+  async updateFolder(id: string, name: string): Promise<EmailFolder> {
+    // Renaming keeps the label under its parent
+    const current = await this.request(`${GMAIL_API_BASE}/labels/${encodeURIComponent(id)}`);
+    const prefix = current.name.includes('/') ? current.name.slice(0, current.name.lastIndexOf('/') + 1) : '';
+    return toFolder(await this.request(`${GMAIL_API_BASE}/labels/${encodeURIComponent(id)}`, 'PATCH', { name: `${prefix}${name}` }));
+  }
+
+  async deleteFolder(id: string): Promise<void> {
+    await this.request(`${GMAIL_API_BASE}/labels/${encodeURIComponent(id)}`, 'DELETE');
+  }
+
+  // ===========================================
+  // CALENDAR
+  // ===========================================
+
+  async listCalendars(): Promise<Calendar[]> {
+    const response = await this.request(`${CALENDAR_API_BASE}/users/me/calendarList`);
+    return (response.items || []).map((c: GoogleObject) => ({
+      id: c.id,
+      name: c.summaryOverride || c.summary,
+      description: c.description || undefined,
+      isPrimary: !!c.primary,
+      readOnly: c.accessRole === 'reader' || c.accessRole === 'freeBusyReader',
+      timezone: c.timeZone || undefined,
+    }));
+  }
+
+  async listEvents(options: EventListOptions = {}): Promise<Page<CalendarEvent>> {
+    const calendarId = options.calendarId || 'primary';
+    const params = new URLSearchParams({
+      maxResults: String(options.limit || 50),
+      singleEvents: 'true',
+      orderBy: 'startTime',
+    });
+    if (options.start) params.set('timeMin', new Date(options.start * 1000).toISOString());
+    if (options.end) params.set('timeMax', new Date(options.end * 1000).toISOString());
+    if (options.pageToken) params.set('pageToken', options.pageToken);
+
+    const response = await this.request(`${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId)}/events?${params}`);
+    return {
+      data: (response.items || []).map((e: GoogleObject) => toEvent(e, calendarId)),
+      nextCursor: response.nextPageToken || undefined,
+    };
+  }
+
+  async getEvent(id: string, calendarId: string): Promise<CalendarEvent> {
+    const event = await this.request(
+      `${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(id)}`
+    );
+    return toEvent(event, calendarId);
+  }
+
+  async createEvent(input: CreateEventInput): Promise<CalendarEvent> {
+    const event = await this.request(`${CALENDAR_API_BASE}/calendars/${encodeURIComponent(input.calendarId)}/events`, 'POST', {
+      summary: input.title,
+      description: input.description,
+      location: input.location,
+      start: { dateTime: input.startTime.toISOString() },
+      end: { dateTime: input.endTime.toISOString() },
+      attendees: input.participants?.map(p => ({ email: p.email, ...(p.name ? { displayName: p.name } : {}) })),
+    });
+    return toEvent(event, input.calendarId);
+  }
+
+  async deleteEvent(id: string, calendarId: string): Promise<void> {
+    await this.request(
+      `${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId)}/events/${encodeURIComponent(id)}`,
+      'DELETE'
+    );
+  }
+
+  // ===========================================
+  // CONTACTS
+  // ===========================================
+
+  async listContacts(options: { limit?: number; pageToken?: string; email?: string } = {}): Promise<Page<Contact>> {
+    // Contact search matches by prefix and isn't paged
+    if (options.email) {
+      const params = new URLSearchParams({
+        query: options.email,
+        readMask: PERSON_FIELDS,
+        pageSize: String(Math.min(options.limit || 30, 30)),
+      });
+      const response = await this.request(`${PEOPLE_API_BASE}/people:searchContacts?${params}`);
+      return { data: (response.results || []).map((r: GoogleObject) => toContact(r.person)) };
+    }
+
+    const params = new URLSearchParams({
+      personFields: PERSON_FIELDS,
+      pageSize: String(Math.min(options.limit || 50, 1000)),
+    });
+    if (options.pageToken) params.set('pageToken', options.pageToken);
+
+    const response = await this.request(`${PEOPLE_API_BASE}/people/me/connections?${params}`);
+    return {
+      data: (response.connections || []).map(toContact),
+      nextCursor: response.nextPageToken || undefined,
+    };
+  }
+
+  async getContact(id: string): Promise<Contact> {
+    return toContact(await this.request(`${PEOPLE_API_BASE}/people/${encodeURIComponent(id)}?personFields=${PERSON_FIELDS}`));
+  }
+
+  async createContact(input: CreateContactInput): Promise<Contact> {
+    const person = await this.request(`${PEOPLE_API_BASE}/people:createContact?personFields=${PERSON_FIELDS}`, 'POST', {
+      names: [{ givenName: input.givenName, familyName: input.surname }],
+      emailAddresses: (input.emails || []).map(e => ({ value: e.email, type: e.type })),
+      phoneNumbers: (input.phoneNumbers || []).map(p => ({ value: p.number, type: p.type })),
+      ...(input.companyName || input.jobTitle ? { organizations: [{ name: input.companyName, title: input.jobTitle }] } : {}),
+    });
+    return toContact(person);
+  }
+
+  // ===========================================
+  // HELPER METHODS
+  // ===========================================
+
+  /**
+   * Full messages for IDs from a listing, in the same order; messages
+   * deleted since they were listed are skipped
+   */
+  private async getMessages(ids: string[]): Promise<EmailMessage[]> {
+    const messages: EmailMessage[] = [];
+
+    for (let i = 0; i < ids.length; i += FETCH_CONCURRENCY) {
+      const batch = await Promise.all(ids.slice(i, i + FETCH_CONCURRENCY).map(id =>
+        this.getMessage(id).catch(error => {
+          if (error instanceof GoogleRequestError && error.status === 404) return undefined;
+          throw error;
+        })
+      ));
+      messages.push(...batch.filter((m): m is EmailMessage => !!m));
+    }
+    return messages;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async request(url: string, method = 'GET', body?: unknown): Promise<any> {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: response.statusText }));
+      throw new GoogleRequestError(response.status, error.error?.message || error.message || 'Google API error');
+    }
+
+    if (response.status === 204) {
+      return {};
+    }
+    return response.json();
+  }
+}
@@ -1,15 +1,18 @@
 // ===========================================
 // GOOGLE CALENDAR INTEGRATION
 // Direct Google Calendar API integration via OAuth
+// (the same connection backs a Gmail mailbox; see gmail.ts)
 // ===========================================
 
 import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
 } from '../types.js';
+import { GMAIL_SCOPE } from './gmail.js';
 
 class GoogleCalendarIntegration implements Integration {
   config: IntegrationConfig = {
@@ -21,8 +24,11 @@ class GoogleCalendarIntegration implements Integration {
     scopes: [
       'https://www.googleapis.com/auth/calendar',
       'https://www.googleapis.com/auth/calendar.events',
+      GMAIL_SCOPE,
+      'https://www.googleapis.com/auth/contacts',
     ],
     requiredEnvVars: ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET'],
+    pkce: true,
   };
 
   isConfigured(): boolean {
@@ -33,7 +39,7 @@ class GoogleCalendarIntegration implements Integration {
     // No initialization needed for Google Calendar
   }
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
     const params = new URLSearchParams({
       client_id: process.env.GOOGLE_CLIENT_ID!,
       redirect_uri: `${process.env.API_URL}/integrations/callback/google_calendar`,
@@ -43,11 +49,15 @@ class GoogleCalendarIntegration implements Integration {
       prompt: 'consent',
       state: state || tenantId,
     });
+    if (pkce) {
+      params.set('code_challenge', pkce.codeChallenge);
+      params.set('code_challenge_method', pkce.codeChallengeMethod);
+    }
 
     return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
   }
 
-  async handleCallback(code: string, state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
       method: 'POST',
       headers: {
@@ -59,6 +69,7 @@ class GoogleCalendarIntegration implements Integration {
         client_secret: process.env.GOOGLE_CLIENT_SECRET!,
         redirect_uri: `${process.env.API_URL}/integrations/callback/google_calendar`,
         grant_type: 'authorization_code',
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
@@ -71,6 +82,7 @@ class GoogleCalendarIntegration implements Integration {
       access_token: string;
       refresh_token?: string;
       expires_in: number;
+      scope?: string;
     };
 
     // Get user info to determine email
@@ -95,6 +107,8 @@ class GoogleCalendarIntegration implements Integration {
       expiresAt: new Date(Date.now() + tokens.expires_in * 1000),
       metadata: {
         email,
+        // The user can leave out Gmail and Contacts on the consent screen
+        scopes: tokens.scope?.split(' ') || [],
       },
     };
   }
@@ -0,0 +1,46 @@
+// ===========================================
+// METERING HELPERS
+// Units integrations report in ToolResult.metadata.units
+// ===========================================
+
+// GSM 03.38 basic set plus its extension table (extension characters take two septets)
+const GSM_BASIC = '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+/**
+ * Segments a carrier bills for an SMS: 160/153 characters per segment
+ * for GSM-7 text, 70/67 once any character needs UCS-2
+ */
+export function smsSegments(text: string): number {
+  let septets = 0;
+  let gsm = true;
+
+  for (const char of text) {
+    if (GSM_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      gsm = false;
+      break;
+    }
+  }
+
+  if (gsm) {
+    return septets <= 160 ? 1 : Math.ceil(septets / 153);
+  }
+
+  // UCS-2 counts UTF-16 code units, so emoji take two
+  return text.length <= 70 ? 1 : Math.ceil(text.length / 67);
+}
+
+/**
+ * Token counts from an OpenAI or Anthropic usage block
+ */
+export function tokenUnits(usage: Record<string, number> | undefined): { input_tokens?: number; output_tokens?: number } {
+  if (!usage) return {};
+  return {
+    input_tokens: usage.input_tokens ?? usage.prompt_tokens,
+    output_tokens: usage.output_tokens ?? usage.completion_tokens,
+  };
+}
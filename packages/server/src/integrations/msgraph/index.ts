@@ -1,12 +1,14 @@
 // ===========================================
 // MICROSOFT GRAPH INTEGRATION
 // Teams, SharePoint, OneDrive, and more
+// (mail, calendar and contacts: see mail.ts)
 // ===========================================
 
 import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
   FileItem,
@@ -26,8 +28,11 @@ class MSGraphIntegration implements Integration {
     authType: 'oauth2',
     scopes: [
       'User.Read',
+      'offline_access',
       'Mail.ReadWrite',
+      'Mail.Send',
       'Calendars.ReadWrite',
+      'Contacts.ReadWrite',
       'Files.ReadWrite.All',
       'Sites.ReadWrite.All',
       'Team.ReadBasic.All',
@@ -37,6 +42,7 @@ class MSGraphIntegration implements Integration {
       'Chat.ReadWrite',
     ],
     requiredEnvVars: ['MSGRAPH_CLIENT_ID', 'MSGRAPH_CLIENT_SECRET', 'MSGRAPH_TENANT_ID'],
+    pkce: true,
   };
 
   isConfigured(): boolean {
@@ -51,7 +57,7 @@ class MSGraphIntegration implements Integration {
     // MS Graph doesn't need initialization beyond config check
   }
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
     const params = new URLSearchParams({
       client_id: process.env.MSGRAPH_CLIENT_ID!,
       response_type: 'code',
@@ -60,12 +66,16 @@ class MSGraphIntegration implements Integration {
       state: state || tenantId,
       response_mode: 'query',
     });
+    if (pkce) {
+      params.set('code_challenge', pkce.codeChallenge);
+      params.set('code_challenge_method', pkce.codeChallengeMethod);
+    }
 
     const msftTenantId = process.env.MSGRAPH_TENANT_ID || 'common';
     return `https://login.microsoftonline.com/${msftTenantId}/oauth2/v2.0/authorize?${params}`;
   }
 
-  async handleCallback(code: string, state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const msftTenantId = process.env.MSGRAPH_TENANT_ID || 'common';
     const tokenUrl = `https://login.microsoftonline.com/${msftTenantId}/oauth2/v2.0/token`;
 
@@ -78,6 +88,7 @@ class MSGraphIntegration implements Integration {
         code,
         redirect_uri: process.env.MSGRAPH_CALLBACK_URL || `${process.env.OAUTH_CALLBACK_URL}/msgraph`,
         grant_type: 'authorization_code',
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
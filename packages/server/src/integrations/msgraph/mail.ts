@@ -0,0 +1,530 @@
+// ===========================================
+// MICROSOFT GRAPH MAIL PROVIDER
+// Outlook mail, calendar and contacts behind the same interface as
+// Nylas, so a Microsoft 365 mailbox works without a Nylas grant
+// ===========================================
+
+import {
+  Calendar,
+  CalendarEvent,
+  Contact,
+  CreateContactInput,
+  CreateEventInput,
+  EmailFolder,
+  EmailMessage,
+  EmailParticipant,
+  EventListOptions,
+  EventParticipant,
+  MailProvider,
+  MessageChanges,
+  MessageListOptions,
+  Page,
+  SendMessageInput,
+} from '../types.js';
+import { SyncCursorError } from '../../lib/syncCursor.js';
+
+const GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+
+const MESSAGE_FIELDS = [
+  'id', 'conversationId', 'subject', 'from', 'toRecipients', 'ccRecipients', 'bccRecipients',
+  'body', 'bodyPreview', 'receivedDateTime', 'isRead', 'flag', 'parentFolderId', 'hasAttachments',
+].join(',');
+
+const DELTA_PAGE_SIZE = 100;
+
+const RESPONSE_STATUS: Record<string, EventParticipant['status']> = {
+  accepted: 'accepted',
+  organizer: 'accepted',
+  declined: 'declined',
+  tentativelyAccepted: 'tentative',
+  none: 'pending',
+  notResponded: 'pending',
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type GraphObject = any;
+
+export class GraphRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'GraphRequestError';
+  }
+}
+
+// ===========================================
+// MAPPING
+// ===========================================
+
+function toParticipant(recipient: GraphObject): EmailParticipant | undefined {
+  const address = recipient?.emailAddress?.address;
+  if (!address) return undefined;
+  return { email: address, ...(recipient.emailAddress.name ? { name: recipient.emailAddress.name } : {}) };
+}
+
+function toParticipants(list: GraphObject): EmailParticipant[] {
+  return (Array.isArray(list) ? list : [])
+    .map(toParticipant)
+    .filter((p): p is EmailParticipant => !!p);
+}
+
+function toRecipients(list: EmailParticipant[] = []) {
+  return list.map(p => ({ emailAddress: { address: p.email, ...(p.name ? { name: p.name } : {}) } }));
+}
+
+function toMessage(m: GraphObject): EmailMessage {
+  return {
+    id: m.id,
+    threadId: m.conversationId || undefined,
+    from: toParticipant(m.from),
+    to: toParticipants(m.toRecipients),
+    cc: toParticipants(m.ccRecipients),
+    bcc: toParticipants(m.bccRecipients),
+    subject: m.subject || '',
+    body: m.body?.content || '',
+    snippet: m.bodyPreview || undefined,
+    date: new Date(m.receivedDateTime),
+    unread: m.isRead === false,
+    starred: m.flag?.flagStatus === 'flagged',
+    folders: m.parentFolderId ? [m.parentFolderId] : [],
+    hasAttachments: !!m.hasAttachments,
+    ...(m.attachments
+      ? {
+          attachments: m.attachments.map((a: GraphObject) => ({
+            id: a.id,
+            filename: a.name,
+            contentType: a.contentType,
+            size: a.size,
+          })),
+        }
+      : {}),
+  };
+}
+
+function toFolder(f: GraphObject, parentId?: string): EmailFolder {
+  return {
+    id: f.id,
+    name: f.displayName,
+    ...(parentId ? { parentId } : {}),
+    totalCount: f.totalItemCount ?? 0,
+    unreadCount: f.unreadItemCount ?? 0,
+  };
+}
+
+// Times come back in UTC (see the Prefer header) but without an offset
+function fromGraphTime(time: GraphObject): Date {
+  const value: string = time?.dateTime || '';
+  return new Date(/Z|[+-]\d\d:\d\d$/.test(value) ? value : `${value}Z`);
+}
+
+function toGraphTime(date: Date) {
+  return { dateTime: date.toISOString().replace(/Z$/, ''), timeZone: 'UTC' };
+}
+
+function toEvent(e: GraphObject, calendarId: string): CalendarEvent {
+  return {
+    id: e.id,
+    calendarId,
+    title: e.subject || '',
+    description: e.bodyPreview || undefined,
+    location: e.location?.displayName || undefined,
+    startTime: fromGraphTime(e.start),
+    endTime: fromGraphTime(e.end),
+    allDay: !!e.isAllDay,
+    participants: (e.attendees || [])
+      .filter((a: GraphObject) => a.emailAddress?.address)
+      .map((a: GraphObject) => ({
+        email: a.emailAddress.address,
+        ...(a.emailAddress.name ? { name: a.emailAddress.name } : {}),
+        status: RESPONSE_STATUS[a.status?.response] || 'pending',
+      })),
+    status: e.isCancelled ? 'cancelled' : e.showAs === 'tentative' ? 'tentative' : 'confirmed',
+    ...(e.onlineMeeting?.joinUrl
+      ? { conferencing: { provider: e.onlineMeetingProvider, url: e.onlineMeeting.joinUrl } }
+      : {}),
+  };
+}
+
+function toContact(c: GraphObject): Contact {
+  return {
+    id: c.id,
+    givenName: c.givenName || undefined,
+    surname: c.surname || undefined,
+    displayName: c.displayName || undefined,
+    emails: (c.emailAddresses || []).map((a: GraphObject) => ({ email: a.address })),
+    phoneNumbers: [
+      ...(c.mobilePhone ? [{ number: c.mobilePhone, type: 'mobile' }] : []),
+      ...(c.businessPhones || []).map((number: string) => ({ number, type: 'work' })),
+      ...(c.homePhones || []).map((number: string) => ({ number, type: 'home' })),
+    ],
+    companyName: c.companyName || undefined,
+    jobTitle: c.jobTitle || undefined,
+    notes: c.personalNotes || undefined,
+    birthday: c.birthday ? c.birthday.slice(0, 10) : undefined,
+  };
+}
+
+function odataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function odataTime(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString();
+}
+
+function kqlDate(unixSeconds: number): string {
+  return new Date(unixSeconds * 1000).toISOString().slice(0, 10);
+}
+
+// ===========================================
+// PROVIDER
+// ===========================================
+
+export class GraphMailProvider implements MailProvider {
+  readonly backend = 'msgraph' as const;
+
+  constructor(
+    readonly mailboxId: string,
+    private getAccessToken: () => Promise<string>
+  ) {}
+
+  // ===========================================
+  // MESSAGES
+  // ===========================================
+
+  async listMessages(options: MessageListOptions = {}): Promise<Page<EmailMessage>> {
+    if (options.pageToken) return this.page(options.pageToken, toMessage);
+
+    const base = options.folderId ? `/me/mailFolders/${encodeURIComponent(options.folderId)}/messages` : '/me/messages';
+    const params = new URLSearchParams({
+      $top: String(Math.min(options.limit || 50, 1000)),
+      $select: MESSAGE_FIELDS,
+    });
+
+    // Graph can't filter on recipients or combine $search with $filter,
+    // so those queries go to search (KQL) and lose the flag filters
+    if (options.searchQueryNative || options.to) {
+      if (options.threadId || options.unread !== undefined || options.starred !== undefined) {
+        throw new Error('Microsoft Graph can\'t combine free-text or recipient search with read, starred or thread filters');
+      }
+      const terms = [
+        options.searchQueryNative,
+        options.from && `from:${options.from}`,
+        options.to && `to:${options.to}`,
+        options.subject && `subject:${options.subject}`,
+        options.hasAttachment && 'hasattachments:true',
+        options.receivedAfter && `received>=${kqlDate(options.receivedAfter)}`,
+        options.receivedBefore && `received<${kqlDate(options.receivedBefore)}`,
+      ].filter(Boolean);
+      params.set('$search', `"${terms.join(' ').replace(/"/g, '')}"`);
+      return this.page(`${base}?${params}`, toMessage);
+    }
+
+    // $orderby needs its property filtered first
+    const filters = [`receivedDateTime ge ${odataTime(options.receivedAfter || 0)}`];
+    if (options.receivedBefore) filters.push(`receivedDateTime lt ${odataTime(options.receivedBefore)}`);
+    if (options.threadId) filters.push(`conversationId eq ${odataString(options.threadId)}`);
+    if (options.unread !== undefined) filters.push(`isRead eq ${!options.unread}`);
+    if (options.starred !== undefined) filters.push(`flag/flagStatus ${options.starred ? 'eq' : 'ne'} 'flagged'`);
+    if (options.from) filters.push(`from/emailAddress/address eq ${odataString(options.from)}`);
+    if (options.subject) filters.push(`contains(subject, ${odataString(options.subject)})`);
+    if (options.hasAttachment) filters.push('hasAttachments eq true');
+
+    params.set('$filter', filters.join(' and '));
+    params.set('$orderby', 'receivedDateTime desc');
+    return this.page(`${base}?${params}`, toMessage);
+  }
+
+  async getMessage(id: string): Promise<EmailMessage> {
+    const params = new URLSearchParams({
+      $select: MESSAGE_FIELDS,
+      $expand: 'attachments($select=id,name,contentType,size)',
+    });
+    return toMessage(await this.request(`/me/messages/${encodeURIComponent(id)}?${params}`));
+  }
+
+  async sendMessage(input: SendMessageInput): Promise<{ id: string; threadId?: string }> {
+    const content = {
+      subject: input.subject,
+      body: { contentType: 'HTML', content: input.body },
+      toRecipients: toRecipients(input.to),
+      ccRecipients: toRecipients(input.cc),
+    };
+
+    // Replies start from Graph's own draft so they keep the conversation headers
+    const draft = input.replyToMessageId
+      ? await this.request(`/me/messages/${encodeURIComponent(input.replyToMessageId)}/createReply`, 'POST', {})
+      : await this.request('/me/messages', 'POST', content);
+    if (input.replyToMessageId) {
+      await this.request(`/me/messages/${encodeURIComponent(draft.id)}`, 'PATCH', content);
+    }
+
+    await this.request(`/me/messages/${encodeURIComponent(draft.id)}/send`, 'POST');
+    return { id: draft.id, threadId: draft.conversationId };
+  }
+
+  async updateMessage(id: string, changes: { unread?: boolean; starred?: boolean; folders?: string[] }): Promise<void> {
+    const path = `/me/messages/${encodeURIComponent(id)}`;
+
+    if (changes.unread !== undefined || changes.starred !== undefined) {
+      await this.request(path, 'PATCH', {
+        ...(changes.unread !== undefined ? { isRead: !changes.unread } : {}),
+        ...(changes.starred !== undefined ? { flag: { flagStatus: changes.starred ? 'flagged' : 'notFlagged' } } : {}),
+      });
+    }
+
+    if (changes.folders) {
+      if (changes.folders.length !== 1) {
+        throw new Error('Outlook keeps each message in exactly one folder');
+      }
+      await this.request(`${path}/move`, 'POST', { destinationId: changes.folders[0] });
+    }
+  }
+
+  async trashMessage(id: string): Promise<void> {
+    await this.request(`/me/messages/${encodeURIComponent(id)}/move`, 'POST', { destinationId: 'deleteditems' });
+  }
+
+  /**
+   * Graph only tracks message changes per folder, so the cursor keeps a
+   * delta (or next) link for every folder. Folders created since the last
+   * sync start a fresh delta over the window
+   */
+  async listMessageChanges(options: { cursor?: string; receivedAfter: number; limit: number }): Promise<MessageChanges> {
+    let links: Record<string, string> = {};
+    if (options.cursor) {
+      try {
+        links = JSON.parse(options.cursor);
+      } catch {
+        throw new SyncCursorError('Cursor is not readable');
+      }
+    }
+
+    const messages: EmailMessage[] = [];
+    const removed: string[] = [];
+    const next: Record<string, string> = {};
+    let truncated = false;
+
+    for (const folder of await this.listFolders()) {
+      let link = links[folder.id] || `/me/mailFolders/${encodeURIComponent(folder.id)}/messages/delta?` + new URLSearchParams({
+        $select: MESSAGE_FIELDS,
+        $filter: `receivedDateTime ge ${odataTime(options.receivedAfter)}`,
+      });
+
+      for (;;) {
+        if (messages.length >= options.limit) {
+          truncated = true;
+          next[folder.id] = link;
+          break;
+        }
+
+        let page: GraphObject;
+        try {
+          page = await this.request(link, 'GET', undefined, [`odata.maxpagesize=${DELTA_PAGE_SIZE}`]);
+        } catch (error) {
+          if (error instanceof GraphRequestError && error.status === 410) {
+            throw new SyncCursorError('Delta link expired');
+          }
+          throw error;
+        }
+
+        for (const item of page.value) {
+          if (item['@removed']) removed.push(item.id);
+          else messages.push(toMessage(item));
+        }
+
+        if (page['@odata.nextLink']) {
+          link = page['@odata.nextLink'];
+        } else {
+          next[folder.id] = page['@odata.deltaLink'];
+          break;
+        }
+      }
+    }
+
+    // A move shows up as a removal from one folder and an addition to another
+    const changed = new Set(messages.map(m => m.id));
+    return {
+      messages,
+      removed: [...new Set(removed)].filter(id => !changed.has(id)),
+      cursor: JSON.stringify(next),
+      truncated,
+    };
+  }
+
+  // ===========================================
+  // FOLDERS
+  // ===========================================
+
+  async listFolders(): Promise<EmailFolder[]> {
+    const folders: EmailFolder[] = [];
+
+    const visit = async (path: string, parentId?: string): Promise<void> => {
+      let link: string | undefined = `${path}?$top=100`;
+      while (link) {
+        const page = await this.request(link);
+        for (const f of page.value) {
+          folders.push(toFolder(f, parentId));
+          if (f.childFolderCount > 0) {
+            await visit(`/me/mailFolders/${encodeURIComponent(f.id)}/childFolders`, f.id);
+          }
+        }
+        link = page['@odata.nextLink'];
+      }
+    };
+
+    await visit('/me/mailFolders');
+    return folders;
+  }
+
+  async getFolder(id: string): Promise<EmailFolder> {
+    return toFolder(await this.request(`/me/mailFolders/${encodeURIComponent(id)}`));
+  }
+
+  async createFolder(name: string, parentId?: string): Promise<EmailFolder> {
+    const path = parentId ? `/me/mailFolders/${encodeURIComponent(parentId)}/childFolders` : '/me/mailFolders';
+    return toFolder(await this.request(path, 'POST', { displayName: name }), parentId);
+  }
+
+  async updateFolder(id: string, name: string): Promise<EmailFolder> {
+    return toFolder(await this.request(`/me/mailFolders/${encodeURIComponent(id)}`, 'PATCH', { displayName: name }));
+  }
+
+  async deleteFolder(id: string): Promise<void> {
+    await this.request(`/me/mailFolders/${encodeURIComponent(id)}`, 'DELETE');
+  }
+
+  // ===========================================
+  // CALENDAR
+  // ===========================================
+
+  async listCalendars(): Promise<Calendar[]> {
+    const response = await this.request('/me/calendars?$top=100');
+    return response.value.map((c: GraphObject) => ({
+      id: c.id,
+      name: c.name,
+      isPrimary: !!c.isDefaultCalendar,
+      readOnly: c.canEdit === false,
+    }));
+  }
+
+  async listEvents(options: EventListOptions = {}): Promise<Page<CalendarEvent>> {
+    const calendarId = options.calendarId || 'primary';
+    const map = (e: GraphObject) => toEvent(e, calendarId);
+    if (options.pageToken) return this.page(options.pageToken, map);
+
+    const base = calendarId === 'primary' ? '/me' : `/me/calendars/${encodeURIComponent(calendarId)}`;
+    const params = new URLSearchParams({
+      $top: String(options.limit || 50),
+      $orderby: 'start/dateTime',
+    });
+
+    // calendarView expands recurring events but needs both ends of the range
+    if (options.start && options.end) {
+      params.set('startDateTime', odataTime(options.start));
+      params.set('endDateTime', odataTime(options.end));
+      return this.page(`${base}/calendarView?${params}`, map);
+    }
+
+    const filters: string[] = [];
+    if (options.start) filters.push(`end/dateTime ge ${odataString(odataTime(options.start).replace(/Z$/, ''))}`);
+    if (options.end) filters.push(`start/dateTime lt ${odataString(odataTime(options.end).replace(/Z$/, ''))}`);
+    if (filters.length > 0) params.set('$filter', filters.join(' and '));
+    return this.page(`${base}/events?${params}`, map);
+  }
+
+  async getEvent(id: string, calendarId: string): Promise<CalendarEvent> {
+    return toEvent(await this.request(`/me/events/${encodeURIComponent(id)}`), calendarId);
+  }
+
+  async createEvent(input: CreateEventInput): Promise<CalendarEvent> {
+    const base = input.calendarId === 'primary' ? '/me' : `/me/calendars/${encodeURIComponent(input.calendarId)}`;
+    const event = await this.request(`${base}/events`, 'POST', {
+      subject: input.title,
+      ...(input.description ? { body: { contentType: 'HTML', content: input.description } } : {}),
+      ...(input.location ? { location: { displayName: input.location } } : {}),
+      start: toGraphTime(input.startTime),
+      end: toGraphTime(input.endTime),
+      attendees: toRecipients(input.participants).map(r => ({ ...r, type: 'required' })),
+    });
+    return toEvent(event, input.calendarId);
+  }
+
+  async deleteEvent(id: string): Promise<void> {
+    await this.request(`/me/events/${encodeURIComponent(id)}`, 'DELETE');
+  }
+
+  // ===========================================
+  // CONTACTS
+  // ===========================================
+
+  async listContacts(options: { limit?: number; pageToken?: string; email?: string } = {}): Promise<Page<Contact>> {
+    if (options.pageToken) return this.page(options.pageToken, toContact);
+
+    const params = new URLSearchParams({ $top: String(options.limit || 50) });
+    if (options.email) {
+      params.set('$filter', `emailAddresses/any(a:a/address eq ${odataString(options.email)})`);
+    }
+    return this.page(`/me/contacts?${params}`, toContact);
+  }
+
+  async getContact(id: string): Promise<Contact> {
+    return toContact(await this.request(`/me/contacts/${encodeURIComponent(id)}`));
+  }
+
+  async createContact(input: CreateContactInput): Promise<Contact> {
+    const phones = input.phoneNumbers || [];
+    const contact = await this.request('/me/contacts', 'POST', {
+      givenName: input.givenName,
+      surname: input.surname,
+      emailAddresses: (input.emails || []).map(e => ({ address: e.email })),
+      mobilePhone: phones.find(p => p.type === 'mobile')?.number,
+      homePhones: phones.filter(p => p.type === 'home').map(p => p.number),
+      businessPhones: phones.filter(p => p.type !== 'mobile' && p.type !== 'home').map(p => p.number),
+      companyName: input.companyName,
+      jobTitle: input.jobTitle,
+    });
+    return toContact(contact);
+  }
+
+  // ===========================================
+  // HELPER METHODS
+  // ===========================================
+
+  private async page<T>(link: string, map: (item: GraphObject) => T): Promise<Page<T>> {
+    const response = await this.request(link);
+    return {
+      data: response.value.map(map),
+      nextCursor: response['@odata.nextLink'] || undefined,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async request(endpoint: string, method = 'GET', body?: unknown, prefer: string[] = []): Promise<any> {
+    // Page tokens are Graph's own next links; never send the bearer token anywhere else
+    if (/^https?:/.test(endpoint) && !endpoint.startsWith(`${GRAPH_API_BASE}/`)) {
+      throw new Error('Invalid page_token');
+    }
+    const url = endpoint.startsWith('http') ? endpoint : `${GRAPH_API_BASE}${endpoint}`;
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        // Immutable IDs survive moves between folders, which the cache relies on
+        Prefer: ['IdType="ImmutableId"', 'outlook.timezone="UTC"', ...prefer].join(', '),
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: response.statusText }));
+      throw new GraphRequestError(response.status, error.error?.message || error.message || 'Graph API error');
+    }
+
+    if (response.status === 202 || response.status === 204) {
+      return {};
+    }
+    return response.json();
+  }
+}
@@ -8,10 +8,13 @@ import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
 } from '../types.js';
 
+import { nylasCodeChallenge } from '../../lib/nylas.js';
+
 // Re-export existing Nylas helpers for backward compatibility
 export * from '../../lib/nylas.js';
 
@@ -24,6 +27,7 @@ class NylasIntegration implements Integration {
     authType: 'oauth2',
     scopes: ['email', 'calendar', 'contacts'],
     requiredEnvVars: ['NYLAS_CLIENT_ID', 'NYLAS_API_KEY'],
+    pkce: true,
   };
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -41,20 +45,27 @@ class NylasIntegration implements Integration {
     });
   }
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
-    return this.client.auth.urlForOAuth2({
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
+    const authUrl: string = this.client.auth.urlForOAuth2({
       clientId: process.env.NYLAS_CLIENT_ID!,
       redirectUri: process.env.OAUTH_CALLBACK_URL!,
       state: state || tenantId,
     });
+    if (!pkce) return authUrl;
+
+    const url = new URL(authUrl);
+    url.searchParams.set('code_challenge', nylasCodeChallenge(pkce.codeVerifier));
+    url.searchParams.set('code_challenge_method', 's256');
+    return url.toString();
   }
 
-  async handleCallback(code: string, state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const response = await this.client.auth.exchangeCodeForToken({
       clientId: process.env.NYLAS_CLIENT_ID!,
       clientSecret: process.env.NYLAS_API_KEY!,
       redirectUri: process.env.OAUTH_CALLBACK_URL!,
       code,
+      codeVerifier,
     });
 
     return {
@@ -79,7 +90,7 @@ class NylasIntegration implements Integration {
         integration: 'nylas',
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
           { name: 'folder_id', type: 'string', description: 'Folder ID to filter by', required: false },
           { name: 'limit', type: 'number', description: 'Max emails to return', required: false, default: 50 },
           { name: 'page_token', type: 'string', description: 'Pagination token', required: false },
@@ -94,7 +105,7 @@ class NylasIntegration implements Integration {
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -109,7 +120,7 @@ class NylasIntegration implements Integration {
           { name: 'body', type: 'string', description: 'Email body (HTML)', required: true },
           { name: 'reply_to_message_id', type: 'string', description: 'Message ID to reply to', required: false },
           { name: 'cc', type: 'array', description: 'CC recipients', required: false },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -121,7 +132,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
           { name: 'folder_id', type: 'string', description: 'Target folder ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -133,7 +144,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
           { name: 'read', type: 'boolean', description: 'Mark as read (true) or unread (false)', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -145,7 +156,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
           { name: 'starred', type: 'boolean', description: 'Star (true) or unstar (false)', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -156,7 +167,7 @@ class NylasIntegration implements Integration {
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -168,7 +179,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'query', type: 'string', description: 'Search query', required: true },
           { name: 'limit', type: 'number', description: 'Max results', required: false, default: 25 },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -178,7 +189,7 @@ class NylasIntegration implements Integration {
         integration: 'nylas',
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       // Calendar tools
@@ -189,7 +200,7 @@ class NylasIntegration implements Integration {
         integration: 'nylas',
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -203,7 +214,7 @@ class NylasIntegration implements Integration {
           { name: 'start_time', type: 'string', description: 'Start time (ISO)', required: false },
           { name: 'end_time', type: 'string', description: 'End time (ISO)', required: false },
           { name: 'limit', type: 'number', description: 'Max events', required: false, default: 50 },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -215,7 +226,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'event_id', type: 'string', description: 'Event ID', required: true },
           { name: 'calendar_id', type: 'string', description: 'Calendar ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -232,7 +243,7 @@ class NylasIntegration implements Integration {
           { name: 'description', type: 'string', description: 'Event description', required: false },
           { name: 'location', type: 'string', description: 'Event location', required: false },
           { name: 'participants', type: 'array', description: 'Participants [{email, name?}]', required: false },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -244,7 +255,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'event_id', type: 'string', description: 'Event ID', required: true },
           { name: 'calendar_id', type: 'string', description: 'Calendar ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -257,7 +268,7 @@ class NylasIntegration implements Integration {
           { name: 'emails', type: 'array', description: 'Email addresses to check', required: true },
           { name: 'start_time', type: 'string', description: 'Start time (ISO)', required: true },
           { name: 'end_time', type: 'string', description: 'End time (ISO)', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       // Contact tools
@@ -270,7 +281,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'limit', type: 'number', description: 'Max contacts', required: false, default: 50 },
           { name: 'page_token', type: 'string', description: 'Pagination token', required: false },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -281,7 +292,7 @@ class NylasIntegration implements Integration {
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'contact_id', type: 'string', description: 'Contact ID', required: true },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -297,7 +308,7 @@ class NylasIntegration implements Integration {
           { name: 'phone_numbers', type: 'array', description: 'Phones [{number, type?}]', required: false },
           { name: 'company_name', type: 'string', description: 'Company', required: false },
           { name: 'job_title', type: 'string', description: 'Job title', required: false },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
       {
@@ -309,7 +320,7 @@ class NylasIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'query', type: 'string', description: 'Search query (name or email)', required: true },
           { name: 'limit', type: 'number', description: 'Max results', required: false, default: 25 },
-          { name: 'account_id', type: 'string', description: 'Account ID (optional)', required: false },
+          { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false },
         ],
       },
     ];
@@ -10,6 +10,7 @@ import {
   ToolDefinition,
   ToolResult,
 } from '../types.js';
+import { tokenUnits } from '../metering.js';
 
 class OpenAIIntegration implements Integration {
   config: IntegrationConfig = {
@@ -34,6 +35,7 @@ class OpenAIIntegration implements Integration {
         description: 'Generate a chat completion',
         category: 'ai',
         integration: 'openai',
+        rateLimitWeight: 5,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'messages', type: 'array', description: 'Chat messages [{role, content}]', required: true },
@@ -67,6 +69,7 @@ class OpenAIIntegration implements Integration {
         description: 'Generate an image with DALL-E',
         category: 'ai',
         integration: 'openai',
+        rateLimitWeight: 20,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'prompt', type: 'string', description: 'Image description', required: true },
@@ -80,6 +83,7 @@ class OpenAIIntegration implements Integration {
         description: 'Transcribe audio with Whisper',
         category: 'ai',
         integration: 'openai',
+        rateLimitWeight: 10,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'file_url', type: 'string', description: 'Audio file URL', required: true },
@@ -111,6 +115,7 @@ class OpenAIIntegration implements Integration {
         description: 'Create an OpenAI Assistant',
         category: 'ai',
         integration: 'openai',
+        rateLimitWeight: 5,
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'name', type: 'string', description: 'Assistant name', required: true },
@@ -151,7 +156,11 @@ class OpenAIIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data: data.choices[0] };
+          return {
+            success: true,
+            data: data.choices[0],
+            metadata: { integration: 'openai', tool: toolName, units: tokenUnits(data.usage) },
+          };
         }
 
         case 'openai_create_embedding': {
@@ -165,7 +174,11 @@ class OpenAIIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data: data.data[0] };
+          return {
+            success: true,
+            data: data.data[0],
+            metadata: { integration: 'openai', tool: toolName, units: tokenUnits(data.usage) },
+          };
         }
 
         case 'openai_list_models': {
@@ -191,7 +204,11 @@ class OpenAIIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data: data.data };
+          return {
+            success: true,
+            data: data.data,
+            metadata: { integration: 'openai', tool: toolName, units: { images: data.data.length } },
+          };
         }
 
         case 'openai_transcribe_audio': {
@@ -207,6 +207,7 @@ class QuickBooksIntegration implements Integration {
         description: 'Get profit and loss report',
         category: 'finance',
         integration: 'quickbooks',
+        access: 'read',
         parameters: [
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'realm_id', type: 'string', description: 'QuickBooks Realm ID', required: true },
@@ -50,6 +50,7 @@ class ResendIntegration implements Integration {
           { name: 'reply_to', type: 'array', description: 'Reply-to addresses', required: false },
           { name: 'scheduled_at', type: 'string', description: 'Schedule send time (ISO 8601)', required: false },
         ],
+        redaction: { params: ['subject'] },
       },
       {
         name: 'resend_send_batch',
@@ -60,6 +61,7 @@ class ResendIntegration implements Integration {
           { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true },
           { name: 'emails', type: 'array', description: 'Array of email objects [{from, to, subject, html}]', required: true },
         ],
+        redaction: { params: ['emails'] },
       },
       {
         name: 'resend_list_emails',
@@ -382,7 +384,11 @@ class ResendIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data };
+          return {
+            success: true,
+            data,
+            metadata: { integration: 'resend', tool: toolName, units: { emails_sent: 1 } },
+          };
         }
 
         case 'resend_send_batch': {
@@ -393,7 +399,15 @@ class ResendIntegration implements Integration {
           });
           if (!response.ok) throw new Error(`API error: ${response.status}`);
           const data = await response.json();
-          return { success: true, data };
+          return {
+            success: true,
+            data,
+            metadata: {
+              integration: 'resend',
+              tool: toolName,
+              units: { emails_sent: Array.isArray(params.emails) ? params.emails.length : 0 },
+            },
+          };
         }
 
         case 'resend_list_emails': {
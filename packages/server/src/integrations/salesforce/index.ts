@@ -7,6 +7,7 @@ import {
   Integration,
   IntegrationConfig,
   IntegrationCredentials,
+  PkceParams,
   ToolDefinition,
   ToolResult,
 } from '../types.js';
@@ -20,6 +21,7 @@ class SalesforceIntegration implements Integration {
     authType: 'oauth2',
     scopes: ['api', 'refresh_token'],
     requiredEnvVars: ['SALESFORCE_CLIENT_ID', 'SALESFORCE_CLIENT_SECRET'],
+    pkce: true,
   };
 
   private clientId = process.env.SALESFORCE_CLIENT_ID;
@@ -32,12 +34,13 @@ class SalesforceIntegration implements Integration {
 
   async initialize(): Promise<void> {}
 
-  async getAuthUrl(tenantId: string, state?: string): Promise<string> {
+  async getAuthUrl(tenantId: string, state?: string, pkce?: PkceParams): Promise<string> {
     const stateParam = state || tenantId;
-    return `https://login.salesforce.com/services/oauth2/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&state=${stateParam}`;
+    const pkceParams = pkce ? `&code_challenge=${pkce.codeChallenge}&code_challenge_method=${pkce.codeChallengeMethod}` : '';
+    return `https://login.salesforce.com/services/oauth2/authorize?client_id=${this.clientId}&redirect_uri=${encodeURIComponent(this.redirectUri)}&response_type=code&state=${stateParam}${pkceParams}`;
   }
 
-  async handleCallback(code: string, _state: string): Promise<IntegrationCredentials> {
+  async handleCallback(code: string, _state: string, codeVerifier?: string): Promise<IntegrationCredentials> {
     const response = await fetch('https://login.salesforce.com/services/oauth2/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
@@ -47,6 +50,7 @@ class SalesforceIntegration implements Integration {
         client_secret: this.clientSecret!,
         redirect_uri: this.redirectUri,
         code,
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
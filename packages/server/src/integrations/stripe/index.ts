@@ -25,6 +25,8 @@ class StripeIntegration implements Integration {
   private clientId = process.env.STRIPE_CLIENT_ID;
   private secretKey = process.env.STRIPE_SECRET_KEY;
   private redirectUri = process.env.STRIPE_REDIRECT_URI || `${process.env.BASE_URL || 'http://localhost:3050'}/integrations/stripe/callback`;
+  // Point at a local stand-in (e.g. stripe-mock on http://localhost:12111/v1) for development
+  private apiBase = process.env.STRIPE_API_BASE || 'https://api.stripe.com/v1';
 
   isConfigured(): boolean {
     return !!(this.clientId && this.secretKey);
@@ -63,6 +65,51 @@ class StripeIntegration implements Integration {
     };
   }
 
+  hasPlatformKey(): boolean {
+    return !!this.secretKey;
+  }
+
+  /**
+   * Call the API on the platform's own account with STRIPE_SECRET_KEY
+   * (platform billing, lib/billing.ts). Params are form fields, nested
+   * ones already bracketed: { 'metadata[tenantId]': id }
+   */
+  async platformRequest<T = any>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: Record<string, string | number | boolean | undefined> = {},
+    idempotencyKey?: string
+  ): Promise<T> {
+    if (!this.secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not set');
+    }
+
+    const form = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) form.set(key, String(value));
+    }
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    // Retried POSTs with the same key return the original object instead of a duplicate
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+    const query = method === 'GET' && form.toString() ? `?${form}` : '';
+    const response = await fetch(`${this.apiBase}${path}${query}`, {
+      method,
+      headers,
+      body: method === 'POST' ? form : undefined,
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Stripe ${method} ${path} failed: ${data.error?.message || response.status}`);
+    }
+    return data as T;
+  }
+
   async refreshToken(credentials: IntegrationCredentials): Promise<IntegrationCredentials> {
     const response = await fetch('https://connect.stripe.com/oauth/token', {
       method: 'POST',
@@ -221,7 +268,7 @@ class StripeIntegration implements Integration {
       return { success: false, error: 'No access token. Please connect Stripe.' };
     }
 
-    const baseUrl = 'https://api.stripe.com/v1';
+    const baseUrl = this.apiBase;
     const headers = {
       'Authorization': `Bearer ${token}`,
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -11,6 +11,7 @@ export interface IntegrationConfig {
   authType: 'oauth2' | 'oauth1' | 'api_key' | 'basic';
   scopes?: string[];
   requiredEnvVars: string[];
+  pkce?: boolean; // Provider accepts PKCE on the authorization code flow
 }
 
 export type IntegrationCategory =
@@ -37,12 +38,47 @@ export interface IntegrationCredentials {
   metadata?: Record<string, unknown>;
 }
 
+export interface PkceParams {
+  codeVerifier: string;
+  codeChallenge: string; // base64url(SHA-256(verifier))
+  codeChallengeMethod: 'S256';
+}
+
 export interface ToolDefinition {
   name: string;
   description: string;
   category: string;
   integration: string;
   parameters: ToolParameter[];
+  inputSchema?: JsonSchema; // Overrides the schema generated from parameters
+  access?: 'read' | 'write'; // Overrides the access level inferred from the tool name
+  scope?: string; // Overrides the API key scope derived from category + access
+  rateLimitWeight?: number; // Rate limit units consumed per call (default 1)
+  redaction?: RedactionRule; // Extra activity log redaction on top of the defaults
+}
+
+// How a tool's calls are recorded in the activity log (lib/activity.ts)
+export interface RedactionRule {
+  params?: string[]; // Parameter paths to mask, e.g. "subject" or "to.email"
+  output?: 'summary' | 'redacted' | 'none'; // What's kept of the result (default: summary)
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  description?: string;
+  enum?: Array<string | number>;
+  format?: 'date-time' | 'date' | 'email' | 'uri';
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
 }
 
 export interface ToolParameter {
@@ -51,6 +87,12 @@ export interface ToolParameter {
   description: string;
   required: boolean;
   default?: unknown;
+  enum?: Array<string | number>;
+  format?: JsonSchema['format'];
+  items?: JsonSchema; // Element schema for arrays
+  properties?: Record<string, JsonSchema>; // Nested fields for objects
+  minimum?: number;
+  maximum?: number;
 }
 
 export interface ToolResult<T = unknown> {
@@ -61,9 +103,22 @@ export interface ToolResult<T = unknown> {
     integration: string;
     tool: string;
     duration?: number;
+    units?: MeteredUnits; // What the call used, billed for INCLUDED integrations (lib/usage.ts)
   };
 }
 
+// Billable units a provider charges by; every call also counts as one "call"
+export type UnitType =
+  | 'call'
+  | 'input_tokens'
+  | 'output_tokens'
+  | 'images'
+  | 'call_minutes'
+  | 'sms_segments'
+  | 'emails_sent';
+
+export type MeteredUnits = Partial<Record<UnitType, number>>;
+
 // ===========================================
 // BASE INTEGRATION INTERFACE
 // ===========================================
@@ -76,8 +131,9 @@ export interface Integration {
   isConfigured(): boolean;
 
   // OAuth flow (for oauth2 auth type)
-  getAuthUrl?(tenantId: string, state?: string): Promise<string>;
-  handleCallback?(code: string, state: string): Promise<IntegrationCredentials>;
+  // state is the signed value from lib/oauthState.ts; handleCallback receives the verified tenant ID
+  getAuthUrl?(tenantId: string, state?: string, pkce?: PkceParams): Promise<string>;
+  handleCallback?(code: string, state: string, codeVerifier?: string): Promise<IntegrationCredentials>;
   refreshToken?(credentials: IntegrationCredentials): Promise<IntegrationCredentials>;
 
   // Tools
@@ -93,7 +149,7 @@ export interface Integration {
 export interface EmailMessage {
   id: string;
   threadId?: string;
-  from: EmailParticipant;
+  from?: EmailParticipant;
   to: EmailParticipant[];
   cc?: EmailParticipant[];
   bcc?: EmailParticipant[];
@@ -104,7 +160,8 @@ export interface EmailMessage {
   unread: boolean;
   starred: boolean;
   folders: string[];
-  attachments?: EmailAttachment[];
+  hasAttachments: boolean;
+  attachments?: EmailAttachment[]; // Only when the provider returned them (Graph: single messages; Gmail: always)
 }
 
 export interface EmailParticipant {
@@ -122,6 +179,7 @@ export interface EmailAttachment {
 export interface EmailFolder {
   id: string;
   name: string;
+  parentId?: string;
   type?: string;
   unreadCount?: number;
   totalCount?: number;
@@ -140,6 +198,7 @@ export interface CalendarEvent {
   participants?: EventParticipant[];
   recurrence?: string;
   status?: 'confirmed' | 'tentative' | 'cancelled';
+  conferencing?: { provider?: string; url?: string };
 }
 
 export interface EventParticipant {
@@ -154,6 +213,7 @@ export interface Calendar {
   description?: string;
   isPrimary?: boolean;
   readOnly?: boolean;
+  timezone?: string;
 }
 
 // Contact types
@@ -166,6 +226,8 @@ export interface Contact {
   phoneNumbers?: { number: string; type?: string }[];
   companyName?: string;
   jobTitle?: string;
+  notes?: string;
+  birthday?: string;
 }
 
 // File types (for OneDrive, SharePoint)
@@ -197,3 +259,106 @@ export interface TeamsMessage {
   createdAt: Date;
   channelId: string;
 }
+
+// ===========================================
+// MAIL PROVIDER
+// What the email, calendar and contact tools need from a mailbox,
+// implemented once per API a mailbox can be connected through
+// ===========================================
+
+export type MailBackend = 'nylas' | 'msgraph' | 'gmail';
+
+export interface Page<T> {
+  data: T[];
+  nextCursor?: string;
+}
+
+export interface MessageListOptions {
+  limit?: number;
+  pageToken?: string;
+  folderId?: string;
+  threadId?: string;
+  unread?: boolean;
+  starred?: boolean;
+  receivedAfter?: number; // Unix timestamp
+  receivedBefore?: number;
+  from?: string;
+  to?: string;
+  subject?: string;
+  hasAttachment?: boolean;
+  searchQueryNative?: string; // Free text in the provider's own search syntax
+}
+
+export interface SendMessageInput {
+  to: EmailParticipant[];
+  cc?: EmailParticipant[];
+  subject: string;
+  body: string; // HTML
+  replyToMessageId?: string;
+}
+
+export interface MessageChanges {
+  messages: EmailMessage[]; // Received or changed since the cursor (everything since receivedAfter without one)
+  removed: string[];        // Message IDs deleted since the cursor
+  cursor: string;           // Opaque; pass it back to continue from here
+  truncated: boolean;       // Stopped at the limit with changes left over
+}
+
+export interface EventListOptions {
+  calendarId?: string; // Defaults to the primary calendar
+  start?: number;      // Unix timestamp
+  end?: number;
+  limit?: number;
+  pageToken?: string;
+}
+
+export interface CreateEventInput {
+  calendarId: string;
+  title: string;
+  description?: string;
+  location?: string;
+  startTime: Date;
+  endTime: Date;
+  participants?: EmailParticipant[];
+}
+
+export interface CreateContactInput {
+  givenName?: string;
+  surname?: string;
+  emails?: { email: string; type?: string }[];
+  phoneNumbers?: { number: string; type?: string }[];
+  companyName?: string;
+  jobTitle?: string;
+}
+
+export interface MailProvider {
+  readonly backend: MailBackend;
+  readonly mailboxId: string; // Keys this mailbox's cached rows (the grant ID on Nylas)
+
+  // Messages
+  listMessages(options?: MessageListOptions): Promise<Page<EmailMessage>>;
+  getMessage(id: string): Promise<EmailMessage>;
+  sendMessage(input: SendMessageInput): Promise<{ id: string; threadId?: string }>;
+  updateMessage(id: string, changes: { unread?: boolean; starred?: boolean; folders?: string[] }): Promise<void>;
+  trashMessage(id: string): Promise<void>;
+  listMessageChanges(options: { cursor?: string; receivedAfter: number; limit: number }): Promise<MessageChanges>;
+
+  // Folders
+  listFolders(): Promise<EmailFolder[]>;
+  getFolder(id: string): Promise<EmailFolder>;
+  createFolder(name: string, parentId?: string): Promise<EmailFolder>;
+  updateFolder(id: string, name: string): Promise<EmailFolder>;
+  deleteFolder(id: string): Promise<void>;
+
+  // Calendar
+  listCalendars(): Promise<Calendar[]>;
+  listEvents(options?: EventListOptions): Promise<Page<CalendarEvent>>;
+  getEvent(id: string, calendarId: string): Promise<CalendarEvent>;
+  createEvent(input: CreateEventInput): Promise<CalendarEvent>;
+  deleteEvent(id: string, calendarId: string): Promise<void>;
+
+  // Contacts
+  listContacts(options?: { limit?: number; pageToken?: string; email?: string }): Promise<Page<Contact>>;
+  getContact(id: string): Promise<Contact>;
+  createContact(input: CreateContactInput): Promise<Contact>;
+}
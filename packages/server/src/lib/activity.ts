@@ -0,0 +1,335 @@
+// ===========================================
+// ACTIVITY LOG
+// One entry per tool call (/call, MCP, convenience routes and jobs)
+// with redacted parameters, plus search, CSV export and per-plan retention
+// ===========================================
+
+import { ActivityLog, Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { getPlanQuota, PLAN_QUOTAS } from './quota.js';
+import { RedactionRule } from '../integrations/types.js';
+
+export type ActivitySource = 'call' | 'mcp' | 'route' | 'job';
+
+export const ACTIVITY_SOURCES: ActivitySource[] = ['call', 'mcp', 'route', 'job'];
+export const ACTIVITY_STATUSES = ['success', 'error'] as const;
+
+// Who made a call and how, recorded with it
+export interface ActivityContext {
+  source: ActivitySource;
+  requestId?: string;
+  apiKeyId?: string;
+  userId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_MAX_ROWS = 10000;
+
+// ===========================================
+// REDACTION
+// Applied to every call; a tool's RedactionRule adds to it
+// ===========================================
+
+const REDACTED = '[REDACTED]';
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 5;
+
+// Keys whose values are credentials
+const SECRET_KEY_PATTERN = /token|secret|password|passwd|api_?key|authorization|credential|cookie|signature/i;
+
+// Values that look like credentials whatever their key
+const SECRET_VALUE_PATTERN = /^(Bearer\s|bm_(live|test)_|sk_(live|test)_|xox[abp]-|gh[pousr]_)/;
+
+// Message content: only its length is kept
+const CONTENT_KEYS = new Set([
+  'body', 'html', 'text', 'content', 'snippet', 'message',
+  'prompt', 'instructions', 'context', 'notes', 'draft', 'attachments',
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function redactValue(value: unknown, path: string, masked: Set<string>, depth: number): unknown {
+  if (typeof value === 'string') {
+    if (SECRET_VALUE_PATTERN.test(value)) return REDACTED;
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redactValue(item, path, masked, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) items.push(`[${value.length - MAX_ARRAY_ITEMS} more]`);
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const childPath = path ? `${path}.${key}` : key;
+
+    if (masked.has(childPath) || SECRET_KEY_PATTERN.test(key)) {
+      result[key] = REDACTED;
+    } else if (CONTENT_KEYS.has(key) && child !== null && child !== undefined) {
+      result[key] = typeof child === 'string' ? `[REDACTED: ${child.length} chars]` : REDACTED;
+    } else {
+      result[key] = redactValue(child, childPath, masked, depth + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Copy of a tool's parameters that's safe to store
+ * tenant_id is dropped since every entry belongs to its tenant
+ */
+export function redactParams(params: Record<string, unknown>, rule?: RedactionRule): Record<string, unknown> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { tenant_id, ...rest } = params;
+  return redactValue(rest, '', new Set(rule?.params), 0) as Record<string, unknown>;
+}
+
+/**
+ * Shape of a result without its content: success, counts and IDs
+ */
+function summarizeResult(result: unknown): Record<string, unknown> {
+  if (!isObject(result)) return { type: typeof result };
+
+  const summary: Record<string, unknown> = { success: result.success !== false };
+  const { data } = result;
+
+  if (Array.isArray(data)) {
+    summary.count = data.length;
+  } else if (isObject(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      if (Array.isArray(value)) {
+        summary[`${key}Count`] = value.length;
+      } else if ((key === 'id' || key.endsWith('Id')) && typeof value === 'string') {
+        summary[key] = value;
+      }
+    }
+  }
+  return summary;
+}
+
+export function redactResult(result: unknown, rule?: RedactionRule): Record<string, unknown> | undefined {
+  switch (rule?.output ?? 'summary') {
+    case 'none':
+      return undefined;
+    case 'redacted':
+      return redactValue(result, '', new Set(rule?.params), 0) as Record<string, unknown>;
+    default:
+      return summarizeResult(result);
+  }
+}
+
+// ===========================================
+// RECORDING
+// ===========================================
+
+export interface ToolCallRecord {
+  tenantId: string;
+  tool: string;
+  integrationId: string;
+  params: Record<string, unknown>;
+  redaction?: RedactionRule;
+  result?: unknown;
+  error?: unknown; // Thrown by the handler
+  duration: number;
+  context?: ActivityContext;
+}
+
+function failureOf(record: ToolCallRecord): string | null {
+  if (record.error !== undefined) {
+    return record.error instanceof Error ? record.error.message : String(record.error);
+  }
+  if (isObject(record.result) && record.result.success === false) {
+    return typeof record.result.error === 'string' ? record.result.error : 'Unknown error';
+  }
+  return null;
+}
+
+/**
+ * Record a tool call without slowing it down
+ */
+export function logToolCallAsync(record: ToolCallRecord): void {
+  const error = failureOf(record);
+  const output = record.error === undefined ? redactResult(record.result, record.redaction) : undefined;
+
+  db.activityLog.create({
+    data: {
+      tenantId: record.tenantId,
+      action: record.tool,
+      integrationId: record.integrationId,
+      source: record.context?.source ?? 'call',
+      status: error ? 'error' : 'success',
+      input: redactParams(record.params, record.redaction) as Prisma.InputJsonValue,
+      output: output as Prisma.InputJsonValue | undefined,
+      error: error ? error.slice(0, 1000) : null,
+      duration: record.duration,
+      requestId: record.context?.requestId,
+      apiKeyId: record.context?.apiKeyId,
+      userId: record.context?.userId,
+    },
+  }).catch((err) => {
+    console.error('Failed to record activity:', err);
+  });
+}
+
+// ===========================================
+// SEARCH
+// ===========================================
+
+export interface ActivityFilters {
+  action?: string;
+  integrationId?: string;
+  status?: string;
+  source?: string;
+  apiKeyId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Oldest entry the tenant's plan still shows (older ones await pruning)
+ */
+async function retentionCutoff(tenantId: string): Promise<Date> {
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId }, select: { plan: true } });
+  return new Date(Date.now() - getPlanQuota(tenant?.plan || 'free').activityRetentionDays * DAY_MS);
+}
+
+async function activityWhere(tenantId: string, filters: ActivityFilters): Promise<Prisma.ActivityLogWhereInput> {
+  const cutoff = await retentionCutoff(tenantId);
+  const from = filters.from && filters.from > cutoff ? filters.from : cutoff;
+
+  return {
+    tenantId,
+    createdAt: { gte: from, ...(filters.to ? { lte: filters.to } : {}) },
+    ...(filters.action ? { action: filters.action } : {}),
+    ...(filters.integrationId ? { integrationId: filters.integrationId } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.source ? { source: filters.source } : {}),
+    ...(filters.apiKeyId ? { apiKeyId: filters.apiKeyId } : {}),
+    ...(filters.requestId ? { requestId: filters.requestId } : {}),
+  };
+}
+
+/**
+ * A page of a tenant's activity, newest first
+ * nextCursor is the ID to pass as cursor for the next page
+ */
+export async function listActivity(
+  tenantId: string,
+  filters: ActivityFilters,
+  page: { cursor?: string; limit?: number } = {}
+): Promise<{ entries: ActivityLog[]; nextCursor: string | null }> {
+  const limit = Math.min(Math.max(page.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  const rows = await db.activityLog.findMany({
+    where: await activityWhere(tenantId, filters),
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(page.cursor ? { cursor: { id: page.cursor }, skip: 1 } : {}),
+  });
+
+  const entries = rows.slice(0, limit);
+  return { entries, nextCursor: rows.length > limit ? entries[entries.length - 1].id : null };
+}
+
+export function serializeActivity(entry: ActivityLog) {
+  return {
+    id: entry.id,
+    action: entry.action,
+    integrationId: entry.integrationId,
+    source: entry.source,
+    status: entry.status,
+    input: entry.input,
+    output: entry.output,
+    error: entry.error,
+    duration: entry.duration,
+    requestId: entry.requestId,
+    apiKeyId: entry.apiKeyId,
+    userId: entry.userId,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+// ===========================================
+// CSV EXPORT
+// ===========================================
+
+const CSV_COLUMNS = [
+  'createdAt', 'requestId', 'action', 'integrationId', 'source', 'status',
+  'duration', 'apiKeyId', 'userId', 'error', 'input', 'output',
+] as const;
+
+function csvCell(value: unknown): string {
+  let text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  // Spreadsheets run cells starting with these as formulas
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Every matching entry as CSV, newest first (capped at EXPORT_MAX_ROWS)
+ */
+export async function exportActivityCsv(tenantId: string, filters: ActivityFilters): Promise<string> {
+  const lines = [CSV_COLUMNS.join(',')];
+  let cursor: string | undefined;
+
+  while (lines.length - 1 < EXPORT_MAX_ROWS) {
+    const { entries, nextCursor } = await listActivity(tenantId, filters, { cursor, limit: EXPORT_BATCH_SIZE });
+    for (const entry of entries.map(serializeActivity)) {
+      lines.push(CSV_COLUMNS.map(column => csvCell(entry[column])).join(','));
+    }
+    if (!nextCursor) break;
+    cursor = nextCursor;
+  }
+
+  return lines.slice(0, EXPORT_MAX_ROWS + 1).join('\n') + '\n';
+}
+
+// ===========================================
+// RETENTION
+// ===========================================
+
+/**
+ * Delete entries older than each tenant's plan keeps them
+ * Unknown plans get the free plan's retention, like their quota
+ */
+export async function pruneActivityLogs(): Promise<number> {
+  const plans = Object.keys(PLAN_QUOTAS);
+  let deleted = 0;
+
+  for (const plan of plans) {
+    const cutoff = new Date(Date.now() - PLAN_QUOTAS[plan].activityRetentionDays * DAY_MS);
+    const tenantPlan = plan === 'free' ? { OR: [{ plan }, { plan: { notIn: plans } }] } : { plan };
+
+    const { count } = await db.activityLog.deleteMany({
+      where: { createdAt: { lt: cutoff }, tenant: tenantPlan },
+    });
+    deleted += count;
+  }
+
+  return deleted;
+}
+
+export function startActivityRetention(): void {
+  const timer = setInterval(() => {
+    pruneActivityLogs().catch((error) => {
+      console.error('Activity retention error:', error);
+    });
+  }, RETENTION_INTERVAL_MS);
+  timer.unref();
+}
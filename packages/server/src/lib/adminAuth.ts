@@ -0,0 +1,191 @@
+// ===========================================
+// PLATFORM ADMIN AUTHENTICATION
+// Admin identities, admin keys, and the audit trail
+// ===========================================
+
+import { createHash, randomBytes } from 'crypto';
+import { AdminRole } from '@prisma/client';
+import { db } from './db.js';
+
+// Admin key format: bm_admin_xxxxxxxxxxxxxxxxxxxxxxxxxxxx (32 random chars)
+const ADMIN_KEY_PREFIX = 'bm_admin_';
+const KEY_LENGTH = 32;
+
+export const ADMIN_ROLES: AdminRole[] = ['OWNER', 'BILLING_VIEWER', 'SUPPORT'];
+
+export interface ValidatedAdmin {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  keyId: string;
+}
+
+export interface AdminKeyInfo {
+  id: string;
+  adminId: string;
+  name: string;
+  keyPrefix: string;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+// ===========================================
+// KEY GENERATION
+// ===========================================
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isAdminKey(key: string): boolean {
+  return key.startsWith(ADMIN_KEY_PREFIX);
+}
+
+export async function createAdminKey(params: {
+  adminId: string;
+  name: string;
+  expiresAt?: Date;
+}): Promise<{ key: string; keyInfo: AdminKeyInfo }> {
+  const { adminId, name, expiresAt } = params;
+
+  const fullKey = `${ADMIN_KEY_PREFIX}${randomBytes(KEY_LENGTH / 2).toString('hex')}`;
+
+  const adminKey = await db.platformAdminKey.create({
+    data: {
+      adminId,
+      name,
+      keyHash: hashKey(fullKey),
+      keyPrefix: fullKey.substring(0, 12),
+      expiresAt,
+    },
+  });
+
+  return {
+    key: fullKey, // Only returned once at creation!
+    keyInfo: {
+      id: adminKey.id,
+      adminId: adminKey.adminId,
+      name: adminKey.name,
+      keyPrefix: adminKey.keyPrefix,
+      lastUsedAt: adminKey.lastUsedAt,
+      expiresAt: adminKey.expiresAt,
+      isActive: adminKey.isActive,
+      createdAt: adminKey.createdAt,
+    },
+  };
+}
+
+// ===========================================
+// KEY VALIDATION
+// ===========================================
+
+export async function validateAdminKey(key: string): Promise<ValidatedAdmin | null> {
+  if (!isAdminKey(key)) {
+    return null;
+  }
+
+  const adminKey = await db.platformAdminKey.findUnique({
+    where: { keyHash: hashKey(key) },
+    include: { admin: true },
+  });
+
+  if (!adminKey || !adminKey.isActive || !adminKey.admin.isActive) {
+    return null;
+  }
+
+  if (adminKey.expiresAt && adminKey.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Update last used timestamps (fire and forget)
+  const now = new Date();
+  db.platformAdminKey.update({
+    where: { id: adminKey.id },
+    data: { lastUsedAt: now },
+  }).catch(() => {});
+  db.platformAdmin.update({
+    where: { id: adminKey.adminId },
+    data: { lastSeenAt: now },
+  }).catch(() => {});
+
+  return {
+    id: adminKey.admin.id,
+    email: adminKey.admin.email,
+    name: adminKey.admin.name,
+    role: adminKey.admin.role,
+    keyId: adminKey.id,
+  };
+}
+
+export function hasAdminRole(admin: ValidatedAdmin, roles: AdminRole[]): boolean {
+  // Owners can do everything
+  return admin.role === 'OWNER' || roles.includes(admin.role);
+}
+
+// ===========================================
+// AUDIT TRAIL
+// ===========================================
+
+export interface FieldChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+function formatValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Compare before/after values and return the fields that changed
+ * Fields missing from `after` were not part of the update and are skipped
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const [field, newValue] of Object.entries(after)) {
+    if (newValue === undefined) continue;
+
+    const oldValue = before?.[field] ?? null;
+    if (formatValue(oldValue) !== formatValue(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Record one audit row per changed field
+ */
+export async function recordAdminAudit(params: {
+  admin: ValidatedAdmin;
+  action: string;
+  integrationId: string;
+  changes: FieldChange[];
+  ipAddress?: string;
+}): Promise<void> {
+  const { admin, action, integrationId, changes, ipAddress } = params;
+
+  if (changes.length === 0) return;
+
+  await db.adminAuditLog.createMany({
+    data: changes.map(change => ({
+      adminId: admin.id,
+      adminEmail: admin.email,
+      action,
+      integrationId,
+      field: change.field,
+      oldValue: formatValue(change.oldValue),
+      newValue: formatValue(change.newValue),
+      ipAddress,
+    })),
+  });
+}
@@ -5,6 +5,7 @@
 
 import { createHash, randomBytes } from 'crypto';
 import { db } from './db.js';
+import { ToolDefinition } from '../integrations/types.js';
 
 // API key format: bm_live_xxxxxxxxxxxxxxxxxxxxxxxxxxxx (32 random chars)
 const KEY_PREFIX_LIVE = 'bm_live_';
@@ -30,6 +31,7 @@ export interface ValidatedApiKey extends ApiKeyInfo {
     name: string;
     plan: string;
     isActive: boolean;
+    rateLimitPerMinute: number | null;
   };
 }
 
@@ -111,6 +113,7 @@ export async function validateApiKey(key: string): Promise<ValidatedApiKey | nul
           name: true,
           plan: true,
           isActive: true,
+          rateLimitPerMinute: true,
         },
       },
     },
@@ -235,5 +238,80 @@ export const AVAILABLE_SCOPES = [
   'teams:*',              // All Teams permissions
   'teams:read',           // Read Teams messages
   'teams:write',          // Send Teams messages
+  'communication:*',      // All messaging permissions (Slack, Discord, Zoom, etc.)
+  'communication:read',   // Read channels, messages, meetings
+  'communication:write',  // Send messages, create meetings
+  'crm:*',                // All CRM permissions
+  'crm:read',             // Read CRM records
+  'crm:write',            // Create/modify CRM records
+  'finance:*',            // All finance permissions
+  'finance:read',         // Read invoices, payments, reports
+  'finance:write',        // Create/modify invoices and payments
+  'voice:*',              // All voice permissions
+  'voice:read',           // Read calls and recordings
+  'voice:write',          // Place calls, send SMS
+  'productivity:*',       // All productivity permissions
+  'productivity:read',    // Read tasks, boards, docs
+  'productivity:write',   // Create/modify tasks, boards, docs
+  'developer:*',          // All developer tool permissions
+  'developer:read',       // Read repos, issues, pipelines
+  'developer:write',      // Create/modify issues, PRs
   'ai:*',                 // All AI features
+  'ai:read',              // List models, search vector indexes
+  'ai:write',             // Generate text, embeddings, drafts
 ];
+
+// Per-integration scopes ("hubspot:read", "stripe:*") narrow a key to one integration
+export function getIntegrationScopes(integrationId: string): string[] {
+  return [`${integrationId}:*`, `${integrationId}:read`, `${integrationId}:write`];
+}
+
+export function isValidScope(scope: string, integrationIds: string[]): boolean {
+  if (AVAILABLE_SCOPES.includes(scope)) return true;
+
+  const [integrationId, access] = scope.split(':');
+  return integrationIds.includes(integrationId) && ['*', 'read', 'write'].includes(access);
+}
+
+// ===========================================
+// TOOL SCOPES
+// ===========================================
+
+// Tool categories that share a scope with another category
+const SCOPE_CATEGORIES: Record<string, string> = {
+  folders: 'email',
+};
+
+// Verbs that never change provider state; anything else is treated as a write
+const READ_VERBS = ['list', 'get', 'search', 'query', 'fetch', 'describe', 'count', 'check', 'find', 'read'];
+const WRITE_VERBS = [
+  'send', 'create', 'update', 'delete', 'cancel', 'reschedule', 'upload', 'add', 'remove', 'move',
+  'mark', 'star', 'trash', 'make', 'buy', 'end', 'append', 'transition', 'complete', 'upsert',
+  'exchange', 'chat', 'transcribe', 'moderate',
+];
+
+export function getToolAccess(tool: ToolDefinition): 'read' | 'write' {
+  if (tool.access) return tool.access;
+
+  // Tool names are [integration_]verb_noun, e.g. hubspot_list_contacts
+  const verb = tool.name.split('_').find(part => READ_VERBS.includes(part) || WRITE_VERBS.includes(part));
+  return verb && READ_VERBS.includes(verb) ? 'read' : 'write';
+}
+
+export function getToolScope(tool: ToolDefinition): string {
+  if (tool.scope) return tool.scope;
+
+  const category = SCOPE_CATEGORIES[tool.category] || tool.category;
+  return `${category}:${getToolAccess(tool)}`;
+}
+
+/**
+ * A key may call a tool with either the category scope ("crm:write")
+ * or the integration's own scope ("hubspot:write")
+ */
+export function hasToolScope(apiKey: ValidatedApiKey, tool: ToolDefinition): boolean {
+  return (
+    hasScope(apiKey, getToolScope(tool)) ||
+    hasScope(apiKey, `${tool.integration}:${getToolAccess(tool)}`)
+  );
+}
@@ -0,0 +1,281 @@
+// ===========================================
+// BILLING TESTS
+// Invoices are pushed to a local Stripe stand-in (via STRIPE_API_BASE)
+// that, like Stripe after 24 hours, ignores idempotency keys, so retries
+// must not rely on them
+// ===========================================
+
+import { test, after, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// ===========================================
+// STRIPE STAND-IN
+// ===========================================
+
+interface FakeStripeInvoice {
+  id: string;
+  status: string;
+  hosted_invoice_url: string | null;
+}
+
+const stripe = {
+  invoices: new Map<string, FakeStripeInvoice>(),
+  items: [] as { id: string; invoice: string; metadata: Record<string, string> }[],
+  requests: [] as string[],
+  failLine: null as string | null, // Fail the next item for this invoice line
+  onFinalize: null as (() => Promise<void>) | null,
+};
+
+function resetStripe() {
+  stripe.invoices.clear();
+  stripe.items = [];
+  stripe.requests = [];
+  stripe.failLine = null;
+  stripe.onFinalize = null;
+}
+
+function metadataOf(form: URLSearchParams): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of form) {
+    const match = key.match(/^metadata\[(.+)\]$/);
+    if (match) metadata[match[1]] = value;
+  }
+  return metadata;
+}
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', async () => {
+    const url = new URL(req.url!, 'http://stripe.test');
+    const path = url.pathname.replace(/^\/v1/, '');
+    const form = new URLSearchParams(req.method === 'POST' ? body : url.search);
+    stripe.requests.push(`${req.method} ${path}`);
+
+    const send = (status: number, data: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (req.method === 'POST' && path === '/invoices') {
+      const invoice = { id: `in_${stripe.invoices.size + 1}`, status: 'draft', hosted_invoice_url: null };
+      stripe.invoices.set(invoice.id, invoice);
+      return send(200, invoice);
+    }
+
+    const invoiceMatch = path.match(/^\/invoices\/([^/]+)(\/finalize)?$/);
+    if (invoiceMatch) {
+      const invoice = stripe.invoices.get(invoiceMatch[1]);
+      if (!invoice) return send(404, { error: { message: 'No such invoice' } });
+
+      if (req.method === 'POST' && invoiceMatch[2]) {
+        await stripe.onFinalize?.();
+        invoice.status = 'open';
+        invoice.hosted_invoice_url = `https://pay.stripe.test/${invoice.id}`;
+      }
+      return send(200, invoice);
+    }
+
+    if (path === '/invoiceitems' && req.method === 'GET') {
+      return send(200, { data: stripe.items.filter(item => item.invoice === form.get('invoice')) });
+    }
+
+    if (path === '/invoiceitems' && req.method === 'POST') {
+      const metadata = metadataOf(form);
+      if (stripe.failLine && metadata.lineId === stripe.failLine) {
+        stripe.failLine = null;
+        return send(500, { error: { message: 'Stripe is having a moment' } });
+      }
+      const item = { id: `ii_${stripe.items.length + 1}`, invoice: form.get('invoice')!, metadata };
+      stripe.items.push(item);
+      return send(200, item);
+    }
+
+    send(404, { error: { message: `Unhandled ${req.method} ${path}` } });
+  });
+});
+
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+after(() => server.close());
+
+// Read when the Stripe integration is constructed, so set before importing it
+process.env.STRIPE_API_BASE = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+process.env.STRIPE_SECRET_KEY = 'sk_test_standin';
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+
+const { db } = await import('./db.js');
+const { syncInvoice, createInvoice, planForPeriod } = await import('./billing.js');
+
+// ===========================================
+// DATABASE STAND-INS
+// ===========================================
+
+const invoices = new Map<string, any>();
+let currentPlan = 'pro';
+let planChanges: { fromPlan: string; toPlan: string; createdAt: Date }[] = [];
+
+function stubDelegate(name: string, value: object) {
+  Object.defineProperty(db, name, { value, configurable: true });
+}
+
+const copy = (invoice: any) => invoice && { ...invoice, lines: [...invoice.lines] };
+
+stubDelegate('invoice', {
+  findUnique: async ({ where }: any) => copy(where.id ? invoices.get(where.id) : null),
+  findUniqueOrThrow: async ({ where }: any) => {
+    if (!invoices.has(where.id)) throw new Error('Invoice not found');
+    return copy(invoices.get(where.id));
+  },
+  create: async ({ data }: any) => {
+    const invoice = { id: 'inv_new', status: 'draft', currency: 'usd', stripeInvoiceId: null, ...data, lines: data.lines.create };
+    invoices.set(invoice.id, invoice);
+    return copy(invoice);
+  },
+  update: async ({ where, data }: any) => copy(Object.assign(invoices.get(where.id), data)),
+  updateMany: async ({ where, data }: any) => {
+    const invoice = invoices.get(where.id);
+    if (!invoice || (where.status && invoice.status !== where.status)) return { count: 0 };
+    Object.assign(invoice, data);
+    return { count: 1 };
+  },
+});
+stubDelegate('tenant', {
+  findUnique: async () => ({ plan: currentPlan }),
+  findUniqueOrThrow: async () => ({ id: 't1', name: 'Acme', slug: 'acme', stripeCustomerId: 'cus_1' }),
+});
+stubDelegate('tenantPlanChange', {
+  findFirst: async ({ where }: any) => planChanges
+    .filter(change => change.createdAt >= where.createdAt.gte)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0] || null,
+});
+stubDelegate('usageRecord', { findMany: async () => [] });
+stubDelegate('platformUsage', { groupBy: async () => [] });
+stubDelegate('integrationConfig', { findMany: async () => [] });
+
+function draftInvoice(overrides: Record<string, unknown> = {}) {
+  const invoice = {
+    id: 'inv_1',
+    tenantId: 't1',
+    period: '2026-09',
+    plan: 'pro',
+    status: 'draft',
+    currency: 'usd',
+    total: 104,
+    stripeInvoiceId: null,
+    hostedUrl: null,
+    syncError: null,
+    lines: [
+      { id: 'line_plan', type: 'plan', description: 'pro plan', amount: 99, quantity: 1, integrationId: null, unitType: null },
+      { id: 'line_usage', type: 'usage', description: 'OpenAI', amount: 5, quantity: 1000, integrationId: 'openai', unitType: 'input_tokens' },
+    ],
+    ...overrides,
+  };
+  invoices.set(invoice.id, invoice);
+  return invoice;
+}
+
+// Failed pushes are logged; keep the test output clean
+mock.method(console, 'error', () => {});
+
+beforeEach(() => {
+  resetStripe();
+  invoices.clear();
+  currentPlan = 'pro';
+  planChanges = [];
+});
+
+// ===========================================
+// STRIPE SYNC
+// ===========================================
+
+test('pushes a draft invoice: one Stripe invoice, an item per line, finalized', async () => {
+  draftInvoice();
+
+  const synced = await syncInvoice('inv_1');
+
+  assert.equal(synced.status, 'open');
+  assert.equal(synced.stripeInvoiceId, 'in_1');
+  assert.equal(synced.hostedUrl, 'https://pay.stripe.test/in_1');
+  assert.deepEqual(stripe.items.map(item => item.metadata.lineId), ['line_plan', 'line_usage']);
+  assert.equal(stripe.invoices.get('in_1')!.status, 'open');
+});
+
+test('a retry after a failed item reuses the Stripe invoice and skips items already on it', async () => {
+  draftInvoice();
+  stripe.failLine = 'line_usage';
+
+  const failed = await syncInvoice('inv_1');
+
+  assert.equal(failed.status, 'draft');
+  assert.match(failed.syncError!, /Stripe is having a moment/);
+  // Saved before the items were pushed, so the retry can find it
+  assert.equal(failed.stripeInvoiceId, 'in_1');
+  assert.equal(stripe.items.length, 1);
+
+  const synced = await syncInvoice('inv_1');
+
+  assert.equal(synced.status, 'open');
+  assert.equal(synced.syncError, null);
+  assert.equal(stripe.requests.filter(r => r === 'POST /invoices').length, 1);
+  assert.deepEqual(stripe.items.map(item => item.metadata.lineId), ['line_plan', 'line_usage']);
+});
+
+test('a Stripe invoice voided since the last attempt is replaced', async () => {
+  stripe.invoices.set('in_old', { id: 'in_old', status: 'void', hosted_invoice_url: null });
+  draftInvoice({ stripeInvoiceId: 'in_old' });
+
+  const synced = await syncInvoice('inv_1');
+
+  assert.equal(synced.status, 'open');
+  assert.notEqual(synced.stripeInvoiceId, 'in_old');
+  assert.ok(stripe.items.every(item => item.invoice === synced.stripeInvoiceId));
+});
+
+test('a Stripe invoice finalized by an earlier attempt is only recorded', async () => {
+  stripe.invoices.set('in_done', { id: 'in_done', status: 'open', hosted_invoice_url: 'https://pay.stripe.test/in_done' });
+  draftInvoice({ stripeInvoiceId: 'in_done' });
+
+  const synced = await syncInvoice('inv_1');
+
+  assert.equal(synced.status, 'open');
+  assert.equal(synced.hostedUrl, 'https://pay.stripe.test/in_done');
+  assert.equal(stripe.items.length, 0);
+  assert.ok(!stripe.requests.some(r => r.endsWith('/finalize')));
+});
+
+test('a payment webhook that lands during the push is not overwritten', async () => {
+  draftInvoice();
+  // The invoice.paid webhook finds the invoice by its saved Stripe ID
+  stripe.onFinalize = async () => {
+    await db.invoice.update({ where: { id: 'inv_1' }, data: { status: 'paid' } });
+  };
+
+  const synced = await syncInvoice('inv_1');
+
+  assert.equal(synced.status, 'paid');
+});
+
+// ===========================================
+// PLAN FOR THE PERIOD
+// ===========================================
+
+test('a period is billed on the plan held at its end, not the current one', async () => {
+  currentPlan = 'free';
+  planChanges = [{ fromPlan: 'pro', toPlan: 'free', createdAt: new Date('2026-10-05T00:00:00Z') }];
+
+  assert.equal(await planForPeriod('t1', '2026-09', currentPlan), 'pro');
+  assert.equal(await planForPeriod('t1', '2026-10', currentPlan), 'free');
+
+  const invoice = await createInvoice('t1', '2026-09');
+  assert.equal(invoice?.plan, 'pro');
+  assert.equal(invoice?.total, 99);
+});
+
+test('changes made during the period leave it on the plan it ended with', async () => {
+  currentPlan = 'enterprise';
+  planChanges = [{ fromPlan: 'pro', toPlan: 'enterprise', createdAt: new Date('2026-09-15T00:00:00Z') }];
+
+  assert.equal(await planForPeriod('t1', '2026-09', currentPlan), 'enterprise');
+});
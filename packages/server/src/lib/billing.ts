@@ -0,0 +1,488 @@
+// ===========================================
+// BILLING
+// Closes each month into invoices (plan fee, overage past the plan's
+// quota, marked-up INCLUDED usage) and pushes them to Stripe on the
+// platform's own account
+// ===========================================
+
+import { Invoice, InvoiceLine } from '@prisma/client';
+import { db } from './db.js';
+import { getPlanQuota, invalidateQuota } from './quota.js';
+import { getUsage, summarizePlatformUsage, applyMarkup } from './usage.js';
+import { sendPlatformEmail, getTenantNotificationEmail, appUrl } from './notifications.js';
+import { emitTenantEvent } from './tenantWebhooks.js';
+import { stripeIntegration } from '../integrations/index.js';
+
+// Plan tenants fall back to when an invoice can't be paid
+const DOWNGRADE_PLAN = 'free';
+
+export type InvoiceWithLines = Invoice & { lines: InvoiceLine[] };
+
+interface LineInput {
+  type: 'plan' | 'overage' | 'usage';
+  description: string;
+  integrationId?: string;
+  unitType?: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The month before the given date, as YYYY-MM
+ */
+export function previousPeriod(now: Date = new Date()): string {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+export function isValidPeriod(period: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(period);
+}
+
+// First instant after a YYYY-MM period (UTC)
+function periodEnd(period: string): Date {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1));
+}
+
+/**
+ * Plan a tenant held at the end of a period: what it changed from at the
+ * first plan change after the period, or the current plan if none since
+ */
+export async function planForPeriod(tenantId: string, period: string, currentPlan: string): Promise<string> {
+  const laterChange = await db.tenantPlanChange.findFirst({
+    where: { tenantId, createdAt: { gte: periodEnd(period) } },
+    orderBy: { createdAt: 'asc' },
+    select: { fromPlan: true },
+  });
+  return laterChange?.fromPlan ?? currentPlan;
+}
+
+// ===========================================
+// INVOICE LINES
+// ===========================================
+
+/**
+ * What a tenant owes for a period on a plan
+ */
+export async function buildInvoiceLines(tenantId: string, plan: string, period: string): Promise<LineInput[]> {
+  const quota = getPlanQuota(plan);
+  const lines: LineInput[] = [];
+
+  if (quota.monthlyFee > 0) {
+    lines.push({
+      type: 'plan',
+      description: `${plan} plan (${period})`,
+      quantity: 1,
+      unitPrice: quota.monthlyFee,
+      amount: quota.monthlyFee,
+    });
+  }
+
+  const { totalCalls } = await getUsage(tenantId, period);
+  const overage = Math.max(0, totalCalls - quota.monthlyCalls);
+  if (quota.overage === 'bill' && overage > 0) {
+    lines.push({
+      type: 'overage',
+      description: `${overage.toLocaleString()} calls over the ${quota.monthlyCalls.toLocaleString()} included`,
+      quantity: overage,
+      unitPrice: quota.overagePricePerCall,
+      amount: roundCents(overage * quota.overagePricePerCall),
+    });
+  }
+
+  const usage = await summarizePlatformUsage(period, tenantId);
+  const configs = await db.integrationConfig.findMany({
+    where: { integrationId: { in: usage.map(u => u.integrationId) } },
+    select: { integrationId: true, displayName: true, markupPercent: true },
+  });
+  const configMap = new Map(configs.map(c => [c.integrationId, c]));
+
+  for (const summary of usage) {
+    const config = configMap.get(summary.integrationId);
+
+    for (const [unitType, cost] of Object.entries(summary.costs)) {
+      const quantity = summary.units[unitType as keyof typeof summary.units] || 0;
+      const amount = roundCents(applyMarkup(cost || 0, config?.markupPercent));
+      if (amount <= 0 || quantity <= 0) continue;
+
+      lines.push({
+        type: 'usage',
+        description: `${config?.displayName || summary.integrationId}: ${(Math.round(quantity * 100) / 100).toLocaleString()} ${unitType.replace(/_/g, ' ')}`,
+        integrationId: summary.integrationId,
+        unitType,
+        quantity,
+        unitPrice: amount / quantity,
+        amount,
+      });
+    }
+  }
+
+  return lines;
+}
+
+// ===========================================
+// CLOSING A PERIOD
+// ===========================================
+
+/**
+ * Invoice for a tenant's period, created once
+ * Returns null when there's nothing to charge
+ */
+export async function createInvoice(tenantId: string, period: string): Promise<InvoiceWithLines | null> {
+  const existing = await db.invoice.findUnique({
+    where: { tenantId_period: { tenantId, period } },
+    include: { lines: true },
+  });
+  if (existing) return existing;
+
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId }, select: { plan: true } });
+  if (!tenant) return null;
+
+  // Closing can run well after the period ended (or be re-run), by which
+  // time the plan may have changed
+  const plan = await planForPeriod(tenantId, period, tenant.plan);
+
+  const lines = await buildInvoiceLines(tenantId, plan, period);
+  const total = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+  if (total <= 0) return null;
+
+  return db.invoice.create({
+    data: {
+      tenantId,
+      period,
+      plan,
+      total,
+      lines: { create: lines },
+    },
+    include: { lines: true },
+  });
+}
+
+export interface BillingCloseResult {
+  period: string;
+  invoices: number;
+  synced: number;
+  failed: number;
+}
+
+/**
+ * Create every active tenant's invoice for a period and push them to Stripe
+ * Safe to re-run: existing invoices are kept and only unsynced ones are pushed
+ */
+export async function closeBillingPeriod(period: string): Promise<BillingCloseResult> {
+  if (!isValidPeriod(period)) {
+    throw new Error('period must be YYYY-MM');
+  }
+
+  const tenants = await db.tenant.findMany({ where: { isActive: true }, select: { id: true } });
+  const result: BillingCloseResult = { period, invoices: 0, synced: 0, failed: 0 };
+
+  for (const tenant of tenants) {
+    const invoice = await createInvoice(tenant.id, period);
+    if (!invoice) continue;
+    result.invoices++;
+
+    if (invoice.status !== 'draft' || !stripeIntegration.hasPlatformKey()) continue;
+
+    const synced = await syncInvoice(invoice.id);
+    if (synced.status === 'draft') {
+      result.failed++;
+    } else {
+      result.synced++;
+    }
+  }
+
+  await db.billingPeriod.upsert({
+    where: { period },
+    create: { period, invoices: result.invoices },
+    update: { invoices: result.invoices, closedAt: new Date() },
+  });
+
+  return result;
+}
+
+// ===========================================
+// STRIPE SYNC
+// The Stripe invoice's ID is saved as soon as it exists and each item
+// records its line's ID, so a retry after a partial failure picks up
+// where it stopped. Idempotency keys only cover quick retries: Stripe
+// forgets them after 24 hours
+// ===========================================
+
+interface StripeInvoice {
+  id: string;
+  status: string; // "draft", "open", "paid", "uncollectible", "void"
+  hosted_invoice_url?: string | null;
+}
+
+async function ensureStripeCustomer(tenantId: string): Promise<string> {
+  const tenant = await db.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { id: true, name: true, slug: true, stripeCustomerId: true },
+  });
+  if (tenant.stripeCustomerId) return tenant.stripeCustomerId;
+
+  const email = await getTenantNotificationEmail(tenant.id);
+  const customer = await stripeIntegration.platformRequest<{ id: string }>('POST', '/customers', {
+    name: tenant.name,
+    email: email || undefined,
+    'metadata[tenantId]': tenant.id,
+    'metadata[slug]': tenant.slug,
+  }, `customer-${tenant.id}`);
+
+  await db.tenant.update({ where: { id: tenant.id }, data: { stripeCustomerId: customer.id } });
+  return customer.id;
+}
+
+/**
+ * The Stripe invoice from an earlier attempt, unless it was voided,
+ * otherwise a new one (saved on our invoice before anything else happens)
+ */
+async function ensureStripeInvoice(invoice: InvoiceWithLines, customer: string): Promise<StripeInvoice> {
+  if (invoice.stripeInvoiceId) {
+    const existing = await stripeIntegration.platformRequest<StripeInvoice>(
+      'GET',
+      `/invoices/${invoice.stripeInvoiceId}`
+    );
+    if (existing.status !== 'void') return existing;
+  }
+
+  const created = await stripeIntegration.platformRequest<StripeInvoice>('POST', '/invoices', {
+    customer,
+    currency: invoice.currency,
+    collection_method: 'charge_automatically',
+    auto_advance: true,
+    pending_invoice_items_behavior: 'exclude',
+    description: `BotMakers usage for ${invoice.period}`,
+    'metadata[invoiceId]': invoice.id,
+    'metadata[tenantId]': invoice.tenantId,
+    'metadata[period]': invoice.period,
+  }, invoice.stripeInvoiceId ? `invoice-${invoice.id}-replaces-${invoice.stripeInvoiceId}` : `invoice-${invoice.id}`);
+
+  await db.invoice.update({ where: { id: invoice.id }, data: { stripeInvoiceId: created.id } });
+  return created;
+}
+
+/**
+ * Push a draft invoice to Stripe: customer, one invoice item per line,
+ * then a finalized invoice Stripe charges automatically
+ * Failures are recorded on the invoice, which stays a draft for the next try
+ */
+export async function syncInvoice(invoiceId: string): Promise<Invoice> {
+  const invoice = await db.invoice.findUniqueOrThrow({
+    where: { id: invoiceId },
+    include: { lines: true },
+  });
+  if (invoice.status !== 'draft') return invoice;
+
+  try {
+    const customer = await ensureStripeCustomer(invoice.tenantId);
+    const stripeInvoice = await ensureStripeInvoice(invoice, customer);
+    let finalized = stripeInvoice;
+
+    // Anything past draft was finalized by an earlier attempt
+    if (stripeInvoice.status === 'draft') {
+      const existingItems = await stripeIntegration.platformRequest<{ data: { metadata?: Record<string, string> }[] }>(
+        'GET',
+        '/invoiceitems',
+        { invoice: stripeInvoice.id, limit: 100 }
+      );
+      const added = new Set(existingItems.data.map(item => item.metadata?.lineId));
+
+      for (const line of invoice.lines) {
+        if (added.has(line.id)) continue;
+
+        await stripeIntegration.platformRequest('POST', '/invoiceitems', {
+          customer,
+          invoice: stripeInvoice.id,
+          currency: invoice.currency,
+          amount: Math.round(line.amount * 100),
+          description: line.description,
+          'metadata[lineId]': line.id,
+          'metadata[lineType]': line.type,
+          'metadata[integrationId]': line.integrationId || undefined,
+          'metadata[unitType]': line.unitType || undefined,
+          'metadata[quantity]': line.quantity,
+        }, `invoiceitem-${stripeInvoice.id}-${line.id}`);
+      }
+
+      finalized = await stripeIntegration.platformRequest<StripeInvoice>(
+        'POST',
+        `/invoices/${stripeInvoice.id}/finalize`,
+        {},
+        `finalize-${stripeInvoice.id}`
+      );
+    }
+
+    // A payment webhook may already have moved the invoice on
+    await db.invoice.updateMany({
+      where: { id: invoice.id, status: 'draft' },
+      data: {
+        status: 'open',
+        hostedUrl: finalized.hosted_invoice_url || null,
+        syncError: null,
+        syncedAt: new Date(),
+      },
+    });
+    return db.invoice.findUniqueOrThrow({ where: { id: invoice.id } });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Stripe sync failed for invoice ${invoice.id}:`, message);
+    return db.invoice.update({
+      where: { id: invoice.id },
+      data: { syncError: message.slice(0, 1000) },
+    });
+  }
+}
+
+// ===========================================
+// PAYMENT EVENTS
+// From the platform account's webhooks (stripe_billing)
+// ===========================================
+
+async function findStripeInvoice(stripeInvoice: { id?: string; metadata?: Record<string, string> }) {
+  if (stripeInvoice.id) {
+    const invoice = await db.invoice.findUnique({ where: { stripeInvoiceId: stripeInvoice.id } });
+    if (invoice) return invoice;
+  }
+  const invoiceId = stripeInvoice.metadata?.invoiceId;
+  return invoiceId ? db.invoice.findUnique({ where: { id: invoiceId } }) : null;
+}
+
+/**
+ * invoice.payment_failed: mark the invoice and move the tenant to the free plan
+ * Returns false when the invoice isn't one of ours or was already handled
+ */
+export async function handlePaymentFailed(tenantId: string, stripeInvoice: any): Promise<boolean> {
+  const invoice = await findStripeInvoice(stripeInvoice);
+  if (!invoice || invoice.tenantId !== tenantId || invoice.status === 'paid') return false;
+
+  const tenant = await db.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { plan: true } });
+  const downgrade = tenant.plan !== DOWNGRADE_PLAN;
+
+  await db.$transaction([
+    db.invoice.update({
+      where: { id: invoice.id },
+      data: {
+        status: 'failed',
+        // Keep the first downgrade's plan across Stripe's payment retries
+        downgradedFrom: invoice.downgradedFrom ?? (downgrade ? tenant.plan : null),
+      },
+    }),
+    db.tenant.update({ where: { id: tenantId }, data: { plan: DOWNGRADE_PLAN } }),
+    ...(downgrade
+      ? [db.tenantPlanChange.create({
+        data: { tenantId, fromPlan: tenant.plan, toPlan: DOWNGRADE_PLAN, reason: 'payment_failed' },
+      })]
+      : []),
+  ]);
+  invalidateQuota(tenantId);
+
+  if (downgrade) {
+    emitTenantEvent(tenantId, 'billing.payment_failed', {
+      invoiceId: invoice.id,
+      period: invoice.period,
+      total: invoice.total,
+      previousPlan: tenant.plan,
+      plan: DOWNGRADE_PLAN,
+    });
+
+    const to = await getTenantNotificationEmail(tenantId);
+    if (to) {
+      await sendPlatformEmail({
+        to,
+        subject: `Payment failed for your ${invoice.period} invoice`,
+        text: [
+          `We couldn't charge $${invoice.total.toFixed(2)} for ${invoice.period}, so your account has moved from the ${tenant.plan} plan to the ${DOWNGRADE_PLAN} plan.`,
+          stripeInvoice.hosted_invoice_url
+            ? `Pay the invoice to restore your plan: ${stripeInvoice.hosted_invoice_url}`
+            : `Update your payment method to restore your plan: ${appUrl('/dashboard/usage')}`,
+        ].join('\n\n'),
+      });
+    }
+  }
+
+  return true;
+}
+
+/**
+ * invoice.paid: mark the invoice paid and restore a plan lost to its failed payment
+ */
+export async function handleInvoicePaid(tenantId: string, stripeInvoice: any): Promise<boolean> {
+  const invoice = await findStripeInvoice(stripeInvoice);
+  if (!invoice || invoice.tenantId !== tenantId || invoice.status === 'paid') return false;
+
+  await db.invoice.update({
+    where: { id: invoice.id },
+    data: { status: 'paid', paidAt: new Date() },
+  });
+
+  if (invoice.downgradedFrom) {
+    // Only undo our own downgrade, not a plan change made since
+    const { count } = await db.tenant.updateMany({
+      where: { id: tenantId, plan: DOWNGRADE_PLAN },
+      data: { plan: invoice.downgradedFrom },
+    });
+    if (count > 0) {
+      await db.tenantPlanChange.create({
+        data: { tenantId, fromPlan: DOWNGRADE_PLAN, toPlan: invoice.downgradedFrom, reason: 'invoice_paid' },
+      });
+      invalidateQuota(tenantId);
+    }
+  }
+
+  return true;
+}
+
+// ===========================================
+// SCHEDULE
+// ===========================================
+
+/**
+ * Period to close now, or null when last month is already closed
+ * (checked hourly by the job worker)
+ */
+export async function dueBillingPeriod(): Promise<string | null> {
+  const period = previousPeriod();
+  const closed = await db.billingPeriod.findUnique({ where: { period } });
+  return closed ? null : period;
+}
+
+/**
+ * API shape of an invoice (sync errors stay in the admin API)
+ */
+export function serializeInvoice(invoice: InvoiceWithLines | Invoice) {
+  return {
+    id: invoice.id,
+    tenantId: invoice.tenantId,
+    period: invoice.period,
+    plan: invoice.plan,
+    status: invoice.status,
+    currency: invoice.currency,
+    total: invoice.total,
+    stripeInvoiceId: invoice.stripeInvoiceId,
+    hostedUrl: invoice.hostedUrl,
+    syncedAt: invoice.syncedAt,
+    paidAt: invoice.paidAt,
+    createdAt: invoice.createdAt,
+    ...('lines' in invoice
+      ? {
+        lines: invoice.lines.map(line => ({
+          type: line.type,
+          description: line.description,
+          integrationId: line.integrationId,
+          unitType: line.unitType,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          amount: line.amount,
+        })),
+      }
+      : {}),
+  };
+}
@@ -5,6 +5,11 @@
 
 import { db } from './db.js';
 import * as nylasLib from './nylas.js';
+import { emitTenantEvents, TenantEvent } from './tenantWebhooks.js';
+import { SyncCursor, SyncCursorError, SyncMode, encodeSyncCursor } from './syncCursor.js';
+
+// Re-read a little before the cursor so changes landing mid-sync aren't missed
+const CURSOR_OVERLAP_SECONDS = 5 * 60;
 
 // ===========================================
 // TYPES
@@ -60,6 +65,17 @@ export interface EventSyncResult {
   updated: number;
 }
 
+export interface CalendarChangesResult {
+  success: boolean;
+  mode: SyncMode;
+  calendars: { added: number; removed: number; updated: number; total: number };
+  total: number; // Cached events after the sync
+  added: number;
+  removed: number;
+  updated: number;
+  cursor: string; // Stored as SyncState.calendarCursor
+}
+
 // ===========================================
 // SYNC CALENDARS FROM PROVIDER
 // ===========================================
@@ -217,65 +233,39 @@ export async function syncCalendarEvents(
   let added = 0;
   let updated = 0;
   let removed = 0;
+  const events: TenantEvent[] = [];
 
   // Process remote events
   for (const remote of remoteEvents) {
     const existing = existingMap.get(remote.id);
 
-    // Parse start and end times
-    let startTime: Date;
-    let endTime: Date;
-    let allDay = false;
-
-    if (remote.when?.startTime) {
-      startTime = new Date(remote.when.startTime * 1000);
-      endTime = new Date(remote.when.endTime * 1000);
-    } else if (remote.when?.startDate) {
-      // All-day event
-      startTime = new Date(remote.when.startDate);
-      endTime = new Date(remote.when.endDate);
-      allDay = true;
-    } else {
-      // Skip invalid events
+    const eventData = toEventData(remote, calendar.id);
+
+    // Skip invalid events
+    if (!eventData) {
       continue;
     }
 
-    const eventData = {
-      providerId: remote.id,
-      calendarId: calendar.id,
-      title: remote.title || 'Untitled Event',
-      description: remote.description || null,
-      location: remote.location || null,
-      startTime,
-      endTime,
-      allDay,
-      status: remote.status || null,
-      busy: remote.busy !== false,
-      recurrence: remote.recurrence || null,
-      participants: remote.participants || null,
-      organizer: remote.organizer || null,
-      reminders: remote.reminders || null,
-      conferencing: remote.conferencing || null,
-      masterEventId: remote.masterEventId || null,
-      syncedAt: new Date(),
-    };
-
     if (existing) {
       // Update if changed
-      await db.calendarEvent.update({
+      const event = await db.calendarEvent.update({
         where: { id: existing.id },
         data: eventData,
       });
       updated++;
+      if (eventChanged(existing, eventData)) {
+        events.push({ type: 'calendar.event.updated', data: toCalendarEventData(event) });
+      }
     } else {
       // Add new event
-      await db.calendarEvent.create({
+      const event = await db.calendarEvent.create({
         data: {
           tenantId: tenant.id,
           ...eventData,
         },
       });
       added++;
+      events.push({ type: 'calendar.event.created', data: toCalendarEventData(event) });
     }
   }
 
@@ -286,9 +276,18 @@ export async function syncCalendarEvents(
         where: { id: existing.id },
       });
       removed++;
+      // Events outside the window are dropped from the cache, not deleted upstream
+      if (existing.startTime >= startDate && existing.startTime <= endDate) {
+        events.push({ type: 'calendar.event.deleted', data: toCalendarEventData(existing) });
+      }
     }
   }
 
+  // The first sync is an import, not a change tenants need to hear about
+  if (existingEvents.length > 0) {
+    await emitTenantEvents(tenant.id, events);
+  }
+
   // Fetch updated list
   const syncedEvents = await db.calendarEvent.findMany({
     where: {
@@ -307,6 +306,261 @@ export async function syncCalendarEvents(
   };
 }
 
+// ===========================================
+// SYNC CALENDARS AND EVENT CHANGES
+// Full: every calendar's default window. Incremental: events updated since
+// the cursor in any calendar, with cancelled events removed from the cache
+// ===========================================
+
+export async function syncCalendarChanges(
+  tenantId: string,
+  options: { cursor?: SyncCursor } = {}
+): Promise<CalendarChangesResult> {
+  const tenant = await db.tenant.findFirst({
+    where: {
+      OR: [{ id: tenantId }, { slug: tenantId }],
+    },
+  });
+
+  if (!tenant?.nylasGrantId) {
+    throw new Error('Tenant not connected to email provider');
+  }
+
+  const startedAt = Math.floor(Date.now() / 1000);
+  const mode: SyncMode = options.cursor?.updatedAfter ? 'incremental' : 'full';
+  const knownCalendars = await db.calendar.findMany({
+    where: { tenantId: tenant.id },
+    select: { providerId: true },
+  });
+  const known = new Set(knownCalendars.map(c => c.providerId));
+  const calendarResult = await syncCalendars(tenant.id);
+
+  let added = 0;
+  let updated = 0;
+  let removed = 0;
+
+  // Calendars that just appeared have no cached events to build on
+  for (const calendar of calendarResult.calendars) {
+    if (mode === 'full' || !known.has(calendar.providerId)) {
+      const result = await syncCalendarEvents(tenant.id, calendar.id);
+      added += result.added;
+      updated += result.updated;
+      removed += result.removed;
+    }
+  }
+
+  if (mode === 'incremental') {
+    const updatedAfter = options.cursor!.updatedAfter! - CURSOR_OVERLAP_SECONDS;
+    const events: TenantEvent[] = [];
+
+    for (const calendar of calendarResult.calendars) {
+      if (!known.has(calendar.providerId)) continue;
+
+      let pageToken: string | undefined;
+      do {
+        let response: any;
+        try {
+          response = await nylasLib.listEvents(tenant.nylasGrantId, {
+            calendarId: calendar.providerId,
+            updatedAfter,
+            showCancelled: true,
+            limit: 200,
+            pageToken,
+          });
+        } catch (error: any) {
+          // Nylas answers 400 when it can't filter from this point
+          if (error?.statusCode === 400) {
+            throw new SyncCursorError(error.message || 'Provider rejected the calendar cursor');
+          }
+          throw error;
+        }
+
+        for (const remote of response.data) {
+          const existing = await db.calendarEvent.findUnique({
+            where: { tenantId_providerId: { tenantId: tenant.id, providerId: remote.id } },
+          });
+
+          if (remote.status === 'cancelled') {
+            if (existing) {
+              await db.calendarEvent.delete({ where: { id: existing.id } });
+              removed++;
+              events.push({ type: 'calendar.event.deleted', data: toCalendarEventData(existing) });
+            }
+            continue;
+          }
+
+          const eventData = toEventData(remote, calendar.id);
+          if (!eventData) continue;
+
+          const event = await db.calendarEvent.upsert({
+            where: { tenantId_providerId: { tenantId: tenant.id, providerId: remote.id } },
+            update: eventData,
+            create: { tenantId: tenant.id, ...eventData },
+          });
+
+          if (!existing) {
+            added++;
+            events.push({ type: 'calendar.event.created', data: toCalendarEventData(event) });
+          } else if (eventChanged(existing, eventData)) {
+            updated++;
+            events.push({ type: 'calendar.event.updated', data: toCalendarEventData(event) });
+          }
+        }
+
+        pageToken = response.nextCursor;
+      } while (pageToken);
+    }
+
+    await emitTenantEvents(tenant.id, events);
+  }
+
+  const total = await db.calendarEvent.count({
+    where: { calendarId: { in: calendarResult.calendars.map(c => c.id) } },
+  });
+
+  return {
+    success: true,
+    mode,
+    calendars: {
+      added: calendarResult.added,
+      removed: calendarResult.removed,
+      updated: calendarResult.updated,
+      total: calendarResult.calendars.length,
+    },
+    total,
+    added,
+    removed,
+    updated,
+    cursor: encodeSyncCursor({
+      fullAt: mode === 'full' ? Date.now() : options.cursor!.fullAt,
+      updatedAfter: startedAt,
+    }),
+  };
+}
+
+// ===========================================
+// SINGLE EVENT CHANGES (webhooks)
+// ===========================================
+
+/**
+ * Returns false when the event's calendar isn't cached yet
+ */
+export async function upsertCachedEvent(tenantId: string, remote: any): Promise<boolean> {
+  const calendar = await db.calendar.findFirst({
+    where: { tenantId, providerId: remote.calendarId },
+  });
+  if (!calendar) return false;
+
+  const eventData = toEventData(remote, calendar.id);
+  if (!eventData) return false;
+
+  const existing = await db.calendarEvent.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+  });
+  const event = await db.calendarEvent.upsert({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+    update: eventData,
+    create: { tenantId, ...eventData },
+  });
+
+  await emitTenantEvents(tenantId, [
+    { type: existing ? 'calendar.event.updated' : 'calendar.event.created', data: toCalendarEventData(event) },
+  ]);
+
+  return true;
+}
+
+export async function removeCachedEvent(tenantId: string, providerId: string): Promise<void> {
+  const existing = await db.calendarEvent.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId } },
+  });
+  if (!existing) return;
+
+  await db.calendarEvent.delete({ where: { id: existing.id } });
+  await emitTenantEvents(tenantId, [{ type: 'calendar.event.deleted', data: toCalendarEventData(existing) }]);
+}
+
+// ===========================================
+// PROVIDER MAPPING
+// ===========================================
+
+function toEventData(remote: any, calendarId: string) {
+  // Parse start and end times
+  let startTime: Date;
+  let endTime: Date;
+  let allDay = false;
+
+  if (remote.when?.startTime) {
+    startTime = new Date(remote.when.startTime * 1000);
+    endTime = new Date(remote.when.endTime * 1000);
+  } else if (remote.when?.startDate) {
+    // All-day event
+    startTime = new Date(remote.when.startDate);
+    endTime = new Date(remote.when.endDate);
+    allDay = true;
+  } else {
+    return null;
+  }
+
+  return {
+    providerId: remote.id,
+    calendarId,
+    title: remote.title || 'Untitled Event',
+    description: remote.description || null,
+    location: remote.location || null,
+    startTime,
+    endTime,
+    allDay,
+    status: remote.status || null,
+    busy: remote.busy !== false,
+    recurrence: remote.recurrence || null,
+    participants: remote.participants || null,
+    organizer: remote.organizer || null,
+    reminders: remote.reminders || null,
+    conferencing: remote.conferencing || null,
+    masterEventId: remote.masterEventId || null,
+    syncedAt: new Date(),
+  };
+}
+
+// Fields tenants see in calendar events; other columns changing isn't worth a webhook
+function eventChanged(
+  existing: { title: string; location: string | null; startTime: Date; endTime: Date; status: string | null },
+  data: NonNullable<ReturnType<typeof toEventData>>
+): boolean {
+  return existing.title !== data.title
+    || existing.location !== data.location
+    || existing.startTime.getTime() !== data.startTime.getTime()
+    || existing.endTime.getTime() !== data.endTime.getTime()
+    || existing.status !== data.status;
+}
+
+function toCalendarEventData(event: {
+  id: string;
+  providerId: string;
+  calendarId: string;
+  title: string;
+  location: string | null;
+  startTime: Date;
+  endTime: Date;
+  allDay: boolean;
+  status: string | null;
+}) {
+  return {
+    event: {
+      id: event.id,
+      providerId: event.providerId,
+      calendarId: event.calendarId,
+      title: event.title,
+      location: event.location,
+      startTime: event.startTime.toISOString(),
+      endTime: event.endTime.toISOString(),
+      allDay: event.allDay,
+      status: event.status,
+    },
+  };
+}
+
 // ===========================================
 // GET CACHED CALENDARS
 // ===========================================
@@ -638,48 +892,3 @@ export async function getUpcomingEvents(
 
   return events as SyncedCalendarEvent[];
 }
-
-// ===========================================
-// INITIAL CALENDAR SYNC (CALENDARS + EVENTS)
-// ===========================================
-
-export async function initialCalendarSync(tenantId: string): Promise<{
-  calendars: CalendarSyncResult;
-  events: EventSyncResult[];
-}> {
-  // Sync calendars first
-  const calendarResult = await syncCalendars(tenantId);
-
-  // Sync events for each calendar
-  const eventResults: EventSyncResult[] = [];
-  for (const calendar of calendarResult.calendars) {
-    const eventResult = await syncCalendarEvents(tenantId, calendar.id);
-    eventResults.push(eventResult);
-  }
-
-  // Log the sync
-  const totalEvents = eventResults.reduce((sum, r) => sum + r.events.length, 0);
-  await db.activityLog.create({
-    data: {
-      tenantId,
-      action: 'calendar_sync',
-      status: 'success',
-      input: {
-        calendars: {
-          added: calendarResult.added,
-          removed: calendarResult.removed,
-          updated: calendarResult.updated,
-          total: calendarResult.calendars.length,
-        },
-        events: {
-          total: totalEvents,
-        },
-      },
-    },
-  });
-
-  return {
-    calendars: calendarResult,
-    events: eventResults,
-  };
-}
@@ -0,0 +1,625 @@
+// ===========================================
+// CONNECTIONS
+// Connection is the one place a tenant's credentials live: BYOK API
+// keys, OAuth tokens and Nylas grants. Reads here still see rows from
+// before the move (IntegrationCredential, Nylas accounts without a
+// connection, the legacy Tenant grant) until migrateLegacyConnections
+// has copied them, and every connect/disconnect flow writes through here
+// ===========================================
+
+import { Account, Connection, IntegrationCredential, Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { encryptToken } from './encryption.js';
+import { IntegrationCredentials } from '../integrations/types.js';
+
+const MIGRATION_BATCH_SIZE = 100;
+
+// Mailbox backends whose account is backed by an OAuth connection
+const BACKEND_INTEGRATIONS: Record<string, string> = {
+  msgraph: 'msgraph',
+  gmail: 'google_calendar',
+};
+
+// Where a connection is stored until it's migrated
+export type ConnectionSource = 'connection' | 'integration_credential' | 'account';
+
+export interface TenantConnection {
+  id: string;
+  tenantId: string;
+  integrationId: string;
+  name: string;
+  accountEmail: string | null;
+  accountName: string | null;
+  grantId: string | null;
+  metadata: Record<string, unknown> | null;
+  status: string;
+  isPrimary: boolean;
+  tokenExpiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  source: ConnectionSource;
+}
+
+// ===========================================
+// READ (COMPATIBILITY LAYER)
+// ===========================================
+
+function fromConnection(c: Connection): TenantConnection {
+  return {
+    id: c.id,
+    tenantId: c.tenantId,
+    integrationId: c.integrationId,
+    name: c.name,
+    accountEmail: c.accountEmail,
+    accountName: c.accountName,
+    grantId: c.grantId,
+    metadata: c.metadata as Record<string, unknown> | null,
+    status: c.status,
+    isPrimary: c.isPrimary,
+    tokenExpiresAt: c.tokenExpiresAt,
+    lastUsedAt: c.lastUsedAt,
+    lastError: c.lastError,
+    createdAt: c.createdAt,
+    source: 'connection',
+  };
+}
+
+function fromCredential(c: IntegrationCredential): TenantConnection {
+  const metadata = c.metadata as Record<string, unknown> | null;
+  const displayName = (metadata?.displayName as string | undefined) || null;
+
+  return {
+    id: c.id,
+    tenantId: c.tenantId,
+    integrationId: c.integrationId,
+    name: displayName || c.accountEmail || c.integrationId,
+    accountEmail: c.accountEmail || null,
+    accountName: displayName,
+    grantId: c.grantId,
+    metadata,
+    status: 'active',
+    isPrimary: c.isPrimary,
+    tokenExpiresAt: c.expiresAt,
+    lastUsedAt: null,
+    lastError: null,
+    createdAt: c.createdAt,
+    source: 'integration_credential',
+  };
+}
+
+function fromNylasAccount(a: { id: string; tenantId: string; email: string; provider: string; nylasGrantId: string | null; isPrimary: boolean; createdAt: Date }): TenantConnection {
+  return {
+    id: a.id,
+    tenantId: a.tenantId,
+    integrationId: 'nylas',
+    name: a.email,
+    accountEmail: a.email,
+    accountName: null,
+    grantId: a.nylasGrantId,
+    metadata: { provider: a.provider },
+    status: 'active',
+    isPrimary: a.isPrimary,
+    tokenExpiresAt: null,
+    lastUsedAt: null,
+    lastError: null,
+    createdAt: a.createdAt,
+    source: 'account',
+  };
+}
+
+/**
+ * Every active connection a tenant has, primary first, whichever table
+ * it's still stored in
+ */
+export async function listTenantConnections(
+  tenantId: string,
+  options: { integrationId?: string } = {}
+): Promise<TenantConnection[]> {
+  const byIntegration = options.integrationId ? { integrationId: options.integrationId } : {};
+  const includeNylas = !options.integrationId || options.integrationId === 'nylas';
+
+  const [connections, credentials, accounts, tenant] = await Promise.all([
+    db.connection.findMany({ where: { tenantId, isActive: true, ...byIntegration } }),
+    db.integrationCredential.findMany({ where: { tenantId, isActive: true, connection: { is: null }, ...byIntegration } }),
+    includeNylas
+      ? db.account.findMany({ where: { tenantId, isActive: true, connectionId: null, nylasGrantId: { not: null } } })
+      : [],
+    includeNylas
+      ? db.tenant.findUnique({ where: { id: tenantId } })
+      : null,
+  ]);
+
+  const result = connections.map(fromConnection);
+  const seen = new Set(result.map(c => `${c.integrationId}:${c.accountEmail || ''}`));
+  const migrated = new Set(result.map(c => c.integrationId));
+
+  for (const credential of credentials) {
+    const key = `${credential.integrationId}:${credential.accountEmail || ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    // Credential resolution prefers Connection rows, so they hold the primary
+    result.push({ ...fromCredential(credential), isPrimary: credential.isPrimary && !migrated.has(credential.integrationId) });
+  }
+
+  const grants = new Set(result.map(c => c.grantId).filter(Boolean));
+  for (const account of accounts) {
+    if (grants.has(account.nylasGrantId)) continue;
+    grants.add(account.nylasGrantId);
+    result.push(fromNylasAccount(account));
+  }
+
+  // Connected before accounts existed
+  if (tenant?.nylasGrantId && !grants.has(tenant.nylasGrantId)) {
+    result.push(fromNylasAccount({
+      id: 'legacy',
+      tenantId,
+      email: tenant.connectedEmail || 'unknown',
+      provider: tenant.provider || 'unknown',
+      nylasGrantId: tenant.nylasGrantId,
+      isPrimary: !accounts.length,
+      createdAt: tenant.connectedAt || tenant.createdAt,
+    }));
+  }
+
+  return result.sort((a, b) =>
+    Number(b.isPrimary) - Number(a.isPrimary) || a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+// ===========================================
+// WRITE
+// ===========================================
+
+async function hasPrimaryConnection(tenantId: string, integrationId: string, exceptId?: string): Promise<boolean> {
+  const count = await db.connection.count({
+    where: { tenantId, integrationId, isActive: true, isPrimary: true, ...(exceptId ? { id: { not: exceptId } } : {}) },
+  });
+  return count > 0;
+}
+
+/**
+ * Store the tokens from an OAuth callback, reconnecting the tenant's
+ * existing connection for the same account if there is one
+ */
+export async function saveOAuthConnection(tenantId: string, credentials: IntegrationCredentials): Promise<Connection> {
+  const { integrationId } = credentials;
+  const accountEmail = (credentials.metadata?.email as string | undefined) || null;
+  const displayName = (credentials.metadata?.displayName as string | undefined) || null;
+
+  // Tokens are encrypted at rest; a callback without a refresh token keeps the old one
+  const data = {
+    accessToken: credentials.accessToken ? encryptToken(credentials.accessToken) : undefined,
+    refreshToken: credentials.refreshToken ? encryptToken(credentials.refreshToken) : undefined,
+    tokenExpiresAt: credentials.expiresAt || null,
+    grantId: credentials.grantId || null,
+    metadata: credentials.metadata as Prisma.InputJsonValue | undefined,
+    ...(displayName ? { accountName: displayName } : {}),
+    status: 'active',
+    lastError: null,
+    isActive: true,
+  };
+
+  // Reconnecting an account still stored in IntegrationCredential supersedes that row
+  const legacy = await db.integrationCredential.findFirst({
+    where: { tenantId, integrationId, accountEmail: accountEmail || '', connection: { is: null } },
+    select: { id: true },
+  });
+
+  const existing = await db.connection.findFirst({ where: { tenantId, integrationId, accountEmail } });
+  if (existing) {
+    return db.connection.update({
+      where: { id: existing.id },
+      data: {
+        ...data,
+        ...(legacy && !existing.legacyCredentialId ? { legacyCredentialId: legacy.id } : {}),
+        isPrimary: existing.isActive && existing.isPrimary ? true : !(await hasPrimaryConnection(tenantId, integrationId, existing.id)),
+      },
+    });
+  }
+
+  return db.connection.create({
+    data: {
+      tenantId,
+      integrationId,
+      name: displayName || accountEmail || integrationId,
+      accountEmail,
+      ...data,
+      legacyCredentialId: legacy?.id,
+      isPrimary: !(await hasPrimaryConnection(tenantId, integrationId)),
+    },
+  });
+}
+
+/**
+ * The connection behind a Nylas account (created, or refreshed from the
+ * account), linked to it
+ */
+export async function ensureNylasConnection(account: Account): Promise<Connection> {
+  const data = {
+    name: account.email,
+    grantId: account.nylasGrantId,
+    metadata: { provider: account.provider },
+    status: 'active',
+    lastError: null,
+    isActive: account.isActive,
+  };
+
+  let connection: Connection | null = null;
+
+  if (account.connectionId) {
+    const linked = await db.connection.findUnique({ where: { id: account.connectionId } });
+    // An account that moved tenant (reconnected elsewhere) leaves its old connection behind
+    if (linked?.tenantId === account.tenantId) {
+      connection = await db.connection.update({ where: { id: linked.id }, data });
+    } else if (linked) {
+      await db.connection.update({ where: { id: linked.id }, data: { isActive: false, isPrimary: false, grantId: null } });
+    }
+  }
+
+  if (!connection) {
+    const existing = await db.connection.findFirst({
+      where: { tenantId: account.tenantId, integrationId: 'nylas', accountEmail: account.email },
+    });
+    connection = existing
+      ? await db.connection.update({ where: { id: existing.id }, data })
+      : await db.connection.create({
+        data: {
+          tenantId: account.tenantId,
+          integrationId: 'nylas',
+          accountEmail: account.email,
+          ...data,
+          isPrimary: account.isActive && !(await hasPrimaryConnection(account.tenantId, 'nylas')),
+        },
+      });
+  }
+
+  if (account.connectionId !== connection.id) {
+    await db.account.update({ where: { id: account.id }, data: { connectionId: connection.id } });
+  }
+  return connection;
+}
+
+async function promoteNextConnection(tenantId: string, integrationId: string): Promise<void> {
+  if (await hasPrimaryConnection(tenantId, integrationId)) return;
+
+  const next = await db.connection.findFirst({
+    where: { tenantId, integrationId, isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (next) {
+    await db.connection.update({ where: { id: next.id }, data: { isPrimary: true } });
+  }
+}
+
+async function deactivateConnectionRow(connection: Connection): Promise<void> {
+  await db.connection.update({ where: { id: connection.id }, data: { isActive: false, isPrimary: false } });
+  if (connection.isPrimary) {
+    await promoteNextConnection(connection.tenantId, connection.integrationId);
+  }
+}
+
+async function deactivateAccountRow(account: Account): Promise<void> {
+  await db.account.update({ where: { id: account.id }, data: { isActive: false, isPrimary: false } });
+
+  if (account.isPrimary) {
+    const next = await db.account.findFirst({
+      where: { tenantId: account.tenantId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (next) {
+      await db.account.update({ where: { id: next.id }, data: { isPrimary: true } });
+    }
+  }
+}
+
+/**
+ * Disconnect a connection by ID (a migrated row or one still in
+ * IntegrationCredential); its mailbox account goes with it
+ * Returns null when the tenant has no such active connection
+ */
+export async function disconnectConnection(tenantId: string, id: string): Promise<TenantConnection | null> {
+  const connection = await db.connection.findFirst({
+    where: { id, tenantId, isActive: true },
+    include: { account: true },
+  });
+
+  if (connection) {
+    await deactivateConnectionRow(connection);
+    if (connection.account?.isActive) {
+      await deactivateAccountRow(connection.account);
+      await syncLegacyTenantFields(tenantId);
+    }
+    return fromConnection(connection);
+  }
+
+  const credential = await db.integrationCredential.findFirst({
+    where: { id, tenantId, isActive: true, connection: { is: null } },
+  });
+  if (!credential) return null;
+
+  await db.integrationCredential.update({ where: { id }, data: { isActive: false, isPrimary: false } });
+  if (credential.isPrimary) {
+    const next = await db.integrationCredential.findFirst({
+      where: { tenantId, integrationId: credential.integrationId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (next) {
+      await db.integrationCredential.update({ where: { id: next.id }, data: { isPrimary: true } });
+    }
+  }
+  return fromCredential(credential);
+}
+
+/**
+ * Disconnect a mailbox account, and its Nylas grant connection with it
+ * (Microsoft 365 and Google connections stay for their other tools)
+ */
+export async function disconnectAccount(account: Account): Promise<void> {
+  await deactivateAccountRow(account);
+
+  if (account.connectionId) {
+    const connection = await db.connection.findFirst({
+      where: { id: account.connectionId, integrationId: 'nylas', isActive: true },
+    });
+    if (connection) await deactivateConnectionRow(connection);
+  }
+
+  await syncLegacyTenantFields(account.tenantId);
+}
+
+/**
+ * Make an account the tenant's primary mailbox
+ */
+export async function setPrimaryAccount(account: Account): Promise<void> {
+  await db.account.updateMany({ where: { tenantId: account.tenantId }, data: { isPrimary: false } });
+  await db.account.update({ where: { id: account.id }, data: { isPrimary: true } });
+  await syncLegacyTenantFields(account.tenantId);
+}
+
+// ===========================================
+// LEGACY TENANT FIELDS
+// ===========================================
+
+/**
+ * Give a tenant's legacy grant (from before accounts) an account and
+ * connection of its own, so account changes can't drop it
+ */
+export async function adoptLegacyGrant(tenantId: string): Promise<boolean> {
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant?.nylasGrantId) return false;
+
+  const owner = await db.account.findUnique({ where: { nylasGrantId: tenant.nylasGrantId } });
+  if (owner) return false;
+
+  const email = tenant.connectedEmail || 'unknown';
+  const existing = await db.account.findUnique({ where: { tenantId_email: { tenantId, email } } });
+  // The address is already connected another way; the legacy grant stays read-only
+  if (existing?.isActive && existing.nylasGrantId !== null) return false;
+  if (existing?.isActive && existing.backend !== 'nylas') return false;
+
+  const primaryCount = await db.account.count({ where: { tenantId, isActive: true, isPrimary: true } });
+  const data = {
+    provider: tenant.provider || existing?.provider || 'unknown',
+    backend: 'nylas',
+    nylasGrantId: tenant.nylasGrantId,
+    isActive: true,
+    isPrimary: existing?.isActive ? existing.isPrimary : primaryCount === 0,
+  };
+
+  const account = existing
+    ? await db.account.update({ where: { id: existing.id }, data })
+    : await db.account.create({ data: { tenantId, email, ...data } });
+
+  await ensureNylasConnection(account);
+  return true;
+}
+
+/**
+ * Recompute Tenant.nylasGrantId/connectedEmail/provider/emailConnected
+ * from the primary account (promoting one if none is primary)
+ */
+export async function syncLegacyTenantFields(tenantId: string): Promise<void> {
+  await adoptLegacyGrant(tenantId);
+
+  const [tenant, primary] = await Promise.all([
+    db.tenant.findUnique({ where: { id: tenantId }, select: { emailConnected: true, connectedAt: true } }),
+    db.account.findFirst({
+      where: { tenantId, isActive: true },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'asc' }],
+    }),
+  ]);
+  if (!tenant) return;
+
+  if (!primary) {
+    await db.tenant.update({
+      where: { id: tenantId },
+      data: { nylasGrantId: null, emailConnected: false, connectedEmail: null, provider: null, connectedAt: null },
+    });
+    return;
+  }
+
+  if (!primary.isPrimary) {
+    await db.account.update({ where: { id: primary.id }, data: { isPrimary: true } });
+  }
+
+  // Grant IDs are unique across tenants
+  if (primary.nylasGrantId) {
+    await db.tenant.updateMany({
+      where: { nylasGrantId: primary.nylasGrantId, id: { not: tenantId } },
+      data: { nylasGrantId: null },
+    });
+  }
+
+  await db.tenant.update({
+    where: { id: tenantId },
+    data: {
+      nylasGrantId: primary.nylasGrantId,
+      emailConnected: true,
+      connectedEmail: primary.email,
+      provider: primary.provider,
+      connectedAt: tenant.emailConnected && tenant.connectedAt ? tenant.connectedAt : new Date(),
+    },
+  });
+}
+
+// ===========================================
+// MIGRATION
+// npm run db:migrate-connections (idempotent; rows are copied, never deleted)
+// ===========================================
+
+export interface ConnectionMigrationResult {
+  tenants: number;
+  adoptedGrants: number;      // Legacy tenant grants given an account
+  migratedCredentials: number; // IntegrationCredential rows copied to a new connection
+  mergedCredentials: number;   // ...or merged into the connection already there
+  linkedAccounts: number;      // Accounts linked to their connection
+  normalizedPrimaries: number; // Integrations whose primary connection was fixed up
+}
+
+/**
+ * Copy an IntegrationCredential into Connection. When the tenant already
+ * has a connection for the same account, the newer tokens win and
+ * anything missing is filled in
+ */
+async function migrateCredential(credential: IntegrationCredential): Promise<'migrated' | 'merged'> {
+  const accountEmail = credential.accountEmail || null;
+  const metadata = credential.metadata === null ? undefined : credential.metadata as Prisma.InputJsonValue;
+  const tokens = {
+    accessToken: credential.accessToken,
+    refreshToken: credential.refreshToken,
+    tokenExpiresAt: credential.expiresAt,
+  };
+
+  const existing = await db.connection.findFirst({
+    where: { tenantId: credential.tenantId, integrationId: credential.integrationId, accountEmail },
+  });
+
+  if (existing) {
+    const credentialIsNewer = !existing.accessToken || credential.updatedAt > existing.updatedAt;
+    await db.connection.update({
+      where: { id: existing.id },
+      data: {
+        ...(credentialIsNewer && credential.accessToken ? tokens : {}),
+        grantId: existing.grantId ?? credential.grantId,
+        metadata: existing.metadata === null ? metadata : undefined,
+        isActive: existing.isActive || credential.isActive,
+        isPrimary: existing.isPrimary || (credential.isActive && credential.isPrimary),
+        legacyCredentialId: credential.id,
+      },
+    });
+    return 'merged';
+  }
+
+  const displayName = (credential.metadata as Record<string, unknown> | null)?.displayName as string | undefined;
+  await db.connection.create({
+    data: {
+      tenantId: credential.tenantId,
+      integrationId: credential.integrationId,
+      name: displayName || accountEmail || credential.integrationId,
+      accountEmail,
+      accountName: displayName || null,
+      ...tokens,
+      grantId: credential.grantId,
+      metadata,
+      isActive: credential.isActive,
+      isPrimary: credential.isActive && credential.isPrimary,
+      legacyCredentialId: credential.id,
+      createdAt: credential.createdAt,
+    },
+  });
+  return 'migrated';
+}
+
+/**
+ * One active primary per integration: keep the oldest if there are
+ * several, pick the oldest if there are none
+ */
+async function normalizePrimaries(tenantId: string): Promise<number> {
+  const connections = await db.connection.findMany({
+    where: { tenantId, isActive: true },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, integrationId: true, isPrimary: true },
+  });
+
+  const byIntegration = new Map<string, typeof connections>();
+  for (const c of connections) {
+    byIntegration.set(c.integrationId, [...(byIntegration.get(c.integrationId) || []), c]);
+  }
+
+  let fixed = 0;
+  for (const list of byIntegration.values()) {
+    const primary = list.find(c => c.isPrimary) || list[0];
+    const wrong = list.filter(c => c.isPrimary !== (c.id === primary.id));
+    if (wrong.length === 0) continue;
+
+    await db.connection.updateMany({ where: { id: { in: list.map(c => c.id), not: primary.id } }, data: { isPrimary: false } });
+    await db.connection.update({ where: { id: primary.id }, data: { isPrimary: true } });
+    fixed++;
+  }
+  return fixed;
+}
+
+/**
+ * Move every tenant's credentials into Connection and link each mailbox
+ * account to its connection. Safe to re-run
+ */
+export async function migrateLegacyConnections(): Promise<ConnectionMigrationResult> {
+  const result: ConnectionMigrationResult = {
+    tenants: 0,
+    adoptedGrants: 0,
+    migratedCredentials: 0,
+    mergedCredentials: 0,
+    linkedAccounts: 0,
+    normalizedPrimaries: 0,
+  };
+  let lastId: string | undefined;
+
+  for (;;) {
+    const tenants = await db.tenant.findMany({
+      where: lastId ? { id: { gt: lastId } } : undefined,
+      orderBy: { id: 'asc' },
+      take: MIGRATION_BATCH_SIZE,
+      select: { id: true },
+    });
+    if (tenants.length === 0) break;
+    lastId = tenants[tenants.length - 1].id;
+
+    for (const { id: tenantId } of tenants) {
+      result.tenants++;
+
+      if (await adoptLegacyGrant(tenantId)) result.adoptedGrants++;
+
+      const credentials = await db.integrationCredential.findMany({
+        where: { tenantId, connection: { is: null } },
+        orderBy: { createdAt: 'asc' },
+      });
+      for (const credential of credentials) {
+        if (await migrateCredential(credential) === 'migrated') result.migratedCredentials++;
+        else result.mergedCredentials++;
+      }
+
+      const accounts = await db.account.findMany({ where: { tenantId, connectionId: null } });
+      for (const account of accounts) {
+        if (account.nylasGrantId) {
+          await ensureNylasConnection(account);
+          result.linkedAccounts++;
+          continue;
+        }
+
+        const integrationId = BACKEND_INTEGRATIONS[account.backend];
+        const connection = integrationId && await db.connection.findFirst({
+          where: { tenantId, integrationId, accountEmail: account.email, account: { is: null } },
+        });
+        if (connection) {
+          await db.account.update({ where: { id: account.id }, data: { connectionId: connection.id } });
+          result.linkedAccounts++;
+        }
+      }
+
+      result.normalizedPrimaries += await normalizePrimaries(tenantId);
+    }
+  }
+
+  return result;
+}
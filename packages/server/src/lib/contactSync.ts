@@ -5,6 +5,8 @@
 
 import { db } from './db.js';
 import * as nylasLib from './nylas.js';
+import { emitTenantEvents, TenantEvent } from './tenantWebhooks.js';
+import { SyncCursor, SyncMode, encodeSyncCursor, fingerprint } from './syncCursor.js';
 
 // ===========================================
 // TYPES
@@ -39,17 +41,89 @@ export interface SyncedContact {
 
 export interface ContactSyncResult {
   success: boolean;
-  contacts: SyncedContact[];
+  mode: SyncMode;
+  total: number;
   added: number;
   removed: number;
   updated: number;
+  cursor: string; // Stored as SyncState.contactsCursor
+}
+
+// ===========================================
+// PROVIDER MAPPING
+// ===========================================
+
+function toContactData(remote: any) {
+  const primaryEmail = remote.emails?.[0]?.email || null;
+  const displayName = remote.givenName && remote.surname
+    ? `${remote.givenName} ${remote.surname}`.trim()
+    : remote.givenName || remote.surname || primaryEmail || 'Unknown';
+
+  return {
+    providerId: remote.id,
+    email: primaryEmail,
+    givenName: remote.givenName || null,
+    surname: remote.surname || null,
+    displayName,
+    companyName: remote.companyName || null,
+    jobTitle: remote.jobTitle || null,
+    phoneNumbers: remote.phoneNumbers || null,
+    emails: remote.emails || null,
+    addresses: remote.physicalAddresses || null,
+    birthday: remote.birthday ? new Date(remote.birthday) : null,
+    notes: remote.notes || null,
+    photoUrl: remote.pictureUrl || null,
+    groups: (remote.groups || []).map((group: any) => (typeof group === 'string' ? group : group.id)),
+    source: remote.source || null,
+    syncedAt: new Date(),
+  };
+}
+
+// Every synced column, so unchanged rows can be skipped
+function contactFingerprint(contact: Omit<ReturnType<typeof toContactData>, 'syncedAt'>): string {
+  return fingerprint([
+    contact.providerId, contact.email, contact.givenName, contact.surname, contact.displayName,
+    contact.companyName, contact.jobTitle, contact.phoneNumbers, contact.emails, contact.addresses,
+    contact.birthday, contact.notes, contact.photoUrl, contact.groups, contact.source,
+  ]);
+}
+
+// Fields tenants see in contact events; other columns changing isn't worth a webhook
+function contactChanged(
+  existing: { email: string | null; givenName: string | null; surname: string | null; companyName: string | null; jobTitle: string | null; notes: string | null },
+  data: ReturnType<typeof toContactData>
+): boolean {
+  return existing.email !== data.email
+    || existing.givenName !== data.givenName
+    || existing.surname !== data.surname
+    || existing.companyName !== data.companyName
+    || existing.jobTitle !== data.jobTitle
+    || existing.notes !== data.notes;
+}
+
+function toContactEventData(contact: { id: string; providerId: string; email: string | null; displayName: string | null; companyName: string | null }) {
+  return {
+    contact: {
+      id: contact.id,
+      providerId: contact.providerId,
+      email: contact.email,
+      displayName: contact.displayName,
+      companyName: contact.companyName,
+    },
+  };
 }
 
 // ===========================================
 // SYNC CONTACTS FROM PROVIDER
+// Nylas has no change feed for contacts, so every sync lists them all; a
+// compare run skips the database when the listing's digest matches the
+// cursor and otherwise only writes contacts that changed
 // ===========================================
 
-export async function syncContacts(tenantId: string): Promise<ContactSyncResult> {
+export async function syncContacts(
+  tenantId: string,
+  options: { cursor?: SyncCursor } = {}
+): Promise<ContactSyncResult> {
   const tenant = await db.tenant.findFirst({
     where: {
       OR: [{ id: tenantId }, { slug: tenantId }],
@@ -60,6 +134,9 @@ export async function syncContacts(tenantId: string): Promise<ContactSyncResult>
     throw new Error('Tenant not connected to email provider');
   }
 
+  const mode: SyncMode = options.cursor ? 'compare' : 'full';
+  const fullAt = options.cursor?.fullAt ?? Date.now();
+
   // Fetch contacts from Nylas (paginate through all)
   const remoteContacts: any[] = [];
   let pageToken: string | undefined;
@@ -73,89 +150,116 @@ export async function syncContacts(tenantId: string): Promise<ContactSyncResult>
     pageToken = response.nextCursor;
   } while (pageToken);
 
+  const remoteData = remoteContacts.map(toContactData);
+  const fingerprints = new Map(remoteData.map(data => [data.providerId, contactFingerprint(data)]));
+  const digest = fingerprint([...fingerprints.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  const cursor = encodeSyncCursor({ fullAt, digest });
+
+  // Nothing changed upstream since the last sync
+  if (options.cursor?.digest === digest) {
+    return { success: true, mode, total: remoteContacts.length, added: 0, removed: 0, updated: 0, cursor };
+  }
+
   // Get existing synced contacts from database
   const existingContacts = await db.contact.findMany({
     where: { tenantId: tenant.id },
   });
 
   const existingMap = new Map(existingContacts.map(c => [c.providerId, c]));
-  const remoteMap = new Map(remoteContacts.map((c: any) => [c.id, c]));
 
   let added = 0;
   let updated = 0;
   let removed = 0;
+  const events: TenantEvent[] = [];
 
   // Process remote contacts
-  for (const remote of remoteContacts) {
-    const existing = existingMap.get(remote.id);
-    const primaryEmail = remote.emails?.[0]?.email || null;
-    const displayName = remote.givenName && remote.surname
-      ? `${remote.givenName} ${remote.surname}`.trim()
-      : remote.givenName || remote.surname || primaryEmail || 'Unknown';
-
-    const contactData = {
-      providerId: remote.id,
-      email: primaryEmail,
-      givenName: remote.givenName || null,
-      surname: remote.surname || null,
-      displayName,
-      companyName: remote.companyName || null,
-      jobTitle: remote.jobTitle || null,
-      phoneNumbers: remote.phoneNumbers || null,
-      emails: remote.emails || null,
-      addresses: remote.physicalAddresses || null,
-      birthday: remote.birthday ? new Date(remote.birthday) : null,
-      notes: remote.notes || null,
-      photoUrl: remote.pictureUrl || null,
-      groups: remote.groups || [],
-      source: remote.source || null,
-      syncedAt: new Date(),
-    };
+  for (const contactData of remoteData) {
+    const existing = existingMap.get(contactData.providerId);
 
     if (existing) {
-      // Update if changed
-      await db.contact.update({
+      // A full resync rewrites every row; otherwise only changed ones
+      const changed = contactFingerprint(existing as Parameters<typeof contactFingerprint>[0]) !== fingerprints.get(contactData.providerId);
+      if (!changed && mode === 'compare') continue;
+
+      const contact = await db.contact.update({
         where: { id: existing.id },
         data: contactData,
       });
-      updated++;
+      if (changed) updated++;
+      if (contactChanged(existing, contactData)) {
+        events.push({ type: 'contact.updated', data: toContactEventData(contact) });
+      }
     } else {
       // Add new contact
-      await db.contact.create({
+      const contact = await db.contact.create({
         data: {
           tenantId: tenant.id,
           ...contactData,
         },
       });
       added++;
+      events.push({ type: 'contact.created', data: toContactEventData(contact) });
     }
   }
 
   // Remove contacts that no longer exist remotely
   for (const existing of existingContacts) {
-    if (!remoteMap.has(existing.providerId)) {
+    if (!fingerprints.has(existing.providerId)) {
       await db.contact.delete({
         where: { id: existing.id },
       });
       removed++;
+      events.push({ type: 'contact.deleted', data: toContactEventData(existing) });
     }
   }
 
-  // Fetch updated list
-  const syncedContacts = await db.contact.findMany({
-    where: { tenantId: tenant.id },
-    orderBy: [{ displayName: 'asc' }],
-  });
+  // The first sync is an import, not a change tenants need to hear about
+  if (existingContacts.length > 0) {
+    await emitTenantEvents(tenant.id, events);
+  }
 
   return {
     success: true,
-    contacts: syncedContacts as SyncedContact[],
+    mode,
+    total: remoteContacts.length,
     added,
     removed,
     updated,
+    cursor,
   };
 }
 
+// ===========================================
+// SINGLE CONTACT CHANGES (webhooks)
+// ===========================================
+
+export async function upsertCachedContact(tenantId: string, remote: any): Promise<void> {
+  const contactData = toContactData(remote);
+
+  const existing = await db.contact.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+  });
+  const contact = await db.contact.upsert({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+    update: contactData,
+    create: { tenantId, ...contactData },
+  });
+
+  await emitTenantEvents(tenantId, [
+    { type: existing ? 'contact.updated' : 'contact.created', data: toContactEventData(contact) },
+  ]);
+}
+
+export async function removeCachedContact(tenantId: string, providerId: string): Promise<void> {
+  const existing = await db.contact.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId } },
+  });
+  if (!existing) return;
+
+  await db.contact.delete({ where: { id: existing.id } });
+  await emitTenantEvents(tenantId, [{ type: 'contact.deleted', data: toContactEventData(existing) }]);
+}
+
 // ===========================================
 // GET CACHED CONTACTS
 // ===========================================
@@ -449,28 +553,3 @@ export async function searchContacts(
 
   return contacts as SyncedContact[];
 }
-
-// ===========================================
-// INITIAL CONTACT SYNC
-// ===========================================
-
-export async function initialContactSync(tenantId: string): Promise<ContactSyncResult> {
-  const result = await syncContacts(tenantId);
-
-  // Log the sync
-  await db.activityLog.create({
-    data: {
-      tenantId,
-      action: 'contact_sync',
-      status: 'success',
-      input: {
-        added: result.added,
-        removed: result.removed,
-        updated: result.updated,
-        total: result.contacts.length,
-      },
-    },
-  });
-
-  return result;
-}
@@ -53,25 +53,57 @@ export async function getTenant(tenantId: string) {
   return tenant;
 }
 
+// Accounts whose connection was disconnected are gone too
+const liveAccount = {
+  isActive: true,
+  OR: [{ connectionId: null }, { connection: { isActive: true } }],
+};
+
+// Pseudo-account for tenants connected before multi-account support
+// (until lib/connections.ts adopts the grant into an account)
+function legacyAccount(tenant: Awaited<ReturnType<typeof getTenant>>) {
+  return {
+    id: 'legacy',
+    tenantId: tenant.id,
+    email: tenant.connectedEmail || 'unknown',
+    provider: tenant.provider || 'unknown',
+    backend: 'nylas',
+    nylasGrantId: tenant.nylasGrantId!,
+    connectionId: null,
+    isActive: true,
+    isPrimary: true,
+    tenant,
+  };
+}
+
 // Helper to get an account with Nylas grant
-// Supports: accountId (specific), or uses primary/first active account
+// Supports: account ID or email address (specific), or uses primary/first active account
 export async function getAccountWithGrant(tenantId: string, accountId?: string) {
   const tenant = await getTenant(tenantId);
 
   let account;
 
   if (accountId) {
-    // Get specific account
+    // Get specific account; tool callers often only know the address
     account = await db.account.findFirst({
-      where: { id: accountId, tenantId: tenant.id, isActive: true },
+      where: {
+        tenantId: tenant.id,
+        ...liveAccount,
+        ...(accountId.includes('@')
+          ? { email: { equals: accountId, mode: 'insensitive' as const } }
+          : { id: accountId }),
+      },
     });
     if (!account) {
+      if (tenant.nylasGrantId && (accountId === 'legacy' || accountId.toLowerCase() === tenant.connectedEmail?.toLowerCase())) {
+        return legacyAccount(tenant);
+      }
       throw new Error(`Account not found: ${accountId}`);
     }
   } else {
     // Get primary account, or first active account
     account = await db.account.findFirst({
-      where: { tenantId: tenant.id, isActive: true },
+      where: { tenantId: tenant.id, ...liveAccount },
       orderBy: [
         { isPrimary: 'desc' },
         { createdAt: 'asc' },
@@ -82,17 +114,7 @@ export async function getAccountWithGrant(tenantId: string, accountId?: string)
   // Fall back to legacy tenant grant if no accounts
   if (!account) {
     if (tenant.nylasGrantId) {
-      // Return a pseudo-account from legacy tenant data
-      return {
-        id: 'legacy',
-        tenantId: tenant.id,
-        email: tenant.connectedEmail || 'unknown',
-        provider: tenant.provider || 'unknown',
-        nylasGrantId: tenant.nylasGrantId,
-        isActive: true,
-        isPrimary: true,
-        tenant,
-      };
+      return legacyAccount(tenant);
     }
     throw new Error('No email account connected. Please connect your email first.');
   }
@@ -100,6 +122,26 @@ export async function getAccountWithGrant(tenantId: string, accountId?: string)
   return { ...account, tenant };
 }
 
+// Every active account, primary first (the legacy grant if there are none)
+export async function listAccountsWithGrant(tenantId: string) {
+  const tenant = await getTenant(tenantId);
+
+  const accounts = await db.account.findMany({
+    where: { tenantId: tenant.id, ...liveAccount },
+    orderBy: [
+      { isPrimary: 'desc' },
+      { createdAt: 'asc' },
+    ],
+  });
+
+  if (accounts.length === 0) {
+    if (tenant.nylasGrantId) return [legacyAccount(tenant)];
+    throw new Error('No email account connected. Please connect your email first.');
+  }
+
+  return accounts.map(account => ({ ...account, tenant }));
+}
+
 // Legacy helper - uses primary account or legacy tenant grant
 export async function getTenantWithGrant(tenantId: string) {
   const account = await getAccountWithGrant(tenantId);
@@ -112,26 +154,3 @@ export async function getTenantWithGrant(tenantId: string) {
     provider: account.provider,
   };
 }
-
-// Helper to log activity
-export async function logActivity(params: {
-  tenantId: string;
-  action: string;
-  status: 'success' | 'error';
-  input?: Record<string, unknown>;
-  output?: Record<string, unknown>;
-  error?: string;
-  duration?: number;
-}) {
-  return db.activityLog.create({
-    data: {
-      tenantId: params.tenantId,
-      action: params.action,
-      status: params.status,
-      input: params.input as any,
-      output: params.output as any,
-      error: params.error,
-      duration: params.duration,
-    },
-  });
-}
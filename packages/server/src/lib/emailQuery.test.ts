@@ -0,0 +1,68 @@
+// ===========================================
+// EMAIL QUERY TESTS
+// ===========================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEmailQuery, EmailQueryError } from './emailQuery.js';
+
+test('filters and free text are split apart', () => {
+  const query = parseEmailQuery('from:Alice@Acme.com to:bob has:attachment is:unread budget review');
+
+  assert.deepEqual(query, {
+    text: 'budget review',
+    from: ['alice@acme.com'],
+    to: ['bob'],
+    subject: [],
+    folders: [],
+    hasAttachment: true,
+    unread: true,
+  });
+});
+
+test('quoted values keep their spaces, and operators may repeat', () => {
+  const query = parseEmailQuery('subject:"Q3 report" folder:"Clients/Acme" folder:INBOX from:a from:b');
+
+  assert.deepEqual(query.subject, ['Q3 report']);
+  assert.deepEqual(query.folders, ['Clients/Acme', 'INBOX']);
+  assert.deepEqual(query.from, ['a', 'b']);
+  assert.equal(query.text, '');
+});
+
+test('operators are case-insensitive', () => {
+  const query = parseEmailQuery('FROM:alice Is:Starred IS:read');
+
+  assert.deepEqual(query.from, ['alice']);
+  assert.equal(query.starred, true);
+  assert.equal(query.unread, false);
+});
+
+test('dates are whole UTC days', () => {
+  const query = parseEmailQuery('after:2024-01-01 before:2024/7/1');
+
+  assert.equal(query.after?.toISOString(), '2024-01-01T00:00:00.000Z');
+  assert.equal(query.before?.toISOString(), '2024-07-01T00:00:00.000Z');
+});
+
+test('unknown prefixes, phrases and exclusions stay in the free text', () => {
+  const query = parseEmailQuery('label:work "exact phrase" -newsletter https://example.com');
+
+  assert.equal(query.text, 'label:work "exact phrase" -newsletter https://example.com');
+  assert.deepEqual(query.from, []);
+});
+
+test('invalid filters are refused with a message that names them', () => {
+  const cases: [string, RegExp][] = [
+    ['after:yesterday', /after: needs a date/],
+    ['before:2024-13-45', /before: needs a date/],
+    ['after:2023-02-29', /after: needs a date/],
+    ['has:link', /has: only supports "attachment"/],
+    ['is:important', /is: supports "unread", "read" and "starred"/],
+    ['-from:alice', /-from: isn't supported/],
+    ['from:""', /from: needs a value/],
+  ];
+
+  for (const [input, message] of cases) {
+    assert.throws(() => parseEmailQuery(input), (error: unknown) => error instanceof EmailQueryError && message.test(error.message), input);
+  }
+});
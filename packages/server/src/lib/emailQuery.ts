@@ -0,0 +1,108 @@
+// ===========================================
+// EMAIL SEARCH QUERIES
+// Provider-independent query language for search_emails, e.g.
+//   from:alice to:bob@acme.com has:attachment after:2024-01-01
+//   before:2024-07-01 folder:Clients is:unread subject:"Q3 report" budget
+// ===========================================
+
+export interface EmailQuery {
+  text: string;        // Free text for full-text search ("quoted phrases" and -exclusions allowed)
+  from: string[];
+  to: string[];        // Matches to and cc
+  subject: string[];
+  folders: string[];   // Folder names, paths, types or provider IDs
+  hasAttachment?: boolean;
+  unread?: boolean;
+  starred?: boolean;
+  before?: Date;       // Received before the start of this day (UTC)
+  after?: Date;        // Received on or after the start of this day (UTC)
+}
+
+export class EmailQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailQueryError';
+  }
+}
+
+export const EMAIL_QUERY_OPERATORS = ['from', 'to', 'subject', 'folder', 'has', 'is', 'before', 'after'] as const;
+
+// An optional "-", an optional "operator:", then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi;
+
+function parseDate(operator: string, value: string): Date {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(value);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  const date = match ? new Date(Date.UTC(year, month - 1, day)) : null;
+  // Date.UTC rolls 2024-02-30 over into March rather than failing
+  if (!date || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new EmailQueryError(`${operator}: needs a date like 2024-01-31, got "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Split a search string into filters and free text
+ * Unknown "word:" prefixes are kept as text; invalid filter values throw EmailQueryError
+ */
+export function parseEmailQuery(input: string): EmailQuery {
+  const query: EmailQuery = { text: '', from: [], to: [], subject: [], folders: [] };
+  const text: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negated, rawOperator, quoted, bare] = match;
+    const operator = rawOperator?.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+
+    if (!operator || !(EMAIL_QUERY_OPERATORS as readonly string[]).includes(operator)) {
+      text.push(raw);
+      continue;
+    }
+
+    if (negated) {
+      throw new EmailQueryError(`-${operator}: isn't supported; only free text can be excluded`);
+    }
+    if (!value) {
+      throw new EmailQueryError(`${operator}: needs a value`);
+    }
+
+    switch (operator) {
+      case 'from':
+        query.from.push(value.toLowerCase());
+        break;
+      case 'to':
+        query.to.push(value.toLowerCase());
+        break;
+      case 'subject':
+        query.subject.push(value);
+        break;
+      case 'folder':
+        query.folders.push(value);
+        break;
+      case 'has':
+        if (value.toLowerCase() !== 'attachment') {
+          throw new EmailQueryError(`has: only supports "attachment", got "${value}"`);
+        }
+        query.hasAttachment = true;
+        break;
+      case 'is':
+        switch (value.toLowerCase()) {
+          case 'unread': query.unread = true; break;
+          case 'read': query.unread = false; break;
+          case 'starred': query.starred = true; break;
+          default:
+            throw new EmailQueryError(`is: supports "unread", "read" and "starred", got "${value}"`);
+        }
+        break;
+      case 'before':
+        query.before = parseDate(operator, value);
+        break;
+      case 'after':
+        query.after = parseDate(operator, value);
+        break;
+    }
+  }
+
+  query.text = text.join(' ').trim();
+  return query;
+}
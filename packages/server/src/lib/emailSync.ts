@@ -0,0 +1,490 @@
+// ===========================================
+// EMAIL SYNC UTILITIES
+// Cache recent messages and threads from the primary account's mailbox
+// and search them with Postgres full-text search
+// ===========================================
+
+import { EmailMessage, Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { getMailProvider } from './mailProvider.js';
+import { EmailMessage as RemoteMessage } from '../integrations/types.js';
+import { EmailQuery } from './emailQuery.js';
+import { SyncCursor, SyncCursorError, SyncMode, encodeSyncCursor } from './syncCursor.js';
+
+const CACHE_WINDOW_DAYS = 30;            // Full syncs cache messages received in this window
+const MAX_FULL_SYNC_MESSAGES = 2000;     // Stop paging after this many; older mail stays upstream
+const BODY_TEXT_LIMIT = 20000;           // Characters of body kept for search
+const SEARCH_CONFIG = 'english';         // Postgres text search configuration
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export interface EmailSyncResult {
+  success: boolean;
+  mode: SyncMode;
+  total: number;
+  added: number;
+  removed: number;
+  updated: number;
+  cursor: string; // Stored as SyncState.emailCursor
+}
+
+// Same shape list_emails has always returned from the provider
+export interface EmailSummary {
+  id: string;
+  threadId: string | null;
+  subject: string;
+  from: { email: string; name?: string };
+  to: Array<{ email: string; name?: string }>;
+  snippet: string | null;
+  isRead: boolean;
+  isStarred: boolean;
+  hasAttachments: boolean;
+  receivedAt: string | null;
+  folders: string[];
+}
+
+// ===========================================
+// PROVIDER MAPPING
+// ===========================================
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, BODY_TEXT_LIMIT);
+}
+
+function toMessageData(remote: RemoteMessage) {
+  const from = remote.from;
+  const to = remote.to.map(p => ({ ...p }));
+  const cc = (remote.cc || []).map(p => ({ ...p }));
+
+  return {
+    providerId: remote.id,
+    threadProviderId: remote.threadId || null,
+    subject: remote.subject || '',
+    fromEmail: from?.email.toLowerCase() || null,
+    fromName: from?.name || null,
+    to,
+    cc,
+    recipients: [...to, ...cc].map(p => `${p.name || ''} ${p.email}`.trim()).join(', ').toLowerCase(),
+    snippet: remote.snippet || null,
+    bodyText: remote.body ? htmlToText(remote.body) : null,
+    isUnread: remote.unread,
+    isStarred: remote.starred,
+    hasAttachments: remote.hasAttachments,
+    // Listings don't always carry attachments; keep what a fuller fetch stored
+    ...(remote.attachments ? { attachments: remote.attachments.map(a => ({ ...a })) } : {}),
+    folderIds: remote.folders,
+    receivedAt: remote.date,
+    syncedAt: new Date(),
+  };
+}
+
+export function toEmailSummary(message: EmailMessage): EmailSummary {
+  return {
+    id: message.providerId,
+    threadId: message.threadProviderId,
+    subject: message.subject,
+    from: message.fromEmail
+      ? { email: message.fromEmail, ...(message.fromName ? { name: message.fromName } : {}) }
+      : { email: 'unknown' },
+    to: (message.to as EmailSummary['to'] | null) || [],
+    snippet: message.snippet,
+    isRead: !message.isUnread,
+    isStarred: message.isStarred,
+    hasAttachments: message.hasAttachments,
+    receivedAt: message.receivedAt.toISOString(),
+    folders: message.folderIds,
+  };
+}
+
+// ===========================================
+// CACHE WRITES
+// ===========================================
+
+// Prisma can't write tsvector columns, so they're rebuilt after each write
+async function updateSearchVectors(ids: string[]): Promise<void> {
+  for (let i = 0; i < ids.length; i += 500) {
+    const batch = ids.slice(i, i + 500);
+    await db.$executeRaw`
+      UPDATE "EmailMessage" SET "searchVector" =
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, "subject"), 'A') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce("fromName", '') || ' ' || coalesce("fromEmail", '') || ' ' || "recipients"), 'B') ||
+        setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce("bodyText", "snippet", '')), 'C')
+      WHERE "id" IN (${Prisma.join(batch)})`;
+  }
+}
+
+/**
+ * Rebuild thread rows from their cached messages (threads with no
+ * messages left are deleted)
+ */
+async function refreshThreads(tenantId: string, grantId: string, threadProviderIds: Iterable<string>): Promise<void> {
+  for (const providerId of new Set(threadProviderIds)) {
+    const messages = await db.emailMessage.findMany({
+      where: { tenantId, grantId, threadProviderId: providerId },
+      orderBy: { receivedAt: 'asc' },
+    });
+
+    if (messages.length === 0) {
+      await db.emailThread.deleteMany({ where: { tenantId, grantId, providerId } });
+      continue;
+    }
+
+    const latest = messages[messages.length - 1];
+    const people = new Map<string, { email: string; name?: string }>();
+    for (const message of messages) {
+      if (message.fromEmail) people.set(message.fromEmail, { email: message.fromEmail, ...(message.fromName ? { name: message.fromName } : {}) });
+      for (const p of [...((message.to as any[]) || []), ...((message.cc as any[]) || [])]) {
+        if (!people.has(p.email.toLowerCase())) people.set(p.email.toLowerCase(), p);
+      }
+    }
+
+    const threadData = {
+      subject: messages[0].subject,
+      snippet: latest.snippet,
+      participants: [...people.values()],
+      messageCount: messages.length,
+      unreadCount: messages.filter(m => m.isUnread).length,
+      hasAttachments: messages.some(m => m.hasAttachments),
+      folderIds: [...new Set(messages.flatMap(m => m.folderIds))],
+      lastMessageAt: latest.receivedAt,
+      syncedAt: new Date(),
+    };
+
+    const thread = await db.emailThread.upsert({
+      where: { tenantId_grantId_providerId: { tenantId, grantId, providerId } },
+      update: threadData,
+      create: { tenantId, grantId, providerId, ...threadData },
+    });
+
+    await db.emailMessage.updateMany({
+      where: { id: { in: messages.filter(m => m.threadId !== thread.id).map(m => m.id) } },
+      data: { threadId: thread.id },
+    });
+  }
+}
+
+async function writeMessages(
+  tenantId: string,
+  grantId: string,
+  remoteMessages: RemoteMessage[]
+): Promise<{ added: number; updated: number }> {
+  let added = 0;
+  let updated = 0;
+  const ids: string[] = [];
+  const threads = new Set<string>();
+
+  for (const remote of remoteMessages) {
+    const data = toMessageData(remote);
+    const where = { tenantId_grantId_providerId: { tenantId, grantId, providerId: data.providerId } };
+
+    const existing = await db.emailMessage.findUnique({ where, select: { id: true, threadProviderId: true } });
+    const message = await db.emailMessage.upsert({
+      where,
+      update: data,
+      create: { tenantId, grantId, ...data },
+    });
+
+    if (existing) updated++;
+    else added++;
+
+    ids.push(message.id);
+    if (data.threadProviderId) threads.add(data.threadProviderId);
+    if (existing?.threadProviderId) threads.add(existing.threadProviderId);
+  }
+
+  await updateSearchVectors(ids);
+  await refreshThreads(tenantId, grantId, threads);
+  return { added, updated };
+}
+
+async function removeMessages(tenantId: string, grantId: string, providerIds: string[]): Promise<number> {
+  const where = { tenantId, grantId, providerId: { in: providerIds } };
+  const existing = await db.emailMessage.findMany({ where, select: { threadProviderId: true } });
+  if (existing.length === 0) return 0;
+
+  await db.emailMessage.deleteMany({ where });
+  await refreshThreads(tenantId, grantId, existing.filter(m => m.threadProviderId).map(m => m.threadProviderId!));
+  return existing.length;
+}
+
+// ===========================================
+// SYNC EMAILS FROM PROVIDER
+// Full: messages received in the cache window. Incremental: changes since
+// the cursor, as far as the provider reports them (Nylas only reports new
+// mail; flag and folder changes arrive by webhook or with the next full resync)
+// ===========================================
+
+export async function syncEmails(
+  tenantId: string,
+  options: { cursor?: SyncCursor } = {}
+): Promise<EmailSyncResult> {
+  const { account, provider } = await getMailProvider(tenantId);
+  const mailboxId = provider.mailboxId;
+
+  const startedAt = Math.floor(Date.now() / 1000);
+  const cursor = options.cursor?.changes ? options.cursor : undefined;
+  if (cursor && cursor.grantId !== mailboxId) {
+    throw new SyncCursorError('Cursor belongs to a different mailbox');
+  }
+  const mode: SyncMode = cursor ? 'incremental' : 'full';
+  const windowStart = startedAt - CACHE_WINDOW_DAYS * 24 * 60 * 60;
+
+  const changes = await provider.listMessageChanges({
+    cursor: cursor?.changes,
+    receivedAfter: windowStart,
+    limit: mode === 'full' ? MAX_FULL_SYNC_MESSAGES : Infinity,
+  });
+
+  const { added, updated } = await writeMessages(account.tenantId, mailboxId, changes.messages);
+
+  let removed = 0;
+  if (changes.removed.length > 0) {
+    removed += await removeMessages(account.tenantId, mailboxId, changes.removed);
+  }
+
+  if (mode === 'full') {
+    // Messages gone upstream (only knowable when the whole window was listed),
+    // messages that aged out of the window, and other mailboxes' leftovers
+    const seen = changes.messages.map(m => m.id);
+    const stale = await db.emailMessage.findMany({
+      where: {
+        tenantId: account.tenantId,
+        OR: [
+          { grantId: { not: mailboxId } },
+          { receivedAt: { lt: new Date(windowStart * 1000) } },
+          ...(changes.truncated ? [] : [{ grantId: mailboxId, providerId: { notIn: seen } }]),
+        ],
+      },
+      select: { id: true, grantId: true, threadProviderId: true },
+    });
+
+    if (stale.length > 0) {
+      await db.emailMessage.deleteMany({ where: { id: { in: stale.map(m => m.id) } } });
+      await db.emailThread.deleteMany({ where: { tenantId: account.tenantId, grantId: { not: mailboxId } } });
+      await refreshThreads(
+        account.tenantId,
+        mailboxId,
+        stale.filter(m => m.grantId === mailboxId && m.threadProviderId).map(m => m.threadProviderId!)
+      );
+      removed += stale.length;
+    }
+  }
+
+  const total = await db.emailMessage.count({ where: { tenantId: account.tenantId, grantId: mailboxId } });
+
+  return {
+    success: true,
+    mode,
+    total,
+    added,
+    removed,
+    updated,
+    cursor: encodeSyncCursor({
+      fullAt: mode === 'full' ? Date.now() : cursor!.fullAt,
+      updatedAfter: startedAt,
+      grantId: mailboxId,
+      changes: changes.cursor,
+    }),
+  };
+}
+
+// ===========================================
+// SINGLE MESSAGE CHANGES (webhooks and email tools)
+// ===========================================
+
+export async function upsertCachedMessage(tenantId: string, grantId: string, remote: RemoteMessage): Promise<void> {
+  await writeMessages(tenantId, grantId, [remote]);
+}
+
+/**
+ * Apply a change made through the provider to the cached copy, if there is one
+ */
+export async function updateCachedMessage(
+  tenantId: string,
+  grantId: string,
+  providerId: string,
+  data: { isUnread?: boolean; isStarred?: boolean; folderIds?: string[] }
+): Promise<void> {
+  const where = { tenantId_grantId_providerId: { tenantId, grantId, providerId } };
+  const existing = await db.emailMessage.findUnique({ where, select: { threadProviderId: true } });
+  if (!existing) return;
+
+  await db.emailMessage.update({ where, data });
+  if (existing.threadProviderId) {
+    await refreshThreads(tenantId, grantId, [existing.threadProviderId]);
+  }
+}
+
+export async function removeCachedMessage(tenantId: string, grantId: string, providerId: string): Promise<void> {
+  const where = { tenantId_grantId_providerId: { tenantId, grantId, providerId } };
+  const existing = await db.emailMessage.findUnique({ where, select: { threadProviderId: true } });
+  if (!existing) return;
+
+  await db.emailMessage.delete({ where });
+  if (existing.threadProviderId) {
+    await refreshThreads(tenantId, grantId, [existing.threadProviderId]);
+  }
+}
+
+// ===========================================
+// READ CACHED MESSAGES
+// ===========================================
+
+/**
+ * Newest first, paged by (receivedAt, id) so new mail doesn't shift pages
+ */
+export async function listCachedEmails(
+  tenantId: string,
+  grantId: string,
+  options: { folderId?: string; unreadOnly?: boolean; limit?: number; after?: { receivedAt: Date; id: string } } = {}
+): Promise<EmailMessage[]> {
+  return db.emailMessage.findMany({
+    where: {
+      tenantId,
+      grantId,
+      ...(options.folderId ? { folderIds: { has: options.folderId } } : {}),
+      ...(options.unreadOnly ? { isUnread: true } : {}),
+      ...(options.after
+        ? {
+            OR: [
+              { receivedAt: { lt: options.after.receivedAt } },
+              { receivedAt: options.after.receivedAt, id: { lt: options.after.id } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+    take: options.limit || 50,
+  });
+}
+
+/**
+ * Provider folder IDs matching folder: values (by ID, name, path or type)
+ */
+export async function resolveFolderIds(tenantId: string, folders: string[]): Promise<string[]> {
+  if (folders.length === 0) return [];
+
+  const matches = await db.emailFolder.findMany({
+    where: {
+      tenantId,
+      OR: folders.flatMap(folder => [
+        { providerId: folder },
+        { name: { equals: folder, mode: 'insensitive' as const } },
+        { path: { equals: folder, mode: 'insensitive' as const } },
+        { type: folder.toLowerCase() },
+      ]),
+    },
+    select: { providerId: true },
+  });
+  return matches.map(f => f.providerId);
+}
+
+function likePattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}
+
+/**
+ * Full-text search over the cache; with free text, results are ranked by
+ * relevance (subject, then people, then body) before date
+ */
+export async function searchCachedEmails(
+  tenantId: string,
+  grantId: string,
+  query: EmailQuery,
+  limit = 20
+): Promise<EmailMessage[]> {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`"tenantId" = ${tenantId}`,
+    Prisma.sql`"grantId" = ${grantId}`,
+  ];
+  const tsQuery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query.text})`;
+
+  if (query.text) conditions.push(Prisma.sql`"searchVector" @@ ${tsQuery}`);
+  for (const from of query.from) {
+    conditions.push(Prisma.sql`("fromEmail" ILIKE ${likePattern(from)} OR "fromName" ILIKE ${likePattern(from)})`);
+  }
+  for (const to of query.to) {
+    conditions.push(Prisma.sql`"recipients" ILIKE ${likePattern(to)}`);
+  }
+  for (const subject of query.subject) {
+    conditions.push(Prisma.sql`"subject" ILIKE ${likePattern(subject)}`);
+  }
+  if (query.folders.length > 0) {
+    const folderIds = await resolveFolderIds(tenantId, query.folders);
+    if (folderIds.length === 0) return [];
+    conditions.push(Prisma.sql`"folderIds" && ${folderIds}::text[]`);
+  }
+  if (query.hasAttachment !== undefined) conditions.push(Prisma.sql`"hasAttachments" = ${query.hasAttachment}`);
+  if (query.unread !== undefined) conditions.push(Prisma.sql`"isUnread" = ${query.unread}`);
+  if (query.starred !== undefined) conditions.push(Prisma.sql`"isStarred" = ${query.starred}`);
+  if (query.before) conditions.push(Prisma.sql`"receivedAt" < ${query.before}`);
+  if (query.after) conditions.push(Prisma.sql`"receivedAt" >= ${query.after}`);
+
+  const orderBy = query.text
+    ? Prisma.sql`ts_rank("searchVector", ${tsQuery}) DESC, "receivedAt" DESC`
+    : Prisma.sql`"receivedAt" DESC`;
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT "id" FROM "EmailMessage"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY ${orderBy}
+    LIMIT ${limit}`;
+
+  const messages = await db.emailMessage.findMany({ where: { id: { in: rows.map(r => r.id) } } });
+  const byId = new Map(messages.map(m => [m.id, m]));
+  return rows.map(r => byId.get(r.id)).filter((m): m is EmailMessage => !!m);
+}
+
+/**
+ * Cached threads, most recent activity first
+ */
+export async function listCachedThreads(
+  tenantId: string,
+  grantId: string,
+  options: { folderId?: string; unreadOnly?: boolean; limit?: number; offset?: number } = {}
+) {
+  const where: Prisma.EmailThreadWhereInput = {
+    tenantId,
+    grantId,
+    ...(options.folderId ? { folderIds: { has: options.folderId } } : {}),
+    ...(options.unreadOnly ? { unreadCount: { gt: 0 } } : {}),
+  };
+
+  const [threads, total] = await Promise.all([
+    db.emailThread.findMany({
+      where,
+      orderBy: { lastMessageAt: 'desc' },
+      take: Math.min(options.limit || 50, 200),
+      skip: options.offset || 0,
+    }),
+    db.emailThread.count({ where }),
+  ]);
+
+  return {
+    threads: threads.map(thread => ({
+      id: thread.providerId,
+      subject: thread.subject,
+      snippet: thread.snippet,
+      participants: thread.participants,
+      messageCount: thread.messageCount,
+      unreadCount: thread.unreadCount,
+      hasAttachments: thread.hasAttachments,
+      folders: thread.folderIds,
+      lastMessageAt: thread.lastMessageAt.toISOString(),
+    })),
+    total,
+  };
+}
@@ -0,0 +1,119 @@
+// ===========================================
+// ENCRYPTION TESTS
+// The v2:<keyId>: envelope round-trips under a rotating keyring, and
+// values written before key IDs still decrypt
+// ===========================================
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  initEncryption,
+  encrypt,
+  decrypt,
+  ciphertextKeyId,
+  encryptToken,
+  decryptToken,
+  tokenKeyId,
+  encryptCredentials,
+  decryptCredentials,
+  getEncryptionStatus,
+} from './encryption.js';
+import type { Keyring } from './keyProvider.js';
+
+const KEY_2025 = crypto.randomBytes(32);
+const KEY_2026 = crypto.randomBytes(32);
+const LEGACY_KEY = crypto.randomBytes(32);
+
+async function useKeyring(keyring: Keyring) {
+  await initEncryption({ name: 'test', load: async () => keyring });
+}
+
+// The pre-envelope format: base64 of iv (16) + authTag (16) + ciphertext
+function legacyEncrypt(key: Buffer, plaintext: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+beforeEach(async () => {
+  await useKeyring({
+    activeKeyId: '2026-10',
+    keys: new Map([['2026-10', KEY_2026], ['2025-01', KEY_2025]]),
+    legacyKeys: [LEGACY_KEY],
+  });
+});
+
+// ===========================================
+// ENVELOPE
+// ===========================================
+
+test('values are written under the active key and name it', () => {
+  const encrypted = encrypt('sk_live_secret');
+
+  assert.match(encrypted, /^v2:2026-10:/);
+  assert.equal(ciphertextKeyId(encrypted), '2026-10');
+  assert.equal(decrypt(encrypted), 'sk_live_secret');
+  // A fresh data key every time
+  assert.notEqual(encrypt('sk_live_secret'), encrypted);
+});
+
+test('values written under an older key still decrypt after rotation', async () => {
+  await useKeyring({ activeKeyId: '2025-01', keys: new Map([['2025-01', KEY_2025]]), legacyKeys: [] });
+  const encrypted = encrypt('old secret');
+
+  await useKeyring({
+    activeKeyId: '2026-10',
+    keys: new Map([['2026-10', KEY_2026], ['2025-01', KEY_2025]]),
+    legacyKeys: [],
+  });
+
+  assert.equal(ciphertextKeyId(encrypted), '2025-01');
+  assert.equal(decrypt(encrypted), 'old secret');
+  assert.deepEqual(getEncryptionStatus(), { provider: 'test', activeKeyId: '2026-10', keyIds: ['2026-10', '2025-01'] });
+});
+
+test('a value whose key is gone, or whose key ID was swapped, is refused', async () => {
+  const encrypted = encrypt('secret');
+
+  // The key ID is authenticated with the wrapped data key
+  const relabeled = encrypted.replace('v2:2026-10:', 'v2:2025-01:');
+  assert.throws(() => decrypt(relabeled));
+
+  await useKeyring({ activeKeyId: '2025-01', keys: new Map([['2025-01', KEY_2025]]), legacyKeys: [] });
+  assert.throws(() => decrypt(encrypted), /Encryption key "2026-10" is not configured/);
+});
+
+// ===========================================
+// LEGACY VALUES
+// ===========================================
+
+test('values written before key IDs decrypt with a legacy key', () => {
+  const encrypted = legacyEncrypt(LEGACY_KEY, 'legacy secret');
+
+  assert.equal(ciphertextKeyId(encrypted), 'legacy');
+  assert.equal(decrypt(encrypted), 'legacy secret');
+  assert.throws(() => decrypt(legacyEncrypt(crypto.randomBytes(32), 'other')), /no configured key matches/);
+});
+
+// ===========================================
+// TOKENS AND CREDENTIALS
+// ===========================================
+
+test('token columns round-trip, and plaintext tokens from before encryption are read as-is', () => {
+  const stored = encryptToken('ya29.access');
+
+  assert.match(stored, /^enc:v2:2026-10:/);
+  assert.equal(tokenKeyId(stored), '2026-10');
+  assert.equal(decryptToken(stored), 'ya29.access');
+
+  assert.equal(tokenKeyId('ya29.plaintext'), null);
+  assert.equal(decryptToken('ya29.plaintext'), 'ya29.plaintext');
+});
+
+test('credential objects round-trip', () => {
+  const credentials = { apiKey: 'key_1', webhookSecret: 'whsec_1' };
+
+  assert.deepEqual(decryptCredentials(encryptCredentials(credentials)), credentials);
+});
@@ -4,83 +4,149 @@
 // ===========================================
 
 import crypto from 'crypto';
+import { configuredKeyProvider, envKeyProvider, keyringFromEnv, KeyProvider, Keyring, LEGACY_KEY_ID } from './keyProvider.js';
 
 // Algorithm for encryption
 const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
+const IV_LENGTH = 12;
 const AUTH_TAG_LENGTH = 16;
-const SALT_LENGTH = 32;
+const DATA_KEY_LENGTH = 32;
+const WRAPPED_KEY_LENGTH = IV_LENGTH + AUTH_TAG_LENGTH + DATA_KEY_LENGTH;
+const LEGACY_IV_LENGTH = 16;
+
+// Versioned ciphertext: "v2:<keyId>:<base64>"; older values are bare base64
+const ENVELOPE_PREFIX = 'v2:';
+
+// ===========================================
+// KEYRING
+// ===========================================
+
+let keyring: Keyring | undefined;
+let keyProviderName = envKeyProvider.name;
 
 /**
- * Get the encryption key from environment or generate one
- * In production, this should be set via ENCRYPTION_KEY env var
+ * Load the configured key provider's keys (call once at startup)
+ * Without it the env keyring is read on first use
  */
-function getEncryptionKey(): Buffer {
-  const key = process.env.ENCRYPTION_KEY;
+export async function initEncryption(provider: KeyProvider = configuredKeyProvider()): Promise<void> {
+  keyring = await provider.load();
+  keyProviderName = provider.name;
+}
 
-  if (!key) {
-    console.warn(
-      '⚠️  ENCRYPTION_KEY not set! Using derived key from DATABASE_URL. ' +
-        'Set ENCRYPTION_KEY in production for better security.'
-    );
-    // Derive a key from DATABASE_URL as fallback (not ideal but works)
-    const dbUrl = process.env.DATABASE_URL || 'default-fallback-key';
-    return crypto.scryptSync(dbUrl, 'botmakers-salt', 32);
+function getKeyring(): Keyring {
+  if (!keyring) {
+    const provider = configuredKeyProvider();
+    if (provider !== envKeyProvider) {
+      throw new Error(`Encryption keys from "${provider.name}" are not loaded; call initEncryption() at startup`);
+    }
+    keyring = keyringFromEnv();
   }
+  return keyring;
+}
 
-  // If key is provided, it should be a 64-character hex string (32 bytes)
-  if (key.length === 64) {
-    return Buffer.from(key, 'hex');
-  }
+/**
+ * Provider, active key and every key ID the keyring can read
+ */
+export function getEncryptionStatus() {
+  const { activeKeyId, keys } = getKeyring();
+  return { provider: keyProviderName, activeKeyId, keyIds: [...keys.keys()] };
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(aad);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
 
-  // Otherwise, derive from the provided key
-  return crypto.scryptSync(key, 'botmakers-salt', 32);
+function unseal(key: Buffer, sealed: Buffer, aad?: Buffer, ivLength = IV_LENGTH): Buffer {
+  const iv = sealed.subarray(0, ivLength);
+  const authTag = sealed.subarray(ivLength, ivLength + AUTH_TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(sealed.subarray(ivLength + AUTH_TAG_LENGTH)), decipher.final()]);
 }
 
+// ===========================================
+// ENVELOPE ENCRYPTION
+// Each value gets its own data key, stored wrapped by the active key
+// ===========================================
+
 /**
  * Encrypt a string (API key, token, etc.)
- * Returns base64 encoded string containing: salt + iv + authTag + ciphertext
+ * Returns "v2:<keyId>:" + base64 of: wrapped data key + iv + authTag + ciphertext
  */
 export function encrypt(plaintext: string): string {
-  const key = getEncryptionKey();
-  const iv = crypto.randomBytes(IV_LENGTH);
+  const { activeKeyId, keys } = getKeyring();
+  const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
 
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const wrappedKey = seal(keys.get(activeKeyId)!, dataKey, Buffer.from(activeKeyId));
+  const payload = seal(dataKey, Buffer.from(plaintext, 'utf8'));
 
-  let encrypted = cipher.update(plaintext, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
+  return `${ENVELOPE_PREFIX}${activeKeyId}:${Buffer.concat([wrappedKey, payload]).toString('base64')}`;
+}
 
-  const authTag = cipher.getAuthTag();
+/**
+ * Decrypt a previously encrypted string, whichever key (or format) it was written with
+ */
+export function decrypt(encrypted: string): string {
+  const { keys, legacyKeys } = getKeyring();
 
-  // Combine: iv (16) + authTag (16) + ciphertext
-  const combined = Buffer.concat([
-    iv,
-    authTag,
-    Buffer.from(encrypted, 'hex'),
-  ]);
+  if (encrypted.startsWith(ENVELOPE_PREFIX)) {
+    const [, keyId, data] = encrypted.split(':');
+    const key = keys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
 
-  return combined.toString('base64');
+    const combined = Buffer.from(data, 'base64');
+    const dataKey = unseal(key, combined.subarray(0, WRAPPED_KEY_LENGTH), Buffer.from(keyId));
+    return unseal(dataKey, combined.subarray(WRAPPED_KEY_LENGTH)).toString('utf8');
+  }
+
+  // Before key IDs: iv (16) + authTag (16) + ciphertext under a single static key
+  const combined = Buffer.from(encrypted, 'base64');
+  for (const key of legacyKeys) {
+    try {
+      return unseal(key, combined, undefined, LEGACY_IV_LENGTH).toString('utf8');
+    } catch {
+      // Not this key
+    }
+  }
+  throw new Error('Unable to decrypt: no configured key matches');
 }
 
 /**
- * Decrypt a previously encrypted string
+ * ID of the key a value was encrypted with ("legacy" before key IDs)
  */
-export function decrypt(encryptedBase64: string): string {
-  const key = getEncryptionKey();
-  const combined = Buffer.from(encryptedBase64, 'base64');
+export function ciphertextKeyId(encrypted: string): string {
+  return encrypted.startsWith(ENVELOPE_PREFIX) ? encrypted.split(':')[1] : LEGACY_KEY_ID;
+}
 
-  // Extract parts
-  const iv = combined.subarray(0, IV_LENGTH);
-  const authTag = combined.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-  const ciphertext = combined.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+// Marks token columns written encrypted; older rows hold plaintext
+const TOKEN_PREFIX = 'enc:';
 
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
+/**
+ * Encrypt an OAuth token for a plain text column (accessToken, refreshToken)
+ */
+export function encryptToken(token: string): string {
+  return `${TOKEN_PREFIX}${encrypt(token)}`;
+}
 
-  let decrypted = decipher.update(ciphertext);
-  decrypted = Buffer.concat([decrypted, decipher.final()]);
+/**
+ * Read a token column, whether it was stored encrypted or as plaintext
+ */
+export function decryptToken(stored: string): string {
+  return stored.startsWith(TOKEN_PREFIX) ? decrypt(stored.slice(TOKEN_PREFIX.length)) : stored;
+}
 
-  return decrypted.toString('utf8');
+/**
+ * Key ID of a token column, or null for a token stored in plaintext
+ */
+export function tokenKeyId(stored: string): string | null {
+  return stored.startsWith(TOKEN_PREFIX) ? ciphertextKeyId(stored.slice(TOKEN_PREFIX.length)) : null;
 }
 
 /**
@@ -5,6 +5,7 @@
 
 import { db } from './db.js';
 import * as nylasLib from './nylas.js';
+import { emitTenantEvents, TenantEvent } from './tenantWebhooks.js';
 
 // ===========================================
 // TYPES
@@ -84,6 +85,7 @@ export async function syncFolders(tenantId: string): Promise<FolderSyncResult> {
   const added: string[] = [];
   const updated: string[] = [];
   const removed: string[] = [];
+  const events: TenantEvent[] = [];
 
   // Build folder path map for nested folders
   const pathMap = buildFolderPaths(remoteFolders);
@@ -101,7 +103,7 @@ export async function syncFolders(tenantId: string): Promise<FolderSyncResult> {
         existing.totalCount !== (remote.totalCount || 0) ||
         existing.unreadCount !== (remote.unreadCount || 0)
       ) {
-        await db.emailFolder.update({
+        const folder = await db.emailFolder.update({
           where: { id: existing.id },
           data: {
             name: remote.name,
@@ -114,10 +116,11 @@ export async function syncFolders(tenantId: string): Promise<FolderSyncResult> {
           },
         });
         updated.push(remote.name);
+        events.push({ type: 'folder.updated', data: toFolderEventData(folder) });
       }
     } else {
       // Add new folder
-      await db.emailFolder.create({
+      const folder = await db.emailFolder.create({
         data: {
           tenantId: tenant.id,
           providerId: remote.id,
@@ -131,6 +134,7 @@ export async function syncFolders(tenantId: string): Promise<FolderSyncResult> {
         },
       });
       added.push(remote.name);
+      events.push({ type: 'folder.created', data: toFolderEventData(folder) });
     }
   }
 
@@ -141,9 +145,15 @@ export async function syncFolders(tenantId: string): Promise<FolderSyncResult> {
         where: { id: existing.id },
       });
       removed.push(existing.name);
+      events.push({ type: 'folder.deleted', data: toFolderEventData(existing) });
     }
   }
 
+  // The first sync is an import, not a change tenants need to hear about
+  if (existingFolders.length > 0) {
+    await emitTenantEvents(tenant.id, events);
+  }
+
   // Fetch updated list
   const syncedFolders = await db.emailFolder.findMany({
     where: { tenantId: tenant.id },
@@ -212,6 +222,58 @@ function sortFolders(folders: any[]): SyncedFolder[] {
   });
 }
 
+// ===========================================
+// SINGLE FOLDER CHANGES (webhooks)
+// ===========================================
+
+function toFolderEventData(folder: { id: string; providerId: string; name: string; path: string | null; type: string }) {
+  return {
+    folder: { id: folder.id, providerId: folder.providerId, name: folder.name, path: folder.path, type: folder.type },
+  };
+}
+
+export async function upsertCachedFolder(tenantId: string, remote: any): Promise<void> {
+  // Nested folders take their path from the cached parent
+  const parent = remote.parentId
+    ? await db.emailFolder.findFirst({ where: { tenantId, providerId: remote.parentId } })
+    : null;
+  const name = remote.name || '';
+  const path = parent ? `${parent.path || parent.name}/${name}` : name;
+
+  const folderData = {
+    name,
+    type: getFolderType(name),
+    totalCount: remote.totalCount || 0,
+    unreadCount: remote.unreadCount || 0,
+    parentId: remote.parentId || null,
+    path,
+    syncedAt: new Date(),
+  };
+
+  const existing = await db.emailFolder.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+  });
+  const folder = await db.emailFolder.upsert({
+    where: { tenantId_providerId: { tenantId, providerId: remote.id } },
+    update: folderData,
+    create: { tenantId, providerId: remote.id, ...folderData },
+  });
+
+  await emitTenantEvents(tenantId, [
+    { type: existing ? 'folder.updated' : 'folder.created', data: toFolderEventData(folder) },
+  ]);
+}
+
+export async function removeCachedFolder(tenantId: string, providerId: string): Promise<void> {
+  const existing = await db.emailFolder.findUnique({
+    where: { tenantId_providerId: { tenantId, providerId } },
+  });
+  if (!existing) return;
+
+  await db.emailFolder.delete({ where: { id: existing.id } });
+  await emitTenantEvents(tenantId, [{ type: 'folder.deleted', data: toFolderEventData(existing) }]);
+}
+
 // ===========================================
 // GET CACHED FOLDERS
 // ===========================================
@@ -436,29 +498,3 @@ export async function moveEmailToSyncedFolder(
 
   return { success: true, folder };
 }
-
-// ===========================================
-// BATCH SYNC (FOR INITIAL SETUP)
-// ===========================================
-
-export async function initialFolderSync(tenantId: string): Promise<FolderSyncResult> {
-  // Full sync
-  const result = await syncFolders(tenantId);
-
-  // Log the sync
-  await db.activityLog.create({
-    data: {
-      tenantId,
-      action: 'folder_sync',
-      status: 'success',
-      input: {
-        added: result.added.length,
-        removed: result.removed.length,
-        updated: result.updated.length,
-        total: result.folders.length,
-      },
-    },
-  });
-
-  return result;
-}
@@ -4,14 +4,18 @@
 // ===========================================
 
 import { db } from './db.js';
-import { retrieveIntegrationCredentials } from './encryption.js';
+import { retrieveIntegrationCredentials, decryptToken } from './encryption.js';
 import { IntegrationMode } from '@prisma/client';
+import { IntegrationCredentials } from '../integrations/types.js';
 
 export interface ResolvedCredentials {
   mode: IntegrationMode;
   credentials: Record<string, string>;
   connectionId?: string;
+  credentialId?: string; // IntegrationCredential row not yet migrated to Connection
   accountEmail?: string;
+  expiresAt?: Date;
+  metadata?: Record<string, unknown>;
 }
 
 export interface CredentialResolutionResult {
@@ -24,8 +28,10 @@ export interface CredentialResolutionResult {
 /**
  * Get credentials for an integration based on its mode
  * - INCLUDED: Returns platform credentials from IntegrationConfig
- * - BYOK: Returns customer's credentials from Connection
+ * - BYOK: Returns customer's credentials from Connection (primary first),
+ *   then any IntegrationCredential not yet migrated
  * - DISABLED: Returns error
+ * Integrations without an IntegrationConfig row are treated as BYOK
  */
 export async function getIntegrationCredentials(
   integrationId: string,
@@ -41,17 +47,8 @@ export async function getIntegrationCredentials(
     },
   });
 
-  // If not configured at all, treat as disabled
-  if (!config) {
-    return {
-      success: false,
-      error: `Integration "${integrationId}" is not configured`,
-      errorCode: 'NOT_CONFIGURED',
-    };
-  }
-
   // Check mode
-  if (config.mode === 'DISABLED') {
+  if (config?.mode === 'DISABLED') {
     return {
       success: false,
       error: `Integration "${integrationId}" is disabled`,
@@ -60,7 +57,7 @@ export async function getIntegrationCredentials(
   }
 
   // INCLUDED mode - use platform credentials
-  if (config.mode === 'INCLUDED') {
+  if (config?.mode === 'INCLUDED') {
     if (!config.credentialsEncrypted) {
       return {
         success: false,
@@ -94,19 +91,15 @@ export async function getIntegrationCredentials(
       isActive: true,
       ...(accountEmail ? { accountEmail } : {}),
     },
-    orderBy: { lastUsedAt: 'desc' }, // Use most recently used connection
+    orderBy: [{ isPrimary: 'desc' }, { lastUsedAt: 'desc' }], // Primary, then most recently used
   });
 
   if (!connection) {
-    return {
-      success: false,
-      error: `No connection found for "${integrationId}". Please connect your account.`,
-      errorCode: 'NO_CONNECTION',
-    };
+    return getOAuthCredential(integrationId, tenantId, accountEmail);
   }
 
   // Get credentials from connection
-  if (!connection.credentialsEncrypted && !connection.accessToken) {
+  if (!connection.credentialsEncrypted && !connection.accessToken && !connection.grantId) {
     return {
       success: false,
       error: `Connection credentials missing for "${integrationId}"`,
@@ -128,10 +121,13 @@ export async function getIntegrationCredentials(
 
   // Add OAuth tokens if present
   if (connection.accessToken) {
-    credentials.accessToken = connection.accessToken;
+    credentials.accessToken = decryptToken(connection.accessToken);
   }
   if (connection.refreshToken) {
-    credentials.refreshToken = connection.refreshToken;
+    credentials.refreshToken = decryptToken(connection.refreshToken);
+  }
+  if (connection.grantId) {
+    credentials.grantId = connection.grantId;
   }
 
   // Update last used timestamp
@@ -147,6 +143,93 @@ export async function getIntegrationCredentials(
       credentials,
       connectionId: connection.id,
       accountEmail: connection.accountEmail || undefined,
+      expiresAt: connection.tokenExpiresAt || undefined,
+      metadata: (connection.metadata as Record<string, unknown> | null) || undefined,
+    },
+  };
+}
+
+/**
+ * Fall back to OAuth tokens stored in IntegrationCredential before
+ * connections were consolidated (until db:migrate-connections has run)
+ */
+async function getOAuthCredential(
+  integrationId: string,
+  tenantId: string,
+  accountEmail?: string
+): Promise<CredentialResolutionResult> {
+  const credential = await db.integrationCredential.findFirst({
+    where: {
+      tenantId,
+      integrationId,
+      isActive: true,
+      connection: { is: null },
+      ...(accountEmail ? { accountEmail } : {}),
+    },
+    orderBy: { isPrimary: 'desc' },
+  });
+
+  if (!credential) {
+    return {
+      success: false,
+      error: `No connection found for "${integrationId}". Please connect your account.`,
+      errorCode: 'NO_CONNECTION',
+    };
+  }
+
+  if (!credential.accessToken) {
+    return {
+      success: false,
+      error: `Connection credentials missing for "${integrationId}"`,
+      errorCode: 'NO_CREDENTIALS',
+    };
+  }
+
+  const credentials: Record<string, string> = { accessToken: decryptToken(credential.accessToken) };
+  if (credential.refreshToken) {
+    credentials.refreshToken = decryptToken(credential.refreshToken);
+  }
+  if (credential.grantId) {
+    credentials.grantId = credential.grantId;
+  }
+
+  return {
+    success: true,
+    data: {
+      mode: 'BYOK',
+      credentials,
+      credentialId: credential.id,
+      accountEmail: credential.accountEmail || undefined,
+      expiresAt: credential.expiresAt || undefined,
+      metadata: (credential.metadata as Record<string, unknown> | null) || undefined,
+    },
+  };
+}
+
+/**
+ * Build the credentials object integrations expect
+ * API-key integrations read their key from accessToken, extra fields go in metadata
+ */
+export function toIntegrationCredentials(
+  integrationId: string,
+  tenantId: string,
+  resolved: ResolvedCredentials
+): IntegrationCredentials {
+  const { accessToken, apiKey, secretKey, refreshToken, grantId, ...rest } = resolved.credentials;
+
+  return {
+    integrationId,
+    tenantId,
+    accessToken: accessToken || apiKey || secretKey,
+    refreshToken,
+    grantId,
+    expiresAt: resolved.expiresAt,
+    metadata: {
+      ...rest,
+      ...(apiKey ? { apiKey } : {}),
+      ...(secretKey ? { secretKey } : {}),
+      ...resolved.metadata,
+      ...(resolved.accountEmail ? { email: resolved.accountEmail } : {}),
     },
   };
 }
@@ -174,16 +257,21 @@ export async function checkIntegrationAvailability(
     return { available: true, mode: 'INCLUDED' };
   }
 
-  // BYOK - check for active connection
-  const connectionCount = await db.connection.count({
-    where: {
-      tenantId,
-      integrationId,
-      isActive: true,
-    },
-  });
+  // BYOK - check for active connection (or an unmigrated OAuth credential)
+  const [connectionCount, credentialCount] = await Promise.all([
+    db.connection.count({
+      where: {
+        tenantId,
+        integrationId,
+        isActive: true,
+      },
+    }),
+    db.integrationCredential.count({
+      where: { tenantId, integrationId, isActive: true, connection: { is: null } },
+    }),
+  ]);
 
-  if (connectionCount === 0) {
+  if (connectionCount + credentialCount === 0) {
     return { available: false, mode: 'BYOK', reason: 'No connection configured' };
   }
 
@@ -4,6 +4,7 @@
 // ===========================================
 
 import { retrieveIntegrationCredentials } from './encryption.js';
+import { nylas } from './nylas.js';
 
 export interface ValidationResult {
   success: boolean;
@@ -625,6 +626,48 @@ export async function validateOAuthToken(
   };
 }
 
+/**
+ * Nylas Grant Validator
+ * For mailboxes connected through Nylas (no tokens of our own)
+ */
+export async function validateNylasGrant(grantId: string): Promise<ValidationResult> {
+  const start = Date.now();
+
+  try {
+    const grant = await nylas.grants.find({ grantId });
+    const latency = Date.now() - start;
+    const grantStatus = grant.data?.grantStatus;
+
+    if (grantStatus && grantStatus !== 'valid') {
+      return {
+        success: false,
+        message: `Nylas grant is ${grantStatus}. Reconnection required.`,
+        latency,
+        errorCode: 'TOKEN_EXPIRED',
+      };
+    }
+
+    return {
+      success: true,
+      message: 'Nylas grant is valid',
+      latency,
+      details: {
+        accountInfo: {
+          email: grant.data?.email,
+          provider: grant.data?.provider,
+        },
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to check Nylas grant: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      latency: Date.now() - start,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 // ===========================================
 // VALIDATOR REGISTRY
 // ===========================================
@@ -650,7 +693,8 @@ export async function validateIntegration(
   credentialsEncrypted?: string | null,
   accessToken?: string | null,
   refreshToken?: string | null,
-  tokenExpiresAt?: Date | null
+  tokenExpiresAt?: Date | null,
+  grantId?: string | null
 ): Promise<ValidationResult> {
   // If we have OAuth tokens, validate those
   if (accessToken) {
@@ -688,6 +732,11 @@ export async function validateIntegration(
     };
   }
 
+  // Nylas mailboxes only have a grant
+  if (grantId) {
+    return validateNylasGrant(grantId);
+  }
+
   return {
     success: false,
     message: 'No credentials or tokens configured',
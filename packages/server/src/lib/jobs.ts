@@ -0,0 +1,559 @@
+// ===========================================
+// BACKGROUND JOBS
+// Postgres-backed queue: workers claim due jobs with a lease,
+// retry failures with backoff and cap running jobs per tenant
+// ===========================================
+
+import os from 'os';
+import crypto from 'crypto';
+import { Job, Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { syncCalendarEvents } from './calendarSync.js';
+import { runSync, runScheduledSync, claimDueSyncs, pruneSyncRuns } from './scheduledSync.js';
+import { processWebhookEvent } from './webhookHandlers.js';
+import { reencryptSecrets } from './secretRotation.js';
+import { closeBillingPeriod, dueBillingPeriod } from './billing.js';
+import { ActivityContext } from './activity.js';
+import { callTool } from '../tools/index.js';
+
+const WORKER_INTERVAL_MS = 2 * 1000;
+const WORKER_CONCURRENCY = 4;              // Jobs running at once in this process
+const MAX_RUNNING_PER_TENANT = 2;          // Across all workers
+const LEASE_MS = 2 * 60 * 1000;            // A crashed worker's job is picked up after this
+const HEARTBEAT_MS = 30 * 1000;            // Running jobs renew their lease this often
+const BASE_BACKOFF_MS = 30 * 1000;         // 30s, 1m, 2m, 4m ... capped below
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+const SCHEDULE_INTERVAL_MS = 60 * 1000;    // How often due scheduled syncs are queued
+const BILLING_INTERVAL_MS = 60 * 60 * 1000; // How often last month is checked for closing
+
+export const JOB_STATUSES = ['pending', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+// Identifies this process in Job.lockedBy
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+interface JobType {
+  scope: string | null; // API key scope needed to see the job; null = full-access keys only
+  maxAttempts: number;
+  sync?: boolean;       // Sets SyncState.isSyncing while it runs
+  run(job: Job): Promise<unknown>;
+}
+
+function jobTenant(job: Job): string {
+  if (!job.tenantId) throw new Error(`${job.type} jobs need a tenant`);
+  return job.tenantId;
+}
+
+function jobPayload<T>(job: Job): T {
+  return job.payload as T;
+}
+
+// ===========================================
+// JOB TYPES
+// Results are summaries; the synced rows live in their cache tables
+// ===========================================
+
+export const JOB_TYPES = {
+  folder_sync: {
+    scope: 'email:read',
+    maxAttempts: 5,
+    sync: true,
+    async run(job) {
+      const { initial } = jobPayload<{ initial?: boolean }>(job);
+      return runSync(jobTenant(job), 'folders', { trigger: initial ? 'initial' : 'manual' });
+    },
+  },
+  email_sync: {
+    scope: 'email:read',
+    maxAttempts: 5,
+    sync: true,
+    async run(job) {
+      const { initial, full } = jobPayload<{ initial?: boolean; full?: boolean }>(job);
+      return runSync(jobTenant(job), 'emails', { full: initial || full, trigger: initial ? 'initial' : 'manual' });
+    },
+  },
+  contact_sync: {
+    scope: 'contacts:read',
+    maxAttempts: 5,
+    sync: true,
+    async run(job) {
+      const { initial, full } = jobPayload<{ initial?: boolean; full?: boolean }>(job);
+      return runSync(jobTenant(job), 'contacts', { full: initial || full, trigger: initial ? 'initial' : 'manual' });
+    },
+  },
+  calendar_sync: {
+    scope: 'calendar:read',
+    maxAttempts: 5,
+    sync: true,
+    async run(job) {
+      const { initial, full } = jobPayload<{ initial?: boolean; full?: boolean }>(job);
+      return runSync(jobTenant(job), 'calendar', { full: initial || full, trigger: initial ? 'initial' : 'manual' });
+    },
+  },
+  scheduled_sync: {
+    scope: null,
+    maxAttempts: 3,
+    sync: true,
+    async run(job) {
+      return runScheduledSync(jobTenant(job));
+    },
+  },
+  calendar_events_sync: {
+    scope: 'calendar:read',
+    maxAttempts: 5,
+    sync: true,
+    async run(job) {
+      const { calendarId, startDate, endDate } = jobPayload<{ calendarId: string; startDate?: string; endDate?: string }>(job);
+      const result = await syncCalendarEvents(jobTenant(job), calendarId, {
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+      });
+      return { added: result.added, removed: result.removed, updated: result.updated, total: result.events.length };
+    },
+  },
+  webhook_event: {
+    scope: null,
+    maxAttempts: 5,
+    async run(job) {
+      const { eventId } = jobPayload<{ eventId: string }>(job);
+      await processWebhookEvent(eventId);
+
+      // processWebhookEvent records failures on the event; rethrow so the job retries
+      const event = await db.webhookEvent.findUnique({ where: { id: eventId }, select: { status: true, error: true } });
+      if (event?.status === 'failed') {
+        throw new Error(event.error || 'Webhook processing failed');
+      }
+      return { status: event?.status ?? 'missing' };
+    },
+  },
+  tool_call: {
+    scope: null, // Set per job from the tool's scope
+    maxAttempts: 1, // Write tools aren't idempotent
+    async run(job) {
+      const { tool, params, activity } = jobPayload<{ tool: string; params: Record<string, unknown>; activity?: ActivityContext }>(job);
+      return callTool(tool, params, jobTenant(job), {
+        ...activity,
+        source: 'job',
+        requestId: activity?.requestId ?? job.id,
+      });
+    },
+  },
+  reencrypt_secrets: {
+    scope: null, // Platform job (no tenant)
+    maxAttempts: 3, // Rows already on the active key are skipped on retry
+    async run() {
+      return reencryptSecrets();
+    },
+  },
+  close_billing_period: {
+    scope: null, // Platform job (no tenant)
+    maxAttempts: 3, // Existing invoices are kept and synced ones skipped on retry
+    async run(job) {
+      const { period } = jobPayload<{ period: string }>(job);
+      return closeBillingPeriod(period);
+    },
+  },
+} satisfies Record<string, JobType>;
+
+export type JobTypeName = keyof typeof JOB_TYPES;
+
+const SYNC_JOB_TYPES = Object.entries(JOB_TYPES)
+  .filter(([, type]) => 'sync' in type && type.sync)
+  .map(([name]) => name);
+
+function getJobType(name: string): JobType | undefined {
+  return (JOB_TYPES as Record<string, JobType>)[name];
+}
+
+// ===========================================
+// ENQUEUE & READ
+// ===========================================
+
+/**
+ * Add a job to the queue and nudge the local worker
+ * With dedupe, a pending or running job of the same type, tenant and payload is returned instead
+ */
+export async function enqueueJob(
+  type: JobTypeName,
+  options: {
+    tenantId?: string;
+    payload?: Record<string, unknown>;
+    scope?: string;
+    dedupe?: boolean;
+    runAt?: Date;
+  } = {}
+): Promise<Job> {
+  const jobType: JobType = JOB_TYPES[type];
+  const payload = options.payload || {};
+  const dedupeKey = options.dedupe ? `${options.tenantId || '-'}:${type}:${JSON.stringify(payload)}` : null;
+
+  if (dedupeKey) {
+    const existing = await db.job.findFirst({
+      where: { dedupeKey, status: { in: ['pending', 'running'] } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (existing) return existing;
+  }
+
+  const job = await db.job.create({
+    data: {
+      tenantId: options.tenantId,
+      type,
+      payload: payload as Prisma.InputJsonValue,
+      scope: options.scope ?? jobType.scope,
+      dedupeKey,
+      maxAttempts: jobType.maxAttempts,
+      runAt: options.runAt,
+    },
+  });
+
+  processDueJobs().catch(() => {});
+  return job;
+}
+
+/**
+ * API shape of a job (lease and dedupe details stay internal)
+ */
+export function serializeJob(job: Job) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    result: job.result,
+    error: job.error,
+    runAt: job.runAt,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+export async function getJob(jobId: string, tenantId: string): Promise<Job | null> {
+  return db.job.findFirst({ where: { id: jobId, tenantId } });
+}
+
+export async function listJobs(
+  tenantId: string,
+  options: { status?: string; type?: string; limit?: number } = {}
+): Promise<Job[]> {
+  return db.job.findMany({
+    where: {
+      tenantId,
+      ...(options.status ? { status: options.status } : {}),
+      ...(options.type ? { type: options.type } : {}),
+    },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(options.limit || 50, 100),
+  });
+}
+
+/**
+ * Cancel a job that hasn't started; running jobs finish their current attempt
+ */
+export async function cancelJob(jobId: string, tenantId: string): Promise<boolean> {
+  const result = await db.job.updateMany({
+    where: { id: jobId, tenantId, status: 'pending' },
+    data: { status: 'cancelled', finishedAt: new Date() },
+  });
+  return result.count === 1;
+}
+
+// ===========================================
+// RUN
+// ===========================================
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value === undefined || value === null ? Prisma.JsonNull : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Claim a job so only one worker runs it
+ * Matching on attempts keeps two workers from claiming the same stale job
+ */
+async function claimJob(job: Job): Promise<Job | null> {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + LEASE_MS);
+  const claimed = await db.job.updateMany({
+    where: { id: job.id, status: job.status, attempts: job.attempts },
+    data: {
+      status: 'running',
+      attempts: { increment: 1 },
+      lockedBy: WORKER_ID,
+      lockedUntil,
+      startedAt: now,
+    },
+  });
+
+  if (claimed.count !== 1) return null;
+  return { ...job, status: 'running', attempts: job.attempts + 1, lockedBy: WORKER_ID, lockedUntil, startedAt: now };
+}
+
+// Only the worker holding the lease may finish a job
+function heldLease(job: Job): Prisma.JobWhereInput {
+  return { id: job.id, status: 'running', lockedBy: WORKER_ID };
+}
+
+async function markSyncing(tenantId: string): Promise<void> {
+  await db.syncState.upsert({
+    where: { tenantId },
+    update: { isSyncing: true },
+    create: { tenantId, isSyncing: true },
+  });
+}
+
+/**
+ * Clear isSyncing once the tenant has no other sync job running
+ */
+async function releaseSyncing(tenantId: string): Promise<void> {
+  const stillRunning = await db.job.count({
+    where: {
+      tenantId,
+      type: { in: SYNC_JOB_TYPES },
+      status: 'running',
+      lockedUntil: { gt: new Date() },
+    },
+  });
+
+  if (stillRunning === 0) {
+    await db.syncState.updateMany({ where: { tenantId }, data: { isSyncing: false } });
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  const jobType = getJobType(job.type);
+  const isSync = !!jobType?.sync && !!job.tenantId;
+
+  const heartbeat = setInterval(() => {
+    db.job.updateMany({
+      where: heldLease(job),
+      data: { lockedUntil: new Date(Date.now() + LEASE_MS) },
+    }).catch(() => {});
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  try {
+    if (!jobType) throw new Error(`Unknown job type: ${job.type}`);
+    if (isSync) await markSyncing(job.tenantId!);
+
+    const result = await jobType.run(job);
+
+    await db.job.updateMany({
+      where: heldLease(job),
+      data: {
+        status: 'succeeded',
+        result: toJson(result),
+        error: null,
+        lockedBy: null,
+        lockedUntil: null,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retry = !!jobType && job.attempts < job.maxAttempts;
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}/${job.maxAttempts}:`, message);
+
+    await db.job.updateMany({
+      where: heldLease(job),
+      data: retry
+        ? { status: 'pending', error: message, runAt: new Date(Date.now() + getBackoffMs(job.attempts)), lockedBy: null, lockedUntil: null }
+        : { status: 'failed', error: message, lockedBy: null, lockedUntil: null, finishedAt: new Date() },
+    });
+  } finally {
+    clearInterval(heartbeat);
+    if (isSync) await releaseSyncing(job.tenantId!).catch(() => {});
+  }
+}
+
+/**
+ * A job whose worker died on its last attempt won't be retried
+ */
+async function failAbandonedJob(job: Job): Promise<void> {
+  await db.job.updateMany({
+    where: { id: job.id, status: 'running', attempts: job.attempts },
+    data: {
+      status: 'failed',
+      error: job.error || 'Worker stopped before the job finished',
+      lockedBy: null,
+      lockedUntil: null,
+      finishedAt: new Date(),
+    },
+  });
+  if (job.tenantId && getJobType(job.type)?.sync) {
+    await releaseSyncing(job.tenantId);
+  }
+}
+
+const running = new Set<string>();
+let polling = false;
+
+/**
+ * Start due jobs (and jobs whose worker's lease lapsed) up to the concurrency limits
+ * Jobs run in the background; returns how many were started
+ */
+export async function processDueJobs(): Promise<number> {
+  const free = WORKER_CONCURRENCY - running.size;
+  if (polling || free <= 0) return 0;
+  polling = true;
+
+  let started = 0;
+  try {
+    const now = new Date();
+    const due = await db.job.findMany({
+      where: {
+        OR: [
+          { status: 'pending', runAt: { lte: now } },
+          { status: 'running', lockedUntil: { lt: now } },
+        ],
+      },
+      orderBy: { runAt: 'asc' },
+      // Extra rows so tenants at their limit don't starve everyone behind them
+      take: free * 5,
+    });
+
+    const tenantIds = [...new Set(due.map(j => j.tenantId).filter((id): id is string => !!id))];
+    const runningPerTenant = new Map<string, number>();
+    if (tenantIds.length > 0) {
+      const counts = await db.job.groupBy({
+        by: ['tenantId'],
+        where: { tenantId: { in: tenantIds }, status: 'running', lockedUntil: { gte: now } },
+        _count: { _all: true },
+      });
+      for (const row of counts) {
+        if (row.tenantId) runningPerTenant.set(row.tenantId, row._count._all);
+      }
+    }
+
+    for (const job of due) {
+      if (started >= free) break;
+
+      if (job.status === 'running' && job.attempts >= job.maxAttempts) {
+        await failAbandonedJob(job);
+        continue;
+      }
+
+      // Checked before claiming, so replicas racing for one tenant can briefly exceed the cap
+      const tenantRunning = job.tenantId ? runningPerTenant.get(job.tenantId) || 0 : 0;
+      if (job.tenantId && tenantRunning >= MAX_RUNNING_PER_TENANT) continue;
+
+      const claimed = await claimJob(job);
+      if (!claimed) continue;
+
+      if (job.tenantId) runningPerTenant.set(job.tenantId, tenantRunning + 1);
+      running.add(job.id);
+      started++;
+
+      runJob(claimed)
+        .catch((error) => console.error(`Job ${job.id} crashed:`, error))
+        .finally(() => {
+          running.delete(job.id);
+          // A slot opened up; don't wait for the next tick
+          processDueJobs().catch(() => {});
+        });
+    }
+  } finally {
+    polling = false;
+  }
+
+  return started;
+}
+
+// ===========================================
+// MAINTENANCE
+// ===========================================
+
+/**
+ * Delete finished jobs past retention and clear isSyncing flags
+ * left behind by workers that died mid-sync
+ */
+export async function cleanupJobs(): Promise<{ deleted: number; unstuck: number }> {
+  const { count: deleted } = await db.job.deleteMany({
+    where: {
+      status: { in: ['succeeded', 'failed', 'cancelled'] },
+      finishedAt: { lt: new Date(Date.now() - RETENTION_MS) },
+    },
+  });
+
+  const syncing = await db.job.findMany({
+    where: { type: { in: SYNC_JOB_TYPES }, status: 'running', lockedUntil: { gt: new Date() } },
+    select: { tenantId: true },
+    distinct: ['tenantId'],
+  });
+  const { count: unstuck } = await db.syncState.updateMany({
+    where: {
+      isSyncing: true,
+      tenantId: { notIn: syncing.map(j => j.tenantId).filter((id): id is string => !!id) },
+    },
+    data: { isSyncing: false },
+  });
+
+  return { deleted, unstuck };
+}
+
+/**
+ * Queue an incremental sync for every tenant whose plan's interval has passed
+ */
+export async function queueScheduledSyncs(): Promise<number> {
+  const tenantIds = await claimDueSyncs();
+  for (const tenantId of tenantIds) {
+    await enqueueJob('scheduled_sync', { tenantId, dedupe: true });
+  }
+  return tenantIds.length;
+}
+
+/**
+ * Queue closing last month once it has ended and hasn't been closed
+ */
+export async function queueBillingClose(): Promise<string | null> {
+  const period = await dueBillingPeriod();
+  if (period) {
+    await enqueueJob('close_billing_period', { payload: { period }, dedupe: true });
+  }
+  return period;
+}
+
+export function startJobWorker(): void {
+  const worker = setInterval(() => {
+    processDueJobs().catch((error) => {
+      console.error('Job worker error:', error);
+    });
+  }, WORKER_INTERVAL_MS);
+  worker.unref();
+
+  const cleanup = setInterval(() => {
+    cleanupJobs()
+      .then(({ deleted, unstuck }) => {
+        if (deleted || unstuck) {
+          console.log(`Job cleanup: ${deleted} old jobs deleted, ${unstuck} stuck syncs cleared`);
+        }
+      })
+      .catch((error) => {
+        console.error('Job cleanup error:', error);
+      });
+    pruneSyncRuns().catch((error) => {
+      console.error('Sync run cleanup error:', error);
+    });
+  }, CLEANUP_INTERVAL_MS);
+  cleanup.unref();
+
+  const schedule = setInterval(() => {
+    queueScheduledSyncs().catch((error) => {
+      console.error('Sync scheduler error:', error);
+    });
+  }, SCHEDULE_INTERVAL_MS);
+  schedule.unref();
+
+  const billing = setInterval(() => {
+    queueBillingClose().catch((error) => {
+      console.error('Billing scheduler error:', error);
+    });
+  }, BILLING_INTERVAL_MS);
+  billing.unref();
+}
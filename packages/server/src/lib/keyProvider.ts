@@ -0,0 +1,111 @@
+// ===========================================
+// ENCRYPTION KEY PROVIDERS
+// Where the key-encryption keys behind lib/encryption.ts come from
+// ===========================================
+
+import crypto from 'crypto';
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Reserved for ciphertext written before key IDs existed
+export const LEGACY_KEY_ID = 'legacy';
+
+export interface Keyring {
+  activeKeyId: string;       // New secrets are wrapped with this key
+  keys: Map<string, Buffer>; // Every key that may still be referenced by stored ciphertext
+  legacyKeys: Buffer[];      // Tried in order on ciphertext without a key ID
+}
+
+/**
+ * Source of the keyring. Keys are loaded once at startup so encryption
+ * stays synchronous; a KMS-backed provider would unwrap its keys here
+ */
+export interface KeyProvider {
+  readonly name: string;
+  load(): Promise<Keyring>;
+}
+
+/**
+ * 64 hex characters are used as-is; anything else is a passphrase
+ */
+function parseKey(secret: string): Buffer {
+  if (/^[0-9a-fA-F]{64}$/.test(secret)) {
+    return Buffer.from(secret, 'hex');
+  }
+  return crypto.scryptSync(secret, 'botmakers-salt', 32);
+}
+
+// ===========================================
+// ENV KEYRING
+// ENCRYPTION_KEYS="2026-10:<key>,2025-01:<key>" (first is active unless
+// ENCRYPTION_KEY_ID says otherwise); a lone ENCRYPTION_KEY is key "default"
+// ===========================================
+
+let warnedAboutKey = false;
+
+export function keyringFromEnv(): Keyring {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    if (separator <= 0 || !KEY_ID_PATTERN.test(keyId) || keyId === LEGACY_KEY_ID) {
+      throw new Error(`Invalid ENCRYPTION_KEYS entry "${keyId || entry.slice(0, 8)}": expected <keyId>:<key>`);
+    }
+    keys.set(keyId, parseKey(entry.slice(separator + 1)));
+  }
+
+  if (keys.size === 0 && process.env.ENCRYPTION_KEY) {
+    keys.set('default', parseKey(process.env.ENCRYPTION_KEY));
+  }
+
+  // Rows encrypted before ENCRYPTION_KEY was set used a key derived from DATABASE_URL
+  const derivedKey = crypto.scryptSync(process.env.DATABASE_URL || 'default-fallback-key', 'botmakers-salt', 32);
+
+  if (keys.size === 0) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('ENCRYPTION_KEYS (or ENCRYPTION_KEY) must be set in production');
+    }
+    if (!warnedAboutKey) {
+      warnedAboutKey = true;
+      console.warn('⚠️  ENCRYPTION_KEYS not set! Using a development key derived from DATABASE_URL.');
+    }
+    keys.set('dev', derivedKey);
+  }
+
+  const activeKeyId = process.env.ENCRYPTION_KEY_ID || keys.keys().next().value!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`ENCRYPTION_KEY_ID "${activeKeyId}" is not in ENCRYPTION_KEYS`);
+  }
+
+  const legacyKeys = [
+    ...(process.env.ENCRYPTION_KEY ? [parseKey(process.env.ENCRYPTION_KEY)] : []),
+    ...keys.values(),
+    derivedKey,
+  ];
+
+  return { activeKeyId, keys, legacyKeys };
+}
+
+export const envKeyProvider: KeyProvider = {
+  name: 'env',
+  async load() {
+    return keyringFromEnv();
+  },
+};
+
+const KEY_PROVIDERS: Record<string, KeyProvider> = {
+  env: envKeyProvider,
+};
+
+/**
+ * The provider named by ENCRYPTION_KEY_PROVIDER (default "env")
+ */
+export function configuredKeyProvider(): KeyProvider {
+  const name = process.env.ENCRYPTION_KEY_PROVIDER || 'env';
+  const provider = KEY_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown ENCRYPTION_KEY_PROVIDER "${name}". Available: ${Object.keys(KEY_PROVIDERS).join(', ')}`);
+  }
+  return provider;
+}
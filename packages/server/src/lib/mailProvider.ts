@@ -0,0 +1,440 @@
+// ===========================================
+// MAIL PROVIDERS
+// Picks the API behind an account's mailbox (Nylas, Microsoft Graph or Gmail)
+// and maps Nylas responses to the shared email, calendar and contact types
+// ===========================================
+
+import { db, getAccountWithGrant, listAccountsWithGrant } from './db.js';
+import * as nylasLib from './nylas.js';
+import { getFreshCredentials } from './tokenManager.js';
+import { SyncCursorError } from './syncCursor.js';
+import { adoptLegacyGrant, disconnectAccount, syncLegacyTenantFields } from './connections.js';
+import { msGraphIntegration } from '../integrations/msgraph/index.js';
+import { GraphMailProvider } from '../integrations/msgraph/mail.js';
+import { googleCalendarIntegration } from '../integrations/google-calendar/index.js';
+import { GmailMailProvider, GMAIL_SCOPE } from '../integrations/google-calendar/gmail.js';
+import {
+  Calendar,
+  CalendarEvent,
+  Contact,
+  CreateContactInput,
+  CreateEventInput,
+  EmailFolder,
+  EmailMessage,
+  EmailParticipant,
+  EventListOptions,
+  EventParticipant,
+  Integration,
+  IntegrationCredentials,
+  MailBackend,
+  MailProvider,
+  MessageChanges,
+  MessageListOptions,
+  Page,
+  SendMessageInput,
+} from '../integrations/types.js';
+
+const CURSOR_OVERLAP_SECONDS = 5 * 60; // Re-read a little before the cursor
+
+type Account = Awaited<ReturnType<typeof getAccountWithGrant>>;
+
+interface MailboxIntegration {
+  integration: Integration;
+  backend: Exclude<MailBackend, 'nylas'>;
+  provider: string;        // Account.provider
+  name: string;
+  requiredScope?: string;  // Only a mailbox if the user granted this
+}
+
+// Integrations whose OAuth connection also reaches the user's mailbox
+const MAILBOX_INTEGRATIONS: Record<string, MailboxIntegration> = {
+  msgraph: { integration: msGraphIntegration, backend: 'msgraph', provider: 'microsoft', name: 'Microsoft 365' },
+  google_calendar: {
+    integration: googleCalendarIntegration,
+    backend: 'gmail',
+    provider: 'google',
+    name: 'Google',
+    requiredScope: GMAIL_SCOPE,
+  },
+};
+
+// ===========================================
+// NYLAS MAPPING
+// ===========================================
+
+const NYLAS_PARTICIPANT_STATUS: Record<string, EventParticipant['status']> = {
+  yes: 'accepted',
+  no: 'declined',
+  maybe: 'tentative',
+  noreply: 'pending',
+};
+
+function nylasParticipants(list: any): EmailParticipant[] {
+  return (Array.isArray(list) ? list : [])
+    .filter((p: any) => p?.email)
+    .map((p: any) => ({ email: p.email, ...(p.name ? { name: p.name } : {}) }));
+}
+
+export function fromNylasMessage(m: any): EmailMessage {
+  return {
+    id: m.id,
+    threadId: m.threadId || undefined,
+    from: nylasParticipants(m.from)[0],
+    to: nylasParticipants(m.to),
+    cc: nylasParticipants(m.cc),
+    bcc: nylasParticipants(m.bcc),
+    subject: m.subject || '',
+    body: m.body || '',
+    snippet: m.snippet || undefined,
+    date: new Date((m.date || 0) * 1000),
+    unread: !!m.unread,
+    starred: !!m.starred,
+    folders: m.folders || [],
+    hasAttachments: (m.attachments?.length || 0) > 0,
+    ...(m.attachments
+      ? {
+          attachments: m.attachments.map((a: any) => ({
+            id: a.id,
+            filename: a.filename,
+            contentType: a.contentType,
+            size: a.size,
+          })),
+        }
+      : {}),
+  };
+}
+
+function fromNylasFolder(f: any): EmailFolder {
+  return {
+    id: f.id,
+    name: f.name,
+    ...(f.parentId ? { parentId: f.parentId } : {}),
+    totalCount: f.totalCount || 0,
+    unreadCount: f.unreadCount || 0,
+  };
+}
+
+export function fromNylasEvent(e: any): CalendarEvent {
+  const when = e.when || {};
+  let startTime: Date;
+  let endTime: Date;
+  let allDay = false;
+
+  if (when.startTime) {
+    startTime = new Date(when.startTime * 1000);
+    endTime = new Date((when.endTime ?? when.startTime) * 1000);
+  } else if (when.startDate) {
+    startTime = new Date(when.startDate);
+    endTime = new Date(when.endDate);
+    allDay = true;
+  } else if (when.date) {
+    // Single all-day date: ends when the next day starts
+    startTime = new Date(when.date);
+    endTime = new Date(startTime.getTime() + 24 * 60 * 60 * 1000);
+    allDay = true;
+  } else {
+    startTime = endTime = new Date((when.time || 0) * 1000);
+  }
+
+  return {
+    id: e.id,
+    calendarId: e.calendarId,
+    title: e.title || '',
+    description: e.description || undefined,
+    location: e.location || undefined,
+    startTime,
+    endTime,
+    allDay,
+    participants: (e.participants || [])
+      .filter((p: any) => p?.email)
+      .map((p: any) => ({
+        email: p.email,
+        ...(p.name ? { name: p.name } : {}),
+        status: NYLAS_PARTICIPANT_STATUS[p.status] || 'pending',
+      })),
+    recurrence: e.recurrence?.join('\n') || undefined,
+    status: e.status || undefined,
+    ...(e.conferencing?.details?.url
+      ? { conferencing: { provider: e.conferencing.provider, url: e.conferencing.details.url } }
+      : {}),
+  };
+}
+
+function fromNylasCalendar(c: any): Calendar {
+  return {
+    id: c.id,
+    name: c.name,
+    description: c.description || undefined,
+    isPrimary: !!c.isPrimary,
+    readOnly: !!c.readOnly,
+    timezone: c.timezone || undefined,
+  };
+}
+
+function fromNylasContact(c: any): Contact {
+  return {
+    id: c.id,
+    givenName: c.givenName || undefined,
+    surname: c.surname || undefined,
+    displayName: [c.givenName, c.surname].filter(Boolean).join(' ') || undefined,
+    emails: c.emails?.map((e: any) => ({ email: e.email, type: e.type })) || [],
+    phoneNumbers: c.phoneNumbers?.map((p: any) => ({ number: p.number, type: p.type })) || [],
+    companyName: c.companyName || undefined,
+    jobTitle: c.jobTitle || undefined,
+    notes: c.notes || undefined,
+    birthday: c.birthday || undefined,
+  };
+}
+
+// ===========================================
+// NYLAS PROVIDER
+// ===========================================
+
+class NylasMailProvider implements MailProvider {
+  readonly backend = 'nylas' as const;
+
+  constructor(readonly mailboxId: string) {}
+
+  private get grantId(): string {
+    return this.mailboxId;
+  }
+
+  async listMessages(options: MessageListOptions = {}): Promise<Page<EmailMessage>> {
+    const response = await nylasLib.listMessages(this.grantId, options);
+    return { data: response.data.map(fromNylasMessage), nextCursor: response.nextCursor };
+  }
+
+  async getMessage(id: string): Promise<EmailMessage> {
+    return fromNylasMessage(await nylasLib.getMessage(this.grantId, id));
+  }
+
+  async sendMessage(input: SendMessageInput): Promise<{ id: string; threadId?: string }> {
+    const message = await nylasLib.sendMessage(this.grantId, input);
+    return { id: message.id, threadId: message.threadId };
+  }
+
+  async updateMessage(id: string, changes: { unread?: boolean; starred?: boolean; folders?: string[] }): Promise<void> {
+    await nylasLib.updateMessage(this.grantId, id, changes);
+  }
+
+  async trashMessage(id: string): Promise<void> {
+    await nylasLib.trashMessage(this.grantId, id);
+  }
+
+  /**
+   * Nylas has no message delta: the cursor is the time the last listing
+   * started, and messages received since then are listed again. Flag and
+   * folder changes arrive by webhook instead, and deletions aren't reported
+   */
+  async listMessageChanges(options: { cursor?: string; receivedAfter: number; limit: number }): Promise<MessageChanges> {
+    const startedAt = Math.floor(Date.now() / 1000);
+    const since = options.cursor ? Number(options.cursor) - CURSOR_OVERLAP_SECONDS : options.receivedAfter;
+    if (!Number.isFinite(since)) {
+      throw new SyncCursorError('Cursor is not readable');
+    }
+
+    const messages: EmailMessage[] = [];
+    let pageToken: string | undefined;
+    let truncated = false;
+
+    do {
+      const page = await this.listMessages({ limit: 200, pageToken, receivedAfter: since });
+      messages.push(...page.data);
+      pageToken = page.nextCursor;
+
+      if (messages.length >= options.limit) {
+        truncated = !!pageToken;
+        break;
+      }
+    } while (pageToken);
+
+    return { messages, removed: [], cursor: String(startedAt), truncated };
+  }
+
+  async listFolders(): Promise<EmailFolder[]> {
+    return (await nylasLib.listFolders(this.grantId)).map(fromNylasFolder);
+  }
+
+  async getFolder(id: string): Promise<EmailFolder> {
+    return fromNylasFolder(await nylasLib.getFolder(this.grantId, id));
+  }
+
+  async createFolder(name: string, parentId?: string): Promise<EmailFolder> {
+    return fromNylasFolder(await nylasLib.createFolder(this.grantId, name, parentId));
+  }
+
+  async updateFolder(id: string, name: string): Promise<EmailFolder> {
+    return fromNylasFolder(await nylasLib.updateFolder(this.grantId, id, name));
+  }
+
+  async deleteFolder(id: string): Promise<void> {
+    await nylasLib.deleteFolder(this.grantId, id);
+  }
+
+  async listCalendars(): Promise<Calendar[]> {
+    return (await nylasLib.listCalendars(this.grantId)).map(fromNylasCalendar);
+  }
+
+  async listEvents(options: EventListOptions = {}): Promise<Page<CalendarEvent>> {
+    const response = await nylasLib.listEvents(this.grantId, {
+      ...options,
+      calendarId: options.calendarId || 'primary',
+    });
+    return { data: response.data.map(fromNylasEvent), nextCursor: response.nextCursor };
+  }
+
+  async getEvent(id: string, calendarId: string): Promise<CalendarEvent> {
+    return fromNylasEvent(await nylasLib.getEvent(this.grantId, id, calendarId));
+  }
+
+  async createEvent(input: CreateEventInput): Promise<CalendarEvent> {
+    const event = await nylasLib.createEvent(this.grantId, {
+      calendarId: input.calendarId,
+      title: input.title,
+      description: input.description,
+      location: input.location,
+      when: {
+        startTime: Math.floor(input.startTime.getTime() / 1000),
+        endTime: Math.floor(input.endTime.getTime() / 1000),
+      },
+      participants: input.participants,
+    });
+    return fromNylasEvent(event);
+  }
+
+  async deleteEvent(id: string, calendarId: string): Promise<void> {
+    await nylasLib.nylas.events.destroy({
+      identifier: this.grantId,
+      eventId: id,
+      queryParams: { calendarId },
+    });
+  }
+
+  async listContacts(options: { limit?: number; pageToken?: string; email?: string } = {}): Promise<Page<Contact>> {
+    const response = await nylasLib.listContacts(this.grantId, options);
+    return { data: response.data.map(fromNylasContact), nextCursor: response.nextCursor };
+  }
+
+  async getContact(id: string): Promise<Contact> {
+    return fromNylasContact(await nylasLib.getContact(this.grantId, id));
+  }
+
+  async createContact(input: CreateContactInput): Promise<Contact> {
+    return fromNylasContact(await nylasLib.createContact(this.grantId, input));
+  }
+}
+
+// ===========================================
+// ACCOUNT LOOKUP
+// ===========================================
+
+/**
+ * Key for an account's cached rows: the Nylas grant, or the account
+ * itself for mailboxes reached directly (Graph, Gmail)
+ */
+export function mailboxIdFor(account: { id: string; backend: string; nylasGrantId: string | null }): string {
+  if (account.backend !== 'nylas') return `${account.backend}:${account.id}`;
+  if (!account.nylasGrantId) throw new Error('Account has no Nylas grant');
+  return account.nylasGrantId;
+}
+
+function providerFor(account: Account): MailProvider {
+  const backend = account.backend as MailBackend;
+  if (backend === 'nylas') {
+    return new NylasMailProvider(mailboxIdFor(account));
+  }
+
+  const mailbox = Object.values(MAILBOX_INTEGRATIONS).find(m => m.backend === backend);
+  if (!mailbox) throw new Error(`Unknown mail backend: ${backend}`);
+
+  // One token lookup per provider; tool calls are short-lived
+  let token: Promise<string> | undefined;
+  const getAccessToken = () => {
+    token ??= getFreshCredentials(mailbox.integration, account.tenantId, account.email).then(result => {
+      if (!result.success) {
+        token = undefined;
+        throw new Error(result.error || `${mailbox.name} is not connected`);
+      }
+      return result.credentials.accessToken!;
+    });
+    return token;
+  };
+
+  return backend === 'gmail'
+    ? new GmailMailProvider(mailboxIdFor(account), getAccessToken)
+    : new GraphMailProvider(mailboxIdFor(account), getAccessToken);
+}
+
+/**
+ * The account (by ID or email, defaulting to the primary) and the
+ * provider its mailbox is reached through
+ */
+export async function getMailProvider(tenantId: string, accountId?: string) {
+  const account = await getAccountWithGrant(tenantId, accountId);
+  return { account, provider: providerFor(account) };
+}
+
+/**
+ * Every active account with its provider, primary first
+ */
+export async function listMailProviders(tenantId: string) {
+  const accounts = await listAccountsWithGrant(tenantId);
+  return accounts.map(account => ({ account, provider: providerFor(account) }));
+}
+
+// ===========================================
+// DIRECT MAILBOXES
+// Connecting Microsoft 365 or Google adds its mailbox as an email account
+// ===========================================
+
+/**
+ * Add (or reactivate) the account for the mailbox behind a newly
+ * connected integration; other integrations are ignored
+ * A mailbox already connected through Nylas stays on Nylas
+ */
+export async function connectMailbox(tenantId: string, credentials: IntegrationCredentials, connectionId?: string): Promise<void> {
+  const mailbox = MAILBOX_INTEGRATIONS[credentials.integrationId];
+  const email = credentials.metadata?.email as string | undefined;
+  if (!mailbox || !email) return;
+
+  const scopes = credentials.metadata?.scopes as string[] | undefined;
+  if (mailbox.requiredScope && !scopes?.includes(mailbox.requiredScope)) return;
+
+  const where = { tenantId_email: { tenantId, email } };
+  const existing = await db.account.findUnique({ where });
+  if (existing?.isActive && existing.backend !== mailbox.backend) return;
+
+  // A legacy tenant grant becomes an account first so it keeps its place as primary
+  await adoptLegacyGrant(tenantId);
+
+  const primaryCount = await db.account.count({ where: { tenantId, isActive: true, isPrimary: true } });
+  const isPrimary = existing?.isActive ? existing.isPrimary : primaryCount === 0;
+  const data = { provider: mailbox.provider, backend: mailbox.backend, connectionId: connectionId ?? existing?.connectionId ?? null };
+
+  await db.account.upsert({
+    where,
+    update: { ...data, nylasGrantId: null, isActive: true, isPrimary },
+    create: { ...data, tenantId, email, isPrimary },
+  });
+
+  await syncLegacyTenantFields(tenantId);
+
+  // As for a Nylas grant: earlier cursors don't apply to the new mailbox,
+  // so the scheduler starts over with a full sync straight away
+  await db.syncState.upsert({
+    where: { tenantId },
+    update: { emailCursor: null, calendarCursor: null, contactsCursor: null, nextSyncAt: null },
+    create: { tenantId },
+  });
+}
+
+/**
+ * Deactivate the account for the mailbox behind a disconnected integration
+ */
+export async function disconnectMailbox(tenantId: string, integrationId: string, email: string): Promise<void> {
+  const mailbox = MAILBOX_INTEGRATIONS[integrationId];
+  if (!mailbox) return;
+
+  const account = await db.account.findFirst({ where: { tenantId, email, backend: mailbox.backend, isActive: true } });
+  if (account) await disconnectAccount(account);
+}
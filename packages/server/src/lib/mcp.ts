@@ -0,0 +1,243 @@
+// ===========================================
+// MODEL CONTEXT PROTOCOL
+// JSON-RPC message handling for the /mcp endpoint
+// ===========================================
+
+import { ToolDefinition } from '../integrations/types.js';
+import { getToolDefinitions, getToolDefinition, callTool } from '../tools/index.js';
+import { getInputSchema, validateToolParams, ToolInputSchema } from './toolSchema.js';
+import { getToolScope, hasToolScope, ValidatedApiKey } from './apiKey.js';
+import { checkQuotaOrAllow } from './quota.js';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = {
+  name: 'botmakers-mcp',
+  version: '1.0.0',
+};
+
+// ===========================================
+// JSON-RPC TYPES
+// ===========================================
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export interface McpContext {
+  tenantId: string;
+  apiKey: ValidatedApiKey;
+  requestId?: string; // HTTP request the message arrived in
+}
+
+export interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+// ===========================================
+// MESSAGE HELPERS
+// ===========================================
+
+function errorResponse(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined ? { data } : {}) } };
+}
+
+function resultResponse(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+/**
+ * Requests carry an id; notifications and responses from the client do not need a reply
+ */
+export function isRequest(message: unknown): message is JsonRpcRequest {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    'method' in message &&
+    'id' in message &&
+    (message as JsonRpcRequest).id !== undefined
+  );
+}
+
+// ===========================================
+// TOOL CONVERSION
+// ===========================================
+
+/**
+ * Convert a ToolDefinition to an MCP tool
+ * tenant_id is omitted because the tenant comes from the API key
+ */
+export function toMcpTool(definition: ToolDefinition): McpTool {
+  const { properties, required, ...schema } = getInputSchema(definition);
+  const { tenant_id: _tenantId, ...rest } = properties;
+  const remaining = (required || []).filter(name => name !== 'tenant_id');
+
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: {
+      ...schema,
+      properties: rest,
+      ...(remaining.length > 0 ? { required: remaining } : {}),
+    },
+  };
+}
+
+/**
+ * Tools the API key is allowed to call
+ */
+export function listMcpTools(apiKey: ValidatedApiKey): McpTool[] {
+  return getToolDefinitions()
+    .filter(def => hasToolScope(apiKey, def))
+    .map(toMcpTool);
+}
+
+// ===========================================
+// METHOD HANDLERS
+// ===========================================
+
+function handleInitialize(params: Record<string, unknown> | undefined) {
+  const requested = params?.protocolVersion as string | undefined;
+  const protocolVersion = requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : MCP_PROTOCOL_VERSION;
+
+  return {
+    protocolVersion,
+    capabilities: {
+      tools: { listChanged: false },
+    },
+    serverInfo: SERVER_INFO,
+  };
+}
+
+class InvalidParamsError extends Error {
+  constructor(message: string, public data?: unknown) {
+    super(message);
+  }
+}
+
+async function handleToolsCall(params: Record<string, unknown> | undefined, context: McpContext) {
+  const name = params?.name as string | undefined;
+  const args = (params?.arguments as Record<string, unknown> | undefined) || {};
+  const definition = name ? getToolDefinition(name) : undefined;
+
+  if (!name || !definition) {
+    return {
+      content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+      isError: true,
+    };
+  }
+
+  if (!hasToolScope(context.apiKey, definition)) {
+    return {
+      content: [{ type: 'text', text: `Missing required scope: ${getToolScope(definition)}` }],
+      isError: true,
+    };
+  }
+
+  // Always run as the API key's tenant, never a tenant from the arguments
+  const validation = validateToolParams(definition, { ...args, tenant_id: context.tenantId });
+  if (!validation.success) {
+    throw new InvalidParamsError(`Invalid arguments for tool ${name}`, { errors: validation.errors });
+  }
+
+  try {
+    const quota = await checkQuotaOrAllow(context.tenantId);
+    if (quota && !quota.allowed) {
+      return {
+        content: [{ type: 'text', text: `Monthly quota exceeded (${quota.used}/${quota.limit} calls on the ${quota.plan} plan)` }],
+        isError: true,
+      };
+    }
+
+    const result = await callTool(name, validation.data, context.tenantId, {
+      source: 'mcp',
+      requestId: context.requestId,
+      apiKeyId: context.apiKey.id,
+    });
+    const failed = typeof result === 'object' && result !== null && (result as { success?: boolean }).success === false;
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      isError: failed,
+    };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: error instanceof Error ? error.message : 'Unknown error' }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Handle a single JSON-RPC message
+ * Returns null for notifications, which never get a response
+ */
+export async function handleMcpMessage(message: unknown, context: McpContext): Promise<JsonRpcResponse | null> {
+  if (typeof message !== 'object' || message === null || (message as JsonRpcRequest).jsonrpc !== '2.0') {
+    return errorResponse(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC message');
+  }
+
+  // Notifications and client responses need no reply
+  if (!isRequest(message)) {
+    return null;
+  }
+
+  const { id, method, params } = message;
+
+  try {
+    switch (method) {
+      case 'initialize':
+        return resultResponse(id!, handleInitialize(params));
+
+      case 'ping':
+        return resultResponse(id!, {});
+
+      case 'tools/list':
+        return resultResponse(id!, { tools: listMcpTools(context.apiKey) });
+
+      case 'tools/call':
+        return resultResponse(id!, await handleToolsCall(params, context));
+
+      default:
+        return errorResponse(id!, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  } catch (error) {
+    if (error instanceof InvalidParamsError) {
+      return errorResponse(id!, JSON_RPC_ERRORS.INVALID_PARAMS, error.message, error.data);
+    }
+    return errorResponse(
+      id!,
+      JSON_RPC_ERRORS.INTERNAL_ERROR,
+      error instanceof Error ? error.message : 'Internal error'
+    );
+  }
+}
@@ -0,0 +1,175 @@
+// ===========================================
+// TEAM MEMBERSHIPS
+// Roles within a tenant and email invitations
+// ===========================================
+
+import crypto from 'crypto';
+import { Invitation } from '@prisma/client';
+import { db } from './db.js';
+import { sendPlatformEmail, appUrl } from './notifications.js';
+
+// ===========================================
+// ROLES & PERMISSIONS
+// ===========================================
+
+export const TENANT_ROLES = ['owner', 'admin', 'developer', 'viewer'] as const;
+export type TenantRole = typeof TENANT_ROLES[number];
+
+export const ROLE_PERMISSIONS = {
+  'tenant:write': ['owner', 'admin', 'developer'],      // Any change not covered below
+  'api_keys:manage': ['owner', 'admin', 'developer'],
+  'webhooks:manage': ['owner', 'admin', 'developer'],
+  'connections:manage': ['owner', 'admin'],
+  'billing:view': ['owner', 'admin'],
+  'members:manage': ['owner', 'admin'],
+} satisfies Record<string, TenantRole[]>;
+
+export type Permission = keyof typeof ROLE_PERMISSIONS;
+
+export function isTenantRole(role: unknown): role is TenantRole {
+  return typeof role === 'string' && (TENANT_ROLES as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[permission] as string[]).includes(role);
+}
+
+/**
+ * Admins manage everyone below owner; only owners grant or change ownership
+ */
+export function canAssignRole(actorRole: string, fromRole: string | null, toRole: TenantRole): boolean {
+  if (!hasPermission(actorRole, 'members:manage')) return false;
+  if (actorRole === 'owner') return true;
+  return toRole !== 'owner' && fromRole !== 'owner';
+}
+
+// ===========================================
+// MEMBERSHIPS
+// ===========================================
+
+export async function getMembership(userId: string, tenantId: string) {
+  return db.membership.findUnique({
+    where: { userId_tenantId: { userId, tenantId } },
+  });
+}
+
+export async function listUserTenants(userId: string) {
+  const memberships = await db.membership.findMany({
+    where: { userId, tenant: { isActive: true } },
+    include: { tenant: { select: { id: true, slug: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return memberships.map(m => ({ ...m.tenant, role: m.role as TenantRole }));
+}
+
+/**
+ * A tenant must always keep at least one owner
+ */
+export async function isLastOwner(tenantId: string, membershipId: string): Promise<boolean> {
+  const owners = await db.membership.findMany({
+    where: { tenantId, role: 'owner' },
+    select: { id: true },
+  });
+  return owners.length === 1 && owners[0].id === membershipId;
+}
+
+// ===========================================
+// INVITATIONS
+// ===========================================
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create (or replace) a pending invitation and email it
+ * Returns whether the email went out so the caller can surface the link otherwise
+ */
+export async function inviteMember(params: {
+  tenantId: string;
+  email: string;
+  role: TenantRole;
+  invitedBy: { id: string; email: string; name: string | null };
+}): Promise<{ invitation: Invitation; emailSent: boolean }> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  // One pending invitation per email; re-inviting issues a fresh link
+  const [, invitation] = await db.$transaction([
+    db.invitation.deleteMany({
+      where: { tenantId: params.tenantId, email: params.email, acceptedAt: null },
+    }),
+    db.invitation.create({
+      data: {
+        tenantId: params.tenantId,
+        email: params.email,
+        role: params.role,
+        tokenHash: hashToken(token),
+        invitedById: params.invitedBy.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      },
+    }),
+  ]);
+
+  const tenant = await db.tenant.findUnique({
+    where: { id: params.tenantId },
+    select: { name: true },
+  });
+  const inviter = params.invitedBy.name || params.invitedBy.email;
+  const link = appUrl(`/auth/invite?token=${token}`);
+
+  const emailSent = await sendPlatformEmail({
+    to: params.email,
+    subject: `${inviter} invited you to ${tenant?.name || 'their team'} on BotMakers`,
+    text: `${inviter} invited you to join ${tenant?.name || 'their team'} as ${params.role}.\n\nAccept the invitation:\n\n${link}\n\nThe link expires in 7 days.`,
+  });
+
+  return { invitation, emailSent };
+}
+
+export async function findPendingInvitation(token: string) {
+  const invitation = await db.invitation.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { tenant: { select: { id: true, name: true, slug: true, isActive: true } } },
+  });
+
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date() || !invitation.tenant.isActive) {
+    return null;
+  }
+  return invitation;
+}
+
+/**
+ * Join the invited tenant; the signed-in user's email must match the invitation
+ * An existing membership keeps its role rather than being downgraded
+ */
+export async function acceptInvitation(
+  token: string,
+  user: { id: string; email: string }
+): Promise<{ tenantId: string } | { error: string }> {
+  const invitation = await findPendingInvitation(token);
+  if (!invitation) {
+    return { error: 'Invitation is invalid or has expired' };
+  }
+  if (invitation.email !== user.email) {
+    return { error: `This invitation was sent to ${invitation.email}` };
+  }
+
+  const claimed = await db.invitation.updateMany({
+    where: { id: invitation.id, acceptedAt: null },
+    data: { acceptedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    return { error: 'Invitation has already been accepted' };
+  }
+
+  await db.membership.upsert({
+    where: { userId_tenantId: { userId: user.id, tenantId: invitation.tenantId } },
+    update: {},
+    create: { userId: user.id, tenantId: invitation.tenantId, role: invitation.role },
+  });
+
+  return { tenantId: invitation.tenantId };
+}
@@ -0,0 +1,82 @@
+// ===========================================
+// PLATFORM NOTIFICATIONS
+// Emails sent by the platform itself (not on behalf of a tenant)
+// ===========================================
+
+import { db } from './db.js';
+import { resendIntegration } from '../integrations/index.js';
+
+const DEFAULT_FROM = 'BotMakers <notifications@botmakers.ai>';
+
+export interface PlatformEmail {
+  to: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Send an email with the platform's Resend key (RESEND_API_KEY)
+ * Returns false instead of throwing so callers can fire and forget
+ */
+export async function sendPlatformEmail(email: PlatformEmail): Promise<boolean> {
+  if (!resendIntegration.isConfigured()) {
+    console.warn(`Resend not configured, skipping email: ${email.subject}`);
+    return false;
+  }
+
+  const result = await resendIntegration.executeTool(
+    'resend_send_email',
+    {
+      from: process.env.NOTIFICATION_FROM_EMAIL || DEFAULT_FROM,
+      to: Array.isArray(email.to) ? email.to : [email.to],
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    },
+    { integrationId: 'resend', tenantId: 'platform' }
+  );
+
+  if (!result.success) {
+    console.error(`Failed to send "${email.subject}":`, result.error);
+  }
+
+  return result.success;
+}
+
+/**
+ * Dashboard link for emails (APP_URL may list several origins for CORS; the first is used)
+ */
+export function appUrl(path: string): string {
+  const base = (process.env.APP_URL || 'http://localhost:3000').split(',')[0].replace(/\/$/, '');
+  return `${base}${path}`;
+}
+
+/**
+ * Where tenant notifications go: the first verified owner,
+ * then the primary account, then the legacy connected email
+ */
+export async function getTenantNotificationEmail(tenantId: string): Promise<string | null> {
+  const user = await db.user.findFirst({
+    where: {
+      emailVerifiedAt: { not: null },
+      memberships: { some: { tenantId, role: 'owner' } },
+    },
+    orderBy: { createdAt: 'asc' },
+    select: { email: true },
+  });
+  if (user) return user.email;
+
+  const account = await db.account.findFirst({
+    where: { tenantId, isActive: true },
+    orderBy: { isPrimary: 'desc' },
+    select: { email: true },
+  });
+  if (account) return account.email;
+
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { connectedEmail: true },
+  });
+  return tenant?.connectedEmail || null;
+}
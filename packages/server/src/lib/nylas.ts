@@ -1,4 +1,5 @@
 import Nylas from 'nylas';
+import crypto from 'crypto';
 import 'dotenv/config';
 
 // Initialize Nylas - using any to handle SDK version differences
@@ -8,6 +9,15 @@ export const nylas: any = new (Nylas as any)({
   apiUri: process.env.NYLAS_API_URI || 'https://api.us.nylas.com',
 });
 
+/**
+ * PKCE challenge as Nylas hosted auth expects it: base64 of the hex
+ * SHA-256 digest, unpadded (not the RFC 7636 base64url of the raw digest)
+ */
+export function nylasCodeChallenge(codeVerifier: string): string {
+  const hex = crypto.createHash('sha256').update(codeVerifier).digest('hex');
+  return Buffer.from(hex).toString('base64').replace(/=+$/, '');
+}
+
 // ===========================================
 // EMAIL HELPERS
 // ===========================================
@@ -16,7 +26,16 @@ export async function listMessages(grantId: string, options?: {
   limit?: number;
   pageToken?: string;
   folderId?: string;
+  threadId?: string;
   unread?: boolean;
+  starred?: boolean;
+  receivedAfter?: number; // Unix timestamp
+  receivedBefore?: number;
+  from?: string;
+  to?: string;
+  subject?: string;
+  hasAttachment?: boolean;
+  searchQueryNative?: string;
 }) {
   const queryParams: Record<string, unknown> = {
     limit: options?.limit || 50,
@@ -24,7 +43,16 @@ export async function listMessages(grantId: string, options?: {
 
   if (options?.pageToken) queryParams.pageToken = options.pageToken;
   if (options?.folderId) queryParams.folders = [options.folderId];
+  if (options?.threadId) queryParams.threadId = options.threadId;
   if (options?.unread !== undefined) queryParams.unread = options.unread;
+  if (options?.starred !== undefined) queryParams.starred = options.starred;
+  if (options?.receivedAfter) queryParams.receivedAfter = options.receivedAfter;
+  if (options?.receivedBefore) queryParams.receivedBefore = options.receivedBefore;
+  if (options?.from) queryParams.from = [options.from];
+  if (options?.to) queryParams.to = [options.to];
+  if (options?.subject) queryParams.subject = options.subject;
+  if (options?.hasAttachment) queryParams.hasAttachment = true;
+  if (options?.searchQueryNative) queryParams.searchQueryNative = options.searchQueryNative;
 
   return nylas.messages.list({
     identifier: grantId,
@@ -139,6 +167,9 @@ export async function listEvents(grantId: string, options?: {
   start?: number; // Unix timestamp
   end?: number;
   limit?: number;
+  pageToken?: string;
+  updatedAfter?: number; // Unix timestamp; only events changed since
+  showCancelled?: boolean;
 }) {
   const queryParams: Record<string, unknown> = {
     limit: options?.limit || 50,
@@ -147,6 +178,9 @@ export async function listEvents(grantId: string, options?: {
   if (options?.calendarId) queryParams.calendarId = options.calendarId;
   if (options?.start) queryParams.start = options.start;
   if (options?.end) queryParams.end = options.end;
+  if (options?.pageToken) queryParams.pageToken = options.pageToken;
+  if (options?.updatedAfter) queryParams.updatedAfter = options.updatedAfter;
+  if (options?.showCancelled) queryParams.showCancelled = true;
 
   return nylas.events.list({
     identifier: grantId,
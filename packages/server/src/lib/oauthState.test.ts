@@ -0,0 +1,148 @@
+// ===========================================
+// OAUTH STATE TESTS
+// State parameters are signed, expire, are bound to the integration and
+// user that started the flow, and can be used once
+// ===========================================
+
+import { test, beforeEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+process.env.OAUTH_STATE_SECRET = 'oauth-state-test-secret';
+process.env.APP_URL = 'http://localhost:3000,https://app.example.com';
+
+const { db } = await import('./db.js');
+const { createOAuthState, consumeOAuthState, normalizeReturnUrl, OAuthStateError } = await import('./oauthState.js');
+
+// ===========================================
+// DATABASE STAND-IN
+// ===========================================
+
+interface StateRow {
+  id: string;
+  tenantId: string;
+  integrationId: string;
+  userId: string | null;
+  returnUrl: string | null;
+  codeVerifier: string | null;
+  expiresAt: Date;
+  usedAt: Date | null;
+}
+
+const rows = new Map<string, StateRow>();
+
+Object.defineProperty(db, 'oAuthState', {
+  value: {
+    create: async ({ data }: { data: Partial<StateRow> & { id: string } }) => {
+      const row: StateRow = {
+        tenantId: '', integrationId: '', userId: null, returnUrl: null, codeVerifier: null, usedAt: null,
+        expiresAt: new Date(),
+        ...data,
+      };
+      rows.set(data.id, row);
+      return row;
+    },
+    deleteMany: async () => ({ count: 0 }),
+    updateMany: async ({ where, data }: { where: { id: string; expiresAt: { gt: Date } }; data: { usedAt: Date } }) => {
+      const row = rows.get(where.id);
+      if (!row || row.usedAt || row.expiresAt <= where.expiresAt.gt) return { count: 0 };
+      row.usedAt = data.usedAt;
+      return { count: 1 };
+    },
+    findUnique: async ({ where }: { where: { id: string } }) => rows.get(where.id) ?? null,
+  },
+  configurable: true,
+});
+
+beforeEach(() => {
+  rows.clear();
+});
+
+const rejectsWith = (promise: Promise<unknown>, message: RegExp) =>
+  assert.rejects(promise, (error: unknown) => error instanceof OAuthStateError && message.test(error.message));
+
+// ===========================================
+// SIGNING
+// ===========================================
+
+test('a state round-trips to the flow that created it, PKCE verifier included', async () => {
+  const { state, pkce } = await createOAuthState({
+    tenantId: 'tenant_a',
+    integrationId: 'google',
+    returnUrl: 'http://localhost:3000/settings',
+    pkce: true,
+  });
+
+  assert.ok(pkce);
+  assert.equal(pkce.codeChallenge, crypto.createHash('sha256').update(pkce.codeVerifier).digest('base64url'));
+
+  assert.deepEqual(await consumeOAuthState(state, 'google'), {
+    tenantId: 'tenant_a',
+    integrationId: 'google',
+    userId: undefined,
+    returnUrl: 'http://localhost:3000/settings',
+    codeVerifier: pkce.codeVerifier,
+  });
+});
+
+test('a tampered or unsigned state is refused', async () => {
+  const { state } = await createOAuthState({ tenantId: 'tenant_a', integrationId: 'google' });
+  const [encoded, signature] = state.split('.');
+  const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  const forged = Buffer.from(JSON.stringify({ ...payload, t: 'tenant_b' })).toString('base64url');
+
+  await rejectsWith(consumeOAuthState(`${forged}.${signature}`, 'google'), /Invalid OAuth state/);
+  await rejectsWith(consumeOAuthState(encoded, 'google'), /Invalid OAuth state/);
+  await rejectsWith(consumeOAuthState('garbage', 'google'), /Invalid OAuth state/);
+});
+
+test('a state is refused for another integration', async () => {
+  const { state } = await createOAuthState({ tenantId: 'tenant_a', integrationId: 'google' });
+
+  await rejectsWith(consumeOAuthState(state, 'microsoft'), /different integration/);
+});
+
+test('a state a dashboard user started is refused for another user', async () => {
+  const { state } = await createOAuthState({ tenantId: 'tenant_a', integrationId: 'google', userId: 'user_1' });
+
+  await rejectsWith(consumeOAuthState(state, 'google', 'user_2'), /different user/);
+  await rejectsWith(consumeOAuthState(state, 'google'), /different user/);
+  assert.equal((await consumeOAuthState(state, 'google', 'user_1')).userId, 'user_1');
+});
+
+// ===========================================
+// EXPIRY AND SINGLE USE
+// ===========================================
+
+test('a state expires after ten minutes', async (t) => {
+  t.after(() => mock.timers.reset());
+  mock.timers.enable({ apis: ['Date'], now: Date.now() });
+
+  const { state } = await createOAuthState({ tenantId: 'tenant_a', integrationId: 'google' });
+  mock.timers.tick(10 * 60 * 1000 + 1);
+
+  await rejectsWith(consumeOAuthState(state, 'google'), /expired/);
+});
+
+test('a state can be used once, even by concurrent callbacks', async () => {
+  const { state } = await createOAuthState({ tenantId: 'tenant_a', integrationId: 'google' });
+
+  const results = await Promise.allSettled([consumeOAuthState(state, 'google'), consumeOAuthState(state, 'google')]);
+
+  assert.deepEqual(results.map(r => r.status).sort(), ['fulfilled', 'rejected']);
+  await rejectsWith(consumeOAuthState(state, 'google'), /already used/);
+});
+
+// ===========================================
+// RETURN URLS
+// ===========================================
+
+test('only dashboard pages are accepted as return URLs', () => {
+  assert.equal(normalizeReturnUrl('/settings'), 'http://localhost:3000/settings');
+  assert.equal(normalizeReturnUrl('https://app.example.com/settings?tab=1'), 'https://app.example.com/settings?tab=1');
+  assert.equal(normalizeReturnUrl('https://evil.example.com/settings'), undefined);
+  assert.equal(normalizeReturnUrl('//evil.example.com'), undefined);
+  assert.equal(normalizeReturnUrl(42), undefined);
+});
@@ -0,0 +1,215 @@
+// ===========================================
+// OAUTH STATE
+// Signed, short-lived, single-use state for connect flows,
+// with PKCE verifiers kept server-side
+// ===========================================
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { db } from './db.js';
+import { appUrl } from './notifications.js';
+import { PkceParams } from '../integrations/types.js';
+
+const STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes to finish the provider's consent screen
+
+export interface OAuthFlowStart {
+  state: string;
+  pkce?: PkceParams;
+}
+
+export interface OAuthFlowContext {
+  tenantId: string;
+  integrationId: string;
+  userId?: string;
+  returnUrl?: string;
+  codeVerifier?: string;
+}
+
+// Signed into the state parameter so tampering is caught before the database
+interface StatePayload {
+  n: string;   // Nonce (OAuthState id)
+  t: string;   // Tenant ID
+  i: string;   // Integration ID
+  u?: string;  // Initiating user
+  exp: number; // Unix ms
+}
+
+export class OAuthStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthStateError';
+  }
+}
+
+let warnedAboutSecret = false;
+
+function getStateSecret(): Buffer {
+  const secret = process.env.OAUTH_STATE_SECRET;
+  if (secret) return Buffer.from(secret);
+
+  const base = process.env.ENCRYPTION_KEY || process.env.ENCRYPTION_KEYS;
+  if (!base) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('OAUTH_STATE_SECRET (or ENCRYPTION_KEYS) must be set in production');
+    }
+    if (!warnedAboutSecret) {
+      warnedAboutSecret = true;
+      console.warn('⚠️  OAUTH_STATE_SECRET not set! Deriving the OAuth state key from DATABASE_URL.');
+    }
+  }
+
+  // Derived so it never equals the encryption key itself
+  return crypto.createHash('sha256')
+    .update(`oauth-state:${base || process.env.DATABASE_URL || 'default-fallback-key'}`)
+    .digest();
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac('sha256', getStateSecret()).update(encodedPayload).digest('base64url');
+}
+
+function createPkce(): PkceParams {
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge, codeChallengeMethod: 'S256' };
+}
+
+/**
+ * Only dashboard pages may be used as the landing page after a connect flow
+ * Accepts a path ("/settings") or an absolute URL on an APP_URL origin
+ */
+export function normalizeReturnUrl(returnUrl: unknown): string | undefined {
+  if (typeof returnUrl !== 'string' || !returnUrl) return undefined;
+
+  if (returnUrl.startsWith('/') && !returnUrl.startsWith('//')) {
+    return appUrl(returnUrl);
+  }
+
+  try {
+    const url = new URL(returnUrl);
+    const allowed = (process.env.APP_URL || 'http://localhost:3000')
+      .split(',')
+      .map(origin => new URL(origin.trim()).origin);
+    return allowed.includes(url.origin) ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Browsers are redirected to the provider; API clients (which can't carry
+ * their key through a redirect) get { authUrl } to open themselves
+ */
+export function sendAuthUrl(req: Request, res: Response, authUrl: string): void {
+  if (req.query.format === 'json' || req.accepts(['html', 'json']) === 'json') {
+    res.json({ authUrl });
+    return;
+  }
+  res.redirect(authUrl);
+}
+
+/**
+ * Start a connect flow: stores the pending state and returns the value to
+ * send as the provider's state parameter (plus PKCE params when requested)
+ */
+export async function createOAuthState(params: {
+  tenantId: string;
+  integrationId: string;
+  userId?: string;
+  returnUrl?: string;
+  pkce?: boolean;
+}): Promise<OAuthFlowStart> {
+  const nonce = crypto.randomBytes(24).toString('base64url');
+  const expiresAt = new Date(Date.now() + STATE_TTL_MS);
+  const pkce = params.pkce ? createPkce() : undefined;
+
+  await db.oAuthState.create({
+    data: {
+      id: nonce,
+      tenantId: params.tenantId,
+      integrationId: params.integrationId,
+      userId: params.userId,
+      returnUrl: params.returnUrl,
+      codeVerifier: pkce?.codeVerifier,
+      expiresAt,
+    },
+  });
+
+  // Abandoned flows are dropped here rather than by a separate job
+  db.oAuthState.deleteMany({ where: { expiresAt: { lt: new Date() } } }).catch(() => {});
+
+  const payload: StatePayload = {
+    n: nonce,
+    t: params.tenantId,
+    i: params.integrationId,
+    ...(params.userId ? { u: params.userId } : {}),
+    exp: expiresAt.getTime(),
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return { state: `${encoded}.${sign(encoded)}`, pkce };
+}
+
+/**
+ * Verify and use up a state parameter from a provider callback
+ * Throws OAuthStateError for tampered, expired, replayed or mismatched state,
+ * and when a flow a dashboard user started is finished in another user's browser
+ */
+export async function consumeOAuthState(
+  state: string,
+  integrationId: string,
+  sessionUserId?: string
+): Promise<OAuthFlowContext> {
+  const [encoded, signature] = state.split('.');
+  if (!encoded || !signature) {
+    throw new OAuthStateError('Invalid OAuth state');
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new OAuthStateError('Invalid OAuth state');
+  }
+
+  let payload: StatePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    throw new OAuthStateError('Invalid OAuth state');
+  }
+
+  if (payload.i !== integrationId) {
+    throw new OAuthStateError('OAuth state was issued for a different integration');
+  }
+
+  if (payload.exp <= Date.now()) {
+    throw new OAuthStateError('OAuth state expired. Please start the connection again.');
+  }
+
+  // Otherwise a flow someone else started could link their account to this user's tenant
+  if (payload.u && payload.u !== sessionUserId) {
+    throw new OAuthStateError('This connection was started by a different user. Sign in as that user and try again.');
+  }
+
+  // Claiming the row and checking it in one statement keeps concurrent callbacks from both succeeding
+  const claimed = await db.oAuthState.updateMany({
+    where: { id: payload.n, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+  if (claimed.count === 0) {
+    throw new OAuthStateError('OAuth state was already used. Please start the connection again.');
+  }
+
+  const row = await db.oAuthState.findUnique({ where: { id: payload.n } });
+  if (!row || row.tenantId !== payload.t || row.integrationId !== payload.i) {
+    throw new OAuthStateError('Invalid OAuth state');
+  }
+
+  return {
+    tenantId: row.tenantId,
+    integrationId: row.integrationId,
+    userId: row.userId || undefined,
+    returnUrl: row.returnUrl || undefined,
+    codeVerifier: row.codeVerifier || undefined,
+  };
+}
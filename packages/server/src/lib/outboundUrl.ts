@@ -0,0 +1,171 @@
+// ===========================================
+// OUTBOUND URLS
+// Tenant-supplied URLs the server posts to must not reach loopback,
+// private networks or cloud metadata endpoints
+// ===========================================
+
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+const BLOCKED_RANGES = new net.BlockList();
+
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],       // "This" network
+  ['10.0.0.0', 8],      // Private
+  ['100.64.0.0', 10],   // Carrier-grade NAT
+  ['127.0.0.0', 8],     // Loopback
+  ['169.254.0.0', 16],  // Link-local (cloud metadata lives here)
+  ['172.16.0.0', 12],   // Private
+  ['192.0.0.0', 24],    // IETF protocol assignments
+  ['192.168.0.0', 16],  // Private
+  ['198.18.0.0', 15],   // Benchmarking
+  ['224.0.0.0', 4],     // Multicast
+  ['240.0.0.0', 4],     // Reserved and broadcast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+
+for (const [network, prefix] of [
+  ['::', 128],          // Unspecified
+  ['::1', 128],         // Loopback
+  ['64:ff9b::', 96],    // NAT64
+  ['fc00::', 7],        // Unique local
+  ['fe80::', 10],       // Link-local
+  ['ff00::', 8],        // Multicast
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Local development against a tunnel-less endpoint; never honoured in production
+function allowPrivateAddresses(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.ALLOW_PRIVATE_WEBHOOK_URLS === 'true';
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+
+  if (family === 4) {
+    return !BLOCKED_RANGES.check(address, 'ipv4');
+  }
+
+  if (family === 6) {
+    // IPv4-mapped addresses are judged as the IPv4 address they carry
+    const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (dotted) return isPublicAddress(dotted[1]);
+    const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      const low = parseInt(hex[2], 16);
+      return isPublicAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+    return !BLOCKED_RANGES.check(address, 'ipv6');
+  }
+
+  return false;
+}
+
+function hostOf(url: URL): string {
+  // IPv6 literals come back bracketed
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Check a URL before it's saved: http(s) only, and every address its host
+ * resolves to must be public. Returns an error message, or null when it's fine
+ */
+export async function checkOutboundUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return 'url is not a valid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'url must use http or https';
+  }
+  if (allowPrivateAddresses()) return null;
+
+  const host = hostOf(url);
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map(a => a.address);
+    } catch {
+      return `url host could not be resolved: ${host}`;
+    }
+  }
+
+  return addresses.every(isPublicAddress) ? null : 'url must point to a public address';
+}
+
+// Checks the addresses a connection is actually about to use, so a hostname
+// that re-resolves to a private address after registration is still refused
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, options, (error: NodeJS.ErrnoException | null, address: any, family?: number) => {
+    if (error) return callback(error, address, family);
+
+    const addresses: string[] = Array.isArray(address) ? address.map(a => a.address) : [address];
+    const blocked = addresses.find(a => !isPublicAddress(a));
+    if (blocked && !allowPrivateAddresses()) {
+      return callback(new Error(`Refusing to connect to non-public address ${blocked}`), address, family);
+    }
+
+    callback(null, address, family);
+  });
+}) as unknown as net.LookupFunction;
+
+export interface OutboundResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * POST to a tenant-supplied URL: public addresses only, redirects are not
+ * followed, and at most bodyLimit characters of the response are kept
+ */
+export function postOutbound(
+  value: string,
+  headers: Record<string, string>,
+  body: string,
+  options: { timeoutMs: number; bodyLimit: number }
+): Promise<OutboundResponse> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(value);
+    const host = hostOf(url);
+
+    // IP literals skip the lookup, so they're checked here
+    if (net.isIP(host) && !isPublicAddress(host) && !allowPrivateAddresses()) {
+      reject(new Error(`Refusing to connect to non-public address ${host}`));
+      return;
+    }
+
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, (response) => {
+      let text = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        text += chunk;
+        if (text.length >= options.bodyLimit) {
+          response.destroy();
+        }
+      });
+      response.on('error', reject);
+      response.on('close', () => {
+        resolve({ status: response.statusCode || 0, body: text.slice(0, options.bodyLimit) });
+      });
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,236 @@
+// ===========================================
+// MONTHLY QUOTAS
+// Per-plan call quotas enforced from a cached counter
+// ===========================================
+
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { sendPlatformEmail, getTenantNotificationEmail } from './notifications.js';
+
+// ===========================================
+// PLAN CONFIGURATION
+// ===========================================
+
+export interface PlanQuota {
+  monthlyCalls: number;
+  overage: 'block' | 'bill';   // Hard block past the quota, or allow and bill the overage
+  gracePercent: number;        // Extra calls allowed past the quota before blocking
+  overagePricePerCall: number; // Billed per call over the quota when overage = 'bill'
+  activityRetentionDays: number; // How long activity log entries are kept
+  monthlyFee: number;          // USD, invoiced when the period closes (lib/billing.ts)
+}
+
+export const PLAN_QUOTAS: Record<string, PlanQuota> = {
+  free: { monthlyCalls: 1000, overage: 'block', gracePercent: 10, overagePricePerCall: 0, activityRetentionDays: 7, monthlyFee: 0 },
+  pro: { monthlyCalls: 50000, overage: 'bill', gracePercent: 0, overagePricePerCall: 0.002, activityRetentionDays: 90, monthlyFee: 99 },
+  enterprise: { monthlyCalls: 500000, overage: 'bill', gracePercent: 0, overagePricePerCall: 0.001, activityRetentionDays: 365, monthlyFee: 299 },
+};
+
+// Percent of the quota at which tenants are notified
+const NOTIFY_THRESHOLDS = [80, 100];
+
+export function getPlanQuota(plan: string): PlanQuota {
+  return PLAN_QUOTAS[plan] || PLAN_QUOTAS.free;
+}
+
+// ===========================================
+// CACHED COUNTER
+// Seeded from UsageRecord, incremented locally by trackUsage and
+// re-synced periodically to pick up calls served by other replicas
+// ===========================================
+
+const COUNTER_SYNC_MS = 5 * 60 * 1000;
+
+interface QuotaCounter {
+  period: string;
+  plan: string;
+  used: number;
+  syncedAt: number;
+}
+
+const counters = new Map<string, QuotaCounter>();
+
+// UTC, like the usage records and billing periods it's compared with
+function getCurrentPeriod(): string {
+  const now = new Date();
+  return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+async function getCounter(tenantId: string): Promise<QuotaCounter> {
+  const period = getCurrentPeriod();
+  const cached = counters.get(tenantId);
+
+  if (cached && cached.period === period && Date.now() - cached.syncedAt < COUNTER_SYNC_MS) {
+    return cached;
+  }
+
+  const [tenant, usage] = await Promise.all([
+    db.tenant.findUnique({ where: { id: tenantId }, select: { plan: true } }),
+    db.usageRecord.aggregate({
+      where: { tenantId, period },
+      _sum: { count: true },
+    }),
+  ]);
+
+  const counter: QuotaCounter = {
+    period,
+    plan: tenant?.plan || 'free',
+    used: usage._sum.count || 0,
+    syncedAt: Date.now(),
+  };
+  counters.set(tenantId, counter);
+
+  // Calls served by other replicas (or before a restart) can cross a
+  // threshold too; notifications are deduplicated per period
+  notifyCrossedThresholds(tenantId, counter, cached?.period === period ? cached.used : 0);
+
+  return counter;
+}
+
+// Drop the cached counter, e.g. after a plan change
+export function invalidateQuota(tenantId: string): void {
+  counters.delete(tenantId);
+}
+
+// ===========================================
+// CHECK & RECORD
+// ===========================================
+
+export interface QuotaStatus {
+  plan: string;
+  period: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  allowed: boolean;
+  overage: PlanQuota['overage'];
+  inGrace: boolean; // Over the quota but still inside the grace allowance
+}
+
+export async function checkQuota(tenantId: string): Promise<QuotaStatus> {
+  const counter = await getCounter(tenantId);
+  const quota = getPlanQuota(counter.plan);
+  const hardLimit = Math.floor(quota.monthlyCalls * (1 + quota.gracePercent / 100));
+  const overQuota = counter.used >= quota.monthlyCalls;
+
+  return {
+    plan: counter.plan,
+    period: counter.period,
+    limit: quota.monthlyCalls,
+    used: counter.used,
+    remaining: Math.max(0, quota.monthlyCalls - counter.used),
+    allowed: quota.overage === 'bill' || counter.used < hardLimit,
+    overage: quota.overage,
+    inGrace: overQuota && counter.used < hardLimit,
+  };
+}
+
+/**
+ * Count calls against the cached quota counter
+ * Called by trackUsage after the UsageRecord is written
+ */
+export function recordQuotaUsage(tenantId: string, count: number): void {
+  const counter = counters.get(tenantId);
+  if (!counter || counter.period !== getCurrentPeriod()) return;
+
+  const before = counter.used;
+  counter.used += count;
+
+  notifyCrossedThresholds(tenantId, counter, before);
+}
+
+/**
+ * checkQuota for request paths: if the lookup itself fails the call is
+ * let through (and logged) rather than failed. Returns null then
+ */
+export async function checkQuotaOrAllow(tenantId: string): Promise<QuotaStatus | null> {
+  try {
+    return await checkQuota(tenantId);
+  } catch (error) {
+    console.error('Quota check failed:', error);
+    return null;
+  }
+}
+
+// Sent before the call is counted, so the remaining figure includes it
+export function setQuotaHeaders(res: Response, status: QuotaStatus): void {
+  res.setHeader('X-Quota-Limit', status.limit);
+  res.setHeader('X-Quota-Remaining', Math.max(0, status.remaining - 1));
+}
+
+export function quotaExceededBody(status: QuotaStatus) {
+  return {
+    success: false,
+    error: 'Monthly quota exceeded',
+    plan: status.plan,
+    period: status.period,
+    limit: status.limit,
+    used: status.used,
+    hint: status.plan === 'free' ? 'Upgrade to Pro to keep going this month' : undefined,
+  };
+}
+
+// ===========================================
+// NOTIFICATIONS
+// ===========================================
+
+function notifyCrossedThresholds(tenantId: string, counter: QuotaCounter, before: number): void {
+  const { monthlyCalls } = getPlanQuota(counter.plan);
+
+  for (const threshold of NOTIFY_THRESHOLDS) {
+    const mark = (monthlyCalls * threshold) / 100;
+    if (before < mark && counter.used >= mark) {
+      notifyQuotaThreshold(tenantId, counter, threshold, monthlyCalls).catch((error) => {
+        console.error('Failed to send quota notification:', error);
+      });
+    }
+  }
+}
+
+async function notifyQuotaThreshold(
+  tenantId: string,
+  counter: QuotaCounter,
+  threshold: number,
+  limit: number
+): Promise<void> {
+  // The unique row makes this fire once per period even across replicas
+  let notification;
+  try {
+    notification = await db.quotaNotification.create({
+      data: { tenantId, period: counter.period, threshold, usage: counter.used, limit },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return;
+    throw error;
+  }
+
+  const to = await getTenantNotificationEmail(tenantId);
+  if (!to) return;
+
+  const quota = getPlanQuota(counter.plan);
+  const consequence = threshold < 100
+    ? 'You can keep making calls until you reach your quota.'
+    : quota.overage === 'bill'
+      ? `Calls over your quota are billed at $${quota.overagePricePerCall} each.`
+      : quota.gracePercent > 0
+        ? `Calls will be blocked after a ${quota.gracePercent}% grace allowance until next month.`
+        : 'Calls are blocked until next month.';
+
+  const sent = await sendPlatformEmail({
+    to,
+    subject: `You've used ${threshold}% of your monthly API quota`,
+    text: [
+      `Your ${counter.plan} plan includes ${limit.toLocaleString()} calls per month.`,
+      `You've made ${counter.used.toLocaleString()} calls in ${counter.period}.`,
+      consequence,
+    ].join('\n\n'),
+  });
+
+  if (sent) {
+    await db.quotaNotification.update({
+      where: { id: notification.id },
+      data: { sentTo: to },
+    });
+  }
+}
@@ -0,0 +1,94 @@
+// ===========================================
+// RATE LIMIT STORE TESTS
+// The in-memory store and the Redis store (against an in-process
+// Redis stand-in that runs the Lua script) must make the same decisions
+// ===========================================
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import {
+  MemoryRateLimitStore,
+  RedisRateLimitStore,
+  RateLimitRule,
+  RateLimitStore,
+} from './rateLimitStore.js';
+
+// A long window keeps the sliding-window overlap from changing mid-test
+const rule: RateLimitRule = { limit: 10, windowMs: 60 * 60 * 1000 };
+
+const redis = new RedisMock() as unknown as Redis;
+after(() => redis.disconnect());
+
+let prefixCount = 0;
+const stores: Record<string, () => RateLimitStore> = {
+  memory: () => new MemoryRateLimitStore(),
+  redis: () => new RedisRateLimitStore(redis, `test${++prefixCount}:`),
+};
+
+for (const [name, createStore] of Object.entries(stores)) {
+  test(`${name}: consumes weighted units up to the limit`, async () => {
+    const store = createStore();
+
+    const first = await store.consume('k', 4, rule);
+    assert.equal(first.allowed, true);
+    assert.equal(first.remaining, 6);
+
+    const second = await store.consume('k', 6, rule);
+    assert.equal(second.allowed, true);
+    assert.equal(second.remaining, 0);
+  });
+
+  test(`${name}: a rejected request consumes nothing`, async () => {
+    const store = createStore();
+
+    await store.consume('k', 8, rule);
+    const rejected = await store.consume('k', 5, rule);
+    assert.equal(rejected.allowed, false);
+    assert.ok(rejected.retryAfter >= 1);
+
+    // The 5 units weren't taken, so 2 still fit
+    const fits = await store.consume('k', 2, rule);
+    assert.equal(fits.allowed, true);
+    assert.equal(fits.remaining, 0);
+  });
+
+  test(`${name}: keys are counted separately`, async () => {
+    const store = createStore();
+
+    await store.consume('a', 10, rule);
+    assert.equal((await store.consume('a', 1, rule)).allowed, false);
+    assert.equal((await store.consume('b', 1, rule)).allowed, true);
+  });
+
+  test(`${name}: consumeAll charges every bucket when all fit`, async () => {
+    const store = createStore();
+
+    const results = await store.consumeAll([
+      { key: 'plan', cost: 3, rule },
+      { key: 'integration', cost: 3, rule: { limit: 5, windowMs: rule.windowMs } },
+    ]);
+    assert.deepEqual(results.map(r => [r.allowed, r.remaining]), [[true, 7], [true, 2]]);
+
+    assert.equal((await store.consume('plan', 7, rule)).allowed, true);
+    assert.equal((await store.consume('plan', 1, rule)).allowed, false);
+  });
+
+  test(`${name}: consumeAll charges nothing when one bucket is over`, async () => {
+    const store = createStore();
+    const integrationRule = { limit: 2, windowMs: rule.windowMs };
+
+    const results = await store.consumeAll([
+      { key: 'plan', cost: 3, rule },
+      { key: 'integration', cost: 3, rule: integrationRule },
+    ]);
+    assert.equal(results[0].allowed, true);
+    assert.equal(results[0].remaining, 10);
+    assert.equal(results[1].allowed, false);
+
+    // The plan bucket is still full
+    assert.equal((await store.consume('plan', 10, rule)).allowed, true);
+    assert.equal((await store.consume('integration', 2, integrationRule)).allowed, true);
+  });
+}
@@ -0,0 +1,267 @@
+// ===========================================
+// RATE LIMIT STORES
+// Sliding-window counters shared by every server replica
+// ===========================================
+
+import { Redis } from 'ioredis';
+
+export interface RateLimitRule {
+  limit: number;    // Units allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;   // ms timestamp when the current window ends
+  retryAfter: number; // seconds until the request would be allowed
+}
+
+export interface RateLimitBucket {
+  key: string;
+  cost: number;
+  rule: RateLimitRule;
+}
+
+/**
+ * A store consumes `cost` units from the bucket at `key`.
+ * Rejected requests consume nothing; consumeAll takes from every
+ * bucket or, if any of them is over its limit, from none.
+ */
+export interface RateLimitStore {
+  consume(key: string, cost: number, rule: RateLimitRule): Promise<RateLimitResult>;
+  consumeAll(buckets: RateLimitBucket[]): Promise<RateLimitResult[]>;
+}
+
+// ===========================================
+// SLIDING WINDOW MATH
+// The previous fixed window is weighted by how much of it
+// still overlaps the sliding window ending now
+// ===========================================
+
+function slidingWindowResult(
+  previous: number,
+  current: number,
+  cost: number,
+  rule: RateLimitRule,
+  now: number
+): RateLimitResult {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  const resetAt = windowStart + rule.windowMs;
+  const overlap = 1 - (now - windowStart) / rule.windowMs;
+  const estimated = previous * overlap + current;
+  const allowed = estimated + cost <= rule.limit;
+  const used = allowed ? estimated + cost : estimated;
+
+  let retryAfter = 0;
+  if (!allowed) {
+    // Time until enough of the previous window has slid out, or the next window starts
+    const needed = estimated + cost - rule.limit;
+    const fromPrevious = previous > 0 ? (needed / previous) * rule.windowMs : Infinity;
+    retryAfter = Math.ceil(Math.min(fromPrevious, resetAt - now) / 1000);
+  }
+
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - used)),
+    resetAt,
+    retryAfter: Math.max(retryAfter, allowed ? 0 : 1),
+  };
+}
+
+// When one bucket rejects, the others weren't charged either
+function unchargedUnlessAll(results: RateLimitResult[], buckets: RateLimitBucket[]): RateLimitResult[] {
+  if (results.every(r => r.allowed)) return results;
+
+  return results.map((result, i) => result.allowed
+    ? { ...result, remaining: Math.min(result.limit, result.remaining + buckets[i].cost) }
+    : result);
+}
+
+// ===========================================
+// IN-MEMORY STORE
+// Single process only; used when REDIS_URL is not set
+// ===========================================
+
+interface MemoryEntry {
+  windowStart: number;
+  current: number;
+  previous: number;
+  windowMs: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, MemoryEntry>();
+  private cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    // Drop entries whose windows have both expired
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries.entries()) {
+        if (entry.windowStart + entry.windowMs * 2 < now) {
+          this.entries.delete(key);
+        }
+      }
+    }, 60 * 1000);
+    this.cleanupTimer.unref();
+  }
+
+  async consume(key: string, cost: number, rule: RateLimitRule): Promise<RateLimitResult> {
+    const [result] = await this.consumeAll([{ key, cost, rule }]);
+    return result;
+  }
+
+  async consumeAll(buckets: RateLimitBucket[]): Promise<RateLimitResult[]> {
+    const now = Date.now();
+    const entries = buckets.map(bucket => this.currentEntry(bucket.key, bucket.rule, now));
+    const results = buckets.map((bucket, i) =>
+      slidingWindowResult(entries[i].previous, entries[i].current, bucket.cost, bucket.rule, now));
+
+    if (results.every(r => r.allowed)) {
+      buckets.forEach((bucket, i) => {
+        entries[i].current += bucket.cost;
+        this.entries.set(bucket.key, entries[i]);
+      });
+    }
+
+    return unchargedUnlessAll(results, buckets);
+  }
+
+  private currentEntry(key: string, rule: RateLimitRule, now: number): MemoryEntry {
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.windowMs !== rule.windowMs) {
+      return { windowStart, current: 0, previous: 0, windowMs: rule.windowMs };
+    }
+    if (entry.windowStart !== windowStart) {
+      // Roll the window; anything older than one window no longer counts
+      const adjacent = entry.windowStart === windowStart - rule.windowMs;
+      return { windowStart, current: 0, previous: adjacent ? entry.current : 0, windowMs: rule.windowMs };
+    }
+    return entry;
+  }
+}
+
+// ===========================================
+// REDIS STORE
+// Check-and-increment runs as one Lua script so replicas can't race
+// ===========================================
+
+// Each bucket is two KEYS (current window, previous window) and four ARGV
+// (cost, limit, windowMs, overlap). Increments every bucket only if all
+// of them fit; returns the counts from before this request was applied,
+// comma-separated as current,previous per bucket
+const SLIDING_WINDOW_SCRIPT = `
+local counts = {}
+local fits = true
+for i = 1, #KEYS, 2 do
+  local arg = (i - 1) * 2
+  local current = tonumber(redis.call('GET', KEYS[i]) or '0')
+  local previous = tonumber(redis.call('GET', KEYS[i + 1]) or '0')
+  if previous * tonumber(ARGV[arg + 4]) + current + tonumber(ARGV[arg + 1]) > tonumber(ARGV[arg + 2]) then
+    fits = false
+  end
+  table.insert(counts, current)
+  table.insert(counts, previous)
+end
+if fits then
+  for i = 1, #KEYS, 2 do
+    local arg = (i - 1) * 2
+    redis.call('INCRBY', KEYS[i], tonumber(ARGV[arg + 1]))
+    redis.call('PEXPIRE', KEYS[i], tonumber(ARGV[arg + 3]) * 2)
+  end
+end
+return table.concat(counts, ',')
+`;
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private redis: Redis, private prefix = 'ratelimit:') {}
+
+  async consume(key: string, cost: number, rule: RateLimitRule): Promise<RateLimitResult> {
+    const [result] = await this.consumeAll([{ key, cost, rule }]);
+    return result;
+  }
+
+  async consumeAll(buckets: RateLimitBucket[]): Promise<RateLimitResult[]> {
+    const now = Date.now();
+    const keys: string[] = [];
+    const args: number[] = [];
+
+    for (const { key, cost, rule } of buckets) {
+      const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+      keys.push(
+        `${this.prefix}${key}:${rule.windowMs}:${windowStart}`,
+        `${this.prefix}${key}:${rule.windowMs}:${windowStart - rule.windowMs}`
+      );
+      args.push(cost, rule.limit, rule.windowMs, 1 - (now - windowStart) / rule.windowMs);
+    }
+
+    const reply = (await this.redis.eval(SLIDING_WINDOW_SCRIPT, keys.length, ...keys, ...args)) as string;
+    const counts = reply.split(',').map(Number);
+
+    // Counts are from before the script's increment, so this reproduces its decision
+    const results = buckets.map((bucket, i) =>
+      slidingWindowResult(counts[2 * i + 1], counts[2 * i], bucket.cost, bucket.rule, now));
+    return unchargedUnlessAll(results, buckets);
+  }
+}
+
+// ===========================================
+// STORE SELECTION
+// ===========================================
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Redis when REDIS_URL is set, otherwise in-memory.
+ * If Redis is unreachable requests fall back to the in-memory store
+ * rather than failing.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const redisUrl = process.env.REDIS_URL;
+  if (!redisUrl) {
+    store = new MemoryRateLimitStore();
+    return store;
+  }
+
+  const redis = new Redis(redisUrl, {
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+  });
+  redis.on('error', (error) => {
+    console.error('Rate limit Redis error:', error.message);
+  });
+
+  const redisStore = new RedisRateLimitStore(redis);
+  const fallback = new MemoryRateLimitStore();
+
+  store = {
+    async consume(key, cost, rule) {
+      try {
+        return await redisStore.consume(key, cost, rule);
+      } catch {
+        return fallback.consume(key, cost, rule);
+      }
+    },
+    async consumeAll(buckets) {
+      try {
+        return await redisStore.consumeAll(buckets);
+      } catch {
+        return fallback.consumeAll(buckets);
+      }
+    },
+  };
+
+  return store;
+}
+
+// Swap the store (e.g. to point at a different Redis)
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
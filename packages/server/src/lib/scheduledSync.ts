@@ -0,0 +1,394 @@
+// ===========================================
+// SCHEDULED SYNC
+// Cursor-based syncs on a per-plan schedule, with a full resync when a
+// cursor can't be used and stats recorded for every run
+// ===========================================
+
+import { db } from './db.js';
+import { syncFolders } from './folderSync.js';
+import { syncContacts } from './contactSync.js';
+import { syncCalendarChanges } from './calendarSync.js';
+import { syncEmails } from './emailSync.js';
+import { SyncCursor, SyncCursorError, SyncMode, decodeSyncCursor } from './syncCursor.js';
+
+const SCHEDULE_BATCH = 50; // Tenants queued per scheduler tick
+const SYNC_RUN_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// ===========================================
+// PLAN CONFIGURATION
+// ===========================================
+
+export interface SyncSchedule {
+  intervalMinutes: number;         // Between scheduled incremental syncs
+  contactsIntervalMinutes: number; // Contacts are listed in full, so they're scheduled less often
+  fullResyncHours: number;         // A cursor older than this is replaced by a full resync
+}
+
+export const SYNC_SCHEDULES: Record<string, SyncSchedule> = {
+  free: { intervalMinutes: 60, contactsIntervalMinutes: 360, fullResyncHours: 24 },
+  pro: { intervalMinutes: 15, contactsIntervalMinutes: 120, fullResyncHours: 24 },
+  enterprise: { intervalMinutes: 5, contactsIntervalMinutes: 60, fullResyncHours: 24 },
+};
+
+export function getSyncSchedule(plan: string): SyncSchedule {
+  return SYNC_SCHEDULES[plan] || SYNC_SCHEDULES.free;
+}
+
+// ===========================================
+// TYPES
+// ===========================================
+
+export const SYNC_RESOURCES = ['folders', 'emails', 'contacts', 'calendar'] as const;
+export type SyncResource = typeof SYNC_RESOURCES[number];
+export type SyncTrigger = 'schedule' | 'manual' | 'initial';
+
+export interface SyncRunStats {
+  resource: SyncResource;
+  mode: SyncMode;
+  fallbackReason?: string;
+  added: number;
+  updated: number;
+  removed: number;
+  total: number;
+  durationMs: number;
+}
+
+// Folders have no cursor; the provider lists them in one call
+const CURSOR_COLUMNS = {
+  emails: 'emailCursor',
+  contacts: 'contactsCursor',
+  calendar: 'calendarCursor',
+} as const;
+
+const CURSOR_SYNCS = {
+  emails: syncEmails,
+  contacts: syncContacts,
+  calendar: syncCalendarChanges,
+};
+
+// How a run that resumes from its cursor is recorded; contacts have no
+// provider change feed, so theirs still list everything
+const RESUMED_MODES: Record<keyof typeof CURSOR_COLUMNS, SyncMode> = {
+  emails: 'incremental',
+  contacts: 'compare',
+  calendar: 'incremental',
+};
+
+const ACTIVITY_ACTIONS: Record<SyncResource, string> = {
+  folders: 'folder_sync',
+  emails: 'email_sync',
+  contacts: 'contact_sync',
+  calendar: 'calendar_sync',
+};
+
+/**
+ * The cursor to resume from, or why this run has to be a full resync
+ */
+function resumeFrom(raw: string | null | undefined, schedule: SyncSchedule): { cursor?: SyncCursor; fallbackReason?: string } {
+  if (!raw) return { fallbackReason: 'No cursor yet' };
+
+  try {
+    const cursor = decodeSyncCursor(raw);
+    if (Date.now() - cursor.fullAt > schedule.fullResyncHours * 60 * 60 * 1000) {
+      return { fallbackReason: `Last full resync was over ${schedule.fullResyncHours}h ago` };
+    }
+    return { cursor };
+  } catch (error) {
+    return { fallbackReason: error instanceof Error ? error.message : 'Cursor is not usable' };
+  }
+}
+
+// ===========================================
+// RUN
+// ===========================================
+
+/**
+ * Sync one resource for a tenant and record a SyncRun
+ * Resumes from the stored cursor unless `full` is set; throws after recording a failed run
+ */
+export async function runSync(
+  tenantId: string,
+  resource: SyncResource,
+  options: { full?: boolean; trigger: SyncTrigger }
+): Promise<SyncRunStats> {
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { plan: true, syncState: true },
+  });
+  if (!tenant) {
+    throw new Error('Tenant not found');
+  }
+
+  const startedAt = new Date();
+  let mode: SyncMode = 'full';
+  let fallbackReason: string | undefined;
+
+  try {
+    let result: { added: number; updated: number; removed: number; total: number };
+    const stateUpdate: { lastSyncAt: Date; emailCursor?: string; contactsCursor?: string; calendarCursor?: string } = { lastSyncAt: new Date() };
+
+    if (resource === 'folders') {
+      const folders = await syncFolders(tenantId);
+      result = {
+        added: folders.added.length,
+        updated: folders.updated.length,
+        removed: folders.removed.length,
+        total: folders.folders.length,
+      };
+    } else {
+      const column = CURSOR_COLUMNS[resource];
+      const sync = CURSOR_SYNCS[resource];
+
+      let cursor: SyncCursor | undefined;
+      if (!options.full) {
+        ({ cursor, fallbackReason } = resumeFrom(tenant.syncState?.[column], getSyncSchedule(tenant.plan)));
+      }
+      mode = cursor ? RESUMED_MODES[resource] : 'full';
+
+      let synced;
+      try {
+        synced = await sync(tenantId, { cursor });
+      } catch (error) {
+        if (!(error instanceof SyncCursorError)) throw error;
+        fallbackReason = error.message;
+        synced = await sync(tenantId);
+      }
+
+      mode = synced.mode;
+      result = synced;
+      stateUpdate[column] = synced.cursor;
+    }
+
+    const stats: SyncRunStats = {
+      resource,
+      mode,
+      ...(mode === 'full' && fallbackReason ? { fallbackReason } : {}),
+      added: result.added,
+      updated: result.updated,
+      removed: result.removed,
+      total: result.total,
+      durationMs: Date.now() - startedAt.getTime(),
+    };
+
+    await db.syncState.upsert({
+      where: { tenantId },
+      update: stateUpdate,
+      create: { tenantId, ...stateUpdate },
+    });
+    await recordSyncRun(tenantId, stats, { trigger: options.trigger, startedAt, status: 'success' });
+
+    if (options.trigger === 'initial') {
+      await db.activityLog.create({
+        data: {
+          tenantId,
+          action: ACTIVITY_ACTIONS[resource],
+          status: 'success',
+          input: { added: stats.added, removed: stats.removed, updated: stats.updated, total: stats.total },
+        },
+      });
+    }
+
+    return stats;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await recordSyncRun(
+      tenantId,
+      { resource, mode, fallbackReason, added: 0, updated: 0, removed: 0, total: 0, durationMs: Date.now() - startedAt.getTime() },
+      { trigger: options.trigger, startedAt, status: 'error', error: message }
+    ).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Whether contacts were synced within the plan's contacts interval
+ * Contact webhooks keep the cache current in between
+ */
+async function contactsSyncedRecently(tenantId: string, schedule: SyncSchedule): Promise<boolean> {
+  const last = await db.syncRun.findFirst({
+    where: { tenantId, resource: 'contacts', status: 'success' },
+    orderBy: { startedAt: 'desc' },
+    select: { startedAt: true },
+  });
+  return !!last && Date.now() - last.startedAt.getTime() < schedule.contactsIntervalMinutes * 60 * 1000;
+}
+
+/**
+ * Scheduled run: every resource that's due, even when one of them fails
+ */
+export async function runScheduledSync(tenantId: string): Promise<{ runs: SyncRunStats[]; errors: string[] }> {
+  const runs: SyncRunStats[] = [];
+  const errors: string[] = [];
+
+  // Folders, contacts and calendar are cached from the Nylas grant only
+  const tenant = await db.tenant.findUnique({ where: { id: tenantId }, select: { plan: true, nylasGrantId: true } });
+  let resources: readonly SyncResource[] = tenant?.nylasGrantId ? SYNC_RESOURCES : ['emails'];
+  if (tenant && resources.includes('contacts') && await contactsSyncedRecently(tenantId, getSyncSchedule(tenant.plan))) {
+    resources = resources.filter(resource => resource !== 'contacts');
+  }
+
+  for (const resource of resources) {
+    try {
+      runs.push(await runSync(tenantId, resource, { trigger: 'schedule' }));
+    } catch (error) {
+      errors.push(`${resource}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Every resource failing usually means the connection is broken; let the job retry
+  if (runs.length === 0) {
+    throw new Error(`Scheduled sync failed (${errors.join('; ')})`);
+  }
+  return { runs, errors };
+}
+
+async function recordSyncRun(
+  tenantId: string,
+  stats: SyncRunStats,
+  run: { trigger: SyncTrigger; startedAt: Date; status: 'success' | 'error'; error?: string }
+): Promise<void> {
+  await db.syncRun.create({
+    data: {
+      tenantId,
+      resource: stats.resource,
+      mode: stats.mode,
+      trigger: run.trigger,
+      fallbackReason: stats.fallbackReason,
+      status: run.status,
+      added: stats.added,
+      updated: stats.updated,
+      removed: stats.removed,
+      total: stats.total,
+      error: run.error,
+      durationMs: stats.durationMs,
+      startedAt: run.startedAt,
+    },
+  });
+}
+
+// ===========================================
+// SCHEDULE
+// ===========================================
+
+/**
+ * Claim tenants whose next scheduled sync is due and push their
+ * nextSyncAt out by the plan's interval
+ * Matching on the old nextSyncAt keeps two servers from claiming the same tenant
+ */
+export async function claimDueSyncs(): Promise<string[]> {
+  const now = new Date();
+  const due = await db.syncState.findMany({
+    where: {
+      OR: [{ nextSyncAt: null }, { nextSyncAt: { lte: now } }],
+      tenant: {
+        isActive: true,
+        OR: [{ nylasGrantId: { not: null } }, { accounts: { some: { isActive: true } } }],
+      },
+    },
+    select: { id: true, tenantId: true, nextSyncAt: true, tenant: { select: { plan: true } } },
+    orderBy: { nextSyncAt: { sort: 'asc', nulls: 'first' } },
+    take: SCHEDULE_BATCH,
+  });
+
+  const claimed: string[] = [];
+  for (const state of due) {
+    const { intervalMinutes } = getSyncSchedule(state.tenant.plan);
+    const result = await db.syncState.updateMany({
+      where: { id: state.id, nextSyncAt: state.nextSyncAt },
+      data: { nextSyncAt: new Date(now.getTime() + intervalMinutes * 60 * 1000) },
+    });
+    if (result.count === 1) claimed.push(state.tenantId);
+  }
+
+  return claimed;
+}
+
+export async function pruneSyncRuns(): Promise<number> {
+  const { count } = await db.syncRun.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - SYNC_RUN_RETENTION_MS) } },
+  });
+  return count;
+}
+
+// ===========================================
+// CACHE FRESHNESS
+// ===========================================
+
+/**
+ * Whether the message cache for this mailbox was synced recently enough
+ * to answer email tools (within two of the plan's sync intervals)
+ */
+export async function isEmailCacheFresh(tenantId: string, mailboxId: string): Promise<boolean> {
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { plan: true, syncState: { select: { emailCursor: true } } },
+  });
+  if (!tenant?.syncState?.emailCursor) return false;
+
+  try {
+    const cursor = decodeSyncCursor(tenant.syncState.emailCursor);
+    const maxAgeMs = 2 * getSyncSchedule(tenant.plan).intervalMinutes * 60 * 1000;
+    return cursor.grantId === mailboxId && !!cursor.updatedAfter && Date.now() - cursor.updatedAfter * 1000 <= maxAgeMs;
+  } catch {
+    return false;
+  }
+}
+
+// ===========================================
+// STATUS
+// ===========================================
+
+export async function getSyncStatus(tenantId: string, options: { limit?: number } = {}) {
+  const [tenant, runs] = await Promise.all([
+    db.tenant.findUnique({
+      where: { id: tenantId },
+      select: { plan: true, syncState: true },
+    }),
+    db.syncRun.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit || 20, 100),
+    }),
+  ]);
+
+  if (!tenant) {
+    throw new Error('Tenant not found');
+  }
+
+  const state = tenant.syncState;
+  const lastFullSync = (raw: string | null | undefined) => {
+    if (!raw) return null;
+    try {
+      return new Date(decodeSyncCursor(raw).fullAt);
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    schedule: getSyncSchedule(tenant.plan),
+    isSyncing: state?.isSyncing ?? false,
+    lastSyncAt: state?.lastSyncAt ?? null,
+    nextSyncAt: state?.nextSyncAt ?? null,
+    lastFullSyncAt: {
+      emails: lastFullSync(state?.emailCursor),
+      contacts: lastFullSync(state?.contactsCursor),
+      calendar: lastFullSync(state?.calendarCursor),
+    },
+    runs: runs.map(run => ({
+      id: run.id,
+      resource: run.resource,
+      mode: run.mode,
+      trigger: run.trigger,
+      fallbackReason: run.fallbackReason,
+      status: run.status,
+      added: run.added,
+      updated: run.updated,
+      removed: run.removed,
+      total: run.total,
+      error: run.error,
+      durationMs: run.durationMs,
+      startedAt: run.startedAt,
+    })),
+  };
+}
@@ -0,0 +1,163 @@
+// ===========================================
+// SECRET ROTATION
+// Re-encrypt stored secrets with the active key. Rows are rewritten
+// one at a time with a compare-and-swap, so it runs while the server
+// keeps reading and refreshing them (both keys stay in the keyring)
+// ===========================================
+
+import { db } from './db.js';
+import {
+  ciphertextKeyId,
+  decrypt,
+  decryptToken,
+  encrypt,
+  encryptToken,
+  getEncryptionStatus,
+  tokenKeyId,
+} from './encryption.js';
+
+const BATCH_SIZE = 200;
+const MAX_REPORTED_FAILURES = 20;
+const PLAINTEXT = 'plaintext';
+
+// "token" columns may still hold plaintext; "secret" columns are always encrypted
+type SecretKind = 'token' | 'secret';
+
+// What rotation needs from a secret table's delegate
+interface SecretDelegate {
+  findMany(args: {
+    where?: { id: { gt: string } };
+    orderBy: { id: 'asc' };
+    take: number;
+    select: Record<string, true>;
+  }): Promise<Record<string, string | null>[]>;
+  updateMany(args: { where: Record<string, string>; data: Record<string, string> }): Promise<{ count: number }>;
+}
+
+// Looked up per call so the delegates are always the client's current ones
+const SECRET_TABLES = {
+  connection: () => db.connection,
+  integrationCredential: () => db.integrationCredential,
+  integrationConfig: () => db.integrationConfig,
+  webhookEndpoint: () => db.webhookEndpoint,
+};
+
+type SecretTable = keyof typeof SECRET_TABLES;
+
+function secretDelegate(table: SecretTable): SecretDelegate {
+  // Prisma delegates share no common type, but every secret table fits this shape
+  return SECRET_TABLES[table]() as unknown as SecretDelegate;
+}
+
+const SECRET_COLUMNS: { table: SecretTable; fields: Record<string, SecretKind> }[] = [
+  { table: 'connection', fields: { credentialsEncrypted: 'secret', accessToken: 'token', refreshToken: 'token' } },
+  { table: 'integrationCredential', fields: { accessToken: 'token', refreshToken: 'token' } },
+  { table: 'integrationConfig', fields: { credentialsEncrypted: 'secret' } },
+  { table: 'webhookEndpoint', fields: { secretEncrypted: 'secret' } },
+];
+
+export interface ReencryptResult {
+  activeKeyId: string;
+  scanned: number;
+  reencrypted: number;
+  skipped: number; // Changed by someone else mid-rotation (and so already on the active key)
+  failed: number;
+  failures: { table: string; id: string; field: string; error: string }[];
+}
+
+function keyIdOf(kind: SecretKind, value: string): string {
+  return kind === 'token' ? tokenKeyId(value) ?? PLAINTEXT : ciphertextKeyId(value);
+}
+
+/**
+ * Walk a table in ID order, a batch at a time
+ */
+async function* scanTable(table: SecretTable, fields: string[]) {
+  const delegate = secretDelegate(table);
+  let lastId: string | undefined;
+
+  for (;;) {
+    const rows = await delegate.findMany({
+      where: lastId ? { id: { gt: lastId } } : undefined,
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      select: { id: true, ...Object.fromEntries(fields.map(f => [f, true])) },
+    });
+    if (rows.length === 0) return;
+
+    yield rows;
+    lastId = rows[rows.length - 1].id!;
+  }
+}
+
+/**
+ * Rewrite every secret not on the active key (plaintext tokens included)
+ */
+export async function reencryptSecrets(): Promise<ReencryptResult> {
+  const { activeKeyId } = getEncryptionStatus();
+  const result: ReencryptResult = { activeKeyId, scanned: 0, reencrypted: 0, skipped: 0, failed: 0, failures: [] };
+
+  for (const { table, fields } of SECRET_COLUMNS) {
+    const delegate = secretDelegate(table);
+
+    for await (const rows of scanTable(table, Object.keys(fields))) {
+      for (const row of rows) {
+        for (const [field, kind] of Object.entries(fields)) {
+          const value = row[field];
+          if (!value) continue;
+
+          result.scanned++;
+          if (keyIdOf(kind, value) === activeKeyId) continue;
+
+          try {
+            const rewritten = kind === 'token' ? encryptToken(decryptToken(value)) : encrypt(decrypt(value));
+
+            // Only if nobody rewrote it since it was read
+            const { count } = await delegate.updateMany({
+              where: { id: row.id!, [field]: value },
+              data: { [field]: rewritten },
+            });
+            if (count > 0) result.reencrypted++;
+            else result.skipped++;
+          } catch (error) {
+            result.failed++;
+            if (result.failures.length < MAX_REPORTED_FAILURES) {
+              result.failures.push({
+                table,
+                id: row.id!,
+                field,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * How many stored secrets each key (or plaintext) covers, per column
+ */
+export async function summarizeSecretKeys(): Promise<Record<string, Record<string, number>>> {
+  const summary: Record<string, Record<string, number>> = {};
+
+  for (const { table, fields } of SECRET_COLUMNS) {
+    for await (const rows of scanTable(table, Object.keys(fields))) {
+      for (const row of rows) {
+        for (const [field, kind] of Object.entries(fields)) {
+          const value = row[field];
+          if (!value) continue;
+
+          const counts = (summary[`${table}.${field}`] ??= {});
+          const keyId = keyIdOf(kind, value);
+          counts[keyId] = (counts[keyId] || 0) + 1;
+        }
+      }
+    }
+  }
+
+  return summary;
+}
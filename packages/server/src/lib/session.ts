@@ -0,0 +1,184 @@
+// ===========================================
+// DASHBOARD SESSIONS
+// Server-side sessions for dashboard users, identified by
+// a random token in an httpOnly cookie. Each session acts
+// within one of the user's tenants at a time.
+// ===========================================
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { db } from './db.js';
+
+export const SESSION_COOKIE = 'bm_session';
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;        // Don't write lastSeenAt on every request
+
+export interface DashboardSession {
+  sessionId: string;
+  userId: string;
+  tenantId: string;
+  tenantSlug: string;
+  tenantPlan: string;
+  tenantRateLimitPerMinute: number | null;
+  role: string;
+  expiresAt: Date;
+}
+
+// Only the hash is stored, so a database leak doesn't leak live sessions
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// ===========================================
+// SESSIONS
+// ===========================================
+
+/**
+ * Start a session for a user in one of their tenants; returns the token for the cookie
+ */
+export async function createSession(userId: string, tenantId: string, req: Request): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await db.userSession.create({
+    data: {
+      userId,
+      tenantId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+      ipAddress: req.ip || null,
+      userAgent: req.headers['user-agent']?.slice(0, 500) || null,
+    },
+  });
+
+  return token;
+}
+
+export async function getSession(req: Request): Promise<DashboardSession | null> {
+  const token = parseCookies(req.headers.cookie)[SESSION_COOKIE];
+  if (!token) return null;
+
+  const session = await db.userSession.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      tenant: { select: { id: true, slug: true, plan: true, rateLimitPerMinute: true, isActive: true } },
+    },
+  });
+
+  if (!session || session.expiresAt < new Date() || !session.tenant.isActive) {
+    return null;
+  }
+
+  // Removed from the team since signing in
+  const membership = await db.membership.findUnique({
+    where: { userId_tenantId: { userId: session.userId, tenantId: session.tenantId } },
+    select: { role: true },
+  });
+  if (!membership) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    db.userSession.update({
+      where: { id: session.id },
+      data: { lastSeenAt: new Date() },
+    }).catch(() => {});
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    tenantId: session.tenant.id,
+    tenantSlug: session.tenant.slug,
+    tenantPlan: session.tenant.plan,
+    tenantRateLimitPerMinute: session.tenant.rateLimitPerMinute,
+    role: membership.role,
+    expiresAt: session.expiresAt,
+  };
+}
+
+/**
+ * Point an existing session at another tenant; the caller checks membership
+ */
+export async function switchSessionTenant(sessionId: string, tenantId: string): Promise<void> {
+  await db.userSession.update({
+    where: { id: sessionId },
+    data: { tenantId },
+  });
+}
+
+export async function destroySession(sessionId: string): Promise<void> {
+  await db.userSession.deleteMany({ where: { id: sessionId } });
+}
+
+/**
+ * Sign a user out everywhere (after a password reset), optionally keeping one session
+ */
+export async function destroyUserSessions(userId: string, exceptSessionId?: string): Promise<void> {
+  await db.userSession.deleteMany({
+    where: { userId, ...(exceptSessionId && { id: { not: exceptSessionId } }) },
+  });
+}
+
+export async function cleanupExpiredSessions(): Promise<number> {
+  const result = await db.userSession.deleteMany({
+    where: { expiresAt: { lt: new Date() } },
+  });
+  return result.count;
+}
+
+export function startSessionCleanup(): void {
+  const timer = setInterval(() => {
+    cleanupExpiredSessions().catch((error) => {
+      console.error('Session cleanup error:', error);
+    });
+  }, 60 * 60 * 1000);
+  timer.unref();
+}
+
+// ===========================================
+// COOKIES
+// ===========================================
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    // A malformed value (e.g. a stray %) is skipped rather than failing the request
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      continue;
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Whether the request carries a session cookie at all (valid or not)
+ */
+export function hasSessionCookie(req: Request): boolean {
+  return SESSION_COOKIE in parseCookies(req.headers.cookie);
+}
+
+function cookieOptions() {
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  return {
+    httpOnly: true,
+    secure: isProduction,
+    // Dashboard and API live on different sites in production; cross-site
+    // writes are refused by requireTrustedOrigin() instead
+    sameSite: isProduction ? 'none' as const : 'lax' as const,
+    path: '/',
+  };
+}
+
+export function setSessionCookie(res: Response, token: string): void {
+  res.cookie(SESSION_COOKIE, token, { ...cookieOptions(), maxAge: SESSION_TTL_MS });
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, cookieOptions());
+}
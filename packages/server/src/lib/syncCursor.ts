@@ -0,0 +1,69 @@
+// ===========================================
+// SYNC CURSORS
+// What SyncState's cursor columns hold between incremental syncs
+// ===========================================
+
+import crypto from 'crypto';
+
+const CURSOR_VERSION = 1;
+
+// 'compare': listed in full and compared with the last listing, for
+// providers with no change feed (contacts)
+export type SyncMode = 'incremental' | 'compare' | 'full';
+
+export interface SyncCursor {
+  v: number;
+  fullAt: number;        // Unix ms of the last full resync
+  updatedAfter?: number; // Calendar and emails: unix seconds the last sync started at
+  digest?: string;       // Contacts: hash of the provider listing last applied
+  grantId?: string;      // Emails: mailbox the cache was filled from
+  changes?: string;      // Emails: the mail provider's own change cursor
+}
+
+/**
+ * The stored cursor can't be used (unreadable, outdated or rejected by the provider)
+ * Callers fall back to a full resync
+ */
+export class SyncCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncCursorError';
+  }
+}
+
+export function encodeSyncCursor(cursor: Omit<SyncCursor, 'v'>): string {
+  return JSON.stringify({ v: CURSOR_VERSION, ...cursor });
+}
+
+export function decodeSyncCursor(raw: string): SyncCursor {
+  let cursor: SyncCursor;
+  try {
+    cursor = JSON.parse(raw);
+  } catch {
+    throw new SyncCursorError('Cursor is not readable');
+  }
+
+  if (cursor?.v !== CURSOR_VERSION || typeof cursor.fullAt !== 'number') {
+    throw new SyncCursorError('Cursor was written by an older sync');
+  }
+  return cursor;
+}
+
+/**
+ * Hash of a value that doesn't depend on object key order
+ * (jsonb columns don't keep the order the provider sent)
+ */
+export function fingerprint(value: unknown): string {
+  const stable = (v: unknown): unknown => {
+    if (v instanceof Date) return v.toISOString();
+    if (Array.isArray(v)) return v.map(stable);
+    if (v && typeof v === 'object') {
+      return Object.keys(v)
+        .sort()
+        .filter(key => (v as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, stable((v as Record<string, unknown>)[key])]);
+    }
+    return v ?? null;
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(stable(value))).digest('hex');
+}
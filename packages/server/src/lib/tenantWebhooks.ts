@@ -0,0 +1,290 @@
+// ===========================================
+// OUTBOUND TENANT WEBHOOKS
+// Normalized events delivered to tenant endpoints with
+// HMAC signatures, exponential backoff and a dead-letter state
+// ===========================================
+
+import crypto from 'crypto';
+import { WebhookDelivery } from '@prisma/client';
+import { db } from './db.js';
+import { encrypt, decrypt } from './encryption.js';
+import { postOutbound } from './outboundUrl.js';
+
+// ===========================================
+// EVENT TYPES
+// ===========================================
+
+export const TENANT_EVENT_TYPES = {
+  'email.received': 'A new email arrived',
+  'folder.created': 'An email folder was created',
+  'folder.updated': 'An email folder was renamed or its counts changed',
+  'folder.deleted': 'An email folder was deleted',
+  'contact.created': 'A contact was created',
+  'contact.updated': 'A contact was updated',
+  'contact.deleted': 'A contact was deleted',
+  'calendar.event.created': 'A calendar event was created',
+  'calendar.event.updated': 'A calendar event was updated',
+  'calendar.event.deleted': 'A calendar event was deleted',
+  'booking.created': 'A booking was created (Cal.com)',
+  'booking.cancelled': 'A booking was cancelled (Cal.com)',
+  'call.ended': 'A call ended (Vapi, Dialpad)',
+  'connection.expired': 'A connection\'s credentials expired and need reconnecting',
+  'connection.unhealthy': 'A connection failed its health check',
+  'billing.payment_failed': 'An invoice payment failed and the plan was downgraded',
+  'webhook.test': 'Test event sent from the dashboard',
+} as const;
+
+export type TenantEventType = keyof typeof TENANT_EVENT_TYPES;
+
+export interface TenantEvent {
+  type: TenantEventType;
+  data: Record<string, unknown>;
+}
+
+// ===========================================
+// DELIVERY SETTINGS
+// ===========================================
+
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 30 * 1000;      // 30s, 1m, 2m, 4m ... capped below
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const CLAIM_LEASE_MS = 5 * 60 * 1000;   // A crashed worker's claim expires after this
+const WORKER_INTERVAL_MS = 10 * 1000;
+const WORKER_BATCH_SIZE = 20;
+const RESPONSE_BODY_LIMIT = 2000;
+
+export const SIGNATURE_HEADER = 'X-BotMakers-Signature';
+
+// ===========================================
+// SECRETS & SIGNING
+// ===========================================
+
+export function generateEndpointSecret(): { secret: string; secretEncrypted: string } {
+  const secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  return { secret, secretEncrypted: encrypt(secret) };
+}
+
+/**
+ * t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">
+ * Receivers should recompute v1 and reject stale timestamps
+ */
+export function signPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// ===========================================
+// EMIT
+// ===========================================
+
+function endpointWantsEvent(eventTypes: string[], type: string): boolean {
+  return eventTypes.length === 0 || eventTypes.includes(type);
+}
+
+/**
+ * Queue events for every active endpoint of the tenant that subscribes to them
+ * Never throws: emitting is a side effect of syncs and must not fail them
+ */
+export async function emitTenantEvents(tenantId: string, events: TenantEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { tenantId, isActive: true },
+      select: { id: true, eventTypes: true },
+    });
+    if (endpoints.length === 0) return;
+
+    const createdAt = new Date().toISOString();
+    const rows = events.flatMap((event) => {
+      const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+      const payload = { id: eventId, type: event.type, tenantId, createdAt, data: event.data };
+
+      return endpoints
+        .filter(endpoint => endpointWantsEvent(endpoint.eventTypes, event.type))
+        .map(endpoint => ({
+          endpointId: endpoint.id,
+          tenantId,
+          eventId,
+          eventType: event.type,
+          payload: JSON.parse(JSON.stringify(payload)),
+        }));
+    });
+    if (rows.length === 0) return;
+
+    await db.webhookDelivery.createMany({ data: rows });
+
+    // Deliver right away instead of waiting for the next worker tick
+    processDueDeliveries().catch(() => {});
+  } catch (error) {
+    console.error('Failed to emit tenant events:', error);
+  }
+}
+
+export function emitTenantEvent(tenantId: string, type: TenantEventType, data: Record<string, unknown>): void {
+  emitTenantEvents(tenantId, [{ type, data }]).catch(() => {});
+}
+
+/**
+ * Queue a webhook.test event for one endpoint, regardless of its filters
+ */
+export async function sendTestEvent(endpointId: string, tenantId: string): Promise<WebhookDelivery> {
+  const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+  const payload = {
+    id: eventId,
+    type: 'webhook.test',
+    tenantId,
+    createdAt: new Date().toISOString(),
+    data: { message: 'This is a test event' },
+  };
+
+  const delivery = await db.webhookDelivery.create({
+    data: { endpointId, tenantId, eventId, eventType: 'webhook.test', payload },
+  });
+
+  processDueDeliveries().catch(() => {});
+  return delivery;
+}
+
+// ===========================================
+// DELIVER
+// ===========================================
+
+function getBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Claim a delivery so only one worker sends it
+ * The claim pushes nextAttemptAt out by a lease, so a crash mid-send just delays the retry
+ */
+async function claimDelivery(delivery: WebhookDelivery): Promise<boolean> {
+  const claimed = await db.webhookDelivery.updateMany({
+    where: { id: delivery.id, attempts: delivery.attempts, status: 'pending' },
+    data: {
+      attempts: { increment: 1 },
+      lastAttemptAt: new Date(),
+      nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS),
+    },
+  });
+  return claimed.count === 1;
+}
+
+async function sendDelivery(delivery: WebhookDelivery): Promise<void> {
+  const endpoint = await db.webhookEndpoint.findUnique({ where: { id: delivery.endpointId } });
+  const attempts = delivery.attempts + 1;
+
+  if (!endpoint || !endpoint.isActive) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'dead', nextAttemptAt: null, error: 'Endpoint deleted or disabled' },
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await postOutbound(endpoint.url, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'BotMakers-Webhooks/1.0',
+      [SIGNATURE_HEADER]: signPayload(decrypt(endpoint.secretEncrypted), body),
+      'X-BotMakers-Event': delivery.eventType,
+      'X-BotMakers-Delivery': delivery.id,
+    }, body, { timeoutMs: DELIVERY_TIMEOUT_MS, bodyLimit: RESPONSE_BODY_LIMIT });
+
+    responseStatus = response.status;
+    responseBody = response.body;
+    // Redirects aren't followed, so a 3xx is a failure too
+    if (response.status < 200 || response.status >= 300) {
+      error = `Endpoint responded with ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Delivery failed';
+  }
+
+  if (!error) {
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'succeeded',
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        error: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  const dead = attempts >= MAX_ATTEMPTS;
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: dead ? 'dead' : 'pending',
+      nextAttemptAt: dead ? null : new Date(Date.now() + getBackoffMs(attempts)),
+      responseStatus,
+      responseBody,
+      error,
+    },
+  });
+}
+
+let processing = false;
+
+/**
+ * Send every pending delivery that's due
+ */
+export async function processDueDeliveries(): Promise<number> {
+  // One pass at a time per process; other replicas are kept out by claimDelivery
+  if (processing) return 0;
+  processing = true;
+
+  let sent = 0;
+  try {
+    const due = await db.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: WORKER_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      if (!(await claimDelivery(delivery))) continue;
+      await sendDelivery(delivery);
+      sent++;
+    }
+  } finally {
+    processing = false;
+  }
+
+  return sent;
+}
+
+/**
+ * Put a delivery (usually a dead one) back in the queue
+ */
+export async function redeliver(deliveryId: string, tenantId: string): Promise<boolean> {
+  const result = await db.webhookDelivery.updateMany({
+    where: { id: deliveryId, tenantId, status: { in: ['dead', 'succeeded'] } },
+    data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), error: null },
+  });
+
+  if (result.count === 1) {
+    processDueDeliveries().catch(() => {});
+  }
+  return result.count === 1;
+}
+
+export function startWebhookDeliveryWorker(): void {
+  const timer = setInterval(() => {
+    processDueDeliveries().catch((error) => {
+      console.error('Webhook delivery worker error:', error);
+    });
+  }, WORKER_INTERVAL_MS);
+  timer.unref();
+}
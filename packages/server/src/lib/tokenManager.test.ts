@@ -0,0 +1,198 @@
+// ===========================================
+// TOKEN MANAGER TESTS
+// Refreshes of the same row from two server instances are serialized by
+// the lease, and the save never overwrites a row that changed meanwhile
+// ===========================================
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import type { Integration, IntegrationCredentials } from '../integrations/types.js';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+process.env.ENCRYPTION_KEY ??= 'token-manager-test-key';
+
+const { db } = await import('./db.js');
+const { encryptToken, decryptToken } = await import('./encryption.js');
+const { ensureFreshToken, TokenRefreshError } = await import('./tokenManager.js');
+
+// A second copy of the module stands in for another server instance: it
+// shares the database but not the in-process map of in-flight refreshes
+const otherInstancePath = './tokenManager.js?instance=2';
+const otherInstance: typeof import('./tokenManager.js') = await import(otherInstancePath);
+
+// ===========================================
+// DATABASE STAND-IN
+// ===========================================
+
+interface Lease { key: string; holder: string; expiresAt: Date }
+interface ConnectionRow {
+  id: string;
+  tenantId: string;
+  integrationId: string;
+  name: string;
+  status: string;
+  lastError: string | null;
+  accessToken: string | null;
+  refreshToken: string | null;
+  tokenExpiresAt: Date | null;
+}
+
+const leases = new Map<string, Lease>();
+let connection: ConnectionRow;
+
+Object.defineProperty(db, 'tokenRefreshLease', {
+  value: {
+    create: async ({ data }: { data: Lease }) => {
+      if (leases.has(data.key)) {
+        throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' });
+      }
+      leases.set(data.key, { ...data });
+      return data;
+    },
+    updateMany: async ({ where, data }: { where: { key: string; expiresAt: { lt: Date } }; data: Omit<Lease, 'key'> }) => {
+      const lease = leases.get(where.key);
+      if (!lease || lease.expiresAt >= where.expiresAt.lt) return { count: 0 };
+      Object.assign(lease, data);
+      return { count: 1 };
+    },
+    deleteMany: async ({ where }: { where: { key: string; holder: string } }) => {
+      if (leases.get(where.key)?.holder !== where.holder) return { count: 0 };
+      leases.delete(where.key);
+      return { count: 1 };
+    },
+  },
+  configurable: true,
+});
+
+Object.defineProperty(db, 'connection', {
+  value: {
+    findUnique: async () => ({ ...connection }),
+    updateMany: async ({ where, data }: { where: { id: string; refreshToken: string | null }; data: Partial<ConnectionRow> }) => {
+      if (connection.id !== where.id || connection.refreshToken !== where.refreshToken) return { count: 0 };
+      Object.assign(connection, data);
+      return { count: 1 };
+    },
+    update: async ({ data }: { data: Partial<ConnectionRow> }) => Object.assign(connection, data),
+  },
+  configurable: true,
+});
+
+// connection.expired events find no endpoints to deliver to
+Object.defineProperty(db, 'webhookEndpoint', {
+  value: { findMany: async () => [] },
+  configurable: true,
+});
+
+const owner = { type: 'connection' as const, id: 'conn_1' };
+const expiringSoon = () => new Date(Date.now() + 60 * 1000);
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+beforeEach(() => {
+  leases.clear();
+  connection = {
+    id: 'conn_1',
+    tenantId: 'tenant_a',
+    integrationId: 'test',
+    name: 'Test',
+    status: 'active',
+    lastError: null,
+    accessToken: encryptToken('access_0'),
+    refreshToken: encryptToken('refresh_0'),
+    tokenExpiresAt: expiringSoon(),
+  };
+});
+
+// A provider that rotates the refresh token on every call, and refuses a
+// refresh token it has already spent
+function rotatingProvider(options: { delayMs?: number; onRefresh?: () => void } = {}) {
+  const spent = new Set<string>();
+  let calls = 0;
+
+  const integration = {
+    config: { name: 'Test' },
+    refreshToken: async (credentials: IntegrationCredentials) => {
+      calls++;
+      options.onRefresh?.();
+      await new Promise(resolve => setTimeout(resolve, options.delayMs ?? 0));
+      if (spent.has(credentials.refreshToken!)) throw new Error('invalid_grant');
+      spent.add(credentials.refreshToken!);
+      return { accessToken: `access_${calls}`, refreshToken: `refresh_${calls}`, expiresAt: inAnHour() };
+    },
+  } as unknown as Integration;
+
+  return { integration, calls: () => calls };
+}
+
+const storedCredentials = (): IntegrationCredentials => ({
+  integrationId: 'test',
+  tenantId: 'tenant_a',
+  accessToken: 'access_0',
+  refreshToken: 'refresh_0',
+  expiresAt: connection.tokenExpiresAt!,
+});
+
+// ===========================================
+// SERIALIZATION
+// ===========================================
+
+test('two instances refreshing the same row call the provider once', async () => {
+  const provider = rotatingProvider({ delayMs: 50 });
+
+  const [a, b] = await Promise.all([
+    ensureFreshToken(provider.integration, owner, storedCredentials()),
+    otherInstance.ensureFreshToken(provider.integration, owner, storedCredentials()),
+  ]);
+
+  assert.equal(provider.calls(), 1);
+  assert.equal(a.refreshToken, 'refresh_1');
+  assert.equal(b.refreshToken, 'refresh_1');
+  assert.equal(decryptToken(connection.refreshToken!), 'refresh_1');
+  assert.equal(connection.status, 'active');
+  assert.equal(leases.size, 0);
+});
+
+test('a lapsed lease from a crashed instance is taken over', async () => {
+  leases.set('connection:conn_1', { key: 'connection:conn_1', holder: 'crashed', expiresAt: new Date(Date.now() - 1000) });
+  const provider = rotatingProvider();
+
+  const fresh = await ensureFreshToken(provider.integration, owner, storedCredentials());
+
+  assert.equal(provider.calls(), 1);
+  assert.equal(fresh.accessToken, 'access_1');
+  assert.equal(leases.size, 0);
+});
+
+// ===========================================
+// COMPARE-AND-SET
+// ===========================================
+
+test('a row reconnected during the refresh keeps its new tokens', async () => {
+  const provider = rotatingProvider({
+    onRefresh: () => {
+      connection.accessToken = encryptToken('access_reconnected');
+      connection.refreshToken = encryptToken('refresh_reconnected');
+      connection.tokenExpiresAt = inAnHour();
+    },
+  });
+
+  const fresh = await ensureFreshToken(provider.integration, owner, storedCredentials());
+
+  assert.equal(fresh.accessToken, 'access_reconnected');
+  assert.equal(decryptToken(connection.refreshToken!), 'refresh_reconnected');
+});
+
+test('a rejected refresh marks the connection expired and releases the lease', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const integration = {
+    config: { name: 'Test' },
+    refreshToken: async () => { throw new Error('invalid_grant'); },
+  } as unknown as Integration;
+
+  await assert.rejects(ensureFreshToken(integration, owner, storedCredentials()), TokenRefreshError);
+
+  assert.equal(connection.status, 'expired');
+  assert.match(connection.lastError!, /invalid_grant/);
+  assert.equal(leases.size, 0);
+});
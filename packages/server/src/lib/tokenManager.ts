@@ -0,0 +1,419 @@
+// ===========================================
+// OAUTH TOKEN MANAGER
+// Refreshes Connection tokens (and unmigrated IntegrationCredential
+// tokens) before they expire, one refresh at a time per row across
+// every server instance
+// ===========================================
+
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { db } from './db.js';
+import { encryptToken, decryptToken } from './encryption.js';
+import { getIntegrationCredentials, toIntegrationCredentials, CredentialResolutionResult } from './integrationCredentials.js';
+import { emitTenantEvent } from './tenantWebhooks.js';
+import { integrationRegistry } from '../integrations/index.js';
+import { Integration, IntegrationCredentials } from '../integrations/types.js';
+
+// Refresh on use when the token expires within this window
+const TOKEN_REFRESH_WINDOW_MS = 5 * 60 * 1000;
+
+// The sweeper looks further ahead so idle connections never lapse
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const SWEEP_WINDOW_MS = 15 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 50;
+
+// How long a refresh lease holds off other instances; a crashed holder's
+// lease is taken over once it lapses
+const REFRESH_LEASE_MS = 60 * 1000;
+const REFRESH_LEASE_POLL_MS = 250;
+
+export interface TokenOwner {
+  type: 'connection' | 'credential';
+  id: string;
+}
+
+export class TokenRefreshError extends Error {
+  constructor(integrationName: string) {
+    super(`${integrationName} session expired. Please reconnect your account.`);
+    this.name = 'TokenRefreshError';
+  }
+}
+
+// One in-flight refresh per row in this process; parallel callers share
+// its result. Other instances are held off by the lease below
+const inFlight = new Map<string, Promise<IntegrationCredentials>>();
+
+function needsRefresh(expiresAt: Date | undefined | null, windowMs: number): boolean {
+  return !!expiresAt && expiresAt.getTime() - Date.now() <= windowMs;
+}
+
+// ===========================================
+// CONNECTION STATUS
+// ===========================================
+
+/**
+ * Persist a failed check and tell the tenant's webhooks, but only when the
+ * connection was active before so repeated checks don't re-send the event
+ */
+export async function recordConnectionFailure(
+  connection: { id: string; tenantId: string; integrationId: string; name: string; status: string },
+  status: 'expired' | 'error',
+  message: string
+): Promise<void> {
+  await db.connection.update({
+    where: { id: connection.id },
+    data: { status, lastError: message },
+  });
+
+  if (connection.status === 'active') {
+    emitTenantEvent(connection.tenantId, status === 'expired' ? 'connection.expired' : 'connection.unhealthy', {
+      connection: {
+        id: connection.id,
+        integrationId: connection.integrationId,
+        name: connection.name,
+      },
+      message,
+    });
+  }
+}
+
+// ===========================================
+// STORED TOKENS
+// ===========================================
+
+interface StoredTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+  storedRefreshToken: string | null; // The column as stored, for the compare-and-set in saveTokens
+}
+
+async function loadTokens(owner: TokenOwner): Promise<StoredTokens | null> {
+  const row = owner.type === 'connection'
+    ? await db.connection.findUnique({
+      where: { id: owner.id },
+      select: { accessToken: true, refreshToken: true, tokenExpiresAt: true },
+    }).then(c => c && { accessToken: c.accessToken, refreshToken: c.refreshToken, expiresAt: c.tokenExpiresAt })
+    : await db.integrationCredential.findUnique({
+      where: { id: owner.id },
+      select: { accessToken: true, refreshToken: true, expiresAt: true },
+    });
+
+  if (!row) return null;
+
+  return {
+    accessToken: row.accessToken ? decryptToken(row.accessToken) : undefined,
+    refreshToken: row.refreshToken ? decryptToken(row.refreshToken) : undefined,
+    expiresAt: row.expiresAt || undefined,
+    storedRefreshToken: row.refreshToken,
+  };
+}
+
+/**
+ * Store refreshed tokens encrypted, only if the row still holds the refresh
+ * token they were refreshed from (false when it was reconnected meanwhile)
+ */
+async function saveTokens(
+  owner: TokenOwner,
+  refreshed: IntegrationCredentials,
+  storedRefreshToken: string | null
+): Promise<boolean> {
+  const accessToken = refreshed.accessToken ? encryptToken(refreshed.accessToken) : undefined;
+  const refreshToken = refreshed.refreshToken ? encryptToken(refreshed.refreshToken) : undefined;
+  const expiresAt = refreshed.expiresAt || null;
+  const where = { id: owner.id, refreshToken: storedRefreshToken };
+
+  const { count } = owner.type === 'connection'
+    ? await db.connection.updateMany({
+      where,
+      data: {
+        accessToken,
+        refreshToken,
+        tokenExpiresAt: expiresAt,
+        status: 'active',
+        lastError: null,
+      },
+    })
+    : await db.integrationCredential.updateMany({
+      where,
+      data: {
+        accessToken,
+        refreshToken,
+        expiresAt,
+      },
+    });
+  return count > 0;
+}
+
+// ===========================================
+// REFRESH LEASES
+// A short-lived row marks a refresh in progress; the provider is called
+// outside any transaction, so a slow provider never holds a connection
+// or gets a saved refresh token rolled back
+// ===========================================
+
+/**
+ * Take the row's lease, or null while another attempt holds it
+ */
+async function acquireLease(key: string): Promise<string | null> {
+  const holder = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + REFRESH_LEASE_MS);
+
+  try {
+    await db.tokenRefreshLease.create({ data: { key, holder, expiresAt } });
+    return holder;
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+  }
+
+  // Held already; only a lapsed lease can be taken over
+  const { count } = await db.tokenRefreshLease.updateMany({
+    where: { key, expiresAt: { lt: new Date() } },
+    data: { holder, expiresAt },
+  });
+  return count > 0 ? holder : null;
+}
+
+async function waitForLease(key: string): Promise<string> {
+  for (;;) {
+    const holder = await acquireLease(key);
+    if (holder) return holder;
+    await new Promise(resolve => setTimeout(resolve, REFRESH_LEASE_POLL_MS));
+  }
+}
+
+async function releaseLease(key: string, holder: string): Promise<void> {
+  await db.tokenRefreshLease.deleteMany({ where: { key, holder } });
+}
+
+async function markRefreshFailed(owner: TokenOwner, integration: Integration, error: unknown): Promise<void> {
+  const message = `Token refresh failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  console.error(`${integration.config.name} token refresh failed (${owner.type} ${owner.id}):`, error);
+
+  if (owner.type !== 'connection') return;
+
+  const connection = await db.connection.findUnique({
+    where: { id: owner.id },
+    select: { id: true, tenantId: true, integrationId: true, name: true, status: true },
+  });
+  if (connection) {
+    await recordConnectionFailure(connection, 'expired', message);
+  }
+}
+
+// ===========================================
+// REFRESH
+// ===========================================
+
+/**
+ * Refresh under the row's lease: reload (another instance may have rotated
+ * the tokens while this one waited), call the provider, then save in a
+ * single compare-and-set write
+ */
+async function refreshOwner(
+  integration: Integration,
+  owner: TokenOwner,
+  credentials: IntegrationCredentials,
+  windowMs: number
+): Promise<IntegrationCredentials> {
+  const key = `${owner.type}:${owner.id}`;
+  const holder = await waitForLease(key);
+
+  try {
+    const stored = await loadTokens(owner);
+    const { storedRefreshToken = null, ...tokens } = stored ?? {};
+    const current: IntegrationCredentials = { ...credentials, ...tokens };
+
+    if (!current.refreshToken || !needsRefresh(current.expiresAt, windowMs)) {
+      return current;
+    }
+
+    let refreshed: IntegrationCredentials;
+    try {
+      refreshed = await integration.refreshToken!(current);
+    } catch (error) {
+      await markRefreshFailed(owner, integration, error).catch(() => {});
+      throw new TokenRefreshError(integration.config.name);
+    }
+
+    const fresh: IntegrationCredentials = {
+      ...current,
+      ...refreshed,
+      // Providers that don't rotate refresh tokens keep the old one
+      refreshToken: refreshed.refreshToken || current.refreshToken,
+      // Some providers don't report an expiry; don't keep refreshing against a stale one
+      expiresAt: refreshed.expiresAt && refreshed.expiresAt.getTime() > Date.now() ? refreshed.expiresAt : undefined,
+    };
+
+    if (await saveTokens(owner, fresh, storedRefreshToken)) {
+      return fresh;
+    }
+
+    // Reconnected during the refresh; the new connection's tokens win
+    const { storedRefreshToken: _, ...latest } = (await loadTokens(owner)) ?? { storedRefreshToken: null };
+    return { ...credentials, ...latest };
+  } finally {
+    await releaseLease(key, holder).catch(() => {});
+  }
+}
+
+function refreshWithLock(
+  integration: Integration,
+  owner: TokenOwner,
+  credentials: IntegrationCredentials,
+  windowMs: number
+): Promise<IntegrationCredentials> {
+  const key = `${owner.type}:${owner.id}`;
+  let refresh = inFlight.get(key);
+  if (!refresh) {
+    refresh = refreshOwner(integration, owner, credentials, windowMs)
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Return credentials that stay valid for at least the refresh window,
+ * refreshing and persisting them first if needed
+ * Throws TokenRefreshError when the provider rejects the refresh
+ */
+export async function ensureFreshToken(
+  integration: Integration,
+  owner: TokenOwner,
+  credentials: IntegrationCredentials
+): Promise<IntegrationCredentials> {
+  if (!integration.refreshToken || !credentials.refreshToken || !needsRefresh(credentials.expiresAt, TOKEN_REFRESH_WINDOW_MS)) {
+    return credentials;
+  }
+
+  const fresh = await refreshWithLock(integration, owner, credentials, TOKEN_REFRESH_WINDOW_MS);
+  return { ...credentials, accessToken: fresh.accessToken, refreshToken: fresh.refreshToken, expiresAt: fresh.expiresAt };
+}
+
+/**
+ * Resolve a tenant's credentials for an integration (see getIntegrationCredentials)
+ * and refresh them first if they're about to expire
+ */
+export async function getFreshCredentials(
+  integration: Integration,
+  tenantId: string,
+  accountEmail?: string
+): Promise<
+  | { success: true; credentials: IntegrationCredentials }
+  | { success: false; error?: string; errorCode?: CredentialResolutionResult['errorCode'] | 'TOKEN_EXPIRED' }
+> {
+  const resolved = await getIntegrationCredentials(integration.config.id, tenantId, accountEmail);
+  if (!resolved.success || !resolved.data) {
+    return { success: false, error: resolved.error, errorCode: resolved.errorCode };
+  }
+
+  const credentials = toIntegrationCredentials(integration.config.id, tenantId, resolved.data);
+  const owner: TokenOwner | null = resolved.data.connectionId
+    ? { type: 'connection', id: resolved.data.connectionId }
+    : resolved.data.credentialId
+      ? { type: 'credential', id: resolved.data.credentialId }
+      : null;
+
+  if (!owner) {
+    return { success: true, credentials };
+  }
+
+  try {
+    return { success: true, credentials: await ensureFreshToken(integration, owner, credentials) };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `${integration.config.name} session expired`,
+      errorCode: 'TOKEN_EXPIRED',
+    };
+  }
+}
+
+// ===========================================
+// BACKGROUND SWEEPER
+// ===========================================
+
+/**
+ * Refresh tokens expiring soon, whether or not anyone is using them
+ * Tokens already past expiry are left to the next call, which reports the failure
+ */
+export async function refreshExpiringTokens(): Promise<{ refreshed: number; failed: number }> {
+  const now = new Date();
+  const horizon = new Date(Date.now() + SWEEP_WINDOW_MS);
+  const integrationIds = integrationRegistry.getAll()
+    .filter(i => i.refreshToken && i.isConfigured())
+    .map(i => i.config.id);
+
+  const [connections, credentials] = await Promise.all([
+    db.connection.findMany({
+      where: {
+        integrationId: { in: integrationIds },
+        isActive: true,
+        status: 'active',
+        refreshToken: { not: null },
+        tokenExpiresAt: { gt: now, lte: horizon },
+      },
+      select: { id: true, tenantId: true, integrationId: true, accountEmail: true, tokenExpiresAt: true, metadata: true },
+      take: SWEEP_BATCH_SIZE,
+    }),
+    // Not yet migrated to Connection
+    db.integrationCredential.findMany({
+      where: {
+        integrationId: { in: integrationIds },
+        isActive: true,
+        connection: { is: null },
+        refreshToken: { not: null },
+        expiresAt: { gt: now, lte: horizon },
+      },
+      select: { id: true, tenantId: true, integrationId: true, accountEmail: true, expiresAt: true, metadata: true },
+      take: SWEEP_BATCH_SIZE,
+    }),
+  ]);
+
+  const due = [
+    ...connections.map(c => ({ owner: { type: 'connection' as const, id: c.id }, row: { ...c, expiresAt: c.tokenExpiresAt } })),
+    ...credentials.map(c => ({ owner: { type: 'credential' as const, id: c.id }, row: c })),
+  ];
+
+  let refreshed = 0;
+  let failed = 0;
+
+  // Sequential so a large batch doesn't burst provider rate limits
+  for (const { owner, row } of due) {
+    const integration = integrationRegistry.get(row.integrationId);
+    if (!integration) continue;
+
+    try {
+      // Tokens are read from the row inside the lock
+      await refreshWithLock(integration, owner, {
+        integrationId: row.integrationId,
+        tenantId: row.tenantId,
+        metadata: {
+          ...(row.metadata as Record<string, unknown> | null),
+          ...(row.accountEmail ? { email: row.accountEmail } : {}),
+        },
+      }, SWEEP_WINDOW_MS);
+      refreshed++;
+    } catch {
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+export function startTokenRefreshSweeper(): void {
+  const timer = setInterval(() => {
+    refreshExpiringTokens()
+      .then(({ refreshed, failed }) => {
+        if (refreshed || failed) {
+          console.log(`Token sweeper: ${refreshed} refreshed, ${failed} failed`);
+        }
+      })
+      .catch((error) => {
+        console.error('Token sweeper error:', error);
+      });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+}
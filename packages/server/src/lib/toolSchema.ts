@@ -0,0 +1,188 @@
+// ===========================================
+// TOOL SCHEMAS
+// JSON Schema for tool inputs and zod validation of /call arguments
+// ===========================================
+
+import { z, ZodTypeAny } from 'zod';
+import { JsonSchema, ToolDefinition, ToolParameter } from '../integrations/types.js';
+
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object';
+  properties: Record<string, JsonSchema>;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; errors: FieldError[] };
+
+// ===========================================
+// JSON SCHEMA
+// ===========================================
+
+function parameterToSchema(param: ToolParameter): JsonSchema {
+  const { name: _name, required: _required, ...schema } = param;
+
+  // Drop unset keys so the published schema stays compact
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+}
+
+/**
+ * Get the JSON Schema for a tool's input
+ * Uses the definition's inputSchema if set, otherwise builds one from parameters
+ */
+export function getInputSchema(definition: ToolDefinition): ToolInputSchema {
+  if (definition.inputSchema) {
+    return {
+      ...definition.inputSchema,
+      type: 'object',
+      properties: definition.inputSchema.properties || {},
+    };
+  }
+
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const param of definition.parameters) {
+    properties[param.name] = parameterToSchema(param);
+    if (param.required) required.push(param.name);
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+// ===========================================
+// ZOD CONVERSION
+// ===========================================
+
+function enumToZod(values: Array<string | number>): ZodTypeAny {
+  if (values.every((v): v is string => typeof v === 'string') && values.length > 0) {
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  return z.unknown().refine(
+    value => values.includes(value as string | number),
+    { message: `Expected one of: ${values.join(', ')}` }
+  );
+}
+
+function stringToZod(schema: JsonSchema): ZodTypeAny {
+  let result = z.string();
+
+  if (schema.minLength !== undefined) result = result.min(schema.minLength);
+  if (schema.maxLength !== undefined) result = result.max(schema.maxLength);
+
+  switch (schema.format) {
+    case 'date-time':
+      return result.datetime({ offset: true, local: true });
+    case 'date':
+      return result.date();
+    case 'email':
+      return result.email();
+    case 'uri':
+      return result.url();
+    default:
+      return result;
+  }
+}
+
+function numberToZod(schema: JsonSchema): ZodTypeAny {
+  let result = z.number();
+
+  if (schema.type === 'integer') result = result.int();
+  if (schema.minimum !== undefined) result = result.min(schema.minimum);
+  if (schema.maximum !== undefined) result = result.max(schema.maximum);
+
+  return result;
+}
+
+function objectToZod(schema: JsonSchema): ZodTypeAny {
+  if (!schema.properties) {
+    return z.record(z.unknown());
+  }
+
+  const required = new Set(schema.required || []);
+  const shape: Record<string, ZodTypeAny> = {};
+
+  for (const [key, propSchema] of Object.entries(schema.properties)) {
+    const field = toZodSchema(propSchema);
+    shape[key] = required.has(key) ? field : field.optional();
+  }
+
+  const object = z.object(shape);
+  return schema.additionalProperties === false ? object.strict() : object.passthrough();
+}
+
+/**
+ * Convert a JSON Schema (the subset tools use) into a zod schema
+ */
+export function toZodSchema(schema: JsonSchema): ZodTypeAny {
+  if (schema.enum) {
+    return enumToZod(schema.enum);
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return stringToZod(schema);
+    case 'number':
+    case 'integer':
+      return numberToZod(schema);
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return z.array(schema.items ? toZodSchema(schema.items) : z.unknown());
+    case 'object':
+      return objectToZod(schema);
+    default:
+      return z.unknown();
+  }
+}
+
+// ===========================================
+// VALIDATION
+// ===========================================
+
+// Tool definitions are static, so compiled schemas are cached by tool name
+const validators = new Map<string, ZodTypeAny>();
+
+function getValidator(definition: ToolDefinition): ZodTypeAny {
+  let validator = validators.get(definition.name);
+  if (!validator) {
+    validator = toZodSchema(getInputSchema(definition));
+    validators.set(definition.name, validator);
+  }
+  return validator;
+}
+
+/**
+ * Validate tool arguments against the tool's schema
+ * Returns one error per invalid field
+ */
+export function validateToolParams(
+  definition: ToolDefinition,
+  params: unknown
+): ValidationResult {
+  const result = getValidator(definition).safeParse(params ?? {});
+
+  if (result.success) {
+    return { success: true, data: result.data as Record<string, unknown> };
+  }
+
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : 'params',
+      message: issue.message,
+    })),
+  };
+}
@@ -4,6 +4,9 @@
 // ===========================================
 
 import { db } from './db.js';
+import { listTenantConnections } from './connections.js';
+import { getPlanQuota, recordQuotaUsage, PlanQuota } from './quota.js';
+import { MeteredUnits, UnitType } from '../integrations/types.js';
 
 // ===========================================
 // TRACK USAGE (General)
@@ -42,6 +45,8 @@ export async function trackUsage(params: {
         count,
       },
     });
+
+    recordQuotaUsage(tenantId, count);
   } catch (error) {
     // Don't fail the request if usage tracking fails
     console.error('Failed to track usage:', error);
@@ -63,27 +68,93 @@ export function trackUsageAsync(params: {
 // Tracks usage with cost for rebilling to customers
 // ===========================================
 
+export const UNIT_TYPES: UnitType[] = [
+  'call', 'input_tokens', 'output_tokens', 'images', 'call_minutes', 'sms_segments', 'emails_sent',
+];
+
+export type UnitPrices = Partial<Record<UnitType, number>>;
+
 export interface PlatformUsageParams {
   tenantId: string;
   integrationId: string;
   operation: string;
-  units?: number;
-  cost?: number;
+  units: MeteredUnits; // Include call: 1 for a tool call
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Unit prices from an IntegrationConfig or an admin update
+ * Throws on unknown unit types and negative or non-numeric prices
+ */
+export function parseUnitPrices(value: unknown): UnitPrices {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('unitPrices must be an object of unit type to price');
+  }
+
+  const prices: UnitPrices = {};
+  for (const [unitType, price] of Object.entries(value)) {
+    if (!UNIT_TYPES.includes(unitType as UnitType)) {
+      throw new Error(`Unknown unit type: ${unitType}. Must be one of: ${UNIT_TYPES.join(', ')}`);
+    }
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+      throw new Error(`Price for ${unitType} must be a non-negative number`);
+    }
+    prices[unitType as UnitType] = price;
+  }
+  return prices;
+}
+
+/**
+ * Cost of each unit type of one call, before markup
+ * Metered units are priced from unitPrices. The call itself is priced at
+ * unitPrices.call, or at basePricePerUnit when none of its metered units has a price
+ */
+export function priceUnits(
+  config: { basePricePerUnit: number | null; unitPrices: unknown },
+  units: MeteredUnits
+): Array<{ unitType: UnitType; units: number; cost: number }> {
+  const prices = parseUnitPrices(config.unitPrices);
+  const rows: Array<{ unitType: UnitType; units: number; cost: number }> = [];
+  let meteredPriced = false;
+
+  for (const unitType of UNIT_TYPES) {
+    const count = units[unitType];
+    if (unitType === 'call' || !count || count <= 0) continue;
+
+    const price = prices[unitType];
+    if (price !== undefined) meteredPriced = true;
+    rows.push({ unitType, units: count, cost: count * (price ?? 0) });
+  }
+
+  if (units.call) {
+    const price = prices.call ?? (meteredPriced ? 0 : config.basePricePerUnit ?? 0);
+    rows.unshift({ unitType: 'call', units: units.call, cost: units.call * price });
+  }
+
+  return rows;
+}
+
+/**
+ * What the tenant is billed for a cost: the integration's markup on top
+ */
+export function applyMarkup(cost: number, markupPercent: number | null | undefined): number {
+  return cost * (1 + (markupPercent || 0) / 100);
+}
+
 /**
  * Track platform usage for INCLUDED integrations
- * This records detailed usage for cost calculation and rebilling
+ * One PlatformUsage row per unit type; the call itself is counted
+ * in UsageRecord by the caller (trackUsage)
  */
 export async function trackPlatformUsage(params: PlatformUsageParams): Promise<void> {
-  const { tenantId, integrationId, operation, units = 1, cost, metadata } = params;
+  const { tenantId, integrationId, operation, units, metadata } = params;
 
   try {
     // Check if this integration is INCLUDED (platform-paid)
     const config = await db.integrationConfig.findUnique({
       where: { integrationId },
-      select: { mode: true, basePricePerUnit: true },
+      select: { mode: true, basePricePerUnit: true, unitPrices: true },
     });
 
     // Only track platform usage for INCLUDED integrations
@@ -91,27 +162,19 @@ export async function trackPlatformUsage(params: PlatformUsageParams): Promise<v
       return;
     }
 
-    // Calculate cost if not provided
-    const calculatedCost = cost ?? (config.basePricePerUnit ? units * config.basePricePerUnit : 0);
+    const rows = priceUnits(config, units);
+    if (rows.length === 0) return;
 
-    // Record platform usage
-    await db.platformUsage.create({
-      data: {
+    await db.platformUsage.createMany({
+      data: rows.map(row => ({
         tenantId,
         integrationId,
         operation,
-        units,
-        cost: calculatedCost,
+        unitType: row.unitType,
+        units: row.units,
+        cost: row.cost,
         metadata: metadata ? JSON.parse(JSON.stringify(metadata)) : undefined,
-      },
-    });
-
-    // Also track in general usage for consistency
-    await trackUsage({
-      tenantId,
-      integrationId,
-      tool: operation,
-      count: 1,
+      })),
     });
   } catch (error) {
     console.error('Failed to track platform usage:', error);
@@ -125,6 +188,47 @@ export function trackPlatformUsageAsync(params: PlatformUsageParams): void {
   trackPlatformUsage(params).catch(() => {});
 }
 
+export interface PlatformUsageSummary {
+  integrationId: string;
+  callCount: number;
+  units: MeteredUnits;
+  costs: MeteredUnits; // Per unit type, before markup
+  cost: number; // Before markup
+}
+
+/**
+ * INCLUDED usage per integration for a month (YYYY-MM), for one tenant or all
+ */
+export async function summarizePlatformUsage(period: string, tenantId?: string): Promise<PlatformUsageSummary[]> {
+  const start = new Date(`${period}-01`);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+
+  const rows = await db.platformUsage.groupBy({
+    by: ['integrationId', 'unitType'],
+    where: {
+      ...(tenantId ? { tenantId } : {}),
+      createdAt: { gte: start, lt: end },
+    },
+    _sum: { units: true, cost: true },
+  });
+
+  const byIntegration = new Map<string, PlatformUsageSummary>();
+  for (const row of rows) {
+    const summary = byIntegration.get(row.integrationId)
+      || { integrationId: row.integrationId, callCount: 0, units: {}, costs: {}, cost: 0 };
+    const unitType = row.unitType as UnitType;
+
+    summary.units[unitType] = (summary.units[unitType] || 0) + (row._sum.units || 0);
+    summary.costs[unitType] = (summary.costs[unitType] || 0) + (row._sum.cost || 0);
+    summary.cost += row._sum.cost || 0;
+    if (unitType === 'call') summary.callCount += row._sum.units || 0;
+    byIntegration.set(row.integrationId, summary);
+  }
+
+  return Array.from(byIntegration.values());
+}
+
 /**
  * Get the integration mode for a given integration
  * Returns the mode from config or catalog default
@@ -166,14 +270,8 @@ export async function isIntegrationAvailable(
   }
 
   // BYOK - check if tenant has a connection
-  const connection = await db.connection.findFirst({
-    where: {
-      tenantId,
-      integrationId,
-      isActive: true,
-      status: 'active',
-    },
-  });
+  const connections = await listTenantConnections(tenantId, { integrationId });
+  const connection = connections.find(c => c.status === 'active');
 
   if (!connection) {
     return { available: false, mode: 'BYOK', reason: 'No connection configured' };
@@ -282,13 +380,6 @@ export async function getUsageHistory(tenantId: string, months: number = 6): Pro
 // BILLING HELPERS
 // ===========================================
 
-// Plan limits (calls per month)
-const PLAN_LIMITS: Record<string, number> = {
-  free: 1000,
-  pro: 50000,
-  enterprise: 500000,
-};
-
 export interface BillingInfo {
   plan: string;
   period: string;
@@ -297,6 +388,9 @@ export interface BillingInfo {
   percentUsed: number;
   isOverLimit: boolean;
   overage: number;
+  overageBehavior: PlanQuota['overage'];
+  gracePercent: number;
+  overageCost: number;
 }
 
 export async function getBillingInfo(tenantId: string): Promise<BillingInfo> {
@@ -309,7 +403,8 @@ export async function getBillingInfo(tenantId: string): Promise<BillingInfo> {
   });
 
   const plan = tenant?.plan || 'free';
-  const limit = PLAN_LIMITS[plan] || PLAN_LIMITS.free;
+  const quota = getPlanQuota(plan);
+  const limit = quota.monthlyCalls;
 
   // Get current usage
   const { totalCalls } = await getUsage(tenantId);
@@ -326,6 +421,9 @@ export async function getBillingInfo(tenantId: string): Promise<BillingInfo> {
     percentUsed: Math.round(percentUsed * 100) / 100,
     isOverLimit,
     overage,
+    overageBehavior: quota.overage,
+    gracePercent: quota.gracePercent,
+    overageCost: quota.overage === 'bill' ? Math.round(overage * quota.overagePricePerCall * 100) / 100 : 0,
   };
 }
 
@@ -333,10 +431,11 @@ export async function getBillingInfo(tenantId: string): Promise<BillingInfo> {
 // HELPERS
 // ===========================================
 
+// Periods are UTC months, matching quotas and billing
 function getCurrentPeriod(): string {
   const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const year = now.getUTCFullYear();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
   return `${year}-${month}`;
 }
 
@@ -345,9 +444,9 @@ function getPastPeriods(months: number): string[] {
   const now = new Date();
 
   for (let i = 0; i < months; i++) {
-    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1));
+    const year = date.getUTCFullYear();
+    const month = String(date.getUTCMonth() + 1).padStart(2, '0');
     periods.push(`${year}-${month}`);
   }
 
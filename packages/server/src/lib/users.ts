@@ -0,0 +1,253 @@
+// ===========================================
+// DASHBOARD USERS
+// Passwords, email verification and password resets
+// ===========================================
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { User } from '@prisma/client';
+import { db } from './db.js';
+import { sendPlatformEmail, appUrl } from './notifications.js';
+import { listUserTenants, TenantRole } from './memberships.js';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSWORD_MIN_LENGTH = 8;
+const HASH_LENGTH = 64;
+
+const TOKEN_TTL_MS = {
+  verify_email: 24 * 60 * 60 * 1000, // 24 hours
+  reset_password: 60 * 60 * 1000,    // 1 hour
+};
+
+export type UserTokenType = keyof typeof TOKEN_TTL_MS;
+
+export interface PublicUser {
+  id: string;
+  email: string;
+  name: string | null;
+  emailVerified: boolean;
+  role: TenantRole;
+  tenant: { id: string; slug: string; name: string; plan: string };
+  tenants: Array<{ id: string; slug: string; name: string; role: TenantRole }>;
+}
+
+// ===========================================
+// PASSWORDS
+// ===========================================
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+  return null;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, HASH_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// Compared against when the email is unknown so response timing doesn't reveal accounts
+let dummyHash: Promise<string> | null = null;
+export async function verifyDummyPassword(password: string): Promise<void> {
+  dummyHash ??= hashPassword(crypto.randomBytes(16).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
+
+// ===========================================
+// USERS
+// ===========================================
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'tenant';
+}
+
+/**
+ * Sign-up without an invitation: the user's own tenant waits until
+ * they've verified their email (createPendingTenant)
+ */
+export async function createPendingUser(data: {
+  email: string;
+  password: string;
+  name?: string;
+  companyName?: string;
+}): Promise<User> {
+  const email = normalizeEmail(data.email);
+
+  return db.user.create({
+    data: {
+      email,
+      name: data.name?.trim() || null,
+      passwordHash: await hashPassword(data.password),
+      pendingTenantName: data.companyName?.trim() || email.split('@')[0],
+    },
+  });
+}
+
+/**
+ * Create a verified sign-up's tenant with them as owner; the slug gets a suffix if it's taken
+ * Returns null when there's no pending tenant (already created, or they joined by invitation)
+ */
+export async function createPendingTenant(userId: string): Promise<string | null> {
+  const user = await db.user.findUnique({ where: { id: userId } });
+  if (!user?.pendingTenantName || !user.emailVerifiedAt) return null;
+
+  const baseSlug = slugify(user.pendingTenantName);
+  let slug = baseSlug;
+  while (await db.tenant.findUnique({ where: { slug }, select: { id: true } })) {
+    slug = `${baseSlug}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  // Clearing the name in the same write keeps a second verification from creating another tenant
+  const { count } = await db.user.updateMany({
+    where: { id: user.id, pendingTenantName: user.pendingTenantName },
+    data: { pendingTenantName: null },
+  });
+  if (count === 0) return null;
+
+  const membership = await db.membership.create({
+    data: {
+      role: 'owner',
+      user: { connect: { id: user.id } },
+      tenant: { create: { name: user.pendingTenantName, slug } },
+    },
+  });
+
+  return membership.tenantId;
+}
+
+/**
+ * Sign-up from an invitation: no tenant of their own, the invitation adds the membership
+ */
+export async function createUser(data: {
+  email: string;
+  password: string;
+  name?: string;
+  emailVerified?: boolean;
+}): Promise<User> {
+  return db.user.create({
+    data: {
+      email: normalizeEmail(data.email),
+      name: data.name?.trim() || null,
+      passwordHash: await hashPassword(data.password),
+      emailVerifiedAt: data.emailVerified ? new Date() : null,
+    },
+  });
+}
+
+/**
+ * The user as seen from one of their tenants
+ */
+export async function getPublicUser(userId: string, tenantId: string): Promise<PublicUser | null> {
+  const user = await db.user.findUnique({ where: { id: userId } });
+  if (!user) return null;
+
+  const tenants = await listUserTenants(userId);
+  const current = tenants.find(t => t.id === tenantId);
+  const tenant = current && await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { id: true, slug: true, name: true, plan: true },
+  });
+  if (!current || !tenant) return null;
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    emailVerified: !!user.emailVerifiedAt,
+    role: current.role,
+    tenant,
+    tenants,
+  };
+}
+
+// ===========================================
+// EMAILED TOKENS
+// ===========================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a single-use token; older unused tokens of the same type stop working
+ */
+export async function createUserToken(userId: string, type: UserTokenType): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await db.$transaction([
+    db.userToken.deleteMany({ where: { userId, type, usedAt: null } }),
+    db.userToken.create({
+      data: {
+        userId,
+        type,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type]),
+      },
+    }),
+  ]);
+
+  return token;
+}
+
+/**
+ * Mark a token used and return its user, or null if it's unknown, used or expired
+ */
+export async function consumeUserToken(token: string, type: UserTokenType): Promise<string | null> {
+  const record = await db.userToken.findUnique({ where: { tokenHash: hashToken(token) } });
+  if (!record || record.type !== type || record.usedAt || record.expiresAt < new Date()) {
+    return null;
+  }
+
+  // Guard against the same token being redeemed twice concurrently
+  const claimed = await db.userToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return claimed.count === 1 ? record.userId : null;
+}
+
+export async function sendVerificationEmail(user: { id: string; email: string }): Promise<boolean> {
+  const token = await createUserToken(user.id, 'verify_email');
+  const link = appUrl(`/auth/verify?token=${token}`);
+
+  const sent = await sendPlatformEmail({
+    to: user.email,
+    subject: 'Verify your BotMakers email address',
+    text: `Confirm your email address by opening this link:\n\n${link}\n\nThe link expires in 24 hours.`,
+  });
+
+  // Sign-up can't finish without the link, so development without Resend prints it
+  if (!sent && process.env.NODE_ENV !== 'production') {
+    console.log(`Verification link for ${user.email}: ${link}`);
+  }
+
+  return sent;
+}
+
+export async function sendPasswordResetEmail(user: { id: string; email: string }): Promise<boolean> {
+  const token = await createUserToken(user.id, 'reset_password');
+  const link = appUrl(`/auth/reset?token=${token}`);
+
+  return sendPlatformEmail({
+    to: user.email,
+    subject: 'Reset your BotMakers password',
+    text: `Someone asked to reset the password for this account. If it was you, open this link:\n\n${link}\n\nThe link expires in 1 hour. If you didn't ask, you can ignore this email.`,
+  });
+}
@@ -0,0 +1,271 @@
+// ===========================================
+// WEBHOOK HANDLERS
+// Apply verified provider events to the cached tables
+// and forward them to tenant webhooks
+// ===========================================
+
+import { WebhookEvent } from '@prisma/client';
+import { db, getAccountWithGrant } from './db.js';
+import * as nylasLib from './nylas.js';
+import { upsertCachedFolder, removeCachedFolder } from './folderSync.js';
+import { upsertCachedContact, removeCachedContact } from './contactSync.js';
+import { upsertCachedEvent, removeCachedEvent } from './calendarSync.js';
+import { upsertCachedMessage } from './emailSync.js';
+import { fromNylasMessage } from './mailProvider.js';
+import { emitTenantEvents } from './tenantWebhooks.js';
+import { trackPlatformUsageAsync } from './usage.js';
+import { handlePaymentFailed, handleInvoicePaid } from './billing.js';
+
+/**
+ * Returns false when the event didn't change anything (recorded as "ignored")
+ */
+type WebhookHandler = (event: WebhookEvent & { tenantId: string }, payload: any) => Promise<boolean>;
+
+// ===========================================
+// NYLAS
+// Created/updated objects are re-fetched so the cache gets the same
+// shape as a pull sync; deletes only need the ID
+// ===========================================
+
+function nylasObject(payload: any): { id: string; grant_id: string; calendar_id?: string } {
+  return payload.data?.object || {};
+}
+
+const nylasFolderChanged: WebhookHandler = async (event, payload) => {
+  const object = nylasObject(payload);
+  const folder = await nylasLib.getFolder(object.grant_id, object.id);
+  await upsertCachedFolder(event.tenantId, folder);
+  return true;
+};
+
+const nylasContactChanged: WebhookHandler = async (event, payload) => {
+  const object = nylasObject(payload);
+  const contact = await nylasLib.getContact(object.grant_id, object.id);
+  await upsertCachedContact(event.tenantId, contact);
+  return true;
+};
+
+const nylasEventChanged: WebhookHandler = async (event, payload) => {
+  const object = nylasObject(payload);
+  if (!object.calendar_id) return false;
+
+  const calendarEvent = await nylasLib.getEvent(object.grant_id, object.id, object.calendar_id);
+  return upsertCachedEvent(event.tenantId, calendarEvent);
+};
+
+const nylasMessageChanged: WebhookHandler = async (event, payload) => {
+  const object = nylasObject(payload);
+  // Only the primary account's mailbox is cached
+  const primary = await getAccountWithGrant(event.tenantId);
+  if (primary.nylasGrantId !== object.grant_id) return false;
+
+  const message = await nylasLib.getMessage(object.grant_id, object.id);
+  await upsertCachedMessage(event.tenantId, object.grant_id, fromNylasMessage(message));
+  return true;
+};
+
+const nylasMessageCreated: WebhookHandler = async (event, payload) => {
+  await nylasMessageChanged(event, payload);
+  const message = payload.data?.object || {};
+
+  await emitTenantEvents(event.tenantId, [{
+    type: 'email.received',
+    data: {
+      message: {
+        id: message.id,
+        threadId: message.thread_id,
+        subject: message.subject,
+        from: message.from,
+        to: message.to,
+        snippet: message.snippet,
+        folders: message.folders,
+        unread: message.unread,
+        date: message.date ? new Date(message.date * 1000).toISOString() : undefined,
+      },
+    },
+  }]);
+  return true;
+};
+
+// ===========================================
+// CAL.COM & VAPI
+// Nothing to cache; the events are only forwarded
+// ===========================================
+
+function calBooking(payload: any) {
+  const booking = payload.payload || {};
+  return {
+    booking: {
+      uid: booking.uid,
+      title: booking.title,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      attendees: booking.attendees,
+      organizer: booking.organizer,
+      cancellationReason: booking.cancellationReason,
+    },
+  };
+}
+
+const WEBHOOK_HANDLERS: Record<string, Record<string, WebhookHandler>> = {
+  nylas: {
+    'folder.created': nylasFolderChanged,
+    'folder.updated': nylasFolderChanged,
+    'folder.deleted': async (event, payload) => {
+      await removeCachedFolder(event.tenantId, nylasObject(payload).id);
+      return true;
+    },
+    'contact.created': nylasContactChanged,
+    'contact.updated': nylasContactChanged,
+    'contact.deleted': async (event, payload) => {
+      await removeCachedContact(event.tenantId, nylasObject(payload).id);
+      return true;
+    },
+    'event.created': nylasEventChanged,
+    'event.updated': nylasEventChanged,
+    'event.deleted': async (event, payload) => {
+      await removeCachedEvent(event.tenantId, nylasObject(payload).id);
+      return true;
+    },
+    'message.created': nylasMessageCreated,
+    'message.updated': nylasMessageChanged,
+  },
+  cal_com: {
+    BOOKING_CREATED: async (event, payload) => {
+      await emitTenantEvents(event.tenantId, [{ type: 'booking.created', data: calBooking(payload) }]);
+      return true;
+    },
+    BOOKING_CANCELLED: async (event, payload) => {
+      await emitTenantEvents(event.tenantId, [{ type: 'booking.cancelled', data: calBooking(payload) }]);
+      return true;
+    },
+  },
+  vapi: {
+    'end-of-call-report': async (event, payload) => {
+      const message = payload.message || {};
+
+      // Minutes are only known once the call ends; the call itself was
+      // counted when vapi_create_call ran
+      if (typeof message.durationSeconds === 'number' && message.durationSeconds > 0) {
+        trackPlatformUsageAsync({
+          tenantId: event.tenantId,
+          integrationId: 'vapi',
+          operation: 'vapi_call',
+          units: { call_minutes: message.durationSeconds / 60 },
+          metadata: { callId: message.call?.id, durationSeconds: message.durationSeconds },
+        });
+      }
+
+      await emitTenantEvents(event.tenantId, [{
+        type: 'call.ended',
+        data: {
+          provider: 'vapi',
+          call: {
+            id: message.call?.id,
+            endedReason: message.endedReason,
+            startedAt: message.startedAt,
+            endedAt: message.endedAt,
+            durationSeconds: message.durationSeconds,
+            summary: message.summary ?? message.analysis?.summary,
+            recordingUrl: message.recordingUrl,
+          },
+        },
+      }]);
+      return true;
+    },
+  },
+  autocalls: {
+    // Minutes are only known once the call ends; the call itself was
+    // counted when autocalls_make_call ran
+    completed: async (event, payload) => {
+      const durationSeconds = Number(payload.duration);
+      if (!(durationSeconds > 0)) return false;
+
+      trackPlatformUsageAsync({
+        tenantId: event.tenantId,
+        integrationId: 'autocalls',
+        operation: 'autocalls_call',
+        units: { call_minutes: durationSeconds / 60 },
+        metadata: { callId: payload.call_id ?? payload.id, durationSeconds },
+      });
+      return true;
+    },
+  },
+  dialpad: {
+    // Call state subscriptions send one event per state; hangup is the end of the call
+    hangup: async (event, payload) => {
+      const startedAt = payload.date_connected || payload.date_started;
+
+      await emitTenantEvents(event.tenantId, [{
+        type: 'call.ended',
+        data: {
+          provider: 'dialpad',
+          call: {
+            id: payload.call_id ? String(payload.call_id) : undefined,
+            direction: payload.direction,
+            externalNumber: payload.external_number,
+            internalNumber: payload.internal_number,
+            startedAt: startedAt ? new Date(startedAt).toISOString() : undefined,
+            endedAt: payload.date_ended ? new Date(payload.date_ended).toISOString() : undefined,
+            durationSeconds: payload.date_connected && payload.date_ended
+              ? Math.round((payload.date_ended - payload.date_connected) / 1000)
+              : 0,
+          },
+        },
+      }]);
+      return true;
+    },
+  },
+  stripe_billing: {
+    'invoice.payment_failed': (event, payload) => handlePaymentFailed(event.tenantId, payload.data?.object || {}),
+    'invoice.paid': (event, payload) => handleInvoicePaid(event.tenantId, payload.data?.object || {}),
+  },
+};
+
+// ===========================================
+// DISPATCH
+// ===========================================
+
+/**
+ * Run the handler for a stored event and record the outcome
+ * Events without a handler or tenant are kept for auditing but marked "ignored"
+ */
+export async function processWebhookEvent(eventId: string): Promise<void> {
+  const event = await db.webhookEvent.findUnique({ where: { id: eventId } });
+  if (!event) return;
+
+  const handler = WEBHOOK_HANDLERS[event.integrationId]?.[event.eventType];
+
+  if (!handler || !event.tenantId) {
+    await db.webhookEvent.update({
+      where: { id: event.id },
+      data: { status: 'ignored', processedAt: new Date() },
+    });
+    return;
+  }
+
+  try {
+    const applied = await handler({ ...event, tenantId: event.tenantId }, event.payload);
+
+    await db.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: applied ? 'processed' : 'ignored',
+        attempts: { increment: 1 },
+        error: null,
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Webhook ${event.integrationId}/${event.eventType} failed:`, error);
+
+    await db.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: 'failed',
+        attempts: { increment: 1 },
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+  }
+}
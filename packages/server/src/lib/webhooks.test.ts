@@ -0,0 +1,190 @@
+// ===========================================
+// WEBHOOK INGESTION TESTS
+// Each provider's signature scheme, the signed per-tenant URL tokens,
+// and where each provider's signing secret comes from
+// ===========================================
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+process.env.ENCRYPTION_KEY ??= 'webhook-test-key';
+process.env.WEBHOOK_TOKEN_SECRET ??= 'webhook-token-test-secret';
+
+const { db } = await import('./db.js');
+const { storeIntegrationCredentials } = await import('./encryption.js');
+const {
+  WEBHOOK_PROVIDERS,
+  getWebhookSecrets,
+  payloadString,
+  tenantWebhookPath,
+  verifyTenantToken,
+} = await import('./webhooks.js');
+
+const SECRET = 'whsec_test';
+const body = (payload: unknown) => Buffer.from(JSON.stringify(payload));
+const hmacHex = (secret: string, data: string | Buffer) => crypto.createHmac('sha256', secret).update(data).digest('hex');
+const now = () => Math.floor(Date.now() / 1000).toString();
+
+// ===========================================
+// SIGNATURES
+// ===========================================
+
+test('nylas: hex HMAC of the body', () => {
+  const rawBody = body({ id: 'evt_1' });
+  const verify = (signature: string) => WEBHOOK_PROVIDERS.nylas.verify({ headers: { 'x-nylas-signature': signature }, rawBody }, SECRET);
+
+  assert.equal(verify(hmacHex(SECRET, rawBody)), true);
+  assert.equal(verify(hmacHex('other', rawBody)), false);
+  assert.equal(verify(''), false);
+});
+
+test('stripe: timestamped signature, any v1 may match, stale ones rejected', () => {
+  const rawBody = body({ id: 'evt_1' });
+  const signed = (timestamp: string, secret = SECRET) =>
+    `t=${timestamp},v1=${hmacHex(secret, `${timestamp}.${rawBody.toString('utf8')}`)}`;
+  const verify = (header: string) => WEBHOOK_PROVIDERS.stripe.verify({ headers: { 'stripe-signature': header }, rawBody }, SECRET);
+
+  assert.equal(verify(signed(now())), true);
+  // Stripe sends one v1 per active secret while a secret is being rolled
+  assert.equal(verify(`${signed(now(), 'old')},v1=${signed(now()).split('v1=')[1]}`), true);
+  assert.equal(verify(signed(now(), 'other')), false);
+  assert.equal(verify(signed(String(Math.floor(Date.now() / 1000) - 10 * 60))), false);
+});
+
+test('slack: v0 signature over timestamp and body', () => {
+  const rawBody = body({ event_id: 'Ev1' });
+  const timestamp = now();
+  const headers = (secret: string, ts = timestamp) => ({
+    'x-slack-request-timestamp': ts,
+    'x-slack-signature': `v0=${hmacHex(secret, `v0:${ts}:${rawBody.toString('utf8')}`)}`,
+  });
+
+  assert.equal(WEBHOOK_PROVIDERS.slack.verify({ headers: headers(SECRET), rawBody }, SECRET), true);
+  assert.equal(WEBHOOK_PROVIDERS.slack.verify({ headers: headers('other'), rawBody }, SECRET), false);
+  assert.equal(WEBHOOK_PROVIDERS.slack.verify({ headers: headers(SECRET, '1000'), rawBody }, SECRET), false);
+});
+
+test('github: sha256= prefixed HMAC, and the action is part of the event type', () => {
+  const payload = { action: 'opened' };
+  const rawBody = body(payload);
+  const headers = { 'x-hub-signature-256': `sha256=${hmacHex(SECRET, rawBody)}`, 'x-github-event': 'pull_request' };
+
+  assert.equal(WEBHOOK_PROVIDERS.github.verify({ headers, rawBody }, SECRET), true);
+  assert.equal(WEBHOOK_PROVIDERS.github.verify({ headers: { ...headers, 'x-hub-signature-256': hmacHex(SECRET, rawBody) }, rawBody }, SECRET), false);
+  assert.equal(WEBHOOK_PROVIDERS.github.getEventType({ headers, rawBody }, payload), 'pull_request.opened');
+});
+
+test('cal_com: hex HMAC of the body', () => {
+  const rawBody = body({ triggerEvent: 'BOOKING_CREATED' });
+
+  assert.equal(WEBHOOK_PROVIDERS.cal_com.verify({ headers: { 'x-cal-signature-256': hmacHex(SECRET, rawBody) }, rawBody }, SECRET), true);
+  assert.equal(WEBHOOK_PROVIDERS.cal_com.verify({ headers: { 'x-cal-signature-256': hmacHex('other', rawBody) }, rawBody }, SECRET), false);
+});
+
+test('zoom: v0 signature, and URL validation is answered with the signed token', () => {
+  const rawBody = body({ event: 'meeting.started' });
+  const timestamp = now();
+  const headers = {
+    'x-zm-request-timestamp': timestamp,
+    'x-zm-signature': `v0=${hmacHex(SECRET, `v0:${timestamp}:${rawBody.toString('utf8')}`)}`,
+  };
+
+  assert.equal(WEBHOOK_PROVIDERS.zoom.verify({ headers, rawBody }, SECRET), true);
+  assert.equal(WEBHOOK_PROVIDERS.zoom.verify({ headers, rawBody }, 'other'), false);
+  assert.deepEqual(
+    WEBHOOK_PROVIDERS.zoom.challenge!({ event: 'endpoint.url_validation', payload: { plainToken: 'abc' } }, SECRET),
+    { plainToken: 'abc', encryptedToken: hmacHex(SECRET, 'abc') }
+  );
+});
+
+test('vapi: the shared secret itself', () => {
+  const rawBody = body({ message: { type: 'end-of-call-report' } });
+
+  assert.equal(WEBHOOK_PROVIDERS.vapi.verify({ headers: { 'x-vapi-secret': SECRET }, rawBody }, SECRET), true);
+  assert.equal(WEBHOOK_PROVIDERS.vapi.verify({ headers: { 'x-vapi-secret': 'other' }, rawBody }, SECRET), false);
+});
+
+test('autocalls: unsigned, and a retried post-call webhook keeps its event ID', () => {
+  const payload = { call_id: 'call_1', status: 'completed', duration: 90 };
+  const req = { headers: {}, rawBody: body(payload) };
+
+  assert.equal(WEBHOOK_PROVIDERS.autocalls.unsigned, true);
+  assert.equal(WEBHOOK_PROVIDERS.autocalls.getEventId(req, payload), 'call_1:completed');
+  assert.equal(WEBHOOK_PROVIDERS.autocalls.getEventType(req, payload), 'completed');
+});
+
+test('payload fields are read only when they are strings or numbers', () => {
+  const payload = { id: 'evt_1', data: { object: { grant_id: 42, metadata: 'x' } } };
+
+  assert.equal(payloadString(payload, 'id'), 'evt_1');
+  assert.equal(payloadString(payload, 'data', 'object', 'grant_id'), '42');
+  assert.equal(payloadString(payload, 'data', 'object', 'metadata', 'tenantId'), undefined);
+  assert.equal(payloadString(payload, 'data'), undefined);
+});
+
+// ===========================================
+// TENANT URL TOKENS
+// ===========================================
+
+test('a tenant URL token resolves to its tenant', () => {
+  const token = tenantWebhookPath('cal_com', 'tenant_a').split('/').pop()!;
+
+  assert.equal(verifyTenantToken('cal_com', token), 'tenant_a');
+});
+
+test('a tenant URL token is refused for another tenant or integration', () => {
+  const token = tenantWebhookPath('cal_com', 'tenant_a').split('/').pop()!;
+  const signature = token.split('.').pop()!;
+
+  assert.equal(verifyTenantToken('cal_com', `tenant_b.${signature}`), null);
+  assert.equal(verifyTenantToken('zoom', token), null);
+  assert.equal(verifyTenantToken('cal_com', 'tenant_a'), null);
+  assert.equal(verifyTenantToken('cal_com', `tenant_a.${signature.slice(1)}`), null);
+});
+
+// ===========================================
+// SIGNING SECRETS
+// ===========================================
+
+let connections: { tenantId: string; integrationId: string; credentialsEncrypted: string }[] = [];
+
+Object.defineProperty(db, 'connection', {
+  value: {
+    findMany: async ({ where }: any) => connections.filter(c => c.tenantId === where.tenantId && c.integrationId === where.integrationId),
+  },
+  configurable: true,
+});
+Object.defineProperty(db, 'integrationConfig', {
+  value: { findUnique: async () => null },
+  configurable: true,
+});
+
+beforeEach(() => {
+  connections = [];
+  delete process.env.STRIPE_WEBHOOK_SECRET;
+});
+
+test('stripe secrets come from the tenant\'s own connection, never the platform', async () => {
+  process.env.STRIPE_WEBHOOK_SECRET = 'whsec_platform';
+  connections = [
+    { tenantId: 'tenant_a', integrationId: 'stripe', credentialsEncrypted: storeIntegrationCredentials({ secretKey: 'sk_a', webhookSecret: 'whsec_a' }) },
+    { tenantId: 'tenant_b', integrationId: 'stripe', credentialsEncrypted: storeIntegrationCredentials({ secretKey: 'sk_b', webhookSecret: 'whsec_b' }) },
+    { tenantId: 'tenant_c', integrationId: 'stripe', credentialsEncrypted: storeIntegrationCredentials({ secretKey: 'sk_c' }) },
+  ];
+
+  assert.deepEqual(await getWebhookSecrets('stripe', 'tenant_a'), ['whsec_a']);
+  assert.deepEqual(await getWebhookSecrets('stripe', 'tenant_c'), []);
+  assert.deepEqual(await getWebhookSecrets('stripe'), []);
+});
+
+test('other providers use the platform secret', async () => {
+  process.env.CALCOM_WEBHOOK_SECRET = 'cal_platform';
+
+  assert.deepEqual(await getWebhookSecrets('cal_com', 'tenant_a'), ['cal_platform']);
+  assert.deepEqual(await getWebhookSecrets('github'), []);
+
+  delete process.env.CALCOM_WEBHOOK_SECRET;
+});
@@ -0,0 +1,371 @@
+// ===========================================
+// WEBHOOK INGESTION
+// Signature verification and event identity per provider
+// ===========================================
+
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { db } from './db.js';
+import { retrieveIntegrationCredentials } from './encryption.js';
+
+// Reject timestamped signatures older than this (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Events from these name their tenant in the signed payload (grant ID,
+// Stripe customer); every other provider's secret is shared by all tenants,
+// so the tenant comes from a signed token in the webhook URL instead
+const PAYLOAD_TENANT_PROVIDERS = ['nylas', 'stripe_billing'];
+
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody: Buffer;
+}
+
+// A parsed webhook body; fields are read with payloadString()
+export type WebhookPayload = Record<string, unknown>;
+
+export interface WebhookProvider {
+  // The platform's secret; unset when each tenant's endpoint has its own,
+  // saved as webhookSecret on the tenant's connection
+  secretEnvVar?: string;
+  // No signature scheme: the signed per-tenant URL is the only credential
+  unsigned?: boolean;
+  verify(req: WebhookRequest, secret: string): boolean;
+  // Bodies that aren't plain JSON (default: JSON.parse of the body)
+  parse?(req: WebhookRequest): unknown;
+  // Handshake payloads that must be answered instead of stored
+  challenge?(payload: WebhookPayload, secret: string): Record<string, unknown> | null;
+  getEventId(req: WebhookRequest, payload: WebhookPayload): string | undefined;
+  getEventType(req: WebhookRequest, payload: WebhookPayload): string;
+}
+
+export function isWebhookPayload(value: unknown): value is WebhookPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * A string (or number) field, following nested objects: payloadString(p, 'data', 'object', 'id')
+ */
+export function payloadString(payload: WebhookPayload, ...path: string[]): string | undefined {
+  let value: unknown = payload;
+  for (const key of path) {
+    if (!isWebhookPayload(value)) return undefined;
+    value = value[key];
+  }
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' ? value : undefined;
+}
+
+// ===========================================
+// SIGNATURE HELPERS
+// ===========================================
+
+function hmacHex(secret: string, data: string | Buffer): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+function header(req: WebhookRequest, name: string): string {
+  const value = req.headers[name];
+  return (Array.isArray(value) ? value[0] : value) || '';
+}
+
+function isFreshTimestamp(seconds: string): boolean {
+  const timestamp = parseInt(seconds, 10);
+  return !isNaN(timestamp) && Math.abs(Date.now() / 1000 - timestamp) <= SIGNATURE_TOLERANCE_SECONDS;
+}
+
+// Stripe-Signature: t=<ts>,v1=<hex HMAC of "ts.body">
+function verifyStripeSignature(req: WebhookRequest, secret: string): boolean {
+  const parts = header(req, 'stripe-signature').split(',').map(p => p.split('='));
+  const timestamp = parts.find(([k]) => k === 't')?.[1];
+  const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+  if (!timestamp || signatures.length === 0 || !isFreshTimestamp(timestamp)) return false;
+
+  const expected = hmacHex(secret, `${timestamp}.${req.rawBody.toString('utf8')}`);
+  return signatures.some(sig => safeEqual(sig, expected));
+}
+
+// ===========================================
+// PROVIDERS
+// ===========================================
+
+export const WEBHOOK_PROVIDERS: Record<string, WebhookProvider> = {
+  // x-nylas-signature: hex HMAC of the body
+  nylas: {
+    secretEnvVar: 'NYLAS_WEBHOOK_SECRET',
+    verify: (req, secret) => safeEqual(header(req, 'x-nylas-signature'), hmacHex(secret, req.rawBody)),
+    getEventId: (_req, payload) => payloadString(payload, 'id'),
+    getEventType: (_req, payload) => payloadString(payload, 'type') || 'unknown',
+  },
+
+  // Tenants' own Stripe accounts: Stripe gives every endpoint its own
+  // signing secret, so each tenant saves theirs on its Stripe connection
+  stripe: {
+    verify: verifyStripeSignature,
+    getEventId: (_req, payload) => payloadString(payload, 'id'),
+    getEventType: (_req, payload) => payloadString(payload, 'type') || 'unknown',
+  },
+
+  // The platform's own Stripe account (invoice payments, lib/billing.ts)
+  stripe_billing: {
+    secretEnvVar: 'STRIPE_BILLING_WEBHOOK_SECRET',
+    verify: verifyStripeSignature,
+    getEventId: (_req, payload) => payloadString(payload, 'id'),
+    getEventType: (_req, payload) => payloadString(payload, 'type') || 'unknown',
+  },
+
+  // X-Slack-Signature: v0=<hex HMAC of "v0:ts:body">
+  slack: {
+    secretEnvVar: 'SLACK_SIGNING_SECRET',
+    verify: (req, secret) => {
+      const timestamp = header(req, 'x-slack-request-timestamp');
+      if (!isFreshTimestamp(timestamp)) return false;
+
+      const expected = `v0=${hmacHex(secret, `v0:${timestamp}:${req.rawBody.toString('utf8')}`)}`;
+      return safeEqual(header(req, 'x-slack-signature'), expected);
+    },
+    challenge: (payload) => (payload.type === 'url_verification' ? { challenge: payload.challenge } : null),
+    getEventId: (_req, payload) => payloadString(payload, 'event_id'),
+    getEventType: (_req, payload) => payloadString(payload, 'event', 'type') || payloadString(payload, 'type') || 'unknown',
+  },
+
+  // X-Hub-Signature-256: sha256=<hex HMAC of the body>
+  github: {
+    secretEnvVar: 'GITHUB_WEBHOOK_SECRET',
+    verify: (req, secret) =>
+      safeEqual(header(req, 'x-hub-signature-256'), `sha256=${hmacHex(secret, req.rawBody)}`),
+    getEventId: (req) => header(req, 'x-github-delivery') || undefined,
+    getEventType: (req, payload) => {
+      const event = header(req, 'x-github-event') || 'unknown';
+      const action = payloadString(payload, 'action');
+      return action ? `${event}.${action}` : event;
+    },
+  },
+
+  // X-Cal-Signature-256: hex HMAC of the body
+  cal_com: {
+    secretEnvVar: 'CALCOM_WEBHOOK_SECRET',
+    verify: (req, secret) => safeEqual(header(req, 'x-cal-signature-256'), hmacHex(secret, req.rawBody)),
+    getEventId: () => undefined,
+    getEventType: (_req, payload) => payloadString(payload, 'triggerEvent') || 'unknown',
+  },
+
+  // x-zm-signature: v0=<hex HMAC of "v0:ts:body">
+  zoom: {
+    secretEnvVar: 'ZOOM_WEBHOOK_SECRET_TOKEN',
+    verify: (req, secret) => {
+      const timestamp = header(req, 'x-zm-request-timestamp');
+      if (!isFreshTimestamp(timestamp)) return false;
+
+      const expected = `v0=${hmacHex(secret, `v0:${timestamp}:${req.rawBody.toString('utf8')}`)}`;
+      return safeEqual(header(req, 'x-zm-signature'), expected);
+    },
+    challenge: (payload, secret) => {
+      if (payload.event !== 'endpoint.url_validation') return null;
+      const plainToken = payloadString(payload, 'payload', 'plainToken');
+      return { plainToken, encryptedToken: hmacHex(secret, plainToken || '') };
+    },
+    getEventId: () => undefined,
+    getEventType: (_req, payload) => payloadString(payload, 'event') || 'unknown',
+  },
+
+  // Body is an HS256 JWT signed with the webhook's secret; the claims are the call event
+  dialpad: {
+    secretEnvVar: 'DIALPAD_WEBHOOK_SECRET',
+    verify: (req, secret) => {
+      const [headerPart, claimsPart, signature] = req.rawBody.toString('utf8').trim().split('.');
+      if (!headerPart || !claimsPart || !signature) return false;
+
+      const expected = crypto.createHmac('sha256', secret).update(`${headerPart}.${claimsPart}`).digest('base64url');
+      return safeEqual(signature, expected);
+    },
+    parse: (req) => JSON.parse(Buffer.from(req.rawBody.toString('utf8').trim().split('.')[1], 'base64url').toString('utf8')),
+    getEventId: (_req, payload) => {
+      const callId = payloadString(payload, 'call_id');
+      return callId ? `${callId}:${payloadString(payload, 'state')}` : undefined;
+    },
+    getEventType: (_req, payload) => payloadString(payload, 'state') || 'unknown',
+  },
+
+  // Post-call webhooks aren't signed, so the tenant's URL must be kept private;
+  // retries of the same call and status are stored once
+  autocalls: {
+    unsigned: true,
+    verify: () => true,
+    getEventId: (_req, payload) => {
+      const callId = payloadString(payload, 'call_id') || payloadString(payload, 'id');
+      return callId ? `${callId}:${payloadString(payload, 'status')}` : undefined;
+    },
+    getEventType: (_req, payload) => payloadString(payload, 'status') || 'unknown',
+  },
+
+  // x-vapi-secret: the shared secret itself
+  vapi: {
+    secretEnvVar: 'VAPI_WEBHOOK_SECRET',
+    verify: (req, secret) => safeEqual(header(req, 'x-vapi-secret'), secret),
+    getEventId: () => undefined,
+    getEventType: (_req, payload) => payloadString(payload, 'message', 'type') || 'unknown',
+  },
+};
+
+// ===========================================
+// TENANT WEBHOOK URLS
+// /webhooks/:integrationId/<tenantId>.<HMAC>: a tenant only learns its
+// own URL, so a valid provider signature can't be pointed at another tenant
+// ===========================================
+
+let warnedAboutTokenSecret = false;
+
+function getTenantTokenSecret(): Buffer {
+  const secret = process.env.WEBHOOK_TOKEN_SECRET;
+  if (secret) return Buffer.from(secret);
+
+  const base = process.env.ENCRYPTION_KEY || process.env.ENCRYPTION_KEYS;
+  if (!base) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('WEBHOOK_TOKEN_SECRET (or ENCRYPTION_KEYS) must be set in production');
+    }
+    if (!warnedAboutTokenSecret) {
+      warnedAboutTokenSecret = true;
+      console.warn('⚠️  WEBHOOK_TOKEN_SECRET not set! Deriving the webhook URL key from DATABASE_URL.');
+    }
+  }
+
+  // Derived so it never equals the encryption key itself
+  return crypto.createHash('sha256')
+    .update(`webhook-token:${base || process.env.DATABASE_URL || 'default-fallback-key'}`)
+    .digest();
+}
+
+function tenantTokenSignature(integrationId: string, tenantId: string): string {
+  return crypto.createHmac('sha256', getTenantTokenSecret())
+    .update(`${integrationId}:${tenantId}`)
+    .digest('base64url');
+}
+
+export function requiresTenantToken(integrationId: string): boolean {
+  return !PAYLOAD_TENANT_PROVIDERS.includes(integrationId);
+}
+
+/**
+ * Path a tenant gives the provider for its webhooks
+ */
+export function tenantWebhookPath(integrationId: string, tenantId: string): string {
+  return `/webhooks/${integrationId}/${tenantId}.${tenantTokenSignature(integrationId, tenantId)}`;
+}
+
+/**
+ * Tenant ID from a webhook URL token, or null when it wasn't issued for this integration
+ */
+export function verifyTenantToken(integrationId: string, token: string): string | null {
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const tenantId = token.slice(0, separator);
+  return safeEqual(token.slice(separator + 1), tenantTokenSignature(integrationId, tenantId)) ? tenantId : null;
+}
+
+// ===========================================
+// SECRETS & IDENTITY
+// ===========================================
+
+/**
+ * Secrets a request may be signed with
+ * Platform secrets: env var first, then the platform's IntegrationConfig
+ * credentials (webhookSecret, or Slack's existing signingSecret field).
+ * Per-tenant secrets: webhookSecret on each of the tenant's active connections
+ */
+export async function getWebhookSecrets(integrationId: string, tenantId?: string): Promise<string[]> {
+  const provider = WEBHOOK_PROVIDERS[integrationId];
+  if (!provider) return [];
+
+  if (!provider.secretEnvVar) {
+    if (!tenantId) return [];
+
+    const connections = await db.connection.findMany({
+      where: { tenantId, integrationId, isActive: true, credentialsEncrypted: { not: null } },
+      select: { credentialsEncrypted: true },
+    });
+    return connections
+      .map(connection => retrieveIntegrationCredentials(connection.credentialsEncrypted!).webhookSecret)
+      .filter((secret): secret is string => !!secret);
+  }
+
+  const fromEnv = process.env[provider.secretEnvVar];
+  if (fromEnv) return [fromEnv];
+
+  const config = await db.integrationConfig.findUnique({
+    where: { integrationId },
+    select: { credentialsEncrypted: true },
+  });
+  if (!config?.credentialsEncrypted) return [];
+
+  const credentials = retrieveIntegrationCredentials(config.credentialsEncrypted);
+  const secret = credentials.webhookSecret || credentials.signingSecret;
+  return secret ? [secret] : [];
+}
+
+/**
+ * Providers without event IDs are deduplicated by a hash of the signed body
+ */
+export function getWebhookEventId(provider: WebhookProvider, req: WebhookRequest, payload: WebhookPayload): string {
+  return provider.getEventId(req, payload)
+    || `sha256:${crypto.createHash('sha256').update(req.rawBody).digest('hex')}`;
+}
+
+/**
+ * Find the tenant an event belongs to
+ * Nylas events carry a grant ID and platform billing events a Stripe customer;
+ * other providers need the tenant token from the webhook URL (already verified)
+ */
+export async function resolveWebhookTenant(
+  integrationId: string,
+  payload: WebhookPayload,
+  tokenTenantId?: string
+): Promise<string | null> {
+  if (integrationId === 'nylas') {
+    const grantId = payloadString(payload, 'data', 'object', 'grant_id');
+    if (!grantId) return null;
+
+    const account = await db.account.findUnique({
+      where: { nylasGrantId: grantId },
+      select: { tenantId: true },
+    });
+    if (account) return account.tenantId;
+
+    const tenant = await db.tenant.findUnique({
+      where: { nylasGrantId: grantId },
+      select: { id: true },
+    });
+    return tenant?.id || null;
+  }
+
+  let tenantId = tokenTenantId;
+
+  if (integrationId === 'stripe_billing') {
+    const customer = payloadString(payload, 'data', 'object', 'customer');
+    if (customer) {
+      const tenant = await db.tenant.findUnique({
+        where: { stripeCustomerId: customer },
+        select: { id: true },
+      });
+      if (tenant) return tenant.id;
+    }
+    // Set by lib/billing.ts on objects created in the platform's own account
+    tenantId = payloadString(payload, 'data', 'object', 'metadata', 'tenantId');
+  }
+
+  if (!tenantId) return null;
+
+  const tenant = await db.tenant.findUnique({
+    where: { id: tenantId },
+    select: { id: true },
+  });
+  return tenant?.id || null;
+}
@@ -0,0 +1,58 @@
+// ===========================================
+// ADMIN AUTH TESTS
+// requireAdmin must answer (not hang) when the key lookup fails
+// ===========================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+
+const { db } = await import('../lib/db.js');
+const { requireAdmin } = await import('./auth.js');
+
+function fakeResponse() {
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+function adminRequest(token?: string): Request {
+  return { headers: token ? { authorization: `Bearer ${token}` } : {} } as unknown as Request;
+}
+
+test('requests without an admin key get 401', async () => {
+  const { res, sent } = fakeResponse();
+
+  await requireAdmin()(adminRequest(), res, () => {});
+
+  assert.equal(sent.status, 401);
+});
+
+test('a failing admin key lookup answers 500 instead of hanging', async (t) => {
+  Object.defineProperty(db, 'platformAdminKey', {
+    value: { findUnique: async () => { throw new Error('database unavailable'); } },
+    configurable: true,
+  });
+  t.mock.method(console, 'error', () => {});
+
+  const { res, sent } = fakeResponse();
+  let called = false;
+
+  await requireAdmin()(adminRequest('bm_admin_abc'), res, () => { called = true; });
+
+  assert.equal(called, false);
+  assert.equal(sent.status, 500);
+  assert.equal(sent.body.error, 'database unavailable');
+});
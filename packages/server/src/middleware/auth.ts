@@ -4,7 +4,10 @@
 // ===========================================
 
 import { Request, Response, NextFunction } from 'express';
+import { AdminRole } from '@prisma/client';
 import { validateApiKey, hasScope, ValidatedApiKey } from '../lib/apiKey.js';
+import { validateAdminKey, hasAdminRole, ValidatedAdmin } from '../lib/adminAuth.js';
+import { getSession, DashboardSession } from '../lib/session.js';
 
 // Extend Express Request to include auth info
 declare global {
@@ -12,6 +15,8 @@ declare global {
     interface Request {
       apiKey?: ValidatedApiKey;
       tenantId?: string;
+      admin?: ValidatedAdmin;
+      session?: DashboardSession;
     }
   }
 }
@@ -122,6 +127,57 @@ export function resolveTenantId(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+// ===========================================
+// PLATFORM ADMIN AUTHENTICATION
+// ===========================================
+
+/**
+ * Require a platform admin key (bm_admin_...)
+ * Owners pass every role check; other admins need one of `roles`
+ */
+export function requireAdmin(roles: AdminRole[] = []) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const authHeader = req.headers.authorization;
+    const [scheme, token] = authHeader?.split(' ') || [];
+
+    if (scheme !== 'Bearer' || !token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Missing admin credentials',
+        hint: 'Use: Authorization: Bearer bm_admin_xxxxx',
+      });
+    }
+
+    let admin: ValidatedAdmin | null;
+    try {
+      admin = await validateAdminKey(token);
+    } catch (error) {
+      console.error('Admin key check failed:', error);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check admin key',
+      });
+    }
+
+    if (!admin) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired admin key',
+      });
+    }
+
+    if (roles.length > 0 && !hasAdminRole(admin, roles)) {
+      return res.status(403).json({
+        success: false,
+        error: `Requires admin role: ${Array.from(new Set(['OWNER', ...roles])).join(' or ')}`,
+      });
+    }
+
+    req.admin = admin;
+    next();
+  };
+}
+
 // ===========================================
 // SCOPE MIDDLEWARE HELPERS
 // ===========================================
@@ -137,3 +193,35 @@ export const requireFilesWrite = requireApiKey({ scopes: ['files:write'] });
 export const requireTeamsRead = requireApiKey({ scopes: ['teams:read'] });
 export const requireTeamsWrite = requireApiKey({ scopes: ['teams:write'] });
 export const requireAI = requireApiKey({ scopes: ['ai:*'] });
+
+// ===========================================
+// DASHBOARD SESSION AUTHENTICATION
+// ===========================================
+
+/**
+ * Require a signed-in dashboard user (session cookie)
+ * Sets req.session and req.tenantId
+ */
+export function requireSession() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = await getSession(req);
+
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          error: 'Not signed in',
+        });
+      }
+
+      req.session = session;
+      req.tenantId = session.tenantId;
+      next();
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load session',
+      });
+    }
+  };
+}
@@ -0,0 +1,64 @@
+// ===========================================
+// CSRF MIDDLEWARE
+// The session cookie is SameSite=None in production, so browsers send
+// it on cross-site requests too. Writes that rely on it must come from
+// the dashboard's own origin.
+// ===========================================
+
+import { Request, Response, NextFunction } from 'express';
+import { hasSessionCookie } from '../lib/session.js';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function requestOrigin(req: Request): string | null {
+  const origin = req.headers.origin;
+  if (origin && origin !== 'null') return origin;
+
+  const referer = req.headers.referer;
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return null;
+  }
+}
+
+function trustedOrigins(req: Request): string[] | null {
+  if (!process.env.APP_URL) {
+    // Local development without APP_URL accepts any origin, as CORS does
+    if (process.env.NODE_ENV !== 'production') return null;
+    return [`${req.protocol}://${req.get('host')}`];
+  }
+
+  return [
+    ...process.env.APP_URL.split(',').map(url => url.trim().replace(/\/$/, '')),
+    `${req.protocol}://${req.get('host')}`,
+  ];
+}
+
+/**
+ * Refuses state-changing requests that carry the session cookie unless
+ * their Origin (or Referer) is the dashboard or this server. API key
+ * requests don't send the cookie and aren't affected.
+ */
+export function requireTrustedOrigin() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (SAFE_METHODS.has(req.method) || !hasSessionCookie(req)) {
+      return next();
+    }
+
+    const allowed = trustedOrigins(req);
+    if (!allowed) return next();
+
+    const origin = requestOrigin(req);
+    if (!origin || !allowed.includes(origin)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Cross-site request refused',
+        hint: 'Session requests must come from the dashboard (APP_URL)',
+      });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,31 @@
+// ===========================================
+// QUOTA MIDDLEWARE
+// Enforce the tenant's monthly call quota
+// ===========================================
+
+import { Request, Response, NextFunction } from 'express';
+import { checkQuotaOrAllow, setQuotaHeaders, quotaExceededBody } from '../lib/quota.js';
+
+/**
+ * Use after the tenant is known (requireTenantAccess sets req.tenantId)
+ * Blocked tenants get 402; everyone gets X-Quota-Remaining
+ */
+export function requireQuota() {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.tenantId) {
+      return next();
+    }
+
+    // Don't block calls because the quota lookup failed
+    const status = await checkQuotaOrAllow(req.tenantId);
+    if (status) {
+      setQuotaHeaders(res, status);
+
+      if (!status.allowed) {
+        return res.status(402).json(quotaExceededBody(status));
+      }
+    }
+
+    next();
+  };
+}
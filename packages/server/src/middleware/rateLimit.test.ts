@@ -0,0 +1,136 @@
+// ===========================================
+// RATE LIMIT MIDDLEWARE TESTS
+// Dashboard sessions are limited by their tenant's plan, and
+// integration caps are checked before any plan units are spent
+// ===========================================
+
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { NextFunction, Request, Response } from 'express';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+
+const { db } = await import('../lib/db.js');
+const { MemoryRateLimitStore, setRateLimitStore } = await import('../lib/rateLimitStore.js');
+const { rateLimit } = await import('./rateLimit.js');
+
+let integrationLimits: Record<string, number | null> = {};
+
+function stubDelegate(name: string, value: object) {
+  Object.defineProperty(db, name, { value, configurable: true });
+}
+
+stubDelegate('userSession', {
+  findUnique: async () => ({
+    id: 's1',
+    userId: 'u1',
+    tenantId: 't1',
+    expiresAt: new Date(Date.now() + 60_000),
+    lastSeenAt: new Date(),
+    tenant: { id: 't1', slug: 'acme', plan: 'pro', rateLimitPerMinute: null, isActive: true },
+  }),
+});
+stubDelegate('membership', { findUnique: async () => ({ role: 'owner' }) });
+stubDelegate('integrationConfig', {
+  findUnique: async ({ where }: { where: { integrationId: string } }) => ({
+    rateLimitPerMinute: integrationLimits[where.integrationId] ?? null,
+  }),
+});
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+  integrationLimits = {};
+});
+
+function fakeRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    method: 'GET',
+    path: '/health',
+    headers: {},
+    ip: '203.0.113.7',
+    socket: {},
+    ...overrides,
+  } as unknown as Request;
+}
+
+function sessionRequest(body?: unknown): Request {
+  return fakeRequest({
+    method: body ? 'POST' : 'GET',
+    path: body ? '/call' : '/health',
+    headers: { cookie: 'bm_session=token' },
+    body,
+  });
+}
+
+async function run(req: Request) {
+  const headers: Record<string, unknown> = {};
+  const sent: { status?: number; body?: any; passed: boolean } = { passed: false };
+  const res = {
+    setHeader(name: string, value: unknown) {
+      headers[name] = value;
+    },
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+
+  await rateLimit()(req, res as unknown as Response, (() => { sent.passed = true; }) as NextFunction);
+  return { ...sent, headers };
+}
+
+test('anonymous requests get the default limit, keyed by IP', async () => {
+  const result = await run(fakeRequest());
+
+  assert.equal(result.passed, true);
+  assert.equal(result.headers['X-RateLimit-Limit'], 60);
+});
+
+test('dashboard sessions get their tenant plan limit', async () => {
+  const req = sessionRequest();
+  const result = await run(req);
+
+  assert.equal(result.passed, true);
+  assert.equal(result.headers['X-RateLimit-Limit'], 1000);
+  assert.equal(result.headers['X-RateLimit-Remaining'], 999);
+  // Loaded once here and reused by the routes
+  assert.equal(req.session?.tenantId, 't1');
+});
+
+test('dashboard sessions share one bucket per tenant, not per IP', async () => {
+  await run(sessionRequest());
+  const fromElsewhere = sessionRequest();
+  (fromElsewhere as any).ip = '198.51.100.1';
+
+  const result = await run(fromElsewhere);
+  assert.equal(result.headers['X-RateLimit-Remaining'], 998);
+});
+
+test('integration caps apply to dashboard sessions', async () => {
+  integrationLimits.nylas = 1;
+
+  assert.equal((await run(sessionRequest({ tool: 'list_emails' }))).passed, true);
+
+  const capped = await run(sessionRequest({ tool: 'list_emails' }));
+  assert.equal(capped.passed, false);
+  assert.equal(capped.status, 429);
+  assert.match(capped.body.error, /integration: nylas/);
+});
+
+test('a request refused by an integration cap spends no plan units', async () => {
+  integrationLimits.nylas = 1;
+
+  await run(sessionRequest({ tool: 'list_emails' }));
+  const capped = await run(sessionRequest({ tool: 'list_emails' }));
+  assert.equal(capped.status, 429);
+  assert.equal(capped.headers['X-RateLimit-Remaining'], 999);
+
+  // Only the first call was charged against the plan
+  const next = await run(sessionRequest());
+  assert.equal(next.headers['X-RateLimit-Remaining'], 998);
+});
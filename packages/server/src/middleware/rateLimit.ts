@@ -1,36 +1,127 @@
 // ===========================================
 // RATE LIMITING MIDDLEWARE
-// In-memory rate limiting with plan-based limits
+// Weighted, plan-based limits backed by a shared store
 // ===========================================
 
 import { Request, Response, NextFunction } from 'express';
-
-// Rate limit configuration by plan
-const RATE_LIMITS: Record<string, { requests: number; window: number }> = {
-  free: { requests: 100, window: 60 * 1000 },      // 100 requests per minute
-  pro: { requests: 1000, window: 60 * 1000 },     // 1000 requests per minute
-  enterprise: { requests: 10000, window: 60 * 1000 }, // 10000 requests per minute
-  default: { requests: 60, window: 60 * 1000 },   // 60 requests per minute (no auth)
+import { db } from '../lib/db.js';
+import { getSession, hasSessionCookie } from '../lib/session.js';
+import { getRateLimitStore, RateLimitBucket, RateLimitRule } from '../lib/rateLimitStore.js';
+import { getToolDefinition } from '../tools/index.js';
+import { ToolDefinition } from '../integrations/types.js';
+
+const WINDOW_MS = 60 * 1000;
+
+// Rate limit configuration by plan (weighted units per minute)
+const RATE_LIMITS: Record<string, RateLimitRule> = {
+  free: { limit: 100, windowMs: WINDOW_MS },        // 100 units per minute
+  pro: { limit: 1000, windowMs: WINDOW_MS },        // 1000 units per minute
+  enterprise: { limit: 10000, windowMs: WINDOW_MS }, // 10000 units per minute
+  default: { limit: 60, windowMs: WINDOW_MS },      // 60 units per minute (no auth)
 };
 
-// In-memory store for rate limiting
-// In production, use Redis for distributed rate limiting
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
+// ===========================================
+// TOOL WEIGHTS
+// A tool call costs its rateLimitWeight; every other request costs 1
+// ===========================================
+
+interface JsonRpcCall {
+  method?: string;
+  params?: { name?: string };
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+/**
+ * Tools invoked by this request, from POST /call or MCP tools/call
+ * (single or batched JSON-RPC)
+ */
+function getRequestTools(req: Request): ToolDefinition[] {
+  if (req.method !== 'POST' || !req.body) return [];
 
-// Cleanup old entries periodically
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetAt < now) {
-      rateLimitStore.delete(key);
-    }
+  if (req.path === '/call') {
+    const definition = typeof req.body.tool === 'string' ? getToolDefinition(req.body.tool) : undefined;
+    return definition ? [definition] : [];
+  }
+
+  if (req.path === '/mcp' || req.path === '/mcp/' || req.path === '/mcp/messages') {
+    const messages: JsonRpcCall[] = Array.isArray(req.body) ? req.body : [req.body];
+    return messages
+      .filter(m => m?.method === 'tools/call' && typeof m.params?.name === 'string')
+      .map(m => getToolDefinition(m.params!.name!))
+      .filter((d): d is ToolDefinition => !!d);
+  }
+
+  return [];
+}
+
+export function getToolWeight(tool: ToolDefinition): number {
+  return tool.rateLimitWeight ?? 1;
+}
+
+// ===========================================
+// OVERRIDES
+// Tenant.rateLimitPerMinute replaces the plan limit;
+// IntegrationConfig.rateLimitPerMinute caps each tenant's calls to one integration
+// ===========================================
+
+const INTEGRATION_LIMIT_TTL_MS = 60 * 1000;
+const integrationLimitCache = new Map<string, { limit: number | null; expiresAt: number }>();
+
+async function getIntegrationLimit(integrationId: string): Promise<number | null> {
+  const cached = integrationLimitCache.get(integrationId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.limit;
   }
-}, 60 * 1000); // Clean up every minute
+
+  const config = await db.integrationConfig.findUnique({
+    where: { integrationId },
+    select: { rateLimitPerMinute: true },
+  });
+
+  const limit = config?.rateLimitPerMinute ?? null;
+  integrationLimitCache.set(integrationId, { limit, expiresAt: Date.now() + INTEGRATION_LIMIT_TTL_MS });
+  return limit;
+}
+
+// ===========================================
+// CALLER TENANT
+// API keys carry their tenant; dashboard sessions are looked up here
+// (and kept on req.session for the routes) so they get the plan limit too
+// ===========================================
+
+interface RateLimitTenant {
+  id: string;
+  plan: string;
+  rateLimitPerMinute: number | null;
+}
+
+async function getRequestTenant(req: Request): Promise<RateLimitTenant | null> {
+  if (req.apiKey) return req.apiKey.tenant;
+
+  if (!req.session && hasSessionCookie(req)) {
+    req.session = (await getSession(req)) || undefined;
+  }
+  if (!req.session) return null;
+
+  return {
+    id: req.session.tenantId,
+    plan: req.session.tenantPlan,
+    rateLimitPerMinute: req.session.tenantRateLimitPerMinute,
+  };
+}
+
+function getPlanRule(tenant: RateLimitTenant | null): RateLimitRule {
+  if (tenant?.rateLimitPerMinute) {
+    return { limit: tenant.rateLimitPerMinute, windowMs: WINDOW_MS };
+  }
+
+  return RATE_LIMITS[tenant?.plan || 'default'] || RATE_LIMITS.default;
+}
+
+function setRateLimitHeaders(res: Response, result: { limit: number; remaining: number; resetAt: number }) {
+  res.setHeader('X-RateLimit-Limit', result.limit);
+  res.setHeader('X-RateLimit-Remaining', result.remaining);
+  res.setHeader('X-RateLimit-Reset', Math.ceil(result.resetAt / 1000));
+}
 
 // ===========================================
 // RATE LIMIT MIDDLEWARE
@@ -40,52 +131,83 @@ export function rateLimit(options?: {
   keyGenerator?: (req: Request) => string;
   skip?: (req: Request) => boolean;
 }) {
-  return (req: Request, res: Response, next: NextFunction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
     // Skip if configured
     if (options?.skip?.(req)) {
       return next();
     }
 
-    // Generate rate limit key
-    const key = options?.keyGenerator?.(req) || getRateLimitKey(req);
-
-    // Get plan-based limits
-    const plan = req.apiKey?.tenant?.plan || 'default';
-    const limits = RATE_LIMITS[plan] || RATE_LIMITS.default;
+    try {
+      const store = getRateLimitStore();
+      const tenant = await getRequestTenant(req);
+
+      // Generate rate limit key
+      const key = options?.keyGenerator?.(req) || getRateLimitKey(req, tenant);
+      const plan = tenant?.plan || 'default';
+      const rule = getPlanRule(tenant);
+
+      const requestTools = getRequestTools(req);
+      const cost = requestTools.length > 0
+        ? requestTools.reduce((sum, tool) => sum + getToolWeight(tool), 0)
+        : 1;
+
+      // Per-integration caps apply per tenant, on top of the plan limit
+      const integrationCosts = new Map<string, number>();
+      if (tenant) {
+        for (const tool of requestTools) {
+          integrationCosts.set(tool.integration, (integrationCosts.get(tool.integration) || 0) + getToolWeight(tool));
+        }
+      }
 
-    const now = Date.now();
-    let entry = rateLimitStore.get(key);
+      const buckets: RateLimitBucket[] = [{ key, cost, rule }];
+      const cappedIntegrations: string[] = [];
+      for (const [integration, integrationCost] of integrationCosts) {
+        const integrationLimit = await getIntegrationLimit(integration);
+        if (!integrationLimit) continue;
+
+        cappedIntegrations.push(integration);
+        buckets.push({
+          key: `integration:${integration}:tenant:${tenant!.id}`,
+          cost: integrationCost,
+          rule: { limit: integrationLimit, windowMs: WINDOW_MS },
+        });
+      }
 
-    // Initialize or reset if window expired
-    if (!entry || entry.resetAt < now) {
-      entry = {
-        count: 0,
-        resetAt: now + limits.window,
-      };
-    }
+      // Nothing is consumed unless the plan and every integration cap allow it
+      const [result, ...integrationResults] = await store.consumeAll(buckets);
+      setRateLimitHeaders(res, result);
+
+      // Check if over limit
+      if (!result.allowed) {
+        res.setHeader('Retry-After', result.retryAfter);
+
+        return res.status(429).json({
+          success: false,
+          error: 'Too many requests',
+          retryAfter: result.retryAfter,
+          limit: result.limit,
+          cost,
+          plan,
+          hint: plan === 'free' ? 'Upgrade to Pro for higher limits' : undefined,
+        });
+      }
 
-    // Increment count
-    entry.count++;
-    rateLimitStore.set(key, entry);
-
-    // Set rate limit headers
-    res.setHeader('X-RateLimit-Limit', limits.requests);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, limits.requests - entry.count));
-    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
-
-    // Check if over limit
-    if (entry.count > limits.requests) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-      res.setHeader('Retry-After', retryAfter);
-
-      return res.status(429).json({
-        success: false,
-        error: 'Too many requests',
-        retryAfter,
-        limit: limits.requests,
-        plan,
-        hint: plan === 'free' ? 'Upgrade to Pro for higher limits' : undefined,
-      });
+      const rejected = integrationResults.findIndex(r => !r.allowed);
+      if (rejected !== -1) {
+        const integrationResult = integrationResults[rejected];
+        res.setHeader('Retry-After', integrationResult.retryAfter);
+
+        return res.status(429).json({
+          success: false,
+          error: `Rate limit exceeded for integration: ${cappedIntegrations[rejected]}`,
+          retryAfter: integrationResult.retryAfter,
+          limit: integrationResult.limit,
+          cost: buckets[rejected + 1].cost,
+        });
+      }
+    } catch (error) {
+      // Never block traffic because the limiter itself failed
+      console.error('Rate limit error:', error);
     }
 
     next();
@@ -96,11 +218,14 @@ export function rateLimit(options?: {
 // KEY GENERATORS
 // ===========================================
 
-function getRateLimitKey(req: Request): string {
-  // Use API key if available, otherwise use IP
+function getRateLimitKey(req: Request, tenant: RateLimitTenant | null): string {
+  // Use API key if available, then the session's tenant, otherwise IP
   if (req.apiKey) {
     return `apikey:${req.apiKey.id}`;
   }
+  if (tenant) {
+    return `tenant:${tenant.id}`;
+  }
 
   // Fall back to IP address
   const ip = req.ip ||
@@ -139,42 +264,33 @@ export function rateLimitByApiKey() {
 
 // Stricter limit for expensive operations (AI, send email)
 export function strictRateLimit() {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const plan = req.apiKey?.tenant?.plan || 'default';
-    const limits: Record<string, { requests: number; window: number }> = {
-      free: { requests: 10, window: 60 * 1000 },
-      pro: { requests: 100, window: 60 * 1000 },
-      enterprise: { requests: 1000, window: 60 * 1000 },
-      default: { requests: 5, window: 60 * 1000 },
-    };
+  const limits: Record<string, RateLimitRule> = {
+    free: { limit: 10, windowMs: WINDOW_MS },
+    pro: { limit: 100, windowMs: WINDOW_MS },
+    enterprise: { limit: 1000, windowMs: WINDOW_MS },
+    default: { limit: 5, windowMs: WINDOW_MS },
+  };
 
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const plan = req.apiKey?.tenant?.plan || 'default';
     const key = `strict:${req.apiKey?.id || req.ip || 'unknown'}`;
-    const limit = limits[plan] || limits.default;
-
-    const now = Date.now();
-    let entry = rateLimitStore.get(key);
-
-    if (!entry || entry.resetAt < now) {
-      entry = { count: 0, resetAt: now + limit.window };
-    }
 
-    entry.count++;
-    rateLimitStore.set(key, entry);
+    try {
+      const result = await getRateLimitStore().consume(key, 1, limits[plan] || limits.default);
+      setRateLimitHeaders(res, result);
 
-    res.setHeader('X-RateLimit-Limit', limit.requests);
-    res.setHeader('X-RateLimit-Remaining', Math.max(0, limit.requests - entry.count));
-    res.setHeader('X-RateLimit-Reset', Math.ceil(entry.resetAt / 1000));
+      if (!result.allowed) {
+        res.setHeader('Retry-After', result.retryAfter);
 
-    if (entry.count > limit.requests) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-      res.setHeader('Retry-After', retryAfter);
-
-      return res.status(429).json({
-        success: false,
-        error: 'Rate limit exceeded for this operation',
-        retryAfter,
-        limit: limit.requests,
-      });
+        return res.status(429).json({
+          success: false,
+          error: 'Rate limit exceeded for this operation',
+          retryAfter: result.retryAfter,
+          limit: result.limit,
+        });
+      }
+    } catch (error) {
+      console.error('Rate limit error:', error);
     }
 
     next();
@@ -183,27 +299,23 @@ export function strictRateLimit() {
 
 // Auth endpoints rate limit (prevent brute force)
 export function authRateLimit() {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const key = `auth:${req.ip || 'unknown'}`;
-    const limit = { requests: 20, window: 60 * 1000 }; // 20 per minute
-
-    const now = Date.now();
-    let entry = rateLimitStore.get(key);
+  const rule: RateLimitRule = { limit: 20, windowMs: WINDOW_MS }; // 20 per minute
 
-    if (!entry || entry.resetAt < now) {
-      entry = { count: 0, resetAt: now + limit.window };
-    }
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = `auth:${req.ip || 'unknown'}`;
 
-    entry.count++;
-    rateLimitStore.set(key, entry);
+    try {
+      const result = await getRateLimitStore().consume(key, 1, rule);
 
-    if (entry.count > limit.requests) {
-      const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-      return res.status(429).json({
-        success: false,
-        error: 'Too many authentication attempts',
-        retryAfter,
-      });
+      if (!result.allowed) {
+        return res.status(429).json({
+          success: false,
+          error: 'Too many authentication attempts',
+          retryAfter: result.retryAfter,
+        });
+      }
+    } catch (error) {
+      console.error('Rate limit error:', error);
     }
 
     next();
@@ -0,0 +1,32 @@
+// ===========================================
+// REQUEST ID MIDDLEWARE
+// Tag every request so activity log entries can be traced back to it
+// ===========================================
+
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Callers may pass their own ID; anything odd is replaced
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Uses the caller's X-Request-Id or generates one, and echoes it back
+ */
+export function requestId() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers['x-request-id'];
+    const id = typeof header === 'string' && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+
+    req.requestId = id;
+    res.setHeader('X-Request-Id', id);
+    next();
+  };
+}
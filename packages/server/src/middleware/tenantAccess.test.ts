@@ -0,0 +1,137 @@
+// ===========================================
+// TENANT ACCESS TESTS
+// Every :tenantId route must be in the route tables, and the
+// param handler must answer (not hang) when lookups fail
+// ===========================================
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response, Router } from 'express';
+
+// The Prisma client needs a URL to construct; nothing here connects
+process.env.DATABASE_URL ??= 'postgresql://localhost:5432/test';
+
+const { db } = await import('../lib/db.js');
+const { AVAILABLE_SCOPES } = await import('../lib/apiKey.js');
+const { ROLE_PERMISSIONS } = await import('../lib/memberships.js');
+const {
+  TENANT_ROUTE_SCOPES,
+  TENANT_ROUTE_PERMISSIONS,
+  findUnmappedTenantRoutes,
+  requireTenantAccess,
+} = await import('./tenantAccess.js');
+
+// Same mount points as index.ts
+async function tenantRouters(): Promise<Record<string, Router>> {
+  const load = async (path: string) => (await import(path)).default as Router;
+
+  return {
+    '/auth': await load('../routes/auth.js'),
+    '/integrations': await load('../routes/integrations.js'),
+    '/api-keys': await load('../routes/apiKeys.js'),
+    '/folders': await load('../routes/folders.js'),
+    '/emails-sync': await load('../routes/emails.js'),
+    '/contacts-sync': await load('../routes/contacts.js'),
+    '/calendar-sync': await load('../routes/calendar.js'),
+    '/connections': await load('../routes/connections.js'),
+    '/webhook-endpoints': await load('../routes/webhookEndpoints.js'),
+    '/members': await load('../routes/members.js'),
+    '/jobs': await load('../routes/jobs.js'),
+    '/sync': await load('../routes/sync.js'),
+    '/activity': await load('../routes/activity.js'),
+  };
+}
+
+function fakeRequest(method: string, baseUrl: string, path: string, headers: Record<string, string> = {}): Request {
+  return {
+    method,
+    baseUrl,
+    path,
+    route: { path },
+    headers,
+  } as unknown as Request;
+}
+
+function fakeResponse() {
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    status(code: number) {
+      sent.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      sent.body = body;
+      return res;
+    },
+  };
+  return { res: res as unknown as Response, sent };
+}
+
+// ===========================================
+// ROUTE TABLES
+// ===========================================
+
+test('every :tenantId route on the routers has a scope mapping', async () => {
+  assert.deepEqual(findUnmappedTenantRoutes(await tenantRouters()), []);
+});
+
+test('route scopes are known scopes', () => {
+  for (const [key, scope] of Object.entries(TENANT_ROUTE_SCOPES)) {
+    if (scope === null || scope === 'any') continue;
+    assert.ok(AVAILABLE_SCOPES.includes(scope), `${key} uses unknown scope ${scope}`);
+  }
+});
+
+test('role permissions only name mapped routes and known permissions', () => {
+  for (const [key, permission] of Object.entries(TENANT_ROUTE_PERMISSIONS)) {
+    assert.ok(key in TENANT_ROUTE_SCOPES, `${key} has a permission but no scope mapping`);
+    if (permission !== null) {
+      assert.ok(permission in ROLE_PERMISSIONS, `${key} uses unknown permission ${permission}`);
+    }
+  }
+});
+
+// ===========================================
+// PARAM HANDLER
+// ===========================================
+
+test('unmapped routes are rejected', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const { res, sent } = fakeResponse();
+  let called = false;
+
+  await requireTenantAccess(fakeRequest('GET', '/nowhere', '/:tenantId'), res, () => { called = true; }, 't1');
+
+  assert.equal(called, false);
+  assert.equal(sent.status, 403);
+});
+
+test('requests without credentials get 401', async () => {
+  const { res, sent } = fakeResponse();
+
+  await requireTenantAccess(fakeRequest('GET', '/connections', '/:tenantId'), res, () => {}, 't1');
+
+  assert.equal(sent.status, 401);
+});
+
+test('a failing API key lookup answers 500 instead of hanging', async (t) => {
+  Object.defineProperty(db, 'apiKey', {
+    value: { findUnique: async () => { throw new Error('database unavailable'); } },
+    configurable: true,
+  });
+  t.mock.method(console, 'error', () => {});
+
+  const { res, sent } = fakeResponse();
+  let called = false;
+
+  await requireTenantAccess(
+    fakeRequest('GET', '/connections', '/:tenantId', { 'x-api-key': 'bm_live_test' }),
+    res,
+    () => { called = true; },
+    't1'
+  );
+
+  assert.equal(called, false);
+  assert.equal(sent.status, 500);
+  assert.equal(sent.body.error, 'database unavailable');
+});
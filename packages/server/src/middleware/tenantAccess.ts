@@ -0,0 +1,339 @@
+// ===========================================
+// TENANT ACCESS MIDDLEWARE
+// Binds every :tenantId route to the caller's tenant
+// ===========================================
+
+import { Request, Response, NextFunction, Router } from 'express';
+import { validateApiKey, hasScope, ValidatedApiKey } from '../lib/apiKey.js';
+import { getSession } from '../lib/session.js';
+import { hasPermission, Permission } from '../lib/memberships.js';
+
+// ===========================================
+// ROUTE TABLE
+// Scope required per route (from AVAILABLE_SCOPES)
+// null = public
+// 'any' = any key for the tenant; the route checks finer scopes itself
+// ===========================================
+
+export const TENANT_ROUTE_SCOPES: Record<string, string | null> = {
+  // Convenience endpoints (index.ts)
+  'GET /emails/:tenantId': 'email:read',
+  'GET /emails/:tenantId/:emailId': 'email:read',
+  'GET /folders/:tenantId': 'email:read',
+  'GET /calendars/:tenantId': 'calendar:read',
+  'GET /events/:tenantId': 'calendar:read',
+  'GET /contacts/:tenantId': 'contacts:read',
+
+  // Email OAuth (routes/auth.ts)
+  'GET /auth/connect/:tenantId': 'email:write',
+  'GET /auth/status/:tenantId': 'email:read',
+  'GET /auth/accounts/:tenantId': 'email:read',
+  'DELETE /auth/accounts/:tenantId/:accountId': 'email:write',
+  'POST /auth/accounts/:tenantId/:accountId/primary': 'email:write',
+  'POST /auth/disconnect/:tenantId': 'email:write',
+
+  // Integration OAuth (routes/integrations.ts)
+  'GET /integrations/:integrationId/connect/:tenantId': '*',
+  'GET /integrations/:integrationId/status/:tenantId': '*',
+  'DELETE /integrations/:integrationId/:tenantId/:credentialId': '*',
+  'GET /integrations/connected/:tenantId': '*',
+
+  // API keys, usage and billing (routes/apiKeys.ts)
+  'GET /api-keys/:tenantId': '*',
+  'POST /api-keys/:tenantId': '*',
+  'POST /api-keys/:tenantId/:keyId/revoke': '*',
+  'DELETE /api-keys/:tenantId/:keyId': '*',
+  'GET /api-keys/:tenantId/scopes': '*',
+  'GET /api-keys/:tenantId/usage': '*',
+  'GET /api-keys/:tenantId/usage/history': '*',
+  'GET /api-keys/:tenantId/billing': '*',
+  'GET /api-keys/:tenantId/invoices': '*',
+
+  // Folder sync (routes/folders.ts)
+  'POST /folders/:tenantId/sync': 'email:write',
+  'POST /folders/:tenantId/initial-sync': 'email:write',
+  'POST /folders/:tenantId/create': 'email:write',
+  'DELETE /folders/:tenantId/:folderId': 'email:write',
+  'POST /folders/:tenantId/find-or-create': 'email:write',
+  'POST /folders/:tenantId/move-email': 'email:write',
+
+  // Email sync (routes/emails.ts)
+  'POST /emails-sync/:tenantId/sync': 'email:write',
+  'POST /emails-sync/:tenantId/initial-sync': 'email:write',
+  'GET /emails-sync/:tenantId/threads': 'email:read',
+  'GET /emails-sync/:tenantId/search': 'email:read',
+
+  // Contact sync (routes/contacts.ts)
+  'POST /contacts-sync/:tenantId/sync': 'contacts:write',
+  'POST /contacts-sync/:tenantId/initial-sync': 'contacts:write',
+  'GET /contacts-sync/:tenantId': 'contacts:read',
+  'GET /contacts-sync/:tenantId/search': 'contacts:read',
+  'GET /contacts-sync/:tenantId/:contactId': 'contacts:read',
+  'POST /contacts-sync/:tenantId/create': 'contacts:write',
+  'PUT /contacts-sync/:tenantId/:contactId': 'contacts:write',
+  'DELETE /contacts-sync/:tenantId/:contactId': 'contacts:write',
+
+  // Calendar sync (routes/calendar.ts)
+  'POST /calendar-sync/:tenantId/sync': 'calendar:write',
+  'POST /calendar-sync/:tenantId/initial-sync': 'calendar:write',
+  'POST /calendar-sync/:tenantId/:calendarId/sync-events': 'calendar:write',
+  'GET /calendar-sync/:tenantId': 'calendar:read',
+  'GET /calendar-sync/:tenantId/upcoming': 'calendar:read',
+  'GET /calendar-sync/:tenantId/events': 'calendar:read',
+  'GET /calendar-sync/:tenantId/:calendarId/events': 'calendar:read',
+  'GET /calendar-sync/:tenantId/event/:eventId': 'calendar:read',
+  'POST /calendar-sync/:tenantId/events/create': 'calendar:write',
+  'PUT /calendar-sync/:tenantId/event/:eventId': 'calendar:write',
+  'DELETE /calendar-sync/:tenantId/event/:eventId': 'calendar:write',
+
+  // Customer connections (routes/connections.ts)
+  'GET /connections/:tenantId': '*',
+  'GET /connections/:tenantId/usage': '*',
+  'GET /connections/:tenantId/health': '*',
+  'GET /connections/:tenantId/:integrationId': '*',
+  'POST /connections/:tenantId/:integrationId': '*',
+  'PUT /connections/:tenantId/:integrationId/:connectionId': '*',
+  'DELETE /connections/:tenantId/:integrationId/:connectionId': '*',
+  'POST /connections/:tenantId/:integrationId/:connectionId/test': '*',
+
+  // Outbound webhooks (routes/webhookEndpoints.ts)
+  'GET /webhook-endpoints/:tenantId/event-types': '*',
+  'GET /webhook-endpoints/:tenantId/inbound': '*',
+  'GET /webhook-endpoints/:tenantId/deliveries': '*',
+  'POST /webhook-endpoints/:tenantId/deliveries/:deliveryId/retry': '*',
+  'GET /webhook-endpoints/:tenantId': '*',
+  'POST /webhook-endpoints/:tenantId': '*',
+  'PUT /webhook-endpoints/:tenantId/:endpointId': '*',
+  'DELETE /webhook-endpoints/:tenantId/:endpointId': '*',
+  'POST /webhook-endpoints/:tenantId/:endpointId/test': '*',
+
+  // Background jobs (routes/jobs.ts)
+  'GET /jobs/:tenantId': 'any',
+  'GET /jobs/:tenantId/:jobId': 'any',
+  'POST /jobs/:tenantId/:jobId/cancel': 'any',
+
+  // Sync status (routes/sync.ts)
+  'GET /sync/:tenantId': 'any',
+
+  // Activity log (routes/activity.ts)
+  'GET /activity/:tenantId': '*',
+  'GET /activity/:tenantId/export': '*',
+
+  // Team members (routes/members.ts)
+  'GET /members/:tenantId': '*',
+  'POST /members/:tenantId/invitations': '*',
+  'POST /members/:tenantId/invitations/:invitationId/resend': '*',
+  'DELETE /members/:tenantId/invitations/:invitationId': '*',
+  'PUT /members/:tenantId/:membershipId': '*',
+  'DELETE /members/:tenantId/:membershipId': '*',
+};
+
+// ===========================================
+// ROLE TABLE
+// Permission a dashboard user's role needs per route
+// null = checked by the route itself
+// Unlisted GET routes are open to every member; other
+// unlisted routes need tenant:write
+// ===========================================
+
+export const TENANT_ROUTE_PERMISSIONS: Record<string, Permission | null> = {
+  // Connection management
+  'GET /auth/connect/:tenantId': 'connections:manage',
+  'GET /integrations/:integrationId/connect/:tenantId': 'connections:manage',
+  'DELETE /auth/accounts/:tenantId/:accountId': 'connections:manage',
+  'POST /auth/accounts/:tenantId/:accountId/primary': 'connections:manage',
+  'POST /auth/disconnect/:tenantId': 'connections:manage',
+  'DELETE /integrations/:integrationId/:tenantId/:credentialId': 'connections:manage',
+  'POST /connections/:tenantId/:integrationId': 'connections:manage',
+  'PUT /connections/:tenantId/:integrationId/:connectionId': 'connections:manage',
+  'DELETE /connections/:tenantId/:integrationId/:connectionId': 'connections:manage',
+  'POST /connections/:tenantId/:integrationId/:connectionId/test': 'connections:manage',
+
+  // API keys and billing
+  'POST /api-keys/:tenantId': 'api_keys:manage',
+  'POST /api-keys/:tenantId/:keyId/revoke': 'api_keys:manage',
+  'DELETE /api-keys/:tenantId/:keyId': 'api_keys:manage',
+  'GET /api-keys/:tenantId/billing': 'billing:view',
+  'GET /api-keys/:tenantId/invoices': 'billing:view',
+
+  // Outbound webhooks
+  'GET /webhook-endpoints/:tenantId/inbound': 'webhooks:manage',
+  'POST /webhook-endpoints/:tenantId/deliveries/:deliveryId/retry': 'webhooks:manage',
+  'POST /webhook-endpoints/:tenantId': 'webhooks:manage',
+  'PUT /webhook-endpoints/:tenantId/:endpointId': 'webhooks:manage',
+  'DELETE /webhook-endpoints/:tenantId/:endpointId': 'webhooks:manage',
+  'POST /webhook-endpoints/:tenantId/:endpointId/test': 'webhooks:manage',
+
+  // Team members
+  'POST /members/:tenantId/invitations': 'members:manage',
+  'POST /members/:tenantId/invitations/:invitationId/resend': 'members:manage',
+  'DELETE /members/:tenantId/invitations/:invitationId': 'members:manage',
+  'PUT /members/:tenantId/:membershipId': 'members:manage',
+  'DELETE /members/:tenantId/:membershipId': null, // Anyone may leave
+};
+
+function routePermission(key: string): Permission | null {
+  if (key in TENANT_ROUTE_PERMISSIONS) return TENANT_ROUTE_PERMISSIONS[key];
+  return key.startsWith('GET ') ? null : 'tenant:write';
+}
+
+function routeKey(req: Request): string {
+  // HEAD requests are served by GET routes
+  const method = req.method === 'HEAD' ? 'GET' : req.method;
+  return `${method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+}
+
+// ===========================================
+// CREDENTIALS
+// ===========================================
+
+export interface TenantCaller {
+  tenantId: string;
+  tenantSlug: string;
+  apiKey?: ValidatedApiKey; // Unset for dashboard sessions
+  userId?: string;          // Set for dashboard sessions
+  role?: string;            // Membership role, set for dashboard sessions
+}
+
+/**
+ * Identify the tenant behind a request: API key first, then dashboard session
+ */
+export async function resolveTenantCaller(req: Request): Promise<TenantCaller | null> {
+  let apiKey = req.apiKey || null;
+
+  const header = req.headers['x-api-key'];
+  if (!apiKey && typeof header === 'string' && header) {
+    apiKey = await validateApiKey(header);
+  }
+
+  if (apiKey) {
+    return { tenantId: apiKey.tenant.id, tenantSlug: apiKey.tenant.slug, apiKey };
+  }
+
+  const session = req.session || await getSession(req);
+  if (session) {
+    req.session = session;
+    return {
+      tenantId: session.tenantId,
+      tenantSlug: session.tenantSlug,
+      userId: session.userId,
+      role: session.role,
+    };
+  }
+
+  return null;
+}
+
+// URL params and tool params may use either the tenant ID or its slug
+export function callerOwnsTenant(caller: TenantCaller, tenantParam: string): boolean {
+  return tenantParam === caller.tenantId || tenantParam === caller.tenantSlug;
+}
+
+// ===========================================
+// PARAM HANDLER
+// ===========================================
+
+/**
+ * router.param('tenantId', requireTenantAccess)
+ * Runs before any handler on a route with :tenantId; routes missing
+ * from TENANT_ROUTE_SCOPES are rejected so new routes fail closed
+ */
+export async function requireTenantAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  tenantParam: string
+) {
+  const key = routeKey(req);
+
+  if (!(key in TENANT_ROUTE_SCOPES)) {
+    console.error(`No tenant scope mapping for route: ${key}`);
+    return res.status(403).json({
+      success: false,
+      error: 'Route is not available',
+    });
+  }
+
+  const scope = TENANT_ROUTE_SCOPES[key];
+  if (scope === null) {
+    return next();
+  }
+
+  // Key and session lookups hit the database; a failure there must not hang the request
+  let caller: TenantCaller | null;
+  try {
+    caller = await resolveTenantCaller(req);
+  } catch (error) {
+    console.error(`Tenant access check failed for ${key}:`, error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check tenant access',
+    });
+  }
+
+  if (!caller) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+      hint: 'Use: Authorization: Bearer bm_live_xxxxx',
+    });
+  }
+
+  if (!callerOwnsTenant(caller, tenantParam)) {
+    return res.status(403).json({
+      success: false,
+      error: caller.apiKey ? 'API key does not belong to this tenant' : 'Session does not belong to this tenant',
+    });
+  }
+
+  // API keys are limited by scope, dashboard sessions by the member's role
+  if (caller.apiKey && scope !== 'any' && !hasScope(caller.apiKey, scope)) {
+    return res.status(403).json({
+      success: false,
+      error: `Missing required scope: ${scope}`,
+      hint: `This API key needs the "${scope}" scope`,
+    });
+  }
+
+  const permission = routePermission(key);
+  if (caller.role && permission && !hasPermission(caller.role, permission)) {
+    return res.status(403).json({
+      success: false,
+      error: `Your role (${caller.role}) does not allow this action`,
+      hint: `Requires the "${permission}" permission; ask a team owner or admin`,
+    });
+  }
+
+  if (caller.apiKey) req.apiKey = caller.apiKey;
+  req.tenantId = caller.tenantId;
+  next();
+}
+
+// ===========================================
+// COVERAGE CHECK
+// ===========================================
+
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean> };
+}
+
+/**
+ * List :tenantId routes on the given routers that have no entry in TENANT_ROUTE_SCOPES
+ * Startup refuses to run with any, so a forgotten mapping can't reach production
+ */
+export function findUnmappedTenantRoutes(mounts: Record<string, Router>): string[] {
+  const missing: string[] = [];
+
+  for (const [mountPath, router] of Object.entries(mounts)) {
+    for (const layer of router.stack as RouteLayer[]) {
+      if (!layer.route || !layer.route.path.includes(':tenantId')) continue;
+
+      for (const method of Object.keys(layer.route.methods)) {
+        const key = `${method.toUpperCase()} ${mountPath}${layer.route.path}`;
+        if (!(key in TENANT_ROUTE_SCOPES)) missing.push(key);
+      }
+    }
+  }
+
+  return missing;
+}
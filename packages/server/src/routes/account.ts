@@ -0,0 +1,544 @@
+// ===========================================
+// ACCOUNT ROUTES
+// Dashboard sign-up, sign-in, email verification, password reset
+// and moving between the teams a user belongs to
+// ===========================================
+
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { db } from '../lib/db.js';
+import {
+  createSession,
+  destroySession,
+  destroyUserSessions,
+  setSessionCookie,
+  clearSessionCookie,
+  getSession,
+  switchSessionTenant,
+} from '../lib/session.js';
+import {
+  validatePassword,
+  hashPassword,
+  verifyPassword,
+  verifyDummyPassword,
+  normalizeEmail,
+  createPendingUser,
+  createPendingTenant,
+  createUser,
+  getPublicUser,
+  consumeUserToken,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+} from '../lib/users.js';
+import { findPendingInvitation, acceptInvitation, getMembership } from '../lib/memberships.js';
+import { authRateLimit } from '../middleware/rateLimit.js';
+import { requireSession } from '../middleware/auth.js';
+
+const router = Router();
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ===========================================
+// POST /account/signup
+// Create a user and email them a verification link; their tenant is
+// created once they verify. With an invitationToken the user joins the
+// inviting tenant and is signed in straight away instead.
+// ===========================================
+router.post('/signup', authRateLimit(), async (req, res) => {
+  try {
+    const { email, password, name, companyName, invitationToken } = req.body;
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({ success: false, error: 'A valid email is required' });
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ success: false, error: passwordError });
+    }
+
+    let invitation = null;
+    if (invitationToken !== undefined) {
+      invitation = typeof invitationToken === 'string' ? await findPendingInvitation(invitationToken) : null;
+      if (!invitation) {
+        return res.status(400).json({ success: false, error: 'Invitation is invalid or has expired' });
+      }
+      if (invitation.email !== normalizeEmail(email)) {
+        return res.status(400).json({
+          success: false,
+          error: `This invitation was sent to ${invitation.email}`,
+        });
+      }
+    }
+
+    let user;
+    let tenantId: string;
+    try {
+      if (!invitation) {
+        user = await createPendingUser({ email, password, name, companyName });
+        await sendVerificationEmail(user);
+
+        return res.status(201).json({
+          success: true,
+          verificationRequired: true,
+          message: `We sent a link to ${user.email}. Open it to finish creating your account.`,
+        });
+      }
+
+      // The invitation link arrived by email, so the address is already proven
+      user = await createUser({ email, password, name, emailVerified: true });
+      const accepted = await acceptInvitation(invitationToken, user);
+      if ('error' in accepted) {
+        await db.user.delete({ where: { id: user.id } });
+        return res.status(400).json({ success: false, error: accepted.error });
+      }
+      tenantId = accepted.tenantId;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({
+          success: false,
+          error: 'An account with this email already exists',
+          hint: 'Sign in or reset your password',
+        });
+      }
+      throw error;
+    }
+
+    const token = await createSession(user.id, tenantId, req);
+    setSessionCookie(res, token);
+
+    res.status(201).json({
+      success: true,
+      user: await getPublicUser(user.id, tenantId),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create account',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/login
+// ===========================================
+router.post('/login', authRateLimit(), async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ success: false, error: 'Email and password are required' });
+    }
+
+    const user = await db.user.findUnique({
+      where: { email: normalizeEmail(email) },
+      include: {
+        memberships: {
+          where: { tenant: { isActive: true } },
+          orderBy: { createdAt: 'asc' },
+          select: { tenantId: true },
+        },
+      },
+    });
+
+    if (!user) {
+      await verifyDummyPassword(password);
+      return res.status(401).json({ success: false, error: 'Invalid email or password' });
+    }
+
+    if (!(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ success: false, error: 'Invalid email or password' });
+    }
+
+    // Sessions start in the oldest team; the dashboard switches from there
+    const membership = user.memberships[0];
+    if (!membership && user.pendingTenantName) {
+      return res.status(403).json({
+        success: false,
+        error: 'Verify your email to finish creating your account',
+        hint: 'Open the link we emailed you, or request a new one',
+      });
+    }
+    if (!membership) {
+      return res.status(403).json({
+        success: false,
+        error: 'You are not a member of any active team',
+        hint: 'Ask a team owner for a new invitation',
+      });
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    const token = await createSession(user.id, membership.tenantId, req);
+    setSessionCookie(res, token);
+
+    res.json({
+      success: true,
+      user: await getPublicUser(user.id, membership.tenantId),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sign in',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/logout
+// ===========================================
+router.post('/logout', async (req, res) => {
+  try {
+    const session = await getSession(req);
+    if (session) {
+      await destroySession(session.sessionId);
+    }
+
+    clearSessionCookie(res);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sign out',
+    });
+  }
+});
+
+// ===========================================
+// GET /account/me
+// The signed-in user and the tenant the session acts for
+// ===========================================
+router.get('/me', requireSession(), async (req, res) => {
+  try {
+    const user = await getPublicUser(req.session!.userId, req.session!.tenantId);
+
+    if (!user) {
+      clearSessionCookie(res);
+      return res.status(401).json({ success: false, error: 'Not signed in' });
+    }
+
+    res.json({ success: true, user });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load account',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/switch-tenant
+// Move the session to another team the user belongs to
+// ===========================================
+router.post('/switch-tenant', requireSession(), async (req, res) => {
+  try {
+    const { tenantId } = req.body;
+
+    if (typeof tenantId !== 'string' || !tenantId) {
+      return res.status(400).json({ success: false, error: 'Missing required field: tenantId' });
+    }
+
+    const membership = await getMembership(req.session!.userId, tenantId);
+    const user = membership && await getPublicUser(req.session!.userId, tenantId);
+    if (!user) {
+      return res.status(403).json({ success: false, error: 'You are not a member of this team' });
+    }
+
+    await switchSessionTenant(req.session!.sessionId, tenantId);
+
+    res.json({ success: true, user });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to switch team',
+    });
+  }
+});
+
+// ===========================================
+// GET /account/invitations/:token
+// Preview an invitation before signing up or accepting
+// ===========================================
+router.get('/invitations/:token', authRateLimit(), async (req, res) => {
+  try {
+    const invitation = await findPendingInvitation(req.params.token);
+
+    if (!invitation) {
+      return res.status(404).json({ success: false, error: 'Invitation is invalid or has expired' });
+    }
+
+    const existingUser = await db.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+
+    res.json({
+      success: true,
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        tenantName: invitation.tenant.name,
+        expiresAt: invitation.expiresAt,
+        hasAccount: !!existingUser,
+      },
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load invitation',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/invitations/accept
+// Join the inviting team as the signed-in user and switch to it
+// ===========================================
+router.post('/invitations/accept', authRateLimit(), requireSession(), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ success: false, error: 'Missing required field: token' });
+    }
+
+    const user = await db.user.findUnique({ where: { id: req.session!.userId } });
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not signed in' });
+    }
+    if (!user.emailVerifiedAt) {
+      return res.status(403).json({
+        success: false,
+        error: 'Verify your email before joining another team',
+        hint: 'Use the link we emailed you, or resend it from the dashboard',
+      });
+    }
+
+    const accepted = await acceptInvitation(token, user);
+    if ('error' in accepted) {
+      return res.status(400).json({ success: false, error: accepted.error });
+    }
+
+    await switchSessionTenant(req.session!.sessionId, accepted.tenantId);
+
+    res.json({
+      success: true,
+      user: await getPublicUser(user.id, accepted.tenantId),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to accept invitation',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/verify-email
+// Redeem the token from the verification email
+// ===========================================
+router.post('/verify-email', authRateLimit(), async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ success: false, error: 'Missing required field: token' });
+    }
+
+    const userId = await consumeUserToken(token, 'verify_email');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Verification link is invalid or has expired',
+        hint: 'Request a new verification email from the dashboard',
+      });
+    }
+
+    await db.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    // A new sign-up's tenant is only created now
+    const tenantId = await createPendingTenant(userId);
+
+    res.json({
+      success: true,
+      message: tenantId ? 'Email verified. Sign in to get started.' : 'Email verified',
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to verify email',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/resend-verification
+// Signed-in users, or { email } for sign-ups that can't sign in until
+// they verify (answered the same either way so it doesn't reveal accounts)
+// ===========================================
+router.post('/resend-verification', authRateLimit(), async (req, res) => {
+  try {
+    const session = await getSession(req);
+
+    if (!session) {
+      const { email } = req.body;
+      if (typeof email !== 'string' || !email) {
+        return res.status(400).json({ success: false, error: 'Missing required field: email' });
+      }
+
+      const pending = await db.user.findUnique({ where: { email: normalizeEmail(email) } });
+      if (pending && !pending.emailVerifiedAt) {
+        await sendVerificationEmail(pending);
+      }
+      return res.json({
+        success: true,
+        message: 'If that account still needs verifying, a new link is on its way',
+      });
+    }
+
+    const user = await db.user.findUnique({ where: { id: session.userId } });
+
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not signed in' });
+    }
+    if (user.emailVerifiedAt) {
+      return res.json({ success: true, message: 'Email is already verified' });
+    }
+
+    const sent = await sendVerificationEmail(user);
+    if (!sent) {
+      return res.status(503).json({
+        success: false,
+        error: 'Could not send the verification email',
+        hint: 'Set RESEND_API_KEY to enable platform emails',
+      });
+    }
+
+    res.json({ success: true, message: `Verification email sent to ${user.email}` });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send verification email',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/forgot-password
+// Always succeeds so the response doesn't reveal which emails have accounts
+// ===========================================
+router.post('/forgot-password', authRateLimit(), async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (typeof email !== 'string' || !email) {
+      return res.status(400).json({ success: false, error: 'Missing required field: email' });
+    }
+
+    const user = await db.user.findUnique({ where: { email: normalizeEmail(email) } });
+    if (user) {
+      sendPasswordResetEmail(user).catch(() => {});
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link is on its way',
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start password reset',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/reset-password
+// Set a new password with the emailed token; signs out every session
+// ===========================================
+router.post('/reset-password', authRateLimit(), async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ success: false, error: 'Missing required field: token' });
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return res.status(400).json({ success: false, error: passwordError });
+    }
+
+    const userId = await consumeUserToken(token, 'reset_password');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Reset link is invalid or has expired',
+        hint: 'Request a new password reset email',
+      });
+    }
+
+    // Receiving the email proves ownership of the address
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        passwordHash: await hashPassword(password),
+        emailVerifiedAt: new Date(),
+      },
+    });
+    await destroyUserSessions(userId);
+    clearSessionCookie(res);
+
+    res.json({ success: true, message: 'Password updated. Sign in with your new password.' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset password',
+    });
+  }
+});
+
+// ===========================================
+// POST /account/change-password
+// Signs out the user's other sessions
+// ===========================================
+router.post('/change-password', authRateLimit(), requireSession(), async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ success: false, error: passwordError });
+    }
+
+    const user = await db.user.findUnique({ where: { id: req.session!.userId } });
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Not signed in' });
+    }
+
+    if (typeof currentPassword !== 'string' || !(await verifyPassword(currentPassword, user.passwordHash))) {
+      return res.status(400).json({ success: false, error: 'Current password is incorrect' });
+    }
+
+    await db.user.update({
+      where: { id: user.id },
+      data: { passwordHash: await hashPassword(newPassword) },
+    });
+    await destroyUserSessions(user.id, req.session!.sessionId);
+
+    res.json({ success: true, message: 'Password updated' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to change password',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,122 @@
+// ===========================================
+// ACTIVITY ROUTES
+// Search and export the tenant's tool call audit log
+// ===========================================
+
+import { Router, Request } from 'express';
+import {
+  listActivity,
+  exportActivityCsv,
+  serializeActivity,
+  ActivityFilters,
+  ACTIVITY_SOURCES,
+  ACTIVITY_STATUSES,
+} from '../lib/activity.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+/**
+ * Filters from the query string (?action=&integration=&status=&source=
+ * &apiKeyId=&requestId=&from=&to=); throws on invalid values
+ */
+function parseFilters(req: Request): ActivityFilters {
+  const query = (name: string) => (typeof req.query[name] === 'string' && req.query[name]) || undefined;
+  const date = (name: string) => {
+    const value = query(name);
+    if (!value) return undefined;
+    const parsed = new Date(value);
+    if (isNaN(parsed.getTime())) throw new Error(`${name} must be an ISO date`);
+    return parsed;
+  };
+
+  const status = query('status');
+  if (status && !ACTIVITY_STATUSES.includes(status as typeof ACTIVITY_STATUSES[number])) {
+    throw new Error(`status must be one of: ${ACTIVITY_STATUSES.join(', ')}`);
+  }
+
+  const source = query('source');
+  if (source && !ACTIVITY_SOURCES.includes(source as typeof ACTIVITY_SOURCES[number])) {
+    throw new Error(`source must be one of: ${ACTIVITY_SOURCES.join(', ')}`);
+  }
+
+  return {
+    action: query('action'),
+    integrationId: query('integration'),
+    status,
+    source,
+    apiKeyId: query('apiKeyId'),
+    requestId: query('requestId'),
+    from: date('from'),
+    to: date('to'),
+  };
+}
+
+// ===========================================
+// GET /activity/:tenantId
+// Tool calls, newest first (?cursor=&limit= plus filters)
+// ===========================================
+router.get('/:tenantId', async (req, res) => {
+  let filters: ActivityFilters;
+  try {
+    filters = parseFilters(req);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid filters',
+    });
+  }
+
+  try {
+    const { entries, nextCursor } = await listActivity(req.tenantId!, filters, {
+      cursor: typeof req.query.cursor === 'string' ? req.query.cursor : undefined,
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+
+    res.json({
+      success: true,
+      activity: entries.map(serializeActivity),
+      nextCursor,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list activity',
+    });
+  }
+});
+
+// ===========================================
+// GET /activity/:tenantId/export
+// The same entries as CSV (same filters, no pagination)
+// ===========================================
+router.get('/:tenantId/export', async (req, res) => {
+  let filters: ActivityFilters;
+  try {
+    filters = parseFilters(req);
+  } catch (error) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Invalid filters',
+    });
+  }
+
+  try {
+    const csv = await exportActivityCsv(req.tenantId!, filters);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="activity-${date}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export activity',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,205 @@
+// ===========================================
+// PLATFORM ADMIN ROUTES
+// Admin identity, admin management, and admin keys
+// ===========================================
+
+import { Router } from 'express';
+import { AdminRole } from '@prisma/client';
+import { db } from '../../lib/db.js';
+import { requireAdmin } from '../../middleware/auth.js';
+import { ADMIN_ROLES, createAdminKey } from '../../lib/adminAuth.js';
+
+const router = Router();
+
+// ===========================================
+// GET /admin/me
+// Current admin (used by the dashboard to sign in)
+// ===========================================
+router.get('/me', requireAdmin(), async (req, res) => {
+  res.json({
+    success: true,
+    admin: {
+      id: req.admin!.id,
+      email: req.admin!.email,
+      name: req.admin!.name,
+      role: req.admin!.role,
+    },
+  });
+});
+
+// ===========================================
+// GET /admin/admins
+// List platform admins
+// ===========================================
+router.get('/admins', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const admins = await db.platformAdmin.findMany({
+      orderBy: { createdAt: 'asc' },
+      include: {
+        keys: {
+          where: { isActive: true },
+          select: { id: true, name: true, keyPrefix: true, lastUsedAt: true, expiresAt: true, createdAt: true },
+        },
+      },
+    });
+
+    res.json({ success: true, admins });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list admins',
+    });
+  }
+});
+
+// ===========================================
+// POST /admin/admins
+// Create an admin and their first key
+// ===========================================
+router.post('/admins', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const { email, name, role = 'SUPPORT' } = req.body;
+
+    if (!email) {
+      return res.status(400).json({ success: false, error: 'email is required' });
+    }
+
+    if (!ADMIN_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}`,
+      });
+    }
+
+    const existing = await db.platformAdmin.findUnique({ where: { email } });
+    if (existing) {
+      return res.status(409).json({ success: false, error: 'Admin already exists' });
+    }
+
+    const admin = await db.platformAdmin.create({
+      data: { email, name, role: role as AdminRole },
+    });
+    const { key, keyInfo } = await createAdminKey({ adminId: admin.id, name: 'Default' });
+
+    res.status(201).json({
+      success: true,
+      admin,
+      key,
+      keyInfo,
+      warning: 'Save this key now - it will not be shown again!',
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create admin',
+    });
+  }
+});
+
+// ===========================================
+// PATCH /admin/admins/:id
+// Change role or deactivate
+// ===========================================
+router.patch('/admins/:id', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role, isActive, name } = req.body;
+
+    if (role !== undefined && !ADMIN_ROLES.includes(role)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid role. Must be one of: ${ADMIN_ROLES.join(', ')}`,
+      });
+    }
+
+    // Owners can't lock themselves out
+    if (id === req.admin!.id && ((role && role !== 'OWNER') || isActive === false)) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot demote or deactivate yourself',
+      });
+    }
+
+    const admin = await db.platformAdmin.update({
+      where: { id },
+      data: {
+        role: role !== undefined ? role : undefined,
+        isActive: isActive !== undefined ? isActive : undefined,
+        name: name !== undefined ? name : undefined,
+      },
+    });
+
+    res.json({ success: true, admin });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update admin',
+    });
+  }
+});
+
+// ===========================================
+// POST /admin/admins/:id/keys
+// Issue another key (owners, or an admin for themselves)
+// ===========================================
+router.post('/admins/:id/keys', requireAdmin(), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name = 'Admin Key', expiresInDays } = req.body;
+
+    if (req.admin!.role !== 'OWNER' && req.admin!.id !== id) {
+      return res.status(403).json({ success: false, error: 'Requires admin role: OWNER' });
+    }
+
+    let expiresAt: Date | undefined;
+    if (expiresInDays) {
+      expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+    }
+
+    const { key, keyInfo } = await createAdminKey({ adminId: id, name, expiresAt });
+
+    res.status(201).json({
+      success: true,
+      key,
+      keyInfo,
+      warning: 'Save this key now - it will not be shown again!',
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create admin key',
+    });
+  }
+});
+
+// ===========================================
+// DELETE /admin/keys/:keyId
+// Revoke an admin key
+// ===========================================
+router.delete('/keys/:keyId', requireAdmin(), async (req, res) => {
+  try {
+    const { keyId } = req.params;
+
+    const result = await db.platformAdminKey.updateMany({
+      where: {
+        id: keyId,
+        ...(req.admin!.role === 'OWNER' ? {} : { adminId: req.admin!.id }),
+      },
+      data: { isActive: false },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ success: false, error: 'Admin key not found' });
+    }
+
+    res.json({ success: true, message: 'Admin key revoked' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke admin key',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+// ===========================================
+// BILLING ADMIN ROUTES
+// Invoices across tenants, closing periods and retrying Stripe syncs
+// ===========================================
+
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { db } from '../../lib/db.js';
+import { requireAdmin } from '../../middleware/auth.js';
+import { previousPeriod, isValidPeriod, syncInvoice, serializeInvoice } from '../../lib/billing.js';
+import { enqueueJob, serializeJob } from '../../lib/jobs.js';
+import { stripeIntegration } from '../../integrations/index.js';
+
+const router = Router();
+
+// ===========================================
+// GET /admin/billing/invoices
+// ?period=YYYY-MM&status=&tenantId=
+// ===========================================
+router.get('/invoices', requireAdmin(['BILLING_VIEWER']), async (req, res) => {
+  try {
+    const { period, status, tenantId } = req.query;
+
+    const where: Prisma.InvoiceWhereInput = {};
+    if (typeof period === 'string') where.period = period;
+    if (typeof status === 'string') where.status = status;
+    if (typeof tenantId === 'string') where.tenantId = tenantId;
+
+    const invoices = await db.invoice.findMany({
+      where,
+      include: { lines: true, tenant: { select: { name: true, slug: true } } },
+      orderBy: [{ period: 'desc' }, { createdAt: 'desc' }],
+      take: 200,
+    });
+
+    const closed = await db.billingPeriod.findMany({ orderBy: { period: 'desc' }, take: 12 });
+
+    res.json({
+      success: true,
+      stripeConfigured: stripeIntegration.hasPlatformKey(),
+      periods: closed,
+      invoices: invoices.map(invoice => ({
+        ...serializeInvoice(invoice),
+        tenant: invoice.tenant,
+        syncError: invoice.syncError,
+        downgradedFrom: invoice.downgradedFrom,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list invoices',
+    });
+  }
+});
+
+// ===========================================
+// POST /admin/billing/close
+// Queue closing a period (default: last month)
+// (same as `npm run billing:close`)
+// ===========================================
+router.post('/close', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const period = req.body?.period ?? previousPeriod();
+
+    if (typeof period !== 'string' || !isValidPeriod(period)) {
+      return res.status(400).json({
+        success: false,
+        error: 'period must be YYYY-MM',
+      });
+    }
+
+    if (period >= new Date().toISOString().slice(0, 7)) {
+      return res.status(400).json({
+        success: false,
+        error: `${period} hasn't ended yet`,
+      });
+    }
+
+    const job = await enqueueJob('close_billing_period', { payload: { period }, dedupe: true });
+
+    console.log(`Billing period ${period} close queued by ${req.admin!.email} (job ${job.id})`);
+
+    res.status(202).json({
+      success: true,
+      period,
+      job: serializeJob(job),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to queue billing close',
+    });
+  }
+});
+
+// ===========================================
+// POST /admin/billing/invoices/:id/sync
+// Retry pushing a draft invoice to Stripe
+// ===========================================
+router.post('/invoices/:id/sync', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    if (!stripeIntegration.hasPlatformKey()) {
+      return res.status(503).json({
+        success: false,
+        error: 'Stripe billing not configured',
+        hint: 'Set STRIPE_SECRET_KEY',
+      });
+    }
+
+    const existing = await db.invoice.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    if (existing.status !== 'draft') {
+      return res.status(409).json({
+        success: false,
+        error: `Invoice is already ${existing.status}`,
+      });
+    }
+
+    const invoice = await syncInvoice(existing.id);
+
+    console.log(`Invoice ${invoice.id} synced to Stripe by ${req.admin!.email}`);
+
+    res.json({
+      success: invoice.status !== 'draft',
+      invoice: {
+        ...serializeInvoice(invoice),
+        syncError: invoice.syncError,
+      },
+      ...(invoice.status === 'draft' ? { error: invoice.syncError } : {}),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to sync invoice',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+// ===========================================
+// ENCRYPTION ADMIN ROUTES
+// Key status and re-encryption of stored secrets after a key rotation
+// ===========================================
+
+import { Router } from 'express';
+import { db } from '../../lib/db.js';
+import { requireAdmin } from '../../middleware/auth.js';
+import { getEncryptionStatus } from '../../lib/encryption.js';
+import { summarizeSecretKeys } from '../../lib/secretRotation.js';
+import { enqueueJob, serializeJob } from '../../lib/jobs.js';
+
+const router = Router();
+
+async function latestReencryptJob() {
+  const job = await db.job.findFirst({
+    where: { type: 'reencrypt_secrets', tenantId: null },
+    orderBy: { createdAt: 'desc' },
+  });
+  return job ? serializeJob(job) : null;
+}
+
+// ===========================================
+// GET /admin/encryption
+// Active key, known keys, secrets per key and the last re-encryption
+// ===========================================
+router.get('/', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const [secrets, lastReencrypt] = await Promise.all([summarizeSecretKeys(), latestReencryptJob()]);
+
+    res.json({
+      success: true,
+      ...getEncryptionStatus(),
+      secrets,
+      lastReencrypt,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get encryption status',
+    });
+  }
+});
+
+// ===========================================
+// POST /admin/encryption/reencrypt
+// Queue re-encryption of every secret onto the active key
+// (same as `npm run secrets:reencrypt`)
+// ===========================================
+router.post('/reencrypt', requireAdmin(['OWNER']), async (req, res) => {
+  try {
+    const job = await enqueueJob('reencrypt_secrets', { dedupe: true });
+
+    console.log(`Secret re-encryption queued by ${req.admin!.email} (job ${job.id})`);
+
+    res.status(202).json({
+      success: true,
+      activeKeyId: getEncryptionStatus().activeKeyId,
+      job: serializeJob(job),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to queue re-encryption',
+    });
+  }
+});
+
+export default router;
@@ -1,16 +1,20 @@
 // ===========================================
 // ADMIN INTEGRATION MANAGEMENT ROUTES
 // Configure platform integrations (INCLUDED/BYOK/DISABLED)
+// Requires a platform admin key; see requireAdmin for roles
 // ===========================================
 
 import { Router } from 'express';
 import { db } from '../../lib/db.js';
+import { requireAdmin } from '../../middleware/auth.js';
+import { diffFields, recordAdminAudit } from '../../lib/adminAuth.js';
 import {
   encryptCredentials,
   getMaskedCredentials,
   storeIntegrationCredentials,
 } from '../../lib/encryption.js';
-import { IntegrationMode } from '@prisma/client';
+import { applyMarkup, parseUnitPrices, summarizePlatformUsage, UnitPrices } from '../../lib/usage.js';
+import { IntegrationMode, Prisma } from '@prisma/client';
 
 const router = Router();
 
@@ -36,7 +40,8 @@ export interface IntegrationDefinition {
   }>;
   oauthScopes?: string[];
   defaultMode: IntegrationMode;
-  suggestedPricePerUnit?: number;
+  suggestedPricePerUnit?: number; // Per call
+  suggestedUnitPrices?: UnitPrices; // Per metered unit (replaces the per-call price when set)
 }
 
 export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
@@ -55,6 +60,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     ],
     defaultMode: 'INCLUDED',
     suggestedPricePerUnit: 0.002,
+    suggestedUnitPrices: { input_tokens: 0.0000025, output_tokens: 0.00001, images: 0.04 },
   },
   {
     id: 'anthropic',
@@ -69,6 +75,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     ],
     defaultMode: 'INCLUDED',
     suggestedPricePerUnit: 0.003,
+    suggestedUnitPrices: { input_tokens: 0.000003, output_tokens: 0.000015 },
   },
 
   // Communication
@@ -98,9 +105,11 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     docsUrl: 'https://docs.vapi.ai',
     credentialFields: [
       { key: 'apiKey', label: 'API Key', type: 'password', required: true },
+      { key: 'webhookSecret', label: 'Webhook Signing Secret', type: 'password', required: false },
     ],
     defaultMode: 'INCLUDED',
     suggestedPricePerUnit: 0.05,
+    suggestedUnitPrices: { call_minutes: 0.05 },
   },
   {
     id: 'resend',
@@ -115,6 +124,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     ],
     defaultMode: 'INCLUDED',
     suggestedPricePerUnit: 0.001,
+    suggestedUnitPrices: { emails_sent: 0.001 },
   },
   {
     id: 'dialpad',
@@ -144,6 +154,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     credentialFields: [
       { key: 'clientId', label: 'Client ID', type: 'text', required: true },
       { key: 'apiKey', label: 'API Key', type: 'password', required: true },
+      { key: 'webhookSecret', label: 'Webhook Signing Secret', type: 'password', required: false },
     ],
     oauthScopes: ['email', 'calendar', 'contacts'],
     defaultMode: 'BYOK',
@@ -189,6 +200,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     docsUrl: 'https://cal.com/docs/api-reference',
     credentialFields: [
       { key: 'apiKey', label: 'API Key', type: 'password', required: true, placeholder: 'cal_live_...' },
+      { key: 'webhookSecret', label: 'Webhook Signing Secret', type: 'password', required: false },
     ],
     defaultMode: 'BYOK',
   },
@@ -282,6 +294,7 @@ export const INTEGRATION_CATALOG: IntegrationDefinition[] = [
     credentialFields: [
       { key: 'secretKey', label: 'Secret Key', type: 'password', required: true, placeholder: 'sk_...' },
       { key: 'publishableKey', label: 'Publishable Key', type: 'text', required: false, placeholder: 'pk_...' },
+      { key: 'webhookSecret', label: 'Webhook Signing Secret', type: 'password', required: false },
     ],
     defaultMode: 'BYOK',
   },
@@ -385,11 +398,18 @@ export function getIntegrationDefinition(id: string): IntegrationDefinition | un
   return INTEGRATION_CATALOG.find(i => i.id === id);
 }
 
+/**
+ * Unit prices as a Json column value (empty or null clears it)
+ */
+function unitPriceInput(prices: UnitPrices | null | undefined) {
+  return prices && Object.keys(prices).length > 0 ? (prices as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
 // ===========================================
 // GET /admin/integrations
 // List all integrations with their current config
 // ===========================================
-router.get('/', async (req, res) => {
+router.get('/', requireAdmin(['BILLING_VIEWER', 'SUPPORT']), async (req, res) => {
   try {
     // Get all configs from database
     const configs = await db.integrationConfig.findMany({
@@ -421,6 +441,8 @@ router.get('/', async (req, res) => {
           : null,
         markupPercent: config?.markupPercent || 0,
         basePricePerUnit: config?.basePricePerUnit || def.suggestedPricePerUnit,
+        unitPrices: config ? parseUnitPrices(config.unitPrices) : def.suggestedUnitPrices || {},
+        rateLimitPerMinute: config?.rateLimitPerMinute ?? null,
         isActive: config?.isActive ?? true,
         updatedAt: config?.updatedAt,
       };
@@ -460,7 +482,7 @@ router.get('/', async (req, res) => {
 // Get usage summary for all INCLUDED integrations
 // NOTE: This route MUST be defined BEFORE /:id to avoid conflicts
 // ===========================================
-router.get('/usage/summary', async (req, res) => {
+router.get('/usage/summary', requireAdmin(['BILLING_VIEWER']), async (req, res) => {
   try {
     const { period } = req.query;
     const currentPeriod = period as string || new Date().toISOString().slice(0, 7);
@@ -471,21 +493,7 @@ router.get('/usage/summary', async (req, res) => {
     });
 
     // Get usage for current period
-    const usage = await db.platformUsage.groupBy({
-      by: ['integrationId'],
-      where: {
-        createdAt: {
-          gte: new Date(`${currentPeriod}-01`),
-          lt: new Date(new Date(`${currentPeriod}-01`).setMonth(new Date(`${currentPeriod}-01`).getMonth() + 1)),
-        },
-      },
-      _sum: {
-        units: true,
-        cost: true,
-      },
-      _count: true,
-    });
-
+    const usage = await summarizePlatformUsage(currentPeriod);
     const usageMap = new Map(usage.map(u => [u.integrationId, u]));
 
     const summary = includedIntegrations.map(int => {
@@ -493,11 +501,11 @@ router.get('/usage/summary', async (req, res) => {
       return {
         integrationId: int.integrationId,
         displayName: int.displayName,
-        totalUnits: u?._sum.units || 0,
-        totalCost: u?._sum.cost || 0,
-        callCount: u?._count || 0,
+        units: u?.units || {},
+        totalCost: u?.cost || 0,
+        callCount: u?.callCount || 0,
         markupPercent: int.markupPercent,
-        revenue: (u?._sum.cost || 0) * (1 + (int.markupPercent || 0) / 100),
+        revenue: applyMarkup(u?.cost || 0, int.markupPercent),
       };
     });
 
@@ -523,7 +531,7 @@ router.get('/usage/summary', async (req, res) => {
 // GET /admin/integrations/:id
 // Get single integration config
 // ===========================================
-router.get('/:id', async (req, res) => {
+router.get('/:id', requireAdmin(['BILLING_VIEWER', 'SUPPORT']), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -550,6 +558,8 @@ router.get('/:id', async (req, res) => {
           : null,
         markupPercent: config?.markupPercent || 0,
         basePricePerUnit: config?.basePricePerUnit || definition.suggestedPricePerUnit,
+        unitPrices: config ? parseUnitPrices(config.unitPrices) : definition.suggestedUnitPrices || {},
+        rateLimitPerMinute: config?.rateLimitPerMinute ?? null,
         isActive: config?.isActive ?? true,
         setupInstructions: config?.setupInstructions,
         updatedAt: config?.updatedAt,
@@ -563,14 +573,58 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// ===========================================
+// GET /admin/integrations/:id/audit
+// Audit trail of config changes, newest first
+// ===========================================
+router.get('/:id/audit', requireAdmin(['SUPPORT']), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    const entries = await db.adminAuditLog.findMany({
+      where: { integrationId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    res.json({
+      success: true,
+      entries: entries.map(e => ({
+        id: e.id,
+        adminEmail: e.adminEmail,
+        action: e.action,
+        field: e.field,
+        oldValue: e.oldValue,
+        newValue: e.newValue,
+        createdAt: e.createdAt,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get audit trail',
+    });
+  }
+});
+
 // ===========================================
 // PUT /admin/integrations/:id
 // Update integration configuration
 // ===========================================
-router.put('/:id', async (req, res) => {
+router.put('/:id', requireAdmin(), async (req, res) => {
   try {
     const { id } = req.params;
-    const { mode, credentials, markupPercent, basePricePerUnit, setupInstructions, isActive } = req.body;
+    const {
+      mode,
+      credentials,
+      markupPercent,
+      basePricePerUnit,
+      unitPrices,
+      rateLimitPerMinute,
+      setupInstructions,
+      isActive,
+    } = req.body;
 
     const definition = getIntegrationDefinition(id);
     if (!definition) {
@@ -588,12 +642,49 @@ router.put('/:id', async (req, res) => {
       });
     }
 
+    // null clears the override
+    if (
+      rateLimitPerMinute !== undefined &&
+      rateLimitPerMinute !== null &&
+      (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'rateLimitPerMinute must be a positive integer or null',
+      });
+    }
+
+    if (
+      markupPercent !== undefined &&
+      (typeof markupPercent !== 'number' || !Number.isFinite(markupPercent) || markupPercent < 0)
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: 'markupPercent must be a number of 0 or more',
+      });
+    }
+
+    // null clears the per-unit prices (calls are then priced at basePricePerUnit)
+    let parsedUnitPrices: UnitPrices | null | undefined;
+    try {
+      parsedUnitPrices = unitPrices === undefined || unitPrices === null ? unitPrices : parseUnitPrices(unitPrices);
+    } catch (error) {
+      return res.status(400).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid unitPrices',
+      });
+    }
+
     // Encrypt credentials if provided
     let credentialsEncrypted: string | undefined;
     if (credentials && Object.keys(credentials).length > 0) {
       credentialsEncrypted = storeIntegrationCredentials(credentials);
     }
 
+    const existing = await db.integrationConfig.findUnique({
+      where: { integrationId: id },
+    });
+
     // Upsert the config
     const config = await db.integrationConfig.upsert({
       where: { integrationId: id },
@@ -607,6 +698,8 @@ router.put('/:id', async (req, res) => {
         credentialsEncrypted,
         markupPercent: markupPercent || 0,
         basePricePerUnit: basePricePerUnit || definition.suggestedPricePerUnit,
+        unitPrices: unitPriceInput(parsedUnitPrices === undefined ? definition.suggestedUnitPrices : parsedUnitPrices),
+        rateLimitPerMinute: rateLimitPerMinute ?? null,
         iconUrl: definition.iconUrl,
         docsUrl: definition.docsUrl,
         setupInstructions,
@@ -618,11 +711,41 @@ router.put('/:id', async (req, res) => {
         credentialsEncrypted: credentialsEncrypted || undefined,
         markupPercent: markupPercent !== undefined ? markupPercent : undefined,
         basePricePerUnit: basePricePerUnit !== undefined ? basePricePerUnit : undefined,
+        unitPrices: parsedUnitPrices !== undefined ? unitPriceInput(parsedUnitPrices) : undefined,
+        rateLimitPerMinute: rateLimitPerMinute !== undefined ? rateLimitPerMinute : undefined,
         setupInstructions: setupInstructions !== undefined ? setupInstructions : undefined,
         isActive: isActive !== undefined ? isActive : undefined,
       },
     });
 
+    // Credential values are never written to the audit trail, only the fields that changed
+    const changes = diffFields(
+      existing ? { ...existing } : null,
+      {
+        mode: config.mode,
+        markupPercent: config.markupPercent,
+        basePricePerUnit: config.basePricePerUnit,
+        unitPrices: config.unitPrices,
+        rateLimitPerMinute: config.rateLimitPerMinute,
+        setupInstructions: config.setupInstructions,
+        isActive: config.isActive,
+      }
+    );
+    if (credentialsEncrypted) {
+      changes.push({
+        field: 'credentials',
+        oldValue: existing?.credentialsEncrypted ? '[set]' : null,
+        newValue: `[updated: ${Object.keys(credentials).join(', ')}]`,
+      });
+    }
+    await recordAdminAudit({
+      admin: req.admin!,
+      action: existing ? 'update' : 'create',
+      integrationId: id,
+      changes,
+      ipAddress: req.ip,
+    });
+
     res.json({
       success: true,
       message: `Integration "${definition.displayName}" updated`,
@@ -635,6 +758,9 @@ router.put('/:id', async (req, res) => {
           ? getMaskedCredentials(config.credentialsEncrypted)
           : null,
         markupPercent: config.markupPercent,
+        basePricePerUnit: config.basePricePerUnit,
+        unitPrices: parseUnitPrices(config.unitPrices),
+        rateLimitPerMinute: config.rateLimitPerMinute,
         isActive: config.isActive,
         updatedAt: config.updatedAt,
       },
@@ -651,7 +777,7 @@ router.put('/:id', async (req, res) => {
 // POST /admin/integrations/:id/test
 // Test integration credentials
 // ===========================================
-router.post('/:id/test', async (req, res) => {
+router.post('/:id/test', requireAdmin(['SUPPORT']), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -693,7 +819,7 @@ router.post('/:id/test', async (req, res) => {
 // DELETE /admin/integrations/:id/credentials
 // Remove integration credentials
 // ===========================================
-router.delete('/:id/credentials', async (req, res) => {
+router.delete('/:id/credentials', requireAdmin(), async (req, res) => {
   try {
     const { id } = req.params;
 
@@ -716,6 +842,17 @@ router.delete('/:id/credentials', async (req, res) => {
       },
     });
 
+    await recordAdminAudit({
+      admin: req.admin!,
+      action: 'delete_credentials',
+      integrationId: id,
+      changes: [
+        ...(config.credentialsEncrypted ? [{ field: 'credentials', oldValue: '[set]', newValue: null }] : []),
+        ...diffFields({ mode: config.mode }, { mode: 'DISABLED' }),
+      ],
+      ipAddress: req.ip,
+    });
+
     res.json({
       success: true,
       message: 'Credentials removed and integration disabled',
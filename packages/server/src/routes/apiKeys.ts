@@ -5,12 +5,27 @@
 
 import { Router } from 'express';
 import { db } from '../lib/db.js';
-import { createApiKey, listApiKeys, revokeApiKey, deleteApiKey, AVAILABLE_SCOPES } from '../lib/apiKey.js';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  deleteApiKey,
+  isValidScope,
+  getIntegrationScopes,
+  AVAILABLE_SCOPES,
+} from '../lib/apiKey.js';
+import { integrationRegistry } from '../integrations/index.js';
+import { hasPermission } from '../lib/memberships.js';
 import { getUsage, getUsageHistory, getBillingInfo } from '../lib/usage.js';
+import { serializeInvoice } from '../lib/billing.js';
 import { authRateLimit } from '../middleware/rateLimit.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // Helper to find or create tenant
 async function getOrCreateTenant(tenantId: string) {
   let tenant = await db.tenant.findFirst({
@@ -82,7 +97,8 @@ router.post('/:tenantId', authRateLimit(), async (req, res) => {
 
     // Validate scopes if provided
     if (scopes && Array.isArray(scopes)) {
-      const invalidScopes = scopes.filter(s => !AVAILABLE_SCOPES.includes(s));
+      const integrationIds = integrationRegistry.getAll().map(i => i.config.id);
+      const invalidScopes = scopes.filter(s => !isValidScope(s, integrationIds));
       if (invalidScopes.length > 0) {
         return res.status(400).json({
           success: false,
@@ -92,6 +108,16 @@ router.post('/:tenantId', authRateLimit(), async (req, res) => {
       }
     }
 
+    // A full-access key can do anything an owner can, so it can't out-rank its creator
+    const fullAccess = !Array.isArray(scopes) || scopes.includes('*');
+    if (req.session && fullAccess && !hasPermission(req.session.role, 'connections:manage')) {
+      return res.status(403).json({
+        success: false,
+        error: `Your role (${req.session.role}) cannot create full-access keys`,
+        hint: 'Choose specific scopes for this key',
+      });
+    }
+
     const { key, keyInfo } = await createApiKey({
       tenantId: tenant.id,
       name,
@@ -199,8 +225,35 @@ router.get('/:tenantId/scopes', (req, res) => {
       'teams:*': 'Full Teams access',
       'teams:read': 'Read Teams messages',
       'teams:write': 'Send Teams messages',
+      'communication:*': 'Full messaging access (Slack, Discord, Zoom, etc.)',
+      'communication:read': 'Read channels, messages and meetings',
+      'communication:write': 'Send messages and create meetings',
+      'crm:*': 'Full CRM access',
+      'crm:read': 'Read CRM records',
+      'crm:write': 'Create and modify CRM records',
+      'finance:*': 'Full finance access',
+      'finance:read': 'Read invoices, payments and reports',
+      'finance:write': 'Create and modify invoices and payments',
+      'voice:*': 'Full voice access',
+      'voice:read': 'Read calls and recordings',
+      'voice:write': 'Place calls and send SMS',
+      'productivity:*': 'Full productivity access',
+      'productivity:read': 'Read tasks, boards and docs',
+      'productivity:write': 'Create and modify tasks, boards and docs',
+      'developer:*': 'Full developer tools access',
+      'developer:read': 'Read repos, issues and pipelines',
+      'developer:write': 'Create and modify issues and merge requests',
       'ai:*': 'AI features (draft, summarize, etc.)',
+      'ai:read': 'List models and search vector indexes',
+      'ai:write': 'Generate text, embeddings and drafts',
     },
+    // Per-integration scopes for narrowing a key to specific integrations
+    integrations: integrationRegistry.getAll().map(i => ({
+      id: i.config.id,
+      name: i.config.name,
+      category: i.config.category,
+      scopes: getIntegrationScopes(i.config.id),
+    })),
   });
 });
 
@@ -273,4 +326,30 @@ router.get('/:tenantId/billing', async (req, res) => {
   }
 });
 
+// GET /api-keys/:tenantId/invoices
+// Invoices from closed billing periods, newest first
+router.get('/:tenantId/invoices', async (req, res) => {
+  try {
+    const { tenantId } = req.params;
+    const tenant = await getOrCreateTenant(tenantId);
+
+    const invoices = await db.invoice.findMany({
+      where: { tenantId: tenant.id },
+      include: { lines: true },
+      orderBy: { period: 'desc' },
+      take: 24,
+    });
+
+    res.json({
+      success: true,
+      invoices: invoices.map(serializeInvoice),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get invoices',
+    });
+  }
+});
+
 export default router;
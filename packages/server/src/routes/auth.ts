@@ -1,10 +1,30 @@
 import { Router } from 'express';
 import { db } from '../lib/db.js';
-import { nylas } from '../lib/nylas.js';
+import { nylas, nylasCodeChallenge } from '../lib/nylas.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+import { getSession } from '../lib/session.js';
+import {
+  createOAuthState,
+  consumeOAuthState,
+  normalizeReturnUrl,
+  sendAuthUrl,
+  OAuthStateError,
+  OAuthFlowContext,
+} from '../lib/oauthState.js';
+import {
+  adoptLegacyGrant,
+  disconnectAccount,
+  ensureNylasConnection,
+  setPrimaryAccount,
+  syncLegacyTenantFields,
+} from '../lib/connections.js';
 import 'dotenv/config';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // Simple in-memory cache for status checks (reduces DB load)
 const statusCache = new Map<string, { data: unknown; timestamp: number }>();
 const CACHE_TTL_MS = 5000; // 5 seconds cache
@@ -235,21 +255,38 @@ async function getOrCreateTenant(tenantId: string) {
 // ===========================================
 // GET /auth/connect/:tenantId
 // Start OAuth flow for a tenant (add new account)
+// Redirects the browser, or returns { authUrl } for API clients
+// ?returnUrl= sends the user back to a dashboard page instead of the success page
 // ===========================================
 router.get('/connect/:tenantId', async (req, res) => {
   try {
     const { tenantId } = req.params;
     const tenant = await getOrCreateTenant(tenantId);
 
+    const returnUrl = normalizeReturnUrl(req.query.returnUrl);
+    if (req.query.returnUrl && !returnUrl) {
+      return res.status(400).json({ error: 'returnUrl must point to the dashboard (APP_URL)' });
+    }
+
+    const { state, pkce } = await createOAuthState({
+      tenantId: tenant.id,
+      integrationId: 'nylas',
+      userId: req.session?.userId,
+      returnUrl,
+      pkce: true,
+    });
+
     // Build Nylas auth URL
-    const authUrl = nylas.auth.urlForOAuth2({
+    const url = new URL(nylas.auth.urlForOAuth2({
       clientId: process.env.NYLAS_CLIENT_ID!,
       redirectUri: process.env.OAUTH_CALLBACK_URL!,
-      state: tenant.id, // Pass tenant ID in state
-    });
+      state,
+    }));
+    url.searchParams.set('code_challenge', nylasCodeChallenge(pkce!.codeVerifier));
+    url.searchParams.set('code_challenge_method', 's256');
 
     // Redirect to Nylas (user will see Google/Microsoft login)
-    res.redirect(authUrl);
+    sendAuthUrl(req, res, url.toString());
   } catch (error) {
     console.error('OAuth connect error:', error);
     res.status(500).json({
@@ -264,7 +301,23 @@ router.get('/connect/:tenantId', async (req, res) => {
 // ===========================================
 router.get('/callback', async (req, res) => {
   try {
-    const { code, state: tenantId, error } = req.query;
+    const { code, state, error } = req.query;
+
+    if (!state) {
+      return res.send(renderErrorPage('Missing Parameters', 'OAuth state is missing. Please try connecting again.'));
+    }
+
+    // Tampered, expired and replayed state stop here, before the code is exchanged
+    let flow: OAuthFlowContext;
+    try {
+      const session = await getSession(req);
+      flow = await consumeOAuthState(String(state), 'nylas', session?.userId);
+    } catch (stateError) {
+      if (!(stateError instanceof OAuthStateError)) throw stateError;
+      console.warn(`Rejected OAuth state: ${stateError.message}`);
+      return res.status(400).send(renderErrorPage('Invalid Request', stateError.message));
+    }
+    const tenantId = flow.tenantId;
 
     // Handle OAuth errors
     if (error) {
@@ -272,8 +325,8 @@ router.get('/callback', async (req, res) => {
       return res.send(renderErrorPage('OAuth Error', String(error)));
     }
 
-    if (!code || !tenantId) {
-      return res.send(renderErrorPage('Missing Parameters', 'Authorization code or tenant ID is missing. Please try connecting again.'));
+    if (!code) {
+      return res.send(renderErrorPage('Missing Parameters', 'Authorization code is missing. Please try connecting again.'));
     }
 
     // Exchange code for grant
@@ -282,6 +335,7 @@ router.get('/callback', async (req, res) => {
       clientSecret: process.env.NYLAS_API_KEY!,
       redirectUri: process.env.OAUTH_CALLBACK_URL!,
       code: String(code),
+      codeVerifier: flow.codeVerifier,
     });
 
     const grantId = response.grantId;
@@ -291,9 +345,12 @@ router.get('/callback', async (req, res) => {
     const grantInfo = await nylas.grants.find({ grantId });
     const provider = grantInfo.data.provider || 'unknown';
 
+    // A grant from before accounts becomes an account first, so it keeps its place
+    await adoptLegacyGrant(tenantId);
+
     // Check if this is the first account for this tenant
     const existingAccounts = await db.account.count({
-      where: { tenantId: String(tenantId), isActive: true },
+      where: { tenantId, isActive: true },
     });
     const isFirstAccount = existingAccounts === 0;
 
@@ -302,12 +359,13 @@ router.get('/callback', async (req, res) => {
       where: { nylasGrantId: grantId },
     });
 
+    let account;
     if (existingByGrantId) {
       // Account with this grantId exists - update it
-      await db.account.update({
+      account = await db.account.update({
         where: { id: existingByGrantId.id },
         data: {
-          tenantId: String(tenantId),
+          tenantId,
           email: email,
           provider: provider,
           isActive: true,
@@ -318,26 +376,28 @@ router.get('/callback', async (req, res) => {
       // Check if account with same tenant+email exists
       const existingByEmail = await db.account.findFirst({
         where: {
-          tenantId: String(tenantId),
+          tenantId,
           email: email,
         },
       });
 
       if (existingByEmail) {
         // Update existing account with new grantId
-        await db.account.update({
+        account = await db.account.update({
           where: { id: existingByEmail.id },
           data: {
             nylasGrantId: grantId,
             provider: provider,
+            backend: 'nylas',
             isActive: true,
+            isPrimary: isFirstAccount || (existingByEmail.isActive && existingByEmail.isPrimary),
           },
         });
       } else {
         // Create new account
-        await db.account.create({
+        account = await db.account.create({
           data: {
-            tenantId: String(tenantId),
+            tenantId,
             email: email,
             provider: provider,
             nylasGrantId: grantId,
@@ -347,42 +407,31 @@ router.get('/callback', async (req, res) => {
       }
     }
 
-    // Also update legacy tenant fields for backward compatibility
-    if (isFirstAccount) {
-      // First, clear this grantId from any other tenant that might have it
-      await db.tenant.updateMany({
-        where: {
-          nylasGrantId: grantId,
-          id: { not: String(tenantId) },
-        },
-        data: {
-          nylasGrantId: null,
-        },
-      });
-
-      await db.tenant.update({
-        where: { id: String(tenantId) },
-        data: {
-          nylasGrantId: grantId,
-          emailConnected: true,
-          connectedEmail: email,
-          provider: provider,
-          connectedAt: new Date(),
-        },
-      });
+    // The grant is stored on the account's connection; legacy tenant fields follow the primary account
+    await ensureNylasConnection(account);
+    await syncLegacyTenantFields(tenantId);
+    if (existingByGrantId && existingByGrantId.tenantId !== tenantId) {
+      await syncLegacyTenantFields(existingByGrantId.tenantId);
     }
 
-    // Create sync state if doesn't exist
+    // Cursors belong to the previous grant; the scheduler starts over with a full sync
     await db.syncState.upsert({
-      where: { tenantId: String(tenantId) },
-      update: {},
-      create: { tenantId: String(tenantId) },
+      where: { tenantId },
+      update: { emailCursor: null, calendarCursor: null, contactsCursor: null, nextSyncAt: null },
+      create: { tenantId },
     });
 
     console.log(`Account connected: ${email} (${provider}) for tenant ${tenantId}`);
 
+    if (flow.returnUrl) {
+      const url = new URL(flow.returnUrl);
+      url.searchParams.set('success', 'connected');
+      url.searchParams.set('email', email || '');
+      return res.redirect(url.toString());
+    }
+
     // Render success page
-    res.send(renderSuccessPage(email || 'Unknown email', String(tenantId)));
+    res.send(renderSuccessPage(email || 'Unknown email', tenantId));
   } catch (error) {
     console.error('OAuth callback error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -420,6 +469,7 @@ router.get('/status/:tenantId', async (req, res) => {
           id: true,
           email: true,
           provider: true,
+          backend: true,
           isPrimary: true,
           createdAt: true,
         },
@@ -476,6 +526,7 @@ router.get('/accounts/:tenantId', async (req, res) => {
         id: true,
         email: true,
         provider: true,
+        backend: true,
         isPrimary: true,
         createdAt: true,
       },
@@ -512,56 +563,18 @@ router.delete('/accounts/:tenantId/:accountId', async (req, res) => {
       return res.status(404).json({ success: false, error: 'Account not found' });
     }
 
-    // Revoke Nylas grant
-    try {
-      await nylas.grants.destroy({ grantId: account.nylasGrantId });
-    } catch (e) {
-      console.warn('Failed to revoke grant:', e);
-    }
-
-    // Mark account as inactive
-    await db.account.update({
-      where: { id: accountId },
-      data: { isActive: false },
-    });
-
-    // If this was the primary account, set another as primary
-    if (account.isPrimary) {
-      const nextAccount = await db.account.findFirst({
-        where: { tenantId: tenant.id, isActive: true },
-        orderBy: { createdAt: 'asc' },
-      });
-
-      if (nextAccount) {
-        await db.account.update({
-          where: { id: nextAccount.id },
-          data: { isPrimary: true },
-        });
-
-        // Update legacy tenant fields
-        await db.tenant.update({
-          where: { id: tenant.id },
-          data: {
-            nylasGrantId: nextAccount.nylasGrantId,
-            connectedEmail: nextAccount.email,
-            provider: nextAccount.provider,
-          },
-        });
-      } else {
-        // No more accounts, clear legacy fields
-        await db.tenant.update({
-          where: { id: tenant.id },
-          data: {
-            nylasGrantId: null,
-            emailConnected: false,
-            connectedEmail: null,
-            provider: null,
-            connectedAt: null,
-          },
-        });
+    // Revoke Nylas grant (Graph and Gmail mailboxes keep their own connection)
+    if (account.nylasGrantId) {
+      try {
+        await nylas.grants.destroy({ grantId: account.nylasGrantId });
+      } catch (e) {
+        console.warn('Failed to revoke grant:', e);
       }
     }
 
+    // Mark account as inactive; the next account becomes primary
+    await disconnectAccount(account);
+
     res.json({ success: true, message: 'Account disconnected' });
   } catch (error) {
     console.error('Disconnect account error:', error);
@@ -590,29 +603,8 @@ router.post('/accounts/:tenantId/:accountId/primary', async (req, res) => {
       return res.status(404).json({ success: false, error: 'Account not found' });
     }
 
-    // Remove primary from all accounts
-    await db.account.updateMany({
-      where: { tenantId: tenant.id },
-      data: { isPrimary: false },
-    });
-
-    // Set this one as primary
-    await db.account.update({
-      where: { id: accountId },
-      data: { isPrimary: true },
-    });
-
-    // Update legacy tenant fields
-    await db.tenant.update({
-      where: { id: tenant.id },
-      data: {
-        nylasGrantId: account.nylasGrantId,
-        connectedEmail: account.email,
-        provider: account.provider,
-        emailConnected: true,
-        connectedAt: new Date(),
-      },
-    });
+    // Legacy tenant fields follow the primary account
+    await setPrimaryAccount(account);
 
     res.json({ success: true, message: 'Primary account updated' });
   } catch (error) {
@@ -633,24 +625,21 @@ router.post('/disconnect/:tenantId', async (req, res) => {
     const { tenantId } = req.params;
     const tenant = await getOrCreateTenant(tenantId);
 
+    // A grant from before accounts is disconnected like any other account
+    await adoptLegacyGrant(tenant.id);
+
     // Find primary account
     const primaryAccount = await db.account.findFirst({
       where: { tenantId: tenant.id, isPrimary: true, isActive: true },
     });
 
-    if (primaryAccount) {
-      // Revoke Nylas grant
+    // Revoke Nylas grant
+    if (primaryAccount?.nylasGrantId) {
       try {
         await nylas.grants.destroy({ grantId: primaryAccount.nylasGrantId });
       } catch (e) {
         console.warn('Failed to revoke grant:', e);
       }
-
-      // Mark as inactive
-      await db.account.update({
-        where: { id: primaryAccount.id },
-        data: { isActive: false },
-      });
     }
 
     // Also try legacy grant on tenant
@@ -660,40 +649,14 @@ router.post('/disconnect/:tenantId', async (req, res) => {
       } catch (e) {
         console.warn('Failed to revoke legacy grant:', e);
       }
+      await db.tenant.update({ where: { id: tenant.id }, data: { nylasGrantId: null } });
     }
 
-    // Find next account to be primary
-    const nextAccount = await db.account.findFirst({
-      where: { tenantId: tenant.id, isActive: true },
-      orderBy: { createdAt: 'asc' },
-    });
-
-    if (nextAccount) {
-      await db.account.update({
-        where: { id: nextAccount.id },
-        data: { isPrimary: true },
-      });
-
-      await db.tenant.update({
-        where: { id: tenant.id },
-        data: {
-          nylasGrantId: nextAccount.nylasGrantId,
-          connectedEmail: nextAccount.email,
-          provider: nextAccount.provider,
-        },
-      });
+    // The next account becomes primary
+    if (primaryAccount) {
+      await disconnectAccount(primaryAccount);
     } else {
-      // Clear tenant's Nylas connection
-      await db.tenant.update({
-        where: { id: tenant.id },
-        data: {
-          nylasGrantId: null,
-          emailConnected: false,
-          connectedEmail: null,
-          provider: null,
-          connectedAt: null,
-        },
-      });
+      await syncLegacyTenantFields(tenant.id);
     }
 
     res.json({ success: true, message: 'Email disconnected' });
@@ -5,8 +5,6 @@
 
 import { Router } from 'express';
 import {
-  syncCalendars,
-  syncCalendarEvents,
   getCachedCalendars,
   getCachedEvents,
   getEvent,
@@ -14,25 +12,33 @@ import {
   updateAndSyncEvent,
   deleteAndSyncEvent,
   getUpcomingEvents,
-  initialCalendarSync,
 } from '../lib/calendarSync.js';
+import { enqueueJob, serializeJob } from '../lib/jobs.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // ===========================================
 // SYNC CALENDARS
 // POST /calendar/:tenantId/sync
-// Full sync of calendars from email provider
+// Sync calendars and events changed since the last sync (?full=true for a full resync)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await syncCalendars(tenantId);
+    const job = await enqueueJob('calendar_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: false, full: req.query.full === 'true' },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -46,16 +52,20 @@ router.post('/:tenantId/sync', async (req, res) => {
 // INITIAL SYNC
 // POST /calendar/:tenantId/initial-sync
 // Run initial calendar + events sync
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/initial-sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await initialCalendarSync(tenantId);
+    const job = await enqueueJob('calendar_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: true },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -69,21 +79,23 @@ router.post('/:tenantId/initial-sync', async (req, res) => {
 // SYNC EVENTS FOR A CALENDAR
 // POST /calendar/:tenantId/:calendarId/sync-events
 // Sync events for a specific calendar
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/:calendarId/sync-events', async (req, res) => {
   try {
-    const { tenantId, calendarId } = req.params;
+    const { calendarId } = req.params;
     const { startDate, endDate } = req.body;
 
-    const result = await syncCalendarEvents(tenantId, calendarId, {
-      startDate: startDate ? new Date(startDate) : undefined,
-      endDate: endDate ? new Date(endDate) : undefined,
+    const job = await enqueueJob('calendar_events_sync', {
+      tenantId: req.tenantId!,
+      payload: { calendarId, startDate, endDate },
+      dedupe: true,
     });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
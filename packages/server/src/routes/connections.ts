@@ -9,12 +9,21 @@ import {
   storeIntegrationCredentials,
   retrieveIntegrationCredentials,
   getMaskedCredentials,
+  decryptToken,
 } from '../lib/encryption.js';
 import { getIntegrationDefinition, INTEGRATION_CATALOG } from './admin/integrations.js';
 import { validateIntegration, hasValidator } from '../lib/integrationValidators.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+import { ensureFreshToken, recordConnectionFailure, TokenOwner } from '../lib/tokenManager.js';
+import { integrationRegistry } from '../integrations/index.js';
+import { disconnectConnection, listTenantConnections } from '../lib/connections.js';
+import { applyMarkup, summarizePlatformUsage } from '../lib/usage.js';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // ===========================================
 // CACHING FOR HIGH-FREQUENCY ENDPOINTS
 // ===========================================
@@ -117,15 +126,15 @@ router.get('/:tenantId', async (req, res) => {
 
       const configMap = new Map(platformConfigs.map(c => [c.integrationId, c]));
 
-      // Get customer's existing connections
-      const connections = await db.connection.findMany({
-        where: {
-          tenantId: tenant.id,
-          isActive: true,
-        },
-      });
+      // Get customer's existing connections (primary first, so it's the one shown)
+      const connections = await listTenantConnections(tenant.id);
 
-      const connectionMap = new Map(connections.map(c => [c.integrationId, c]));
+      const connectionMap = new Map<string, (typeof connections)[number]>();
+      for (const connection of connections) {
+        if (!connectionMap.has(connection.integrationId)) {
+          connectionMap.set(connection.integrationId, connection);
+        }
+      }
 
       // Build the available integrations list
       const availableIntegrations = INTEGRATION_CATALOG
@@ -250,21 +259,7 @@ router.get('/:tenantId/usage', async (req, res) => {
     const currentPeriod = period as string || new Date().toISOString().slice(0, 7);
 
     // Get usage for INCLUDED integrations (platform pays)
-    const platformUsage = await db.platformUsage.groupBy({
-      by: ['integrationId'],
-      where: {
-        tenantId: tenant.id,
-        createdAt: {
-          gte: new Date(`${currentPeriod}-01`),
-          lt: new Date(new Date(`${currentPeriod}-01`).setMonth(new Date(`${currentPeriod}-01`).getMonth() + 1)),
-        },
-      },
-      _sum: {
-        units: true,
-        cost: true,
-      },
-      _count: true,
-    });
+    const platformUsage = await summarizePlatformUsage(currentPeriod, tenant.id);
 
     // Get integration configs for pricing
     const configs = await db.integrationConfig.findMany({
@@ -277,16 +272,13 @@ router.get('/:tenantId/usage', async (req, res) => {
 
     const usage = platformUsage.map(u => {
       const config = configMap.get(u.integrationId);
-      const cost = u._sum.cost || 0;
-      const markup = config?.markupPercent || 0;
-      const billedAmount = cost * (1 + markup / 100);
 
       return {
         integrationId: u.integrationId,
         displayName: config?.displayName || u.integrationId,
-        units: u._sum.units || 0,
-        callCount: u._count,
-        estimatedCost: billedAmount,
+        units: u.units,
+        callCount: u.callCount,
+        estimatedCost: applyMarkup(u.cost, config?.markupPercent),
       };
     });
 
@@ -307,6 +299,44 @@ router.get('/:tenantId/usage', async (req, res) => {
   }
 });
 
+/**
+ * Decrypted OAuth tokens for a check, refreshed first when they're about to expire
+ * A failed refresh marks the connection expired and returns the stale tokens
+ */
+async function getCheckTokens(owner: TokenOwner, stored: {
+  tenantId: string;
+  integrationId: string;
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}): Promise<{ accessToken: string | null; refreshToken: string | null; tokenExpiresAt: Date | null }> {
+  const tokens = {
+    accessToken: stored.accessToken ? decryptToken(stored.accessToken) : null,
+    refreshToken: stored.refreshToken ? decryptToken(stored.refreshToken) : null,
+    tokenExpiresAt: stored.expiresAt,
+  };
+
+  const integration = integrationRegistry.get(stored.integrationId);
+  if (!integration || !tokens.refreshToken) return tokens;
+
+  try {
+    const fresh = await ensureFreshToken(integration, owner, {
+      integrationId: stored.integrationId,
+      tenantId: stored.tenantId,
+      accessToken: tokens.accessToken || undefined,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.tokenExpiresAt || undefined,
+    });
+    return {
+      accessToken: fresh.accessToken || null,
+      refreshToken: fresh.refreshToken || null,
+      tokenExpiresAt: fresh.expiresAt || null,
+    };
+  } catch {
+    return tokens;
+  }
+}
+
 // ===========================================
 // GET /connections/:tenantId/health
 // Health check for all tenant connections
@@ -317,32 +347,50 @@ router.get('/:tenantId/health', async (req, res) => {
     const { tenantId } = req.params;
     const tenant = await getTenant(tenantId);
 
-    // Get all active connections for this tenant
-    const connections = await db.connection.findMany({
-      where: {
-        tenantId: tenant.id,
-        isActive: true,
-      },
-    });
+    // Get all active connections for this tenant, with their stored secrets
+    const connections = await listTenantConnections(tenant.id);
+    const idsFrom = (source: string) => connections.filter(c => c.source === source).map(c => c.id);
+
+    const [rows, legacyRows] = await Promise.all([
+      db.connection.findMany({ where: { id: { in: idsFrom('connection') } } }),
+      db.integrationCredential.findMany({ where: { id: { in: idsFrom('integration_credential') } } }),
+    ]);
+    const rowMap = new Map(rows.map(r => [r.id, r]));
+    const legacyRowMap = new Map(legacyRows.map(r => [r.id, r]));
 
     // Check health of each connection
     const healthChecks = await Promise.all(
       connections.map(async (connection) => {
         const definition = getIntegrationDefinition(connection.integrationId);
+        const row = rowMap.get(connection.id);
+        const legacyRow = legacyRowMap.get(connection.id);
 
         // Quick validation
+        const tokens = row
+          ? await getCheckTokens({ type: 'connection', id: row.id }, { ...row, expiresAt: row.tokenExpiresAt })
+          : legacyRow
+            ? await getCheckTokens({ type: 'credential', id: legacyRow.id }, legacyRow)
+            : { accessToken: null, refreshToken: null, tokenExpiresAt: null };
         const validationResult = await validateIntegration(
           connection.integrationId,
-          connection.credentialsEncrypted,
-          connection.accessToken,
-          connection.refreshToken,
-          connection.tokenExpiresAt
+          row?.credentialsEncrypted,
+          tokens.accessToken,
+          tokens.refreshToken,
+          tokens.tokenExpiresAt,
+          connection.grantId
         );
 
-        // Determine status
+        // Determine status (only Connection rows store it)
         let status: 'healthy' | 'unhealthy' | 'expired' = 'healthy';
         if (!validationResult.success) {
           status = validationResult.errorCode === 'TOKEN_EXPIRED' ? 'expired' : 'unhealthy';
+          if (row) {
+            await recordConnectionFailure(
+              row,
+              status === 'expired' ? 'expired' : 'error',
+              validationResult.message
+            );
+          }
         }
 
         return {
@@ -413,14 +461,11 @@ router.get('/:tenantId/:integrationId', async (req, res) => {
       });
     }
 
-    // Get connection
-    const connection = await db.connection.findFirst({
-      where: {
-        tenantId: tenant.id,
-        integrationId,
-        isActive: true,
-      },
-    });
+    // Get the primary connection (wherever it's still stored)
+    const [connection] = await listTenantConnections(tenant.id, { integrationId });
+    const row = connection?.source === 'connection'
+      ? await db.connection.findUnique({ where: { id: connection.id } })
+      : null;
 
     res.json({
       success: true,
@@ -445,11 +490,11 @@ router.get('/:tenantId/:integrationId', async (req, res) => {
         status: connection.status,
         lastUsedAt: connection.lastUsedAt,
         lastError: connection.lastError,
-        maskedCredentials: connection.credentialsEncrypted
-          ? getMaskedCredentials(connection.credentialsEncrypted)
+        maskedCredentials: row?.credentialsEncrypted
+          ? getMaskedCredentials(row.credentialsEncrypted)
           : null,
         createdAt: connection.createdAt,
-        updatedAt: connection.updatedAt,
+        updatedAt: row?.updatedAt ?? connection.createdAt,
       } : null,
     });
   } catch (error) {
@@ -532,17 +577,33 @@ router.post('/:tenantId/:integrationId', async (req, res) => {
       ? storeIntegrationCredentials(credentials)
       : null;
 
-    // Create connection
-    const connection = await db.connection.create({
-      data: {
-        tenantId: tenant.id,
-        integrationId,
-        name: name || `${definition.displayName} Connection`,
-        credentialsEncrypted,
-        accountEmail: accountEmail || null,
-        status: 'active',
-      },
+    // The first connection for an integration is its primary
+    const primaryCount = await db.connection.count({
+      where: { tenantId: tenant.id, integrationId, isActive: true, isPrimary: true },
+    });
+
+    // Create connection (reusing a disconnected one for the same account)
+    const data = {
+      name: name || `${definition.displayName} Connection`,
+      credentialsEncrypted,
+      status: 'active',
+      lastError: null,
+      isActive: true,
+      isPrimary: primaryCount === 0,
+    };
+    const disconnected = await db.connection.findFirst({
+      where: { tenantId: tenant.id, integrationId, accountEmail: accountEmail || null, isActive: false },
     });
+    const connection = disconnected
+      ? await db.connection.update({ where: { id: disconnected.id }, data })
+      : await db.connection.create({
+        data: {
+          tenantId: tenant.id,
+          integrationId,
+          accountEmail: accountEmail || null,
+          ...data,
+        },
+      });
 
     res.status(201).json({
       success: true,
@@ -647,11 +708,8 @@ router.delete('/:tenantId/:integrationId/:connectionId', async (req, res) => {
       });
     }
 
-    // Soft delete by setting isActive = false
-    await db.connection.update({
-      where: { id: connectionId },
-      data: { isActive: false },
-    });
+    // Soft delete; the next connection becomes primary and a linked mailbox is disconnected too
+    await disconnectConnection(tenant.id, connectionId);
 
     res.json({
       success: true,
@@ -692,7 +750,7 @@ router.post('/:tenantId/:integrationId/:connectionId/test', async (req, res) =>
     const definition = getIntegrationDefinition(integrationId);
 
     // Verify credentials exist
-    if (!connection.credentialsEncrypted && !connection.accessToken) {
+    if (!connection.credentialsEncrypted && !connection.accessToken && !connection.grantId) {
       return res.status(400).json({
         success: false,
         error: 'No credentials found for this connection',
@@ -700,24 +758,36 @@ router.post('/:tenantId/:integrationId/:connectionId/test', async (req, res) =>
     }
 
     // Actually test the connection using validators
+    const tokens = await getCheckTokens(
+      { type: 'connection', id: connection.id },
+      { ...connection, expiresAt: connection.tokenExpiresAt }
+    );
     const validationResult = await validateIntegration(
       integrationId,
       connection.credentialsEncrypted,
-      connection.accessToken,
-      connection.refreshToken,
-      connection.tokenExpiresAt
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.tokenExpiresAt,
+      connection.grantId
     );
 
     // Update connection status based on result
-    const newStatus = validationResult.success ? 'active' : 'error';
-    await db.connection.update({
-      where: { id: connectionId },
-      data: {
-        status: newStatus,
-        lastUsedAt: new Date(),
-        lastError: validationResult.success ? null : validationResult.message,
-      },
-    });
+    if (validationResult.success) {
+      await db.connection.update({
+        where: { id: connectionId },
+        data: {
+          status: 'active',
+          lastUsedAt: new Date(),
+          lastError: null,
+        },
+      });
+    } else {
+      await recordConnectionFailure(
+        connection,
+        validationResult.errorCode === 'TOKEN_EXPIRED' ? 'expired' : 'error',
+        validationResult.message
+      );
+    }
 
     res.json({
       success: validationResult.success,
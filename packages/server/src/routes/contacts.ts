@@ -5,32 +5,39 @@
 
 import { Router } from 'express';
 import {
-  syncContacts,
   getCachedContacts,
   getContact,
   createAndSyncContact,
   updateAndSyncContact,
   deleteAndSyncContact,
   searchContacts,
-  initialContactSync,
 } from '../lib/contactSync.js';
+import { enqueueJob, serializeJob } from '../lib/jobs.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // ===========================================
 // SYNC CONTACTS
 // POST /contacts/:tenantId/sync
-// Full sync of contacts from email provider
+// Sync contacts changed since the last sync (?full=true for a full resync)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await syncContacts(tenantId);
+    const job = await enqueueJob('contact_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: false, full: req.query.full === 'true' },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -44,16 +51,20 @@ router.post('/:tenantId/sync', async (req, res) => {
 // INITIAL SYNC
 // POST /contacts/:tenantId/initial-sync
 // Run initial contact sync (after OAuth connection)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/initial-sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await initialContactSync(tenantId);
+    const job = await enqueueJob('contact_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: true },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -0,0 +1,141 @@
+// ===========================================
+// EMAIL SYNC ROUTES
+// API endpoints for the cached messages and threads
+// ===========================================
+
+import { Router } from 'express';
+import { getAccountWithGrant } from '../lib/db.js';
+import { mailboxIdFor } from '../lib/mailProvider.js';
+import { listCachedThreads, searchCachedEmails, toEmailSummary } from '../lib/emailSync.js';
+import { parseEmailQuery, EmailQueryError } from '../lib/emailQuery.js';
+import { enqueueJob, serializeJob } from '../lib/jobs.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+// ===========================================
+// SYNC EMAILS
+// POST /emails-sync/:tenantId/sync
+// Cache messages received since the last sync (?full=true for a full resync)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
+// ===========================================
+
+router.post('/:tenantId/sync', async (req, res) => {
+  try {
+    const job = await enqueueJob('email_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: false, full: req.query.full === 'true' },
+      dedupe: true,
+    });
+
+    res.status(202).json({
+      success: true,
+      job: serializeJob(job),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ===========================================
+// INITIAL SYNC
+// POST /emails-sync/:tenantId/initial-sync
+// Cache the last 30 days of messages (after OAuth connection)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
+// ===========================================
+
+router.post('/:tenantId/initial-sync', async (req, res) => {
+  try {
+    const job = await enqueueJob('email_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: true },
+      dedupe: true,
+    });
+
+    res.status(202).json({
+      success: true,
+      job: serializeJob(job),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ===========================================
+// GET CACHED THREADS
+// GET /emails-sync/:tenantId/threads
+// Threads from local cache, most recent first (?folder_id=&unread_only=&limit=&offset=)
+// ===========================================
+
+router.get('/:tenantId/threads', async (req, res) => {
+  try {
+    const account = await getAccountWithGrant(req.tenantId!);
+    const result = await listCachedThreads(account.tenantId, mailboxIdFor(account), {
+      folderId: req.query.folder_id as string | undefined,
+      unreadOnly: req.query.unread_only === 'true',
+      limit: parseInt(req.query.limit as string) || undefined,
+      offset: parseInt(req.query.offset as string) || undefined,
+    });
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// ===========================================
+// SEARCH CACHED EMAILS
+// GET /emails-sync/:tenantId/search?q=from:alice has:attachment budget
+// Full-text search over the local cache
+// ===========================================
+
+router.get('/:tenantId/search', async (req, res) => {
+  try {
+    const q = req.query.q as string | undefined;
+
+    if (!q) {
+      return res.status(400).json({
+        success: false,
+        error: 'Search query (q) is required',
+      });
+    }
+
+    const account = await getAccountWithGrant(req.tenantId!);
+    const messages = await searchCachedEmails(
+      account.tenantId,
+      mailboxIdFor(account),
+      parseEmailQuery(q),
+      Math.min(parseInt(req.query.limit as string) || 20, 200)
+    );
+
+    res.json({
+      success: true,
+      data: { emails: messages.map(toEmailSummary) },
+    });
+  } catch (error) {
+    if (error instanceof EmailQueryError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+export default router;
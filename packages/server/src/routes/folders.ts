@@ -5,31 +5,38 @@
 
 import { Router } from 'express';
 import {
-  syncFolders,
   getCachedFolders,
   createAndSyncFolder,
   deleteAndSyncFolder,
   findOrCreateFolder,
   moveEmailToSyncedFolder,
-  initialFolderSync,
 } from '../lib/folderSync.js';
+import { enqueueJob, serializeJob } from '../lib/jobs.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // ===========================================
 // SYNC FOLDERS
 // POST /folders/:tenantId/sync
 // Full sync of folders from email provider
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await syncFolders(tenantId);
+    const job = await enqueueJob('folder_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: false },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -43,16 +50,20 @@ router.post('/:tenantId/sync', async (req, res) => {
 // INITIAL SYNC
 // POST /folders/:tenantId/initial-sync
 // Run initial folder sync (after OAuth connection)
+// Queued as a background job; poll GET /jobs/:tenantId/:jobId
 // ===========================================
 
 router.post('/:tenantId/initial-sync', async (req, res) => {
   try {
-    const { tenantId } = req.params;
-    const result = await initialFolderSync(tenantId);
+    const job = await enqueueJob('folder_sync', {
+      tenantId: req.tenantId!,
+      payload: { initial: true },
+      dedupe: true,
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      data: result,
+      job: serializeJob(job),
     });
   } catch (error) {
     res.status(500).json({
@@ -6,10 +6,26 @@
 import { Router } from 'express';
 import { db } from '../lib/db.js';
 import { integrationRegistry } from '../integrations/index.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+import { getSession } from '../lib/session.js';
+import {
+  createOAuthState,
+  consumeOAuthState,
+  normalizeReturnUrl,
+  sendAuthUrl,
+  OAuthStateError,
+  OAuthFlowContext,
+} from '../lib/oauthState.js';
+import { appUrl } from '../lib/notifications.js';
+import { connectMailbox, disconnectMailbox } from '../lib/mailProvider.js';
+import { disconnectConnection, listTenantConnections, saveOAuthConnection } from '../lib/connections.js';
 import 'dotenv/config';
 
 const router = Router();
 
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
 // Helper to find or create tenant
 async function getOrCreateTenant(tenantId: string) {
   let tenant = await db.tenant.findFirst({
@@ -34,6 +50,15 @@ async function getOrCreateTenant(tenantId: string) {
   return tenant;
 }
 
+// Send the browser back to the dashboard (or the page that started the flow) with the outcome
+function callbackRedirect(returnUrl: string | undefined, params: Record<string, string>): string {
+  const url = new URL(returnUrl || appUrl('/settings'));
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
 // ===========================================
 // GET /integrations
 // List all available integrations
@@ -46,6 +71,8 @@ router.get('/', (req, res) => {
 // ===========================================
 // GET /integrations/:integrationId/connect/:tenantId
 // Start OAuth flow for an integration
+// Redirects the browser, or returns { authUrl } for API clients
+// ?returnUrl= picks the dashboard page to land on afterwards
 // ===========================================
 router.get('/:integrationId/connect/:tenantId', async (req, res) => {
   try {
@@ -65,11 +92,21 @@ router.get('/:integrationId/connect/:tenantId', async (req, res) => {
       return res.status(400).json({ error: `Integration ${integrationId} does not support OAuth` });
     }
 
-    // State includes both tenant ID and integration ID
-    const state = JSON.stringify({ tenantId: tenant.id, integrationId });
-    const authUrl = await integration.getAuthUrl(tenant.id, state);
+    const returnUrl = normalizeReturnUrl(req.query.returnUrl);
+    if (req.query.returnUrl && !returnUrl) {
+      return res.status(400).json({ error: 'returnUrl must point to the dashboard (APP_URL)' });
+    }
 
-    res.redirect(authUrl);
+    const { state, pkce } = await createOAuthState({
+      tenantId: tenant.id,
+      integrationId,
+      userId: req.session?.userId,
+      returnUrl,
+      pkce: integration.config.pkce,
+    });
+    const authUrl = await integration.getAuthUrl(tenant.id, state, pkce);
+
+    sendAuthUrl(req, res, authUrl);
   } catch (error) {
     console.error('Integration connect error:', error);
     res.status(500).json({
@@ -87,94 +124,67 @@ router.get('/callback/:integrationId', async (req, res) => {
     const { integrationId } = req.params;
     const { code, state, error } = req.query;
 
-    // Handle OAuth errors
-    if (error) {
-      console.error('OAuth error:', error);
-      return res.redirect(
-        `${process.env.APP_URL}/settings?error=oauth_failed&integration=${integrationId}&message=${encodeURIComponent(String(error))}`
-      );
+    const integration = integrationRegistry.get(integrationId);
+    if (!integration || !integration.handleCallback) {
+      return res.redirect(callbackRedirect(undefined, { error: 'unknown_integration', integration: integrationId }));
     }
 
-    if (!code || !state) {
-      return res.redirect(
-        `${process.env.APP_URL}/settings?error=missing_params&integration=${integrationId}`
-      );
+    if (!state) {
+      return res.redirect(callbackRedirect(undefined, { error: 'missing_params', integration: integrationId }));
     }
 
-    const integration = integrationRegistry.get(integrationId);
-    if (!integration || !integration.handleCallback) {
-      return res.redirect(
-        `${process.env.APP_URL}/settings?error=unknown_integration&integration=${integrationId}`
-      );
+    // Tampered, expired and replayed state stop here, before the code is exchanged
+    let flow: OAuthFlowContext;
+    try {
+      const session = await getSession(req);
+      flow = await consumeOAuthState(String(state), integrationId, session?.userId);
+    } catch (stateError) {
+      if (!(stateError instanceof OAuthStateError)) throw stateError;
+      console.warn(`Rejected OAuth state for ${integrationId}: ${stateError.message}`);
+      return res.redirect(callbackRedirect(undefined, {
+        error: 'invalid_state',
+        integration: integrationId,
+        message: stateError.message,
+      }));
     }
 
-    // Parse state
-    let stateData: { tenantId: string; integrationId: string };
-    try {
-      stateData = JSON.parse(String(state));
-    } catch {
-      stateData = { tenantId: String(state), integrationId };
+    // Handle OAuth errors
+    if (error) {
+      console.error('OAuth error:', error);
+      return res.redirect(callbackRedirect(flow.returnUrl, {
+        error: 'oauth_failed',
+        integration: integrationId,
+        message: String(error),
+      }));
+    }
+
+    if (!code) {
+      return res.redirect(callbackRedirect(flow.returnUrl, { error: 'missing_params', integration: integrationId }));
     }
 
     // Exchange code for credentials
-    const credentials = await integration.handleCallback(String(code), stateData.tenantId);
-
-    // Check if this is the first credential for this integration
-    const existingCreds = await db.integrationCredential.count({
-      where: {
-        tenantId: stateData.tenantId,
-        integrationId,
-        isActive: true,
-      },
-    });
-    const isFirst = existingCreds === 0;
-
-    // Store credentials
-    const accountEmail = credentials.metadata?.email as string || null;
-
-    await db.integrationCredential.upsert({
-      where: {
-        tenantId_integrationId_accountEmail: {
-          tenantId: stateData.tenantId,
-          integrationId,
-          accountEmail: accountEmail || '',
-        },
-      },
-      update: {
-        accessToken: credentials.accessToken,
-        refreshToken: credentials.refreshToken,
-        expiresAt: credentials.expiresAt,
-        grantId: credentials.grantId,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        metadata: credentials.metadata as any,
-        isActive: true,
-      },
-      create: {
-        tenantId: stateData.tenantId,
-        integrationId,
-        accountEmail: accountEmail || '',
-        accessToken: credentials.accessToken,
-        refreshToken: credentials.refreshToken,
-        expiresAt: credentials.expiresAt,
-        grantId: credentials.grantId,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        metadata: credentials.metadata as any,
-        isPrimary: isFirst,
-      },
-    });
+    const credentials = await integration.handleCallback(String(code), flow.tenantId, flow.codeVerifier);
+
+    // Store credentials; tokens are encrypted at rest
+    const connection = await saveOAuthConnection(flow.tenantId, credentials);
+    const accountEmail = connection.accountEmail;
 
-    console.log(`Integration connected: ${integrationId} for tenant ${stateData.tenantId}`);
+    // Microsoft 365 and Google mail, calendar and contacts work as an email account too
+    await connectMailbox(flow.tenantId, credentials, connection.id);
 
-    res.redirect(
-      `${process.env.APP_URL}/settings?success=connected&integration=${integrationId}&email=${encodeURIComponent(accountEmail || '')}`
-    );
+    console.log(`Integration connected: ${integrationId} for tenant ${flow.tenantId}`);
+
+    res.redirect(callbackRedirect(flow.returnUrl, {
+      success: 'connected',
+      integration: integrationId,
+      email: accountEmail || '',
+    }));
   } catch (error) {
     console.error('Integration callback error:', error);
-    res.redirect(
-      `${process.env.APP_URL}/settings?error=callback_failed&message=${encodeURIComponent(
-        error instanceof Error ? error.message : 'Unknown error'
-      )}`
-    );
+    res.redirect(callbackRedirect(undefined, {
+      error: 'callback_failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    }));
   }
 });
 
@@ -187,34 +197,17 @@ router.get('/:integrationId/status/:tenantId', async (req, res) => {
     const { integrationId, tenantId } = req.params;
     const tenant = await getOrCreateTenant(tenantId);
 
-    const credentials = await db.integrationCredential.findMany({
-      where: {
-        tenantId: tenant.id,
-        integrationId,
-        isActive: true,
-      },
-      select: {
-        id: true,
-        accountEmail: true,
-        isPrimary: true,
-        expiresAt: true,
-        createdAt: true,
-        metadata: true,
-      },
-      orderBy: [
-        { isPrimary: 'desc' },
-        { createdAt: 'asc' },
-      ],
-    });
+    const connections = await listTenantConnections(tenant.id, { integrationId });
 
     res.json({
-      connected: credentials.length > 0,
-      credentials: credentials.map(c => ({
+      connected: connections.length > 0,
+      credentials: connections.map(c => ({
         id: c.id,
         email: c.accountEmail,
         isPrimary: c.isPrimary,
-        expiresAt: c.expiresAt,
-        displayName: (c.metadata as Record<string, unknown>)?.displayName,
+        expiresAt: c.tokenExpiresAt,
+        displayName: c.accountName || c.metadata?.displayName,
+        status: c.status,
       })),
     });
   } catch (error) {
@@ -233,41 +226,16 @@ router.delete('/:integrationId/:tenantId/:credentialId', async (req, res) => {
     const { integrationId, tenantId, credentialId } = req.params;
     const tenant = await getOrCreateTenant(tenantId);
 
-    const credential = await db.integrationCredential.findFirst({
-      where: {
-        id: credentialId,
-        tenantId: tenant.id,
-        integrationId,
-      },
-    });
-
-    if (!credential) {
+    const existing = await listTenantConnections(tenant.id, { integrationId });
+    if (!existing.some(c => c.id === credentialId && c.source !== 'account')) {
       return res.status(404).json({ success: false, error: 'Credential not found' });
     }
 
-    // Mark as inactive
-    await db.integrationCredential.update({
-      where: { id: credentialId },
-      data: { isActive: false },
-    });
-
-    // If this was primary, set another as primary
-    if (credential.isPrimary) {
-      const next = await db.integrationCredential.findFirst({
-        where: {
-          tenantId: tenant.id,
-          integrationId,
-          isActive: true,
-        },
-        orderBy: { createdAt: 'asc' },
-      });
+    const connection = await disconnectConnection(tenant.id, credentialId);
 
-      if (next) {
-        await db.integrationCredential.update({
-          where: { id: next.id },
-          data: { isPrimary: true },
-        });
-      }
+    // Accounts connected before they were linked to a connection
+    if (connection?.accountEmail) {
+      await disconnectMailbox(tenant.id, integrationId, connection.accountEmail);
     }
 
     res.json({ success: true, message: 'Disconnected' });
@@ -289,29 +257,18 @@ router.get('/connected/:tenantId', async (req, res) => {
     const { tenantId } = req.params;
     const tenant = await getOrCreateTenant(tenantId);
 
-    const credentials = await db.integrationCredential.findMany({
-      where: {
-        tenantId: tenant.id,
-        isActive: true,
-      },
-      select: {
-        integrationId: true,
-        accountEmail: true,
-        isPrimary: true,
-        metadata: true,
-      },
-    });
+    const connections = await listTenantConnections(tenant.id);
 
     // Group by integration
     const byIntegration: Record<string, unknown[]> = {};
-    for (const cred of credentials) {
-      if (!byIntegration[cred.integrationId]) {
-        byIntegration[cred.integrationId] = [];
+    for (const connection of connections) {
+      if (!byIntegration[connection.integrationId]) {
+        byIntegration[connection.integrationId] = [];
       }
-      byIntegration[cred.integrationId].push({
-        email: cred.accountEmail,
-        isPrimary: cred.isPrimary,
-        displayName: (cred.metadata as Record<string, unknown>)?.displayName,
+      byIntegration[connection.integrationId].push({
+        email: connection.accountEmail,
+        isPrimary: connection.isPrimary,
+        displayName: connection.accountName || connection.metadata?.displayName,
       });
     }
 
@@ -0,0 +1,117 @@
+// ===========================================
+// JOB ROUTES
+// Poll and cancel background jobs (syncs, async tool calls)
+// ===========================================
+
+import { Router, Request } from 'express';
+import { Job } from '@prisma/client';
+import { getJob, listJobs, cancelJob, serializeJob, JOB_STATUSES, JOB_TYPES } from '../lib/jobs.js';
+import { hasScope } from '../lib/apiKey.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+// API keys only see jobs they could have started; sessions see every job
+function canSeeJob(req: Request, job: Job): boolean {
+  return !req.apiKey || hasScope(req.apiKey, job.scope || '*');
+}
+
+// ===========================================
+// GET /jobs/:tenantId
+// Recent jobs, newest first (?status=&type=&limit=)
+// ===========================================
+router.get('/:tenantId', async (req, res) => {
+  try {
+    const { status, type } = req.query;
+
+    if (status !== undefined && !JOB_STATUSES.includes(status as typeof JOB_STATUSES[number])) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${JOB_STATUSES.join(', ')}`,
+      });
+    }
+
+    if (type !== undefined && !(String(type) in JOB_TYPES)) {
+      return res.status(400).json({
+        success: false,
+        error: `type must be one of: ${Object.keys(JOB_TYPES).join(', ')}`,
+      });
+    }
+
+    const jobs = await listJobs(req.tenantId!, {
+      status: status as string | undefined,
+      type: type as string | undefined,
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+
+    res.json({
+      success: true,
+      jobs: jobs.filter(job => canSeeJob(req, job)).map(serializeJob),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list jobs',
+    });
+  }
+});
+
+// ===========================================
+// GET /jobs/:tenantId/:jobId
+// Status and result of one job
+// ===========================================
+router.get('/:tenantId/:jobId', async (req, res) => {
+  try {
+    const job = await getJob(req.params.jobId, req.tenantId!);
+
+    if (!job || !canSeeJob(req, job)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    res.json({ success: true, job: serializeJob(job) });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get job',
+    });
+  }
+});
+
+// ===========================================
+// POST /jobs/:tenantId/:jobId/cancel
+// Cancel a job that hasn't started yet
+// ===========================================
+router.post('/:tenantId/:jobId/cancel', async (req, res) => {
+  try {
+    const job = await getJob(req.params.jobId, req.tenantId!);
+
+    if (!job || !canSeeJob(req, job)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found',
+      });
+    }
+
+    if (!(await cancelJob(job.id, req.tenantId!))) {
+      return res.status(409).json({
+        success: false,
+        error: `Job is ${job.status}; only pending jobs can be cancelled`,
+      });
+    }
+
+    res.json({ success: true, message: 'Job cancelled' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to cancel job',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,259 @@
+// ===========================================
+// MCP ROUTES
+// Model Context Protocol over Streamable HTTP and legacy HTTP+SSE
+// ===========================================
+
+import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { requireApiKey } from '../middleware/auth.js';
+import {
+  handleMcpMessage,
+  isRequest,
+  JsonRpcResponse,
+  JSON_RPC_ERRORS,
+} from '../lib/mcp.js';
+
+const router = Router();
+
+// Every MCP request must carry a bm_live_/bm_test_ API key
+router.use(requireApiKey());
+
+// ===========================================
+// SESSIONS
+// ===========================================
+
+interface McpSession {
+  id: string;
+  tenantId: string;
+  apiKeyId: string;
+  stream?: Response; // Open SSE stream for server-to-client messages
+  lastSeenAt: number;
+}
+
+const sessions = new Map<string, McpSession>();
+const SESSION_TTL_MS = 60 * 60 * 1000; // 1 hour idle
+const KEEPALIVE_INTERVAL_MS = 25 * 1000;
+
+// Clean up idle sessions periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, session] of sessions.entries()) {
+    if (!session.stream && now - session.lastSeenAt > SESSION_TTL_MS) {
+      sessions.delete(id);
+    }
+  }
+}, 60 * 1000);
+
+function createSession(req: Request): McpSession {
+  const session: McpSession = {
+    id: randomUUID(),
+    tenantId: req.apiKey!.tenantId,
+    apiKeyId: req.apiKey!.id,
+    lastSeenAt: Date.now(),
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+// Sessions are bound to the API key that created them
+function getSession(req: Request, sessionId: string | undefined): McpSession | undefined {
+  if (!sessionId) return undefined;
+  const session = sessions.get(sessionId);
+  if (!session || session.apiKeyId !== req.apiKey!.id) return undefined;
+  session.lastSeenAt = Date.now();
+  return session;
+}
+
+// ===========================================
+// SSE HELPERS
+// ===========================================
+
+function openEventStream(res: Response): NodeJS.Timeout {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Comment lines keep proxies from closing idle streams
+  return setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  res.write(`event: ${event}\ndata: ${payload}\n\n`);
+}
+
+function prefersEventStream(req: Request): boolean {
+  const accept = req.headers.accept || '';
+  return accept.includes('text/event-stream') && !accept.includes('application/json');
+}
+
+async function handleBody(body: unknown, req: Request): Promise<JsonRpcResponse[]> {
+  const messages = Array.isArray(body) ? body : [body];
+  const context = { tenantId: req.apiKey!.tenantId, apiKey: req.apiKey!, requestId: req.requestId };
+  const responses = await Promise.all(messages.map(m => handleMcpMessage(m, context)));
+  return responses.filter((r): r is JsonRpcResponse => r !== null);
+}
+
+// ===========================================
+// POST /mcp
+// Streamable HTTP: client sends JSON-RPC messages
+// ===========================================
+router.post('/', async (req, res) => {
+  const body = req.body;
+
+  if (!body || (Array.isArray(body) && body.length === 0)) {
+    return res.status(400).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Empty request body' },
+    });
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+  const isInitialize = messages.some(m => m?.method === 'initialize');
+  const sessionHeader = req.headers['mcp-session-id'] as string | undefined;
+
+  let session: McpSession | undefined;
+  if (isInitialize) {
+    session = createSession(req);
+    res.setHeader('Mcp-Session-Id', session.id);
+  } else if (sessionHeader) {
+    session = getSession(req, sessionHeader);
+    if (!session) {
+      return res.status(404).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Session not found' },
+      });
+    }
+  }
+
+  try {
+    const responses = await handleBody(body, req);
+
+    // Only notifications or responses were sent
+    if (!messages.some(isRequest)) {
+      return res.status(202).end();
+    }
+
+    if (prefersEventStream(req)) {
+      const keepalive = openEventStream(res);
+      for (const response of responses) {
+        writeEvent(res, 'message', response);
+      }
+      clearInterval(keepalive);
+      return res.end();
+    }
+
+    res.json(Array.isArray(body) ? responses : responses[0]);
+  } catch (error) {
+    res.status(500).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+        message: error instanceof Error ? error.message : 'Internal error',
+      },
+    });
+  }
+});
+
+// ===========================================
+// GET /mcp
+// Streamable HTTP: optional SSE stream for server-initiated messages
+// ===========================================
+router.get('/', (req, res) => {
+  const accept = req.headers.accept || '';
+  if (!accept.includes('text/event-stream')) {
+    return res.status(405).json({
+      success: false,
+      error: 'GET requires Accept: text/event-stream',
+    });
+  }
+
+  const session = getSession(req, req.headers['mcp-session-id'] as string | undefined);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  const keepalive = openEventStream(res);
+  session.stream = res;
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    if (session.stream === res) session.stream = undefined;
+  });
+});
+
+// ===========================================
+// DELETE /mcp
+// Streamable HTTP: client terminates its session
+// ===========================================
+router.delete('/', (req, res) => {
+  const session = getSession(req, req.headers['mcp-session-id'] as string | undefined);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  session.stream?.end();
+  sessions.delete(session.id);
+  res.status(204).end();
+});
+
+// ===========================================
+// GET /mcp/sse
+// Legacy HTTP+SSE transport (protocol 2024-11-05)
+// ===========================================
+router.get('/sse', (req, res) => {
+  const session = createSession(req);
+  const keepalive = openEventStream(res);
+  session.stream = res;
+
+  // Tell the client where to POST its messages
+  writeEvent(res, 'endpoint', `${req.baseUrl}/messages?sessionId=${session.id}`);
+
+  req.on('close', () => {
+    clearInterval(keepalive);
+    sessions.delete(session.id);
+  });
+});
+
+// ===========================================
+// POST /mcp/messages?sessionId=...
+// Legacy HTTP+SSE transport: responses go out over the SSE stream
+// ===========================================
+router.post('/messages', async (req, res) => {
+  const session = getSession(req, req.query.sessionId as string | undefined);
+  if (!session?.stream) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+
+  const stream = session.stream;
+  res.status(202).end();
+
+  try {
+    const responses = await handleBody(req.body, req);
+    for (const response of responses) {
+      writeEvent(stream, 'message', response);
+    }
+  } catch (error) {
+    // The 202 is already sent, so each request gets its error over the stream
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    const ids = messages.filter(isRequest).map(m => m.id);
+    for (const id of ids.length > 0 ? ids : [null]) {
+      writeEvent(stream, 'message', {
+        jsonrpc: '2.0',
+        id,
+        error: {
+          code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+          message: error instanceof Error ? error.message : 'Internal error',
+        },
+      });
+    }
+  }
+});
+
+export default router;
@@ -0,0 +1,311 @@
+// ===========================================
+// TEAM MEMBER ROUTES
+// List members, invite by email, change roles and remove
+// ===========================================
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { db } from '../lib/db.js';
+import {
+  TENANT_ROLES,
+  isTenantRole,
+  hasPermission,
+  canAssignRole,
+  isLastOwner,
+  inviteMember,
+} from '../lib/memberships.js';
+import { normalizeEmail } from '../lib/users.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Changes are attributed to a person, so API keys can only read the team
+function requireMemberSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.session) {
+    return res.status(403).json({
+      success: false,
+      error: 'Team changes require a signed-in dashboard user',
+    });
+  }
+  next();
+}
+
+async function sendInvitation(
+  req: Request,
+  res: Response,
+  email: string,
+  role: string,
+  status: number
+) {
+  if (!isTenantRole(role)) {
+    return res.status(400).json({
+      success: false,
+      error: `role must be one of: ${TENANT_ROLES.join(', ')}`,
+    });
+  }
+  if (!canAssignRole(req.session!.role, null, role)) {
+    return res.status(403).json({
+      success: false,
+      error: `Your role (${req.session!.role}) cannot invite ${role}s`,
+    });
+  }
+
+  const existing = await db.membership.findFirst({
+    where: { tenantId: req.tenantId!, user: { email } },
+    select: { id: true },
+  });
+  if (existing) {
+    return res.status(409).json({ success: false, error: `${email} is already a member` });
+  }
+
+  const inviter = await db.user.findUnique({
+    where: { id: req.session!.userId },
+    select: { id: true, email: true, name: true },
+  });
+  if (!inviter) {
+    return res.status(401).json({ success: false, error: 'Not signed in' });
+  }
+
+  const { invitation, emailSent } = await inviteMember({
+    tenantId: req.tenantId!,
+    email,
+    role,
+    invitedBy: inviter,
+  });
+
+  res.status(status).json({
+    success: true,
+    invitation: {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    },
+    emailSent,
+    ...(!emailSent && { hint: 'Set RESEND_API_KEY to email invitations' }),
+  });
+}
+
+// ===========================================
+// GET /members/:tenantId
+// Members and pending invitations
+// ===========================================
+router.get('/:tenantId', async (req, res) => {
+  try {
+    const [memberships, invitations] = await Promise.all([
+      db.membership.findMany({
+        where: { tenantId: req.tenantId! },
+        include: { user: { select: { id: true, email: true, name: true, lastLoginAt: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      db.invitation.findMany({
+        where: { tenantId: req.tenantId!, acceptedAt: null, expiresAt: { gt: new Date() } },
+        include: { invitedBy: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      roles: TENANT_ROLES,
+      members: memberships.map(m => ({
+        id: m.id,
+        userId: m.user.id,
+        email: m.user.email,
+        name: m.user.name,
+        role: m.role,
+        lastLoginAt: m.user.lastLoginAt,
+        joinedAt: m.createdAt,
+        isYou: m.userId === req.session?.userId,
+      })),
+      invitations: invitations.map(i => ({
+        id: i.id,
+        email: i.email,
+        role: i.role,
+        invitedBy: i.invitedBy ? i.invitedBy.name || i.invitedBy.email : null,
+        expiresAt: i.expiresAt,
+        createdAt: i.createdAt,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list members',
+    });
+  }
+});
+
+// ===========================================
+// POST /members/:tenantId/invitations
+// Invite someone by email; re-inviting replaces the pending link
+// ===========================================
+router.post('/:tenantId/invitations', requireMemberSession, async (req, res) => {
+  try {
+    const { email, role = 'developer' } = req.body;
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({ success: false, error: 'A valid email is required' });
+    }
+
+    await sendInvitation(req, res, normalizeEmail(email), role, 201);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send invitation',
+    });
+  }
+});
+
+// ===========================================
+// POST /members/:tenantId/invitations/:invitationId/resend
+// Email a fresh link for a pending invitation
+// ===========================================
+router.post('/:tenantId/invitations/:invitationId/resend', requireMemberSession, async (req, res) => {
+  try {
+    const invitation = await db.invitation.findFirst({
+      where: { id: req.params.invitationId, tenantId: req.tenantId!, acceptedAt: null },
+    });
+
+    if (!invitation) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' });
+    }
+
+    await sendInvitation(req, res, invitation.email, invitation.role, 200);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to resend invitation',
+    });
+  }
+});
+
+// ===========================================
+// DELETE /members/:tenantId/invitations/:invitationId
+// Revoke a pending invitation
+// ===========================================
+router.delete('/:tenantId/invitations/:invitationId', requireMemberSession, async (req, res) => {
+  try {
+    const result = await db.invitation.deleteMany({
+      where: { id: req.params.invitationId, tenantId: req.tenantId!, acceptedAt: null },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' });
+    }
+
+    res.json({ success: true, message: 'Invitation revoked' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to revoke invitation',
+    });
+  }
+});
+
+// ===========================================
+// PUT /members/:tenantId/:membershipId
+// Change a member's role
+// ===========================================
+router.put('/:tenantId/:membershipId', requireMemberSession, async (req, res) => {
+  try {
+    const { role } = req.body;
+
+    if (!isTenantRole(role)) {
+      return res.status(400).json({
+        success: false,
+        error: `role must be one of: ${TENANT_ROLES.join(', ')}`,
+      });
+    }
+
+    const membership = await db.membership.findFirst({
+      where: { id: req.params.membershipId, tenantId: req.tenantId! },
+    });
+    if (!membership) {
+      return res.status(404).json({ success: false, error: 'Member not found' });
+    }
+
+    if (!canAssignRole(req.session!.role, membership.role, role)) {
+      return res.status(403).json({
+        success: false,
+        error: `Your role (${req.session!.role}) cannot change this member to ${role}`,
+      });
+    }
+
+    if (role !== 'owner' && await isLastOwner(req.tenantId!, membership.id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A team needs at least one owner',
+        hint: 'Make someone else an owner first',
+      });
+    }
+
+    const updated = await db.membership.update({
+      where: { id: membership.id },
+      data: { role },
+    });
+
+    res.json({ success: true, member: { id: updated.id, role: updated.role } });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update member',
+    });
+  }
+});
+
+// ===========================================
+// DELETE /members/:tenantId/:membershipId
+// Remove a member, or leave the team when it's your own membership
+// ===========================================
+router.delete('/:tenantId/:membershipId', requireMemberSession, async (req, res) => {
+  try {
+    const membership = await db.membership.findFirst({
+      where: { id: req.params.membershipId, tenantId: req.tenantId! },
+    });
+    if (!membership) {
+      return res.status(404).json({ success: false, error: 'Member not found' });
+    }
+
+    const isSelf = membership.userId === req.session!.userId;
+    if (!isSelf) {
+      const actorRole = req.session!.role;
+      const allowed = hasPermission(actorRole, 'members:manage')
+        && (actorRole === 'owner' || membership.role !== 'owner');
+
+      if (!allowed) {
+        return res.status(403).json({
+          success: false,
+          error: `Your role (${actorRole}) cannot remove this member`,
+        });
+      }
+    }
+
+    if (await isLastOwner(req.tenantId!, membership.id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A team needs at least one owner',
+        hint: 'Make someone else an owner first',
+      });
+    }
+
+    // Their sessions in this tenant stop working with the membership
+    await db.$transaction([
+      db.membership.delete({ where: { id: membership.id } }),
+      db.userSession.deleteMany({ where: { userId: membership.userId, tenantId: req.tenantId! } }),
+    ]);
+
+    res.json({ success: true, message: isSelf ? 'You left the team' : 'Member removed' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove member',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,34 @@
+// ===========================================
+// SYNC STATUS ROUTES
+// Schedule, cursors and recent run stats for a tenant's syncs
+// ===========================================
+
+import { Router } from 'express';
+import { getSyncStatus } from '../lib/scheduledSync.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+// ===========================================
+// GET /sync/:tenantId
+// Last/next sync times and the most recent runs (?limit=)
+// ===========================================
+router.get('/:tenantId', async (req, res) => {
+  try {
+    const status = await getSyncStatus(req.tenantId!, {
+      limit: parseInt(req.query.limit as string) || undefined,
+    });
+
+    res.json({ success: true, ...status });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get sync status',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,335 @@
+// ===========================================
+// TENANT WEBHOOK ENDPOINT ROUTES
+// Register endpoints, inspect and retry deliveries
+// ===========================================
+
+import { Router } from 'express';
+import { db } from '../lib/db.js';
+import {
+  TENANT_EVENT_TYPES,
+  SIGNATURE_HEADER,
+  generateEndpointSecret,
+  sendTestEvent,
+  redeliver,
+} from '../lib/tenantWebhooks.js';
+import { WEBHOOK_PROVIDERS, requiresTenantToken, tenantWebhookPath } from '../lib/webhooks.js';
+import { checkOutboundUrl } from '../lib/outboundUrl.js';
+import { requireTenantAccess } from '../middleware/tenantAccess.js';
+
+const router = Router();
+
+// Every :tenantId route must belong to the caller's tenant
+router.param('tenantId', requireTenantAccess);
+
+const MAX_ENDPOINTS_PER_TENANT = 10;
+const DELIVERY_STATUSES = ['pending', 'succeeded', 'dead'];
+
+// Deliveries re-check the address at send time (lib/outboundUrl.ts)
+async function validateEndpointUrl(url: unknown): Promise<string | null> {
+  if (typeof url !== 'string') return 'Missing required field: url';
+
+  const error = await checkOutboundUrl(url);
+  if (error) return error;
+
+  if (new URL(url).protocol === 'http:' && process.env.NODE_ENV === 'production') {
+    return 'url must use https';
+  }
+
+  return null;
+}
+
+function validateEventTypes(eventTypes: unknown): string | null {
+  if (eventTypes === undefined) return null;
+  if (!Array.isArray(eventTypes)) return 'eventTypes must be an array';
+
+  const invalid = eventTypes.filter(t => typeof t !== 'string' || !(t in TENANT_EVENT_TYPES));
+  return invalid.length > 0 ? `Unknown event types: ${invalid.join(', ')}` : null;
+}
+
+function formatEndpoint(endpoint: {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    eventTypes: endpoint.eventTypes,
+    isActive: endpoint.isActive,
+    createdAt: endpoint.createdAt,
+    updatedAt: endpoint.updatedAt,
+  };
+}
+
+// ===========================================
+// GET /webhook-endpoints/:tenantId/event-types
+// Events an endpoint can subscribe to
+// ===========================================
+router.get('/:tenantId/event-types', (_req, res) => {
+  res.json({
+    success: true,
+    eventTypes: Object.entries(TENANT_EVENT_TYPES).map(([type, description]) => ({ type, description })),
+    signatureHeader: SIGNATURE_HEADER,
+  });
+});
+
+// ===========================================
+// GET /webhook-endpoints/:tenantId/inbound
+// This tenant's URLs to register with providers (Cal.com, Vapi, ...);
+// each is signed for the tenant, so keep them private
+// ===========================================
+router.get('/:tenantId/inbound', (req, res) => {
+  try {
+    const baseUrl = process.env.SERVER_URL || `${req.protocol}://${req.get('host')}`;
+
+    res.json({
+      success: true,
+      inbound: Object.keys(WEBHOOK_PROVIDERS)
+        .filter(requiresTenantToken)
+        .map(integrationId => ({
+          integrationId,
+          url: `${baseUrl}${tenantWebhookPath(integrationId, req.tenantId!)}`,
+          // null: the signing secret is saved on the tenant's own connection (or there's none)
+          secretEnvVar: WEBHOOK_PROVIDERS[integrationId].secretEnvVar ?? null,
+          signed: !WEBHOOK_PROVIDERS[integrationId].unsigned,
+        })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build webhook URLs',
+    });
+  }
+});
+
+// ===========================================
+// GET /webhook-endpoints/:tenantId/deliveries
+// Delivery log, newest first (?endpointId=&status=&limit=)
+// ===========================================
+router.get('/:tenantId/deliveries', async (req, res) => {
+  try {
+    const { endpointId, status } = req.query;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+    if (status !== undefined && !DELIVERY_STATUSES.includes(status as string)) {
+      return res.status(400).json({
+        success: false,
+        error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}`,
+      });
+    }
+
+    const deliveries = await db.webhookDelivery.findMany({
+      where: {
+        tenantId: req.tenantId!,
+        ...(typeof endpointId === 'string' && { endpointId }),
+        ...(typeof status === 'string' && { status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      include: { endpoint: { select: { url: true } } },
+    });
+
+    res.json({
+      success: true,
+      deliveries: deliveries.map(({ endpoint, ...delivery }) => ({
+        ...delivery,
+        endpointUrl: endpoint.url,
+      })),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list deliveries',
+    });
+  }
+});
+
+// ===========================================
+// POST /webhook-endpoints/:tenantId/deliveries/:deliveryId/retry
+// Re-queue a dead (or already delivered) delivery
+// ===========================================
+router.post('/:tenantId/deliveries/:deliveryId/retry', async (req, res) => {
+  try {
+    const queued = await redeliver(req.params.deliveryId, req.tenantId!);
+
+    if (!queued) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery not found or still pending',
+      });
+    }
+
+    res.json({ success: true, message: 'Delivery queued' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retry delivery',
+    });
+  }
+});
+
+// ===========================================
+// GET /webhook-endpoints/:tenantId
+// List the tenant's endpoints
+// ===========================================
+router.get('/:tenantId', async (req, res) => {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { tenantId: req.tenantId! },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      success: true,
+      endpoints: endpoints.map(formatEndpoint),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list webhook endpoints',
+    });
+  }
+});
+
+// ===========================================
+// POST /webhook-endpoints/:tenantId
+// Register an endpoint; the signing secret is only returned here
+// ===========================================
+router.post('/:tenantId', async (req, res) => {
+  try {
+    const { url, description, eventTypes } = req.body;
+
+    const validationError = (await validateEndpointUrl(url)) || validateEventTypes(eventTypes);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const count = await db.webhookEndpoint.count({ where: { tenantId: req.tenantId! } });
+    if (count >= MAX_ENDPOINTS_PER_TENANT) {
+      return res.status(400).json({
+        success: false,
+        error: `A tenant can have at most ${MAX_ENDPOINTS_PER_TENANT} webhook endpoints`,
+      });
+    }
+
+    const { secret, secretEncrypted } = generateEndpointSecret();
+    const endpoint = await db.webhookEndpoint.create({
+      data: {
+        tenantId: req.tenantId!,
+        url,
+        description: description || null,
+        eventTypes: eventTypes || [],
+        secretEncrypted,
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook endpoint created. Save this secret - it will not be shown again!',
+      secret, // Only shown once!
+      endpoint: formatEndpoint(endpoint),
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create webhook endpoint',
+    });
+  }
+});
+
+// ===========================================
+// PUT /webhook-endpoints/:tenantId/:endpointId
+// Update url, description, event filter or active flag
+// ===========================================
+router.put('/:tenantId/:endpointId', async (req, res) => {
+  try {
+    const { url, description, eventTypes, isActive } = req.body;
+
+    const validationError = (url !== undefined ? await validateEndpointUrl(url) : null) || validateEventTypes(eventTypes);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const existing = await db.webhookEndpoint.findFirst({
+      where: { id: req.params.endpointId, tenantId: req.tenantId! },
+    });
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Webhook endpoint not found' });
+    }
+
+    const endpoint = await db.webhookEndpoint.update({
+      where: { id: existing.id },
+      data: {
+        ...(url !== undefined && { url }),
+        ...(description !== undefined && { description: description || null }),
+        ...(eventTypes !== undefined && { eventTypes }),
+        ...(typeof isActive === 'boolean' && { isActive }),
+      },
+    });
+
+    res.json({ success: true, endpoint: formatEndpoint(endpoint) });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update webhook endpoint',
+    });
+  }
+});
+
+// ===========================================
+// DELETE /webhook-endpoints/:tenantId/:endpointId
+// Remove an endpoint and its delivery log
+// ===========================================
+router.delete('/:tenantId/:endpointId', async (req, res) => {
+  try {
+    const result = await db.webhookEndpoint.deleteMany({
+      where: { id: req.params.endpointId, tenantId: req.tenantId! },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ success: false, error: 'Webhook endpoint not found' });
+    }
+
+    res.json({ success: true, message: 'Webhook endpoint deleted' });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete webhook endpoint',
+    });
+  }
+});
+
+// ===========================================
+// POST /webhook-endpoints/:tenantId/:endpointId/test
+// Send a webhook.test event to one endpoint
+// ===========================================
+router.post('/:tenantId/:endpointId/test', async (req, res) => {
+  try {
+    const endpoint = await db.webhookEndpoint.findFirst({
+      where: { id: req.params.endpointId, tenantId: req.tenantId! },
+    });
+    if (!endpoint) {
+      return res.status(404).json({ success: false, error: 'Webhook endpoint not found' });
+    }
+
+    const delivery = await sendTestEvent(endpoint.id, endpoint.tenantId);
+
+    res.json({
+      success: true,
+      message: 'Test event queued',
+      deliveryId: delivery.id,
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send test event',
+    });
+  }
+});
+
+export default router;
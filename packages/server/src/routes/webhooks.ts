@@ -0,0 +1,156 @@
+// ===========================================
+// WEBHOOK ROUTES
+// Receive push notifications from providers
+// ===========================================
+
+import express, { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { db } from '../lib/db.js';
+import {
+  WEBHOOK_PROVIDERS,
+  getWebhookSecrets,
+  getWebhookEventId,
+  isWebhookPayload,
+  resolveWebhookTenant,
+  requiresTenantToken,
+  verifyTenantToken,
+  WebhookPayload,
+  WebhookRequest,
+} from '../lib/webhooks.js';
+import { enqueueJob } from '../lib/jobs.js';
+
+const router = Router();
+
+// Signatures are computed over the exact bytes, so this router parses its own body
+// (mounted before express.json() in index.ts)
+router.use(express.raw({ type: '*/*', limit: '1mb' }));
+
+// ===========================================
+// GET /webhooks/nylas
+// Nylas verifies a new webhook URL by echoing ?challenge=
+// ===========================================
+router.get('/nylas', (req, res) => {
+  const { challenge } = req.query;
+
+  if (typeof challenge !== 'string') {
+    return res.status(400).json({ success: false, error: 'Missing challenge' });
+  }
+
+  res.type('text/plain').send(challenge);
+});
+
+// ===========================================
+// POST /webhooks/:integrationId/:tenantToken?
+// Verify, store once, acknowledge, then process as a background job
+// The tenant token (GET /webhook-endpoints/:tenantId/inbound) ties events
+// to a tenant for providers whose payloads don't identify one
+// ===========================================
+router.post('/:integrationId/:tenantToken?', async (req, res) => {
+  const { integrationId, tenantToken } = req.params;
+  const provider = WEBHOOK_PROVIDERS[integrationId];
+
+  if (!provider) {
+    return res.status(404).json({
+      success: false,
+      error: `Webhooks are not supported for: ${integrationId}`,
+    });
+  }
+
+  try {
+    let tokenTenantId: string | undefined;
+    if (requiresTenantToken(integrationId)) {
+      tokenTenantId = tenantToken ? verifyTenantToken(integrationId, tenantToken) ?? undefined : undefined;
+      if (!tokenTenantId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Unknown webhook URL',
+          hint: 'Use the URL from GET /webhook-endpoints/:tenantId/inbound',
+        });
+      }
+    }
+
+    const webhookReq: WebhookRequest = {
+      headers: req.headers,
+      rawBody: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0),
+    };
+
+    // Unsigned providers were already checked by their tenant token
+    let secret = '';
+    if (!provider.unsigned) {
+      const secrets = await getWebhookSecrets(integrationId, tokenTenantId);
+      if (secrets.length === 0) {
+        return res.status(503).json({
+          success: false,
+          error: 'Webhook secret not configured',
+          hint: provider.secretEnvVar
+            ? `Set ${provider.secretEnvVar} or add a webhookSecret to the integration's platform credentials`
+            : `Save the endpoint's signing secret as webhookSecret on the tenant's ${integrationId} connection`,
+        });
+      }
+
+      const verified = secrets.find(candidate => provider.verify(webhookReq, candidate));
+      if (!verified) {
+        return res.status(401).json({
+          success: false,
+          error: 'Invalid webhook signature',
+        });
+      }
+      secret = verified;
+    }
+
+    let payload: WebhookPayload;
+    try {
+      const parsed: unknown = provider.parse ? provider.parse(webhookReq) : JSON.parse(webhookReq.rawBody.toString('utf8'));
+      if (!isWebhookPayload(parsed)) throw new Error('Webhook body is not an object');
+      payload = parsed;
+    } catch {
+      return res.status(400).json({
+        success: false,
+        error: 'Webhook body could not be parsed',
+      });
+    }
+
+    const challengeResponse = provider.challenge?.(payload, secret);
+    if (challengeResponse) {
+      return res.json(challengeResponse);
+    }
+
+    const tenantId = await resolveWebhookTenant(integrationId, payload, tokenTenantId);
+
+    let event;
+    try {
+      event = await db.webhookEvent.create({
+        data: {
+          integrationId,
+          externalId: getWebhookEventId(provider, webhookReq, payload),
+          eventType: provider.getEventType(webhookReq, payload),
+          tenantId,
+          payload: payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      // Providers retry deliveries; a repeat of a stored event is acknowledged and skipped
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.json({ success: true, duplicate: true });
+      }
+      throw error;
+    }
+
+    // Acknowledge fast so providers don't time out and retry
+    res.json({ success: true, eventId: event.id });
+
+    enqueueJob('webhook_event', {
+      tenantId: event.tenantId || undefined,
+      payload: { eventId: event.id },
+    }).catch((error) => {
+      console.error(`Failed to queue webhook ${event.id}:`, error);
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to receive webhook',
+    });
+  }
+});
+
+export default router;
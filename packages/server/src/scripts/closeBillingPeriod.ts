@@ -0,0 +1,46 @@
+// ===========================================
+// CLOSE BILLING PERIOD
+// npm run billing:close [-- YYYY-MM]
+// Creates every tenant's invoice for the period (default: last month)
+// and pushes them to Stripe; safe to re-run
+// ===========================================
+
+import 'dotenv/config';
+import { db } from '../lib/db.js';
+import { initEncryption } from '../lib/encryption.js';
+import { closeBillingPeriod, previousPeriod } from '../lib/billing.js';
+import { stripeIntegration } from '../integrations/index.js';
+
+async function main() {
+  await initEncryption();
+  const period = process.argv[2] || previousPeriod();
+
+  if (!stripeIntegration.hasPlatformKey()) {
+    console.warn('STRIPE_SECRET_KEY is not set; invoices will be created but not sent to Stripe\n');
+  }
+  console.log(`Closing billing period ${period}...\n`);
+
+  const result = await closeBillingPeriod(period);
+  console.log(`Invoices ${result.invoices}, synced ${result.synced}, failed ${result.failed}`);
+
+  const failed = await db.invoice.findMany({
+    where: { period, status: 'draft', syncError: { not: null } },
+    select: { id: true, tenantId: true, syncError: true },
+  });
+  for (const invoice of failed) {
+    console.error(`  ${invoice.id} (tenant ${invoice.tenantId}): ${invoice.syncError}`);
+  }
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
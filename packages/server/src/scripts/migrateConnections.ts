@@ -0,0 +1,32 @@
+// ===========================================
+// MIGRATE CONNECTIONS
+// npm run db:migrate-connections
+// Copies IntegrationCredential rows and legacy Nylas grants into
+// Connection and links every mailbox account to its connection.
+// Nothing is deleted, and it's safe to re-run
+// ===========================================
+
+import 'dotenv/config';
+import { db } from '../lib/db.js';
+import { migrateLegacyConnections } from '../lib/connections.js';
+
+async function main() {
+  // Tokens are copied still encrypted, so no keys are needed
+  console.log('Migrating connections...\n');
+
+  const result = await migrateLegacyConnections();
+  console.log(`Tenants: ${result.tenants}`);
+  console.log(`Legacy grants adopted: ${result.adoptedGrants}`);
+  console.log(`Credentials migrated: ${result.migratedCredentials} (merged into existing: ${result.mergedCredentials})`);
+  console.log(`Accounts linked: ${result.linkedAccounts}`);
+  console.log(`Primaries fixed: ${result.normalizedPrimaries}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
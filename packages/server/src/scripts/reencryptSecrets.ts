@@ -0,0 +1,41 @@
+// ===========================================
+// RE-ENCRYPT SECRETS
+// npm run secrets:reencrypt
+// Rewrites every stored secret with the active key; safe to run while
+// the server is up and to re-run after a failure
+// ===========================================
+
+import 'dotenv/config';
+import { db } from '../lib/db.js';
+import { initEncryption, getEncryptionStatus } from '../lib/encryption.js';
+import { reencryptSecrets, summarizeSecretKeys } from '../lib/secretRotation.js';
+
+async function main() {
+  await initEncryption();
+  const { provider, activeKeyId } = getEncryptionStatus();
+  console.log(`Re-encrypting secrets with key "${activeKeyId}" (${provider} provider)...\n`);
+
+  const result = await reencryptSecrets();
+  console.log(`Scanned ${result.scanned}, re-encrypted ${result.reencrypted}, skipped ${result.skipped}, failed ${result.failed}`);
+  for (const failure of result.failures) {
+    console.error(`  ${failure.table}.${failure.field} ${failure.id}: ${failure.error}`);
+  }
+
+  console.log('\nSecrets per key:');
+  for (const [column, counts] of Object.entries(await summarizeSecretKeys())) {
+    console.log(`  ${column}: ${Object.entries(counts).map(([keyId, count]) => `${keyId}=${count}`).join(', ')}`);
+  }
+
+  if (result.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -1,5 +1,5 @@
-import { getTenantWithGrant } from '../lib/db.js';
-import * as nylasLib from '../lib/nylas.js';
+import { getAccountWithGrant } from '../lib/db.js';
+import { getMailProvider } from '../lib/mailProvider.js';
 import * as ai from '../lib/ai.js';
 
 // ===========================================
@@ -7,17 +7,18 @@ import * as ai from '../lib/ai.js';
 // ===========================================
 export async function draftReply(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   instructions?: string;
   tone?: 'professional' | 'casual' | 'friendly' | 'formal';
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const message = await nylasLib.getMessage(tenant.nylasGrantId!, params.email_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const message = await provider.getMessage(params.email_id);
 
     const reply = await ai.generateReply({
       originalEmail: {
-        from: message.from?.[0]?.email || 'unknown',
+        from: message.from?.email || 'unknown',
         subject: message.subject || '',
         body: message.body || message.snippet || '',
       },
@@ -31,7 +32,7 @@ export async function draftReply(params: {
         draft: reply,
         replyToMessageId: message.id,
         subject: message.subject?.startsWith('Re:') ? message.subject : `Re: ${message.subject}`,
-        to: message.from || [],
+        to: message.from ? [message.from] : [],
       },
     };
   } catch (error) {
@@ -44,27 +45,24 @@ export async function draftReply(params: {
 // ===========================================
 export async function summarizeThread(params: {
   tenant_id: string;
+  account_id?: string;
   thread_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-
-    const response = await nylasLib.nylas.messages.list({
-      identifier: tenant.nylasGrantId!,
-      queryParams: { threadId: params.thread_id, limit: 50 },
-    });
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const response = await provider.listMessages({ threadId: params.thread_id, limit: 50 });
 
     if (response.data.length === 0) {
       return { success: false, error: 'No messages found in thread' };
     }
 
-    const emails = response.data.map((msg: any) => ({
-      from: msg.from?.[0]?.email || 'unknown',
-      date: msg.date ? new Date(msg.date * 1000).toISOString() : 'unknown',
+    const emails = response.data.map(msg => ({
+      from: msg.from?.email || 'unknown',
+      date: msg.date.toISOString(),
       body: msg.body || msg.snippet || '',
     }));
 
-    emails.sort((a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    emails.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
     const summary = await ai.summarizeThread(emails);
 
@@ -73,7 +71,7 @@ export async function summarizeThread(params: {
       data: {
         summary,
         messageCount: emails.length,
-        participants: [...new Set(emails.map((e: any) => e.from))],
+        participants: [...new Set(emails.map(e => e.from))],
       },
     };
   } catch (error) {
@@ -86,11 +84,12 @@ export async function summarizeThread(params: {
 // ===========================================
 export async function extractActionItems(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const message = await nylasLib.getMessage(tenant.nylasGrantId!, params.email_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const message = await provider.getMessage(params.email_id);
 
     const actionItems = await ai.extractActionItems(message.body || message.snippet || '');
 
@@ -99,7 +98,7 @@ export async function extractActionItems(params: {
       data: {
         actionItems,
         emailSubject: message.subject,
-        from: message.from?.[0]?.email,
+        from: message.from?.email,
       },
     };
   } catch (error) {
@@ -117,7 +116,7 @@ export async function smartCompose(params: {
   tone?: 'professional' | 'casual' | 'friendly' | 'formal';
 }) {
   try {
-    await getTenantWithGrant(params.tenant_id); // Verify tenant
+    await getAccountWithGrant(params.tenant_id); // Verify tenant
 
     const draft = await ai.smartCompose({
       prompt: params.prompt,
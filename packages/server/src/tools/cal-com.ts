@@ -3,60 +3,19 @@
 // Tools for Cal.com scheduling integration
 // ===========================================
 
-import { db } from '../lib/db.js';
 import { calComIntegration } from '../integrations/cal-com/index.js';
-import { retrieveIntegrationCredentials } from '../lib/encryption.js';
+import { getFreshCredentials } from '../lib/tokenManager.js';
 
 // Helper to get credentials for a tenant
 async function getCredentials(tenantId: string) {
-  // First check IntegrationCredential table
-  const creds = await db.integrationCredential.findFirst({
-    where: {
-      tenantId,
-      integrationId: 'cal_com',
-      isActive: true,
-    },
-    orderBy: { isPrimary: 'desc' },
-  });
-
-  if (creds?.accessToken) {
-    return {
-      integrationId: 'cal_com',
-      tenantId,
-      accessToken: creds.accessToken,
-    };
-  }
-
-  // Fall back to Connection for BYOK credentials
-  const connection = await db.connection.findFirst({
-    where: {
-      tenantId,
-      integrationId: 'cal_com',
-      isActive: true,
-    },
-  });
-
-  if (connection?.credentialsEncrypted) {
-    const decrypted = retrieveIntegrationCredentials(connection.credentialsEncrypted);
-    if (decrypted.apiKey) {
-      return {
-        integrationId: 'cal_com',
-        tenantId,
-        accessToken: decrypted.apiKey,
-      };
-    }
+  // Primary connection, refreshed ahead of expiry (shared with concurrent calls)
+  const result = await getFreshCredentials(calComIntegration, tenantId);
+  if (!result.success) {
+    if (result.errorCode === 'TOKEN_EXPIRED') throw new Error('Cal.com token expired. Please reconnect.');
+    if (result.errorCode === 'NO_CONNECTION') throw new Error('Cal.com not connected. Please configure API key in settings.');
+    throw new Error(result.error);
   }
-
-  // Also check if connection has accessToken directly
-  if (connection?.accessToken) {
-    return {
-      integrationId: 'cal_com',
-      tenantId,
-      accessToken: connection.accessToken,
-    };
-  }
-
-  throw new Error('Cal.com not connected. Please configure API key in settings.');
+  return result.credentials;
 }
 
 // ===========================================
@@ -1,18 +1,34 @@
-import { getTenantWithGrant, logActivity } from '../lib/db.js';
-import * as nylasLib from '../lib/nylas.js';
+import { getMailProvider } from '../lib/mailProvider.js';
+import { CalendarEvent } from '../integrations/types.js';
+
+function toEventOutput(e: CalendarEvent) {
+  return {
+    id: e.id,
+    calendarId: e.calendarId,
+    title: e.title,
+    description: e.description,
+    location: e.location,
+    status: e.status,
+    startTime: e.startTime.toISOString(),
+    endTime: e.endTime.toISOString(),
+    allDay: e.allDay || false,
+    participants: e.participants,
+    conferencing: e.conferencing,
+  };
+}
 
 // ===========================================
 // LIST CALENDARS
 // ===========================================
-export async function listCalendars(params: { tenant_id: string }) {
+export async function listCalendars(params: { tenant_id: string; account_id?: string }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const calendars = await nylasLib.listCalendars(tenant.nylasGrantId!);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const calendars = await provider.listCalendars();
 
     return {
       success: true,
       data: {
-        calendars: calendars.map((c: any) => ({
+        calendars: calendars.map(c => ({
           id: c.id,
           name: c.name,
           description: c.description,
@@ -32,40 +48,25 @@ export async function listCalendars(params: { tenant_id: string }) {
 // ===========================================
 export async function listEvents(params: {
   tenant_id: string;
+  account_id?: string;
   calendar_id?: string;
   start_time?: string; // ISO string
   end_time?: string;   // ISO string
   limit?: number;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
 
-    const response = await nylasLib.listEvents(tenant.nylasGrantId!, {
+    const response = await provider.listEvents({
       calendarId: params.calendar_id,
       start: params.start_time ? Math.floor(new Date(params.start_time).getTime() / 1000) : undefined,
       end: params.end_time ? Math.floor(new Date(params.end_time).getTime() / 1000) : undefined,
       limit: params.limit || 50,
     });
 
-    const events = response.data.map((e: any) => ({
-      id: e.id,
-      calendarId: e.calendarId,
-      title: e.title,
-      description: e.description,
-      location: e.location,
-      status: e.status,
-      when: e.when,
-      participants: e.participants?.map((p: any) => ({
-        email: p.email,
-        name: p.name,
-        status: p.status,
-      })),
-      conferencing: e.conferencing,
-    }));
-
     return {
       success: true,
-      data: { events, nextPageToken: response.nextCursor },
+      data: { events: response.data.map(toEventOutput), nextPageToken: response.nextCursor },
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -77,34 +78,17 @@ export async function listEvents(params: {
 // ===========================================
 export async function getEvent(params: {
   tenant_id: string;
+  account_id?: string;
   event_id: string;
   calendar_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const event = await nylasLib.getEvent(
-      tenant.nylasGrantId!,
-      params.event_id,
-      params.calendar_id
-    );
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const event = await provider.getEvent(params.event_id, params.calendar_id);
 
     return {
       success: true,
-      data: {
-        id: event.id,
-        calendarId: event.calendarId,
-        title: event.title,
-        description: event.description,
-        location: event.location,
-        status: event.status,
-        when: event.when,
-        participants: event.participants?.map((p: any) => ({
-          email: p.email,
-          name: p.name,
-          status: p.status,
-        })),
-        conferencing: event.conferencing,
-      },
+      data: toEventOutput(event),
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -116,6 +100,7 @@ export async function getEvent(params: {
 // ===========================================
 export async function createEvent(params: {
   tenant_id: string;
+  account_id?: string;
   calendar_id: string;
   title: string;
   description?: string;
@@ -124,31 +109,19 @@ export async function createEvent(params: {
   end_time: string;   // ISO string
   participants?: { email: string; name?: string }[];
 }) {
-  const startTime = Date.now();
-
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
-    const event = await nylasLib.createEvent(tenant.nylasGrantId!, {
+    const event = await provider.createEvent({
       calendarId: params.calendar_id,
       title: params.title,
       description: params.description,
       location: params.location,
-      when: {
-        startTime: Math.floor(new Date(params.start_time).getTime() / 1000),
-        endTime: Math.floor(new Date(params.end_time).getTime() / 1000),
-      },
+      startTime: new Date(params.start_time),
+      endTime: new Date(params.end_time),
       participants: params.participants,
     });
 
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'create_event',
-      status: 'success',
-      input: { title: params.title, startTime: params.start_time },
-      duration: Date.now() - startTime,
-    });
-
     return {
       success: true,
       data: { id: event.id, title: event.title },
@@ -163,17 +136,13 @@ export async function createEvent(params: {
 // ===========================================
 export async function deleteEvent(params: {
   tenant_id: string;
+  account_id?: string;
   event_id: string;
   calendar_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-
-    await nylasLib.nylas.events.destroy({
-      identifier: tenant.nylasGrantId!,
-      eventId: params.event_id,
-      queryParams: { calendarId: params.calendar_id },
-    });
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.deleteEvent(params.event_id, params.calendar_id);
 
     return { success: true };
   } catch (error) {
@@ -186,28 +155,26 @@ export async function deleteEvent(params: {
 // ===========================================
 export async function checkAvailability(params: {
   tenant_id: string;
+  account_id?: string;
   start_time: string;
   end_time: string;
   duration_minutes?: number;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
 
     // Get events in the time range
-    const response = await nylasLib.listEvents(tenant.nylasGrantId!, {
+    const response = await provider.listEvents({
       start: Math.floor(new Date(params.start_time).getTime() / 1000),
       end: Math.floor(new Date(params.end_time).getTime() / 1000),
     });
 
-    // Build busy times
-    const busyTimes = response.data.map((e: any) => {
-      const when = e.when as { startTime?: number; endTime?: number };
-      return {
-        start: when.startTime ? new Date(when.startTime * 1000).toISOString() : null,
-        end: when.endTime ? new Date(when.endTime * 1000).toISOString() : null,
-        title: e.title,
-      };
-    }).filter((t: any) => t.start && t.end);
+    // Build busy times (all-day events don't block time slots)
+    const busyTimes = response.data.filter(e => !e.allDay).map(e => ({
+      start: e.startTime.toISOString(),
+      end: e.endTime.toISOString(),
+      title: e.title,
+    }));
 
     return {
       success: true,
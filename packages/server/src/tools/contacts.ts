@@ -1,29 +1,34 @@
-import { getTenantWithGrant, logActivity } from '../lib/db.js';
-import * as nylasLib from '../lib/nylas.js';
+import { getMailProvider } from '../lib/mailProvider.js';
+import { Contact } from '../integrations/types.js';
+
+function displayName(c: Contact): string {
+  return c.displayName || [c.givenName, c.surname].filter(Boolean).join(' ') || c.emails?.[0]?.email || 'Unknown';
+}
 
 // ===========================================
 // LIST CONTACTS
 // ===========================================
 export async function listContacts(params: {
   tenant_id: string;
+  account_id?: string;
   limit?: number;
   page_token?: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
 
-    const response = await nylasLib.listContacts(tenant.nylasGrantId!, {
+    const response = await provider.listContacts({
       limit: params.limit || 50,
       pageToken: params.page_token,
     });
 
-    const contacts = response.data.map((c: any) => ({
+    const contacts = response.data.map(c => ({
       id: c.id,
       givenName: c.givenName,
       surname: c.surname,
-      displayName: [c.givenName, c.surname].filter(Boolean).join(' ') || c.emails?.[0]?.email || 'Unknown',
-      emails: c.emails?.map((e: any) => ({ email: e.email, type: e.type })) || [],
-      phoneNumbers: c.phoneNumbers?.map((p: any) => ({ number: p.number, type: p.type })) || [],
+      displayName: displayName(c),
+      emails: c.emails || [],
+      phoneNumbers: c.phoneNumbers || [],
       companyName: c.companyName,
       jobTitle: c.jobTitle,
     }));
@@ -42,11 +47,12 @@ export async function listContacts(params: {
 // ===========================================
 export async function getContact(params: {
   tenant_id: string;
+  account_id?: string;
   contact_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const contact = await nylasLib.getContact(tenant.nylasGrantId!, params.contact_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const contact = await provider.getContact(params.contact_id);
 
     return {
       success: true,
@@ -54,14 +60,13 @@ export async function getContact(params: {
         id: contact.id,
         givenName: contact.givenName,
         surname: contact.surname,
-        displayName: [contact.givenName, contact.surname].filter(Boolean).join(' ') || 'Unknown',
-        emails: contact.emails?.map((e: any) => ({ email: e.email, type: e.type })) || [],
-        phoneNumbers: contact.phoneNumbers?.map((p: any) => ({ number: p.number, type: p.type })) || [],
+        displayName: displayName(contact),
+        emails: contact.emails || [],
+        phoneNumbers: contact.phoneNumbers || [],
         companyName: contact.companyName,
         jobTitle: contact.jobTitle,
         notes: contact.notes,
         birthday: contact.birthday,
-        websiteUrl: contact.websiteUrl,
       },
     };
   } catch (error) {
@@ -74,6 +79,7 @@ export async function getContact(params: {
 // ===========================================
 export async function createContact(params: {
   tenant_id: string;
+  account_id?: string;
   given_name?: string;
   surname?: string;
   email?: string;
@@ -81,12 +87,10 @@ export async function createContact(params: {
   company?: string;
   job_title?: string;
 }) {
-  const startTime = Date.now();
-
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
-    const contact = await nylasLib.createContact(tenant.nylasGrantId!, {
+    const contact = await provider.createContact({
       givenName: params.given_name,
       surname: params.surname,
       emails: params.email ? [{ email: params.email, type: 'work' }] : undefined,
@@ -95,14 +99,6 @@ export async function createContact(params: {
       jobTitle: params.job_title,
     });
 
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'create_contact',
-      status: 'success',
-      input: { givenName: params.given_name, email: params.email },
-      duration: Date.now() - startTime,
-    });
-
     return {
       success: true,
       data: { id: contact.id },
@@ -117,22 +113,23 @@ export async function createContact(params: {
 // ===========================================
 export async function searchContacts(params: {
   tenant_id: string;
+  account_id?: string;
   query: string;
   limit?: number;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
 
     // Search by email
-    const response = await nylasLib.listContacts(tenant.nylasGrantId!, {
+    const response = await provider.listContacts({
       limit: params.limit || 20,
       email: params.query,
     });
 
-    const contacts = response.data.map((c: any) => ({
+    const contacts = response.data.map(c => ({
       id: c.id,
-      displayName: [c.givenName, c.surname].filter(Boolean).join(' ') || c.emails?.[0]?.email || 'Unknown',
-      emails: c.emails?.map((e: any) => e.email) || [],
+      displayName: displayName(c),
+      emails: c.emails?.map(e => e.email) || [],
       companyName: c.companyName,
     }));
 
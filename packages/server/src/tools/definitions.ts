@@ -0,0 +1,412 @@
+// ===========================================
+// LOCAL TOOL DEFINITIONS
+// Parameter definitions for the tool handlers in /tools/*.ts
+// ===========================================
+
+import { JsonSchema, ToolDefinition } from '../integrations/types.js';
+
+const tenantId = { name: 'tenant_id', type: 'string', description: 'Tenant ID', required: true } as const;
+const accountId = { name: 'account_id', type: 'string', description: 'Account ID or email address (defaults to the primary account)', required: false } as const;
+
+const participant: JsonSchema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    name: { type: 'string' },
+  },
+  required: ['email'],
+};
+
+const tones = ['professional', 'casual', 'friendly', 'formal'];
+
+export const localToolDefinitions: ToolDefinition[] = [
+  // Email
+  {
+    name: 'list_emails',
+    description: 'List emails from inbox or folder',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'folder_id', type: 'string', description: 'Folder ID to filter by', required: false },
+      { name: 'limit', type: 'number', description: 'Max emails to return', required: false, default: 50, minimum: 1, maximum: 200 },
+      { name: 'page_token', type: 'string', description: 'Pagination token', required: false },
+      { name: 'unread_only', type: 'boolean', description: 'Only unread emails', required: false },
+      { name: 'unified', type: 'boolean', description: 'Merge every connected account, newest first (not with account_id)', required: false },
+    ],
+  },
+  {
+    name: 'get_email',
+    description: 'Get single email with full body',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+    ],
+  },
+  {
+    name: 'send_email',
+    description: 'Send new email or reply',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'to', type: 'array', description: 'Recipients [{email, name?}]', required: true, items: participant },
+      { name: 'subject', type: 'string', description: 'Email subject', required: true },
+      { name: 'body', type: 'string', description: 'Email body (HTML)', required: true },
+      { name: 'cc', type: 'array', description: 'CC recipients [{email, name?}]', required: false, items: participant },
+      { name: 'reply_to_message_id', type: 'string', description: 'Message ID to reply to', required: false },
+    ],
+    redaction: { params: ['subject'] },
+  },
+  {
+    name: 'move_email',
+    description: 'Move email to folder',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'folder_id', type: 'string', description: 'Destination folder ID', required: true },
+    ],
+  },
+  {
+    name: 'mark_read',
+    description: 'Mark email as read/unread',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'is_read', type: 'boolean', description: 'True to mark read, false for unread', required: true },
+    ],
+  },
+  {
+    name: 'star_email',
+    description: 'Star/unstar email',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'is_starred', type: 'boolean', description: 'True to star, false to unstar', required: true },
+    ],
+  },
+  {
+    name: 'trash_email',
+    description: 'Move email to trash',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+    ],
+  },
+  {
+    name: 'search_emails',
+    description: 'Search emails',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'query', type: 'string', description: 'Search query: free text plus from:, to:, subject:, folder:, has:attachment, is:unread|read|starred, before:YYYY-MM-DD, after:YYYY-MM-DD', required: true },
+      { name: 'limit', type: 'number', description: 'Max results', required: false, default: 20, minimum: 1, maximum: 200 },
+    ],
+  },
+  {
+    name: 'list_folders',
+    description: 'List email folders',
+    category: 'email',
+    integration: 'nylas',
+    parameters: [tenantId, accountId],
+  },
+
+  // Folder Management
+  {
+    name: 'get_folder',
+    description: 'Get folder details by ID',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'folder_id', type: 'string', description: 'Folder ID', required: true },
+    ],
+  },
+  {
+    name: 'create_folder',
+    description: 'Create a new custom folder',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'name', type: 'string', description: 'Folder name', required: true },
+      { name: 'parent_id', type: 'string', description: 'Parent folder ID for nesting', required: false },
+    ],
+  },
+  {
+    name: 'update_folder',
+    description: 'Rename a folder',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'folder_id', type: 'string', description: 'Folder ID', required: true },
+      { name: 'name', type: 'string', description: 'New folder name', required: true },
+    ],
+  },
+  {
+    name: 'delete_folder',
+    description: 'Delete a folder',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'folder_id', type: 'string', description: 'Folder ID', required: true },
+    ],
+  },
+  {
+    name: 'get_folder_by_name',
+    description: 'Get folder ID by name',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'folder_name', type: 'string', description: 'Folder name', required: true },
+    ],
+  },
+  {
+    name: 'move_email_to_folder',
+    description: 'Move email to folder by name (creates if missing)',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'folder_name', type: 'string', description: 'Destination folder name', required: true },
+      { name: 'create_if_missing', type: 'boolean', description: 'Create the folder if it does not exist', required: false, default: true },
+    ],
+  },
+  {
+    name: 'add_email_to_folders',
+    description: 'Add email to multiple folders/labels',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'folder_ids', type: 'array', description: 'Folder IDs to add', required: true, items: { type: 'string' } },
+    ],
+  },
+  {
+    name: 'remove_email_from_folder',
+    description: 'Remove email from a folder',
+    category: 'folders',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+      { name: 'folder_id', type: 'string', description: 'Folder ID to remove', required: true },
+    ],
+  },
+
+  // Calendar
+  {
+    name: 'list_calendars',
+    description: 'List calendars',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [tenantId, accountId],
+  },
+  {
+    name: 'list_events',
+    description: 'List calendar events',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'calendar_id', type: 'string', description: 'Calendar ID (defaults to primary)', required: false },
+      { name: 'start_time', type: 'string', description: 'Start time (ISO 8601)', required: false },
+      { name: 'end_time', type: 'string', description: 'End time (ISO 8601)', required: false },
+      { name: 'limit', type: 'number', description: 'Max events to return', required: false, default: 50, minimum: 1, maximum: 200 },
+    ],
+  },
+  {
+    name: 'get_event',
+    description: 'Get single event',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'event_id', type: 'string', description: 'Event ID', required: true },
+      { name: 'calendar_id', type: 'string', description: 'Calendar ID', required: true },
+    ],
+  },
+  {
+    name: 'create_event',
+    description: 'Create calendar event',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'calendar_id', type: 'string', description: 'Calendar ID', required: true },
+      { name: 'title', type: 'string', description: 'Event title', required: true },
+      { name: 'start_time', type: 'string', description: 'Start time (ISO 8601)', required: true },
+      { name: 'end_time', type: 'string', description: 'End time (ISO 8601)', required: true },
+      { name: 'description', type: 'string', description: 'Event description', required: false },
+      { name: 'location', type: 'string', description: 'Event location', required: false },
+      { name: 'participants', type: 'array', description: 'Participants [{email, name?}]', required: false, items: participant },
+    ],
+  },
+  {
+    name: 'delete_event',
+    description: 'Delete event',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'event_id', type: 'string', description: 'Event ID', required: true },
+      { name: 'calendar_id', type: 'string', description: 'Calendar ID', required: true },
+    ],
+  },
+  {
+    name: 'check_availability',
+    description: 'Check free/busy times',
+    category: 'calendar',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'start_time', type: 'string', description: 'Start time (ISO 8601)', required: true },
+      { name: 'end_time', type: 'string', description: 'End time (ISO 8601)', required: true },
+      { name: 'duration_minutes', type: 'number', description: 'Desired meeting length', required: false, minimum: 1 },
+    ],
+  },
+
+  // Contacts
+  {
+    name: 'list_contacts',
+    description: 'List contacts',
+    category: 'contacts',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'limit', type: 'number', description: 'Max contacts to return', required: false, default: 50, minimum: 1, maximum: 200 },
+      { name: 'page_token', type: 'string', description: 'Pagination token', required: false },
+    ],
+  },
+  {
+    name: 'get_contact',
+    description: 'Get single contact',
+    category: 'contacts',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'contact_id', type: 'string', description: 'Contact ID', required: true },
+    ],
+  },
+  {
+    name: 'create_contact',
+    description: 'Create contact',
+    category: 'contacts',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'given_name', type: 'string', description: 'First name', required: false },
+      { name: 'surname', type: 'string', description: 'Last name', required: false },
+      { name: 'email', type: 'string', description: 'Email address', required: false, format: 'email' },
+      { name: 'phone', type: 'string', description: 'Phone number', required: false },
+      { name: 'company', type: 'string', description: 'Company name', required: false },
+      { name: 'job_title', type: 'string', description: 'Job title', required: false },
+    ],
+    redaction: { params: ['phone'] },
+  },
+  {
+    name: 'search_contacts',
+    description: 'Search contacts',
+    category: 'contacts',
+    integration: 'nylas',
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'query', type: 'string', description: 'Name or email to search for', required: true },
+      { name: 'limit', type: 'number', description: 'Max results', required: false, default: 20, minimum: 1, maximum: 200 },
+    ],
+  },
+
+  // AI
+  {
+    name: 'draft_reply',
+    description: 'AI drafts reply to email',
+    category: 'ai',
+    integration: 'nylas',
+    rateLimitWeight: 5,
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email to reply to', required: true },
+      { name: 'instructions', type: 'string', description: 'Extra instructions for the reply', required: false },
+      { name: 'tone', type: 'string', description: 'Tone of the email', required: false, enum: tones },
+    ],
+  },
+  {
+    name: 'summarize_thread',
+    description: 'AI summarizes email thread',
+    category: 'ai',
+    integration: 'nylas',
+    rateLimitWeight: 5,
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'thread_id', type: 'string', description: 'Thread ID', required: true },
+    ],
+  },
+  {
+    name: 'extract_action_items',
+    description: 'AI extracts action items',
+    category: 'ai',
+    integration: 'nylas',
+    rateLimitWeight: 5,
+    parameters: [
+      tenantId,
+      accountId,
+      { name: 'email_id', type: 'string', description: 'Email message ID', required: true },
+    ],
+  },
+  {
+    name: 'smart_compose',
+    description: 'AI composes email from prompt',
+    category: 'ai',
+    integration: 'nylas',
+    rateLimitWeight: 5,
+    parameters: [
+      tenantId,
+      { name: 'prompt', type: 'string', description: 'What the email should say', required: true },
+      { name: 'context', type: 'string', description: 'Additional context', required: false },
+      { name: 'tone', type: 'string', description: 'Tone of the email', required: false, enum: tones },
+    ],
+  },
+];
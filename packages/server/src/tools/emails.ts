@@ -1,52 +1,241 @@
-import { getTenantWithGrant, logActivity } from '../lib/db.js';
-import * as nylasLib from '../lib/nylas.js';
+import { getMailProvider, listMailProviders } from '../lib/mailProvider.js';
+import { EmailMessage, MailProvider } from '../integrations/types.js';
+import {
+  listCachedEmails,
+  searchCachedEmails,
+  resolveFolderIds,
+  toEmailSummary,
+  EmailSummary,
+  updateCachedMessage,
+  removeCachedMessage,
+} from '../lib/emailSync.js';
+import { parseEmailQuery, EmailQueryError } from '../lib/emailQuery.js';
+import { isEmailCacheFresh } from '../lib/scheduledSync.js';
+
+// ===========================================
+// PAGE TOKENS
+// list_emails pages through the cache first, then continues at the
+// provider from the oldest cached message; plain provider tokens pass through
+// ===========================================
+
+type PageToken =
+  | { kind: 'cache'; receivedAt: Date; id: string }
+  | { kind: 'before'; before: number; providerToken?: string }
+  | { kind: 'provider'; providerToken?: string };
+
+function decodePageToken(token?: string): PageToken {
+  if (token?.startsWith('cache:')) {
+    try {
+      const { t, id } = JSON.parse(Buffer.from(token.slice(6), 'base64url').toString('utf8'));
+      return { kind: 'cache', receivedAt: new Date(t), id };
+    } catch {
+      throw new Error('Invalid page_token');
+    }
+  }
+  if (token?.startsWith('before:')) {
+    const [before, ...rest] = token.slice(7).split(':');
+    return { kind: 'before', before: Number(before), providerToken: rest.join(':') || undefined };
+  }
+  return { kind: 'provider', providerToken: token };
+}
+
+function cachePageToken(message: { receivedAt: Date; id: string }): string {
+  return 'cache:' + Buffer.from(JSON.stringify({ t: message.receivedAt.getTime(), id: message.id })).toString('base64url');
+}
+
+function beforePageToken(before: number, providerToken?: string): string {
+  return providerToken ? `before:${before}:${providerToken}` : `before:${before}`;
+}
+
+function toProviderSummary(msg: EmailMessage): EmailSummary {
+  return {
+    id: msg.id,
+    threadId: msg.threadId || null,
+    subject: msg.subject,
+    from: msg.from || { email: 'unknown' },
+    to: msg.to,
+    snippet: msg.snippet || null,
+    isRead: !msg.unread,
+    isStarred: msg.starred,
+    hasAttachments: msg.hasAttachments,
+    receivedAt: msg.date.getTime() ? msg.date.toISOString() : null,
+    folders: msg.folders,
+  };
+}
+
+function unixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+async function findFolderByName(provider: MailProvider, name: string) {
+  const normalizedName = name.toLowerCase();
+  return (await provider.listFolders()).find(f => f.name?.toLowerCase() === normalizedName);
+}
 
 // ===========================================
 // LIST EMAILS
 // ===========================================
 export async function listEmails(params: {
   tenant_id: string;
+  account_id?: string;
   folder_id?: string;
   limit?: number;
   page_token?: string;
   unread_only?: boolean;
+  unified?: boolean;
 }) {
-  const startTime = Date.now();
+  if (params.unified) {
+    return listUnifiedEmails(params);
+  }
 
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const mailboxId = provider.mailboxId;
+    const limit = params.limit || 50;
+    const page = decodePageToken(params.page_token);
+
+    let emails: EmailSummary[];
+    let nextPageToken: string | undefined;
+    let source: 'cache' | 'provider' = 'provider';
+
+    if ((page.kind === 'cache' || !params.page_token) && await isEmailCacheFresh(account.tenantId, mailboxId)) {
+      const messages = await listCachedEmails(account.tenantId, mailboxId, {
+        folderId: params.folder_id,
+        unreadOnly: params.unread_only,
+        limit,
+        after: page.kind === 'cache' ? page : undefined,
+      });
+
+      emails = messages.map(toEmailSummary);
+      source = 'cache';
+      // A short page means the cache ran out; older mail may still be upstream
+      const last = messages[messages.length - 1];
+      nextPageToken = messages.length === limit
+        ? cachePageToken(last)
+        : beforePageToken(Math.floor((last?.receivedAt.getTime() ?? (page.kind === 'cache' ? page.receivedAt.getTime() : Date.now())) / 1000));
+    } else {
+      const response = await provider.listMessages({
+        limit,
+        pageToken: page.kind === 'cache' ? undefined : page.providerToken,
+        folderId: params.folder_id,
+        unread: params.unread_only,
+        receivedBefore: page.kind === 'before' ? page.before : undefined,
+      });
+
+      emails = response.data.map(toProviderSummary);
+      nextPageToken = page.kind === 'before'
+        ? response.nextCursor && beforePageToken(page.before, response.nextCursor)
+        : response.nextCursor;
+    }
 
-    const response = await nylasLib.listMessages(tenant.nylasGrantId!, {
-      limit: params.limit || 50,
-      pageToken: params.page_token,
-      folderId: params.folder_id,
-      unread: params.unread_only,
-    });
+    return {
+      success: true,
+      data: { emails, nextPageToken: nextPageToken || null, source },
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
 
-    const emails = response.data.map((msg: any) => ({
-      id: msg.id,
-      threadId: msg.threadId,
-      subject: msg.subject,
-      from: msg.from?.[0] || { email: 'unknown' },
-      to: msg.to || [],
-      snippet: msg.snippet,
-      isRead: !msg.unread,
-      isStarred: msg.starred || false,
-      hasAttachments: (msg.attachments?.length || 0) > 0,
-      receivedAt: msg.date ? new Date(msg.date * 1000).toISOString() : null,
-      folders: msg.folders || [],
-    }));
+// ===========================================
+// UNIFIED INBOX
+// Newest-first merge across every active account. The page token holds the
+// received time of the last message returned and the IDs already returned
+// at that second, since the provider only filters by whole seconds
+// ===========================================
+
+interface UnifiedPageToken {
+  before: number;
+  seen: string[];
+}
+
+function decodeUnifiedPageToken(token?: string): UnifiedPageToken | undefined {
+  if (!token) return undefined;
+  try {
+    const page = JSON.parse(Buffer.from(token.replace(/^unified:/, ''), 'base64url').toString('utf8'));
+    if (typeof page.before !== 'number' || !Array.isArray(page.seen)) throw new Error();
+    return page;
+  } catch {
+    throw new Error('Invalid page_token');
+  }
+}
+
+async function listUnifiedEmails(params: {
+  tenant_id: string;
+  account_id?: string;
+  folder_id?: string;
+  limit?: number;
+  page_token?: string;
+  unread_only?: boolean;
+}) {
+  try {
+    if (params.account_id) {
+      throw new Error('account_id can\'t be combined with unified');
+    }
 
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'list_emails',
-      status: 'success',
-      duration: Date.now() - startTime,
+    const mailboxes = await listMailProviders(params.tenant_id);
+    const accounts = mailboxes.map(m => m.account);
+    const limit = params.limit || 50;
+    const page = decodeUnifiedPageToken(params.page_token);
+
+    // Folder IDs are per mailbox; one like INBOX works for every account that has it
+    const results = await Promise.allSettled(mailboxes.map(({ provider }) =>
+      provider.listMessages({
+        limit: limit + (page?.seen.length || 0),
+        folderId: params.folder_id,
+        unread: params.unread_only,
+        receivedBefore: page ? page.before + 1 : undefined,
+      })
+    ));
+
+    const errors: Array<{ accountId: string; email: string; error: string }> = [];
+    const merged: Array<EmailSummary & { account: { id: string; email: string }; date: number }> = [];
+    let hasMore = false;
+
+    results.forEach((result, i) => {
+      const account = accounts[i];
+      if (result.status === 'rejected') {
+        errors.push({
+          accountId: account.id,
+          email: account.email,
+          error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
+        });
+        return;
+      }
+
+      if (result.value.nextCursor) hasMore = true;
+      for (const msg of result.value.data) {
+        const date = unixSeconds(msg.date);
+        if (page && date === page.before && page.seen.includes(msg.id)) continue;
+        merged.push({ ...toProviderSummary(msg), account: { id: account.id, email: account.email }, date });
+      }
     });
 
+    if (errors.length === accounts.length) {
+      throw new Error(`No account could be listed (${errors.map(e => `${e.email}: ${e.error}`).join('; ')})`);
+    }
+
+    merged.sort((a, b) => b.date - a.date || a.id.localeCompare(b.id));
+    const pageEmails = merged.slice(0, limit);
+    if (merged.length > limit) hasMore = true;
+
+    let nextPageToken: string | null = null;
+    const last = pageEmails[pageEmails.length - 1];
+    if (hasMore && last) {
+      const seen = pageEmails.filter(e => e.date === last.date).map(e => e.id);
+      if (page && page.before === last.date) seen.push(...page.seen);
+      nextPageToken = 'unified:' + Buffer.from(JSON.stringify({ before: last.date, seen })).toString('base64url');
+    }
+
     return {
       success: true,
-      data: { emails, nextPageToken: response.nextCursor },
+      data: {
+        emails: pageEmails.map(({ date, ...email }) => email),
+        nextPageToken,
+        source: 'provider',
+        accounts: accounts.map(account => ({ id: account.id, email: account.email })),
+        ...(errors.length > 0 ? { errors } : {}),
+      },
     };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -58,34 +247,20 @@ export async function listEmails(params: {
 // ===========================================
 export async function getEmail(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const message = await nylasLib.getMessage(tenant.nylasGrantId!, params.email_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const message = await provider.getMessage(params.email_id);
 
     return {
       success: true,
       data: {
-        id: message.id,
-        threadId: message.threadId,
-        subject: message.subject,
-        from: message.from?.[0] || { email: 'unknown' },
-        to: message.to || [],
+        ...toProviderSummary(message),
         cc: message.cc || [],
         body: message.body,
-        snippet: message.snippet,
-        isRead: !message.unread,
-        isStarred: message.starred || false,
-        hasAttachments: (message.attachments?.length || 0) > 0,
-        attachments: message.attachments?.map((a: any) => ({
-          id: a.id,
-          filename: a.filename,
-          contentType: a.contentType,
-          size: a.size,
-        })) || [],
-        receivedAt: message.date ? new Date(message.date * 1000).toISOString() : null,
-        folders: message.folders || [],
+        attachments: message.attachments || [],
       },
     };
   } catch (error) {
@@ -98,18 +273,17 @@ export async function getEmail(params: {
 // ===========================================
 export async function sendEmail(params: {
   tenant_id: string;
+  account_id?: string;
   to: { email: string; name?: string }[];
   subject: string;
   body: string;
   cc?: { email: string; name?: string }[];
   reply_to_message_id?: string;
 }) {
-  const startTime = Date.now();
-
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
-    const message = await nylasLib.sendMessage(tenant.nylasGrantId!, {
+    const message = await provider.sendMessage({
       to: params.to,
       subject: params.subject,
       body: params.body,
@@ -117,14 +291,6 @@ export async function sendEmail(params: {
       replyToMessageId: params.reply_to_message_id,
     });
 
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'send_email',
-      status: 'success',
-      input: { to: params.to, subject: params.subject },
-      duration: Date.now() - startTime,
-    });
-
     return {
       success: true,
       data: { id: message.id, threadId: message.threadId },
@@ -139,14 +305,16 @@ export async function sendEmail(params: {
 // ===========================================
 export async function moveEmail(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   folder_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.updateMessage(params.email_id, {
       folders: [params.folder_id],
     });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { folderIds: [params.folder_id] }).catch(() => {});
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -158,14 +326,16 @@ export async function moveEmail(params: {
 // ===========================================
 export async function markRead(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   is_read: boolean;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.updateMessage(params.email_id, {
       unread: !params.is_read,
     });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { isUnread: !params.is_read }).catch(() => {});
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -177,14 +347,16 @@ export async function markRead(params: {
 // ===========================================
 export async function starEmail(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   is_starred: boolean;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.updateMessage(params.email_id, {
       starred: params.is_starred,
     });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { isStarred: params.is_starred }).catch(() => {});
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -196,11 +368,14 @@ export async function starEmail(params: {
 // ===========================================
 export async function trashEmail(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    await nylasLib.trashMessage(tenant.nylasGrantId!, params.email_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.trashMessage(params.email_id);
+    // Comes back in the trash folder with the next full sync
+    await removeCachedMessage(account.tenantId, provider.mailboxId, params.email_id).catch(() => {});
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -212,32 +387,42 @@ export async function trashEmail(params: {
 // ===========================================
 export async function searchEmails(params: {
   tenant_id: string;
+  account_id?: string;
   query: string;
   limit?: number;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const limit = params.limit || 20;
+    const query = parseEmailQuery(params.query);
 
-    const response = await nylasLib.nylas.messages.list({
-      identifier: tenant.nylasGrantId!,
-      queryParams: {
-        limit: params.limit || 20,
-        searchQueryNative: params.query,
-      },
-    });
+    if (await isEmailCacheFresh(account.tenantId, provider.mailboxId)) {
+      const messages = await searchCachedEmails(account.tenantId, provider.mailboxId, query, limit);
+      return { success: true, data: { emails: messages.map(toEmailSummary), source: 'cache' } };
+    }
 
-    const emails = response.data.map((msg: any) => ({
-      id: msg.id,
-      threadId: msg.threadId,
-      subject: msg.subject,
-      from: msg.from?.[0] || { email: 'unknown' },
-      snippet: msg.snippet,
-      isRead: !msg.unread,
-      receivedAt: msg.date ? new Date(msg.date * 1000).toISOString() : null,
-    }));
+    // The provider takes one value per filter; free text goes to its native search
+    // Cached folders belong to the primary account, so only it can resolve names
+    const folderIds = account.isPrimary ? await resolveFolderIds(account.tenantId, query.folders) : [];
+    const response = await provider.listMessages({
+      limit,
+      from: query.from[0],
+      to: query.to[0],
+      subject: query.subject[0],
+      folderId: folderIds[0] ?? query.folders[0],
+      hasAttachment: query.hasAttachment,
+      unread: query.unread,
+      starred: query.starred,
+      receivedBefore: query.before ? Math.floor(query.before.getTime() / 1000) : undefined,
+      receivedAfter: query.after ? Math.floor(query.after.getTime() / 1000) : undefined,
+      searchQueryNative: query.text || undefined,
+    });
 
-    return { success: true, data: { emails } };
+    return { success: true, data: { emails: response.data.map(toProviderSummary), source: 'provider' } };
   } catch (error) {
+    if (error instanceof EmailQueryError) {
+      return { success: false, error: error.message };
+    }
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
@@ -245,20 +430,20 @@ export async function searchEmails(params: {
 // ===========================================
 // LIST FOLDERS
 // ===========================================
-export async function listFolders(params: { tenant_id: string }) {
+export async function listFolders(params: { tenant_id: string; account_id?: string }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const folders = await nylasLib.listFolders(tenant.nylasGrantId!);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const folders = await provider.listFolders();
 
     const typeMap: Record<string, string> = {
       inbox: 'inbox', sent: 'sent', drafts: 'drafts',
       trash: 'trash', spam: 'spam', archive: 'archive',
     };
 
-    const mappedFolders = folders.map((f: any) => ({
+    const mappedFolders = folders.map(f => ({
       id: f.id,
       name: f.name,
-      type: typeMap[f.name?.toLowerCase() || ''] || 'custom',
+      type: f.type || typeMap[f.name?.toLowerCase() || ''] || 'custom',
       totalCount: f.totalCount || 0,
       unreadCount: f.unreadCount || 0,
       parentId: f.parentId || null,
@@ -266,7 +451,7 @@ export async function listFolders(params: { tenant_id: string }) {
 
     // Sort: system folders first
     const systemOrder = ['inbox', 'sent', 'drafts', 'archive', 'spam', 'trash'];
-    mappedFolders.sort((a: any, b: any) => {
+    mappedFolders.sort((a, b) => {
       const aIndex = systemOrder.indexOf(a.type);
       const bIndex = systemOrder.indexOf(b.type);
       if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
@@ -286,11 +471,12 @@ export async function listFolders(params: { tenant_id: string }) {
 // ===========================================
 export async function getFolder(params: {
   tenant_id: string;
+  account_id?: string;
   folder_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const folder = await nylasLib.getFolder(tenant.nylasGrantId!, params.folder_id);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const folder = await provider.getFolder(params.folder_id);
 
     return {
       success: true,
@@ -312,19 +498,13 @@ export async function getFolder(params: {
 // ===========================================
 export async function createFolder(params: {
   tenant_id: string;
+  account_id?: string;
   name: string;
   parent_id?: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const folder = await nylasLib.createFolder(tenant.nylasGrantId!, params.name, params.parent_id);
-
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'create_folder',
-      status: 'success',
-      input: { name: params.name },
-    });
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const folder = await provider.createFolder(params.name, params.parent_id);
 
     return {
       success: true,
@@ -344,12 +524,13 @@ export async function createFolder(params: {
 // ===========================================
 export async function updateFolder(params: {
   tenant_id: string;
+  account_id?: string;
   folder_id: string;
   name: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const folder = await nylasLib.updateFolder(tenant.nylasGrantId!, params.folder_id, params.name);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const folder = await provider.updateFolder(params.folder_id, params.name);
 
     return {
       success: true,
@@ -368,18 +549,12 @@ export async function updateFolder(params: {
 // ===========================================
 export async function deleteFolder(params: {
   tenant_id: string;
+  account_id?: string;
   folder_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    await nylasLib.deleteFolder(tenant.nylasGrantId!, params.folder_id);
-
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'delete_folder',
-      status: 'success',
-      input: { folderId: params.folder_id },
-    });
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
+    await provider.deleteFolder(params.folder_id);
 
     return { success: true };
   } catch (error) {
@@ -394,19 +569,20 @@ export async function deleteFolder(params: {
 // ===========================================
 export async function moveEmailToFolder(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   folder_name: string;
   create_if_missing?: boolean;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
     // Find folder by name
-    let folder = await nylasLib.findFolderByName(tenant.nylasGrantId!, params.folder_name);
+    let folder = await findFolderByName(provider, params.folder_name);
 
     // Create folder if it doesn't exist and create_if_missing is true
     if (!folder && params.create_if_missing) {
-      folder = await nylasLib.createFolder(tenant.nylasGrantId!, params.folder_name);
+      folder = await provider.createFolder(params.folder_name);
     }
 
     if (!folder) {
@@ -417,16 +593,10 @@ export async function moveEmailToFolder(params: {
     }
 
     // Move the email
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    await provider.updateMessage(params.email_id, {
       folders: [folder.id],
     });
-
-    await logActivity({
-      tenantId: tenant.id,
-      action: 'move_email_to_folder',
-      status: 'success',
-      input: { emailId: params.email_id, folderName: params.folder_name },
-    });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { folderIds: [folder.id] }).catch(() => {});
 
     return {
       success: true,
@@ -446,22 +616,24 @@ export async function moveEmailToFolder(params: {
 // ===========================================
 export async function addEmailToFolders(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   folder_ids: string[];
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
     // Get current folders
-    const message = await nylasLib.getMessage(tenant.nylasGrantId!, params.email_id);
-    const currentFolders = message.folders || [];
+    const message = await provider.getMessage(params.email_id);
+    const currentFolders = message.folders;
 
     // Merge with new folders (remove duplicates)
     const allFolders = [...new Set([...currentFolders, ...params.folder_ids])];
 
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    await provider.updateMessage(params.email_id, {
       folders: allFolders,
     });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { folderIds: allFolders }).catch(() => {});
 
     return {
       success: true,
@@ -477,18 +649,19 @@ export async function addEmailToFolders(params: {
 // ===========================================
 export async function removeEmailFromFolder(params: {
   tenant_id: string;
+  account_id?: string;
   email_id: string;
   folder_id: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
+    const { account, provider } = await getMailProvider(params.tenant_id, params.account_id);
 
     // Get current folders
-    const message = await nylasLib.getMessage(tenant.nylasGrantId!, params.email_id);
-    const currentFolders = message.folders || [];
+    const message = await provider.getMessage(params.email_id);
+    const currentFolders = message.folders;
 
     // Remove the specified folder
-    const newFolders = currentFolders.filter((f: string) => f !== params.folder_id);
+    const newFolders = currentFolders.filter(f => f !== params.folder_id);
 
     if (newFolders.length === 0) {
       return {
@@ -497,9 +670,10 @@ export async function removeEmailFromFolder(params: {
       };
     }
 
-    await nylasLib.updateMessage(tenant.nylasGrantId!, params.email_id, {
+    await provider.updateMessage(params.email_id, {
       folders: newFolders,
     });
+    await updateCachedMessage(account.tenantId, provider.mailboxId, params.email_id, { folderIds: newFolders }).catch(() => {});
 
     return {
       success: true,
@@ -516,11 +690,12 @@ export async function removeEmailFromFolder(params: {
 // ===========================================
 export async function getFolderByName(params: {
   tenant_id: string;
+  account_id?: string;
   folder_name: string;
 }) {
   try {
-    const tenant = await getTenantWithGrant(params.tenant_id);
-    const folder = await nylasLib.findFolderByName(tenant.nylasGrantId!, params.folder_name);
+    const { provider } = await getMailProvider(params.tenant_id, params.account_id);
+    const folder = await findFolderByName(provider, params.folder_name);
 
     if (!folder) {
       return {
@@ -3,57 +3,19 @@
 // Tools for Google Calendar integration
 // ===========================================
 
-import { db } from '../lib/db.js';
+import { getFreshCredentials } from '../lib/tokenManager.js';
 import { googleCalendarIntegration } from '../integrations/google-calendar/index.js';
 
 // Helper to get credentials for a tenant
 async function getCredentials(tenantId: string) {
-  const creds = await db.integrationCredential.findFirst({
-    where: {
-      tenantId,
-      integrationId: 'google_calendar',
-      isActive: true,
-    },
-    orderBy: { isPrimary: 'desc' },
-  });
-
-  if (!creds || !creds.accessToken) {
-    throw new Error('Google Calendar not connected. Please connect in settings.');
-  }
-
-  // Check if token is expired and needs refresh
-  if (creds.expiresAt && creds.expiresAt < new Date() && creds.refreshToken) {
-    try {
-      const refreshed = await googleCalendarIntegration.refreshToken({
-        integrationId: 'google_calendar',
-        tenantId,
-        accessToken: creds.accessToken,
-        refreshToken: creds.refreshToken,
-        expiresAt: creds.expiresAt,
-      });
-
-      // Update in database
-      await db.integrationCredential.update({
-        where: { id: creds.id },
-        data: {
-          accessToken: refreshed.accessToken,
-          expiresAt: refreshed.expiresAt,
-        },
-      });
-
-      return refreshed;
-    } catch {
-      throw new Error('Google Calendar token expired. Please reconnect.');
-    }
+  // Primary connection, refreshed ahead of expiry (shared with concurrent calls)
+  const result = await getFreshCredentials(googleCalendarIntegration, tenantId);
+  if (!result.success) {
+    if (result.errorCode === 'TOKEN_EXPIRED') throw new Error('Google Calendar token expired. Please reconnect.');
+    if (result.errorCode === 'NO_CONNECTION') throw new Error('Google Calendar not connected. Please connect in settings.');
+    throw new Error(result.error);
   }
-
-  return {
-    integrationId: 'google_calendar',
-    tenantId,
-    accessToken: creds.accessToken,
-    refreshToken: creds.refreshToken || undefined,
-    expiresAt: creds.expiresAt || undefined,
-  };
+  return result.credentials;
 }
 
 // ===========================================
@@ -0,0 +1,245 @@
+// ===========================================
+// TOOL REGISTRY
+// Local tool handlers shared by /call and the MCP endpoint
+// Anything else is routed to the integration registry
+// ===========================================
+
+import {
+  integrationRegistry,
+  Integration,
+  ToolDefinition,
+  ToolResult,
+} from '../integrations/index.js';
+import { getTenant } from '../lib/db.js';
+import { getFreshCredentials } from '../lib/tokenManager.js';
+import { trackUsageAsync, trackPlatformUsageAsync } from '../lib/usage.js';
+import { logToolCallAsync, ActivityContext } from '../lib/activity.js';
+import { localToolDefinitions } from './definitions.js';
+
+import * as emailTools from './emails.js';
+import * as calendarTools from './calendar.js';
+import * as contactTools from './contacts.js';
+import * as aiTools from './ai.js';
+import * as googleCalendarTools from './google-calendar.js';
+import * as calComTools from './cal-com.js';
+import * as dialpadTools from './dialpad.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ToolHandler = (params: any) => Promise<unknown>;
+
+export const tools: Record<string, ToolHandler> = {
+  // Email
+  list_emails: emailTools.listEmails,
+  get_email: emailTools.getEmail,
+  send_email: emailTools.sendEmail,
+  move_email: emailTools.moveEmail,
+  mark_read: emailTools.markRead,
+  star_email: emailTools.starEmail,
+  trash_email: emailTools.trashEmail,
+  search_emails: emailTools.searchEmails,
+  list_folders: emailTools.listFolders,
+
+  // Folder Management
+  get_folder: emailTools.getFolder,
+  create_folder: emailTools.createFolder,
+  update_folder: emailTools.updateFolder,
+  delete_folder: emailTools.deleteFolder,
+  get_folder_by_name: emailTools.getFolderByName,
+  move_email_to_folder: emailTools.moveEmailToFolder,
+  add_email_to_folders: emailTools.addEmailToFolders,
+  remove_email_from_folder: emailTools.removeEmailFromFolder,
+
+  // Calendar
+  list_calendars: calendarTools.listCalendars,
+  list_events: calendarTools.listEvents,
+  get_event: calendarTools.getEvent,
+  create_event: calendarTools.createEvent,
+  delete_event: calendarTools.deleteEvent,
+  check_availability: calendarTools.checkAvailability,
+
+  // Contacts
+  list_contacts: contactTools.listContacts,
+  get_contact: contactTools.getContact,
+  create_contact: contactTools.createContact,
+  search_contacts: contactTools.searchContacts,
+
+  // AI
+  draft_reply: aiTools.draftReply,
+  summarize_thread: aiTools.summarizeThread,
+  extract_action_items: aiTools.extractActionItems,
+  smart_compose: aiTools.smartCompose,
+
+  // Google Calendar
+  gcal_list_calendars: googleCalendarTools.gcalListCalendars,
+  gcal_list_events: googleCalendarTools.gcalListEvents,
+  gcal_create_event: googleCalendarTools.gcalCreateEvent,
+  gcal_update_event: googleCalendarTools.gcalUpdateEvent,
+  gcal_delete_event: googleCalendarTools.gcalDeleteEvent,
+  gcal_get_freebusy: googleCalendarTools.gcalGetFreeBusy,
+
+  // Cal.com
+  calcom_list_event_types: calComTools.calcomListEventTypes,
+  calcom_list_bookings: calComTools.calcomListBookings,
+  calcom_get_booking: calComTools.calcomGetBooking,
+  calcom_cancel_booking: calComTools.calcomCancelBooking,
+  calcom_get_availability: calComTools.calcomGetAvailability,
+  calcom_create_booking: calComTools.calcomCreateBooking,
+  calcom_reschedule_booking: calComTools.calcomRescheduleBooking,
+  calcom_list_schedules: calComTools.calcomListSchedules,
+
+  // Dialpad
+  dialpad_list_calls: dialpadTools.dialpadListCalls,
+  dialpad_get_call: dialpadTools.dialpadGetCall,
+  dialpad_list_contacts: dialpadTools.dialpadListContacts,
+  dialpad_create_contact: dialpadTools.dialpadCreateContact,
+  dialpad_search_contacts: dialpadTools.dialpadSearchContacts,
+  dialpad_list_users: dialpadTools.dialpadListUsers,
+  dialpad_get_user: dialpadTools.dialpadGetUser,
+  dialpad_list_recordings: dialpadTools.dialpadListRecordings,
+  dialpad_get_call_stats: dialpadTools.dialpadGetCallStats,
+  dialpad_send_sms: dialpadTools.dialpadSendSms,
+};
+
+// ===========================================
+// TOOL DEFINITIONS
+// ===========================================
+
+// Integrations whose tools are wrapped by local handlers above
+const WRAPPED_INTEGRATIONS = ['google_calendar', 'cal_com', 'dialpad'];
+
+/**
+ * Get definitions for every callable tool
+ * Local handlers win over integration definitions with the same name
+ */
+export function getToolDefinitions(): ToolDefinition[] {
+  const definitions = new Map<string, ToolDefinition>();
+
+  for (const def of localToolDefinitions) {
+    definitions.set(def.name, def);
+  }
+
+  for (const integrationId of WRAPPED_INTEGRATIONS) {
+    for (const def of integrationRegistry.get(integrationId)?.getTools() || []) {
+      if (!definitions.has(def.name)) definitions.set(def.name, def);
+    }
+  }
+
+  for (const def of integrationRegistry.getAllTools()) {
+    if (!definitions.has(def.name)) definitions.set(def.name, def);
+  }
+
+  return Array.from(definitions.values());
+}
+
+/**
+ * Get the definition for any callable tool, configured or not
+ */
+export function getToolDefinition(toolName: string): ToolDefinition | undefined {
+  return (
+    localToolDefinitions.find(def => def.name === toolName) ||
+    integrationRegistry.getTool(toolName)?.tool
+  );
+}
+
+// ===========================================
+// TOOL EXECUTION
+// ===========================================
+
+/**
+ * Integration a tool belongs to, used for usage attribution
+ */
+function getToolIntegrationId(toolName: string): string {
+  const local = localToolDefinitions.find(def => def.name === toolName);
+  if (local) return local.integration;
+
+  return integrationRegistry.getTool(toolName)?.integration.config.id || 'nylas';
+}
+
+/**
+ * Execute a registry integration tool with the tenant's resolved credentials
+ */
+async function callIntegrationTool(
+  integration: Integration,
+  toolName: string,
+  params: Record<string, unknown>,
+  tenantId: string | undefined
+): Promise<ToolResult & { errorCode?: string }> {
+  if (!tenantId) {
+    return { success: false, error: 'tenant_id is required' };
+  }
+
+  const tenant = await getTenant(tenantId);
+  const resolved = await getFreshCredentials(integration, tenant.id, params.account_email as string | undefined);
+  if (!resolved.success) {
+    return { success: false, error: resolved.error, errorCode: resolved.errorCode };
+  }
+
+  return integration.executeTool(toolName, params, resolved.credentials);
+}
+
+/**
+ * Execute a tool and record usage and activity for the tenant
+ * Local handlers run first; other tools go through the integration registry
+ * Throws if the tool is unknown or the handler throws
+ */
+export async function callTool(
+  toolName: string,
+  params: Record<string, unknown>,
+  tenantId?: string,
+  context?: ActivityContext
+): Promise<unknown> {
+  const usageTenantId = tenantId || (params.tenant_id as string | undefined);
+  const handler = tools[toolName] as ToolHandler | undefined;
+  const registered = handler ? undefined : integrationRegistry.getTool(toolName);
+
+  if (!handler && !registered) {
+    throw new Error(`Unknown tool: ${toolName}`);
+  }
+
+  const integrationId = getToolIntegrationId(toolName);
+  const startTime = Date.now();
+  const logCall = (outcome: { result?: unknown; error?: unknown }) => {
+    if (!usageTenantId) return;
+    logToolCallAsync({
+      tenantId: usageTenantId,
+      tool: toolName,
+      integrationId,
+      params,
+      redaction: getToolDefinition(toolName)?.redaction,
+      duration: Date.now() - startTime,
+      context,
+      ...outcome,
+    });
+  };
+
+  let result: unknown;
+  try {
+    result = handler
+      ? await handler(params)
+      : await callIntegrationTool(registered!.integration, toolName, params, usageTenantId);
+  } catch (error) {
+    logCall({ error });
+    throw error;
+  }
+  logCall({ result });
+
+  // Track usage if tenant is known and the call reached a provider
+  const unresolved = !handler && !!(result as { errorCode?: string }).errorCode;
+  if (usageTenantId && !unresolved) {
+    // Track general usage
+    trackUsageAsync({ tenantId: usageTenantId, integrationId, tool: toolName });
+
+    // Track platform usage for INCLUDED integrations (with cost calculation),
+    // plus whatever the integration metered (tokens, minutes, segments...)
+    const metered = (result as ToolResult | undefined)?.metadata?.units;
+    trackPlatformUsageAsync({
+      tenantId: usageTenantId,
+      integrationId,
+      operation: toolName,
+      units: { ...metered, call: 1 },
+      metadata: { tool: toolName, timestamp: new Date().toISOString() },
+    });
+  }
+
+  return result;
+}